@@ -112,7 +112,8 @@ describe('BattleController', () => {
     });
 
     it('determines winner by score when all processes terminated', () => {
-      const process1 = processManager.create(defaultProcessOptions);
+      // A longer quantum lets the first process execute more cycles
+      const process1 = processManager.create({ ...defaultProcessOptions, quantum: 4 });
       const process2 = processManager.create({
         ...defaultProcessOptions,
         name: 'test-process-2'
@@ -132,8 +133,36 @@ describe('BattleController', () => {
 
       expect(controller.checkVictory()).toBe(true);
       const state = controller.getState();
-      expect(state.winner).not.toBeNull();
-      expect(state.scores.get(state.winner!)).toBeGreaterThan(0);
+      expect(state.winner).toBe(process1);
+      expect(state.scores.get(process1)).toBeGreaterThan(state.scores.get(process2)!);
+    });
+  });
+
+  describe('getWarriorInfo() and getTeamInfo()', () => {
+    it('aggregates processes per warrior and warriors per team', () => {
+      const bot1 = processManager.create({ ...defaultProcessOptions, name: 'bot-1', team: 'red' });
+      const bot2 = processManager.create({ ...defaultProcessOptions, name: 'bot-2', team: 'blue' });
+      const bot3 = processManager.create({ ...defaultProcessOptions, name: 'bot-3', team: 'red' });
+      const child = processManager.create({ ...defaultProcessOptions, name: 'bot-1_child', warrior: bot1, team: 'red' });
+      [bot1, bot2, bot3, child].forEach(id => controller.addProcess(id));
+      controller.start();
+      controller.nextTurn();
+      processManager.terminate(child);
+
+      const scores = controller.getState().scores;
+      const warriors = controller.getWarriorInfo();
+      expect(warriors.map(w => [w.id, w.name, w.team, w.processes, w.running])).toEqual([
+        [bot1, 'bot-1', 'red', 2, 1],
+        [bot2, 'bot-2', 'blue', 1, 1],
+        [bot3, 'bot-3', 'red', 1, 1]
+      ]);
+      expect(warriors[0].score).toBe(scores.get(bot1)! + scores.get(child)!);
+      expect(controller.getProcessInfo(child)).toMatchObject({ warrior: bot1, team: 'red' });
+
+      expect(controller.getTeamInfo()).toEqual([
+        { team: 'red', warriors: [bot1, bot3], running: 2, score: warriors[0].score + warriors[2].score },
+        { team: 'blue', warriors: [bot2], running: 1, score: warriors[1].score }
+      ]);
     });
   });
 
@@ -173,6 +202,21 @@ describe('BattleController', () => {
     });
   });
 
+  describe('getBattleResults()', () => {
+    it('records the battle seed', () => {
+      const seeded = new BattleController(processManager, { ...defaultBattleOptions, seed: 1234 });
+
+      expect(seeded.getBattleResults().seed).toBe(1234);
+    });
+
+    it('generates a seed when none is given', () => {
+      const seed = controller.getBattleResults().seed;
+
+      expect(Number.isInteger(seed)).toBe(true);
+      expect(controller.getBattleResults().seed).toBe(seed);
+    });
+  });
+
   describe('battle initialization', () => {
     it('requires minimum two processes', () => {
       const process1 = processManager.create(defaultProcessOptions);
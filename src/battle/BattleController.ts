@@ -1,5 +1,11 @@
 import { ProcessManager } from './ProcessManager.js';
-import { ProcessId, Process, ProcessState } from './types.js';
+import { ProcessId, Process, ProcessState, WarriorId, SchedulingMode } from './types.js';
+import { CellWidth } from '../memory/MemorySystem.js';
+import { SeededRandom } from './SeededRandom.js';
+import { PlacementStrategy } from './Placement.js';
+import { Logger, LogLevel, defaultLogger } from './Logger.js';
+import { SourceResolver } from '../parser/SourceResolver.js';
+import { VictoryRule, VictoryContext, LastSurvivorRule } from './Victory.js';
 
 export interface BattleState {
   id: string;
@@ -7,7 +13,9 @@ export interface BattleState {
   turn: number;
   maxTurns: number;
   processes: ProcessId[];
-  winner: ProcessId | null;
+  winner: WarriorId | null;       // For a team, its first warrior
+  winningTeam: string | null;
+  draw: WarriorId[] | null;       // Warriors that tied, when the battle ended in a draw
   startTime: number;
   endTime: number | null;
   scores: Map<ProcessId, number>;
@@ -21,29 +29,78 @@ export interface ExecutionLog {
   pc: number;
 }
 
+/**
+ * A warrior's processes (the bot and its spl children) taken together
+ */
+export interface WarriorInfo {
+  id: WarriorId;
+  name: string;
+  owner: string;
+  team: string | null;
+  processes: number;
+  running: number;  // Processes not terminated
+  score: number;    // Cycles executed by all its processes
+}
+
+export interface TeamInfo {
+  team: string;
+  warriors: WarriorId[];
+  running: number;
+  score: number;
+}
+
 export interface BattleOptions {
   maxTurns: number;
   maxCyclesPerTurn: number;
   maxMemoryPerProcess: number;
   maxLogEntries?: number;
-  memorySize?: number;     // Total memory size for the battle
+  memorySize?: number;     // Total memory size for the battle, in cells
+  cellWidth?: CellWidth;   // Bits per memory cell: 8 (bytes, default) or 16 (words)
   coreDump?: boolean;      // Whether to dump core memory on crash
   cycleLimit?: number;     // Maximum cycles a process can execute
   timeLimit?: number;      // Maximum time in milliseconds for the battle
   roundRobin?: boolean;    // Whether to use round-robin scheduling
+  scheduling?: SchedulingMode;     // Overrides roundRobin when set
+  maxProcessesPerWarrior?: number; // Live processes a warrior may have (default: no limit)
+  seed?: number;           // Seed for all engine randomness; generated when omitted
+  placement?: PlacementStrategy; // Where bots are loaded (default: random)
+  minDistance?: number;    // Free cells required between bots (default: DEFAULT_MIN_DISTANCE)
+  logger?: Logger;         // Engine logging (default: warnings and errors to the console)
+  fastMode?: boolean;      // Throughput over observability: no execution log, cached decoding
+  resolver?: SourceResolver; // Where bots' includes are read from (default: the bots directory)
+  victory?: VictoryRule;     // When the battle ends and who wins (default: LastSurvivorRule)
+  pspaceSize?: number;       // P-space slots per warrior that BattleRunner keeps across rounds (default: none)
 }
 
+/**
+ * Defaults for every way of running a battle: BattleRunner (the CLI's battle
+ * command) and battle jobs (match, tournament and hill rounds). A battle's
+ * seed then replays it the same way through any of them.
+ */
+export const DEFAULT_BATTLE_OPTIONS: BattleOptions = {
+  maxTurns: 1000,
+  maxCyclesPerTurn: 100,
+  maxMemoryPerProcess: 4096
+};
+
 export class BattleController {
   private state: BattleState;
   private processManager: ProcessManager;
   private options: BattleOptions;
+  private logger: Logger;
+  private victory: VictoryRule;
+  private processesRun: Set<ProcessId>; // Reused across turns
 
   constructor(processManager: ProcessManager, options: BattleOptions) {
     this.processManager = processManager;
     this.options = {
       ...options,
-      maxLogEntries: options.maxLogEntries || 1000
+      maxLogEntries: options.maxLogEntries || 1000,
+      seed: options.seed ?? SeededRandom.generateSeed()
     };
+    this.logger = options.logger ?? defaultLogger;
+    this.victory = options.victory ?? new LastSurvivorRule();
+    this.processesRun = new Set();
     this.state = this.createInitialState();
   }
 
@@ -55,6 +112,8 @@ export class BattleController {
       maxTurns: this.options.maxTurns,
       processes: [],
       winner: null,
+      winningTeam: null,
+      draw: null,
       startTime: Date.now(),
       endTime: null,
       scores: new Map(),
@@ -75,7 +134,7 @@ export class BattleController {
     
     // Log when a process is added during runtime
     if (this.state.status === 'running') {
-      console.log(`Process ${processId} added to running battle at turn ${this.state.turn}`);
+      this.logger.debug('battle', `Process ${processId} added to running battle at turn ${this.state.turn}`);
     }
   }
 
@@ -120,24 +179,25 @@ export class BattleController {
     }
 
     if (this.state.turn >= this.state.maxTurns) {
-      console.log(`Reached maximum turns (${this.state.maxTurns})`);
+      this.logger.info('battle', `Reached maximum turns (${this.state.maxTurns})`);
+      this.checkVictory();
       this.endBattle();
       return false;
     }
 
     // Execute each process for their turn
     let cyclesThisTurn = 0;
-    let processesRun = new Set<ProcessId>();
+    const processesRun = this.processesRun;
+    processesRun.clear();
+    const fastMode = this.options.fastMode === true;
     
     // Get active processes
-    const activeProcessCount = this.state.processes.filter(pid => {
-      const process = this.processManager.getProcess(pid);
-      return process.context.state !== ProcessState.Terminated;
-    }).length;
+    const activeProcessCount = this.countActiveProcesses();
     
     // If no active processes, end the battle
     if (activeProcessCount === 0) {
-      console.log("No active processes remaining - ending battle");
+      this.logger.info('battle', 'No active processes remaining - ending battle');
+      this.checkVictory();
       this.endBattle();
       return false;
     }
@@ -150,8 +210,8 @@ export class BattleController {
     // First, ensure all processes get at least one cycle
     let allProcessesScheduled = false;
     
-    // Track how many cycles each process has used in this turn
-    const cyclesPerProcess = new Map<ProcessId, number>();
+    // Track how many cycles each process has used in this turn (for debug output)
+    const cyclesPerProcess = fastMode ? null : new Map<ProcessId, number>();
     
     // Run until we hit max cycles or all processes have run enough cycles
     while (cyclesThisTurn < this.options.maxCyclesPerTurn) {
@@ -162,16 +222,20 @@ export class BattleController {
         break;
       }
 
-      // Track cycles per process
-      const processCurrentCycles = cyclesPerProcess.get(runningProcess) || 0;
-      cyclesPerProcess.set(runningProcess, processCurrentCycles + 1);
+      // Fast mode keeps the cycle free of allocations: no execution log and
+      // no per-cycle log messages
+      if (cyclesPerProcess !== null) {
+        // Track cycles per process
+        const processCurrentCycles = cyclesPerProcess.get(runningProcess) || 0;
+        cyclesPerProcess.set(runningProcess, processCurrentCycles + 1);
 
-      // Log execution
-      const process = this.processManager.getProcess(runningProcess);
-      this.logExecution(runningProcess, process);
+        // Log execution
+        const process = this.processManager.getProcess(runningProcess);
+        this.logExecution(runningProcess, process);
 
-      // Debug - log which process is being scheduled (now more concise)
-      console.log(`[Turn ${this.state.turn}] Bot ${runningProcess} (${process.name}) - Cycle ${cyclesThisTurn+1}`);
+        // Debug - log which process is being scheduled (now more concise)
+        this.logger.debug('scheduler', () => `[Turn ${this.state.turn}] Bot ${runningProcess} (${process.name}) - Cycle ${cyclesThisTurn+1}`);
+      }
 
       // Emit pre-execution event (if implemented)
       this.onBeforeExecution?.(runningProcess);
@@ -207,11 +271,11 @@ export class BattleController {
       }
       
       // After each cycle, output the cycle count status for all processes
-      if (cyclesThisTurn % 5 === 0) {
-        console.log("Cycles per process in this turn:");
+      if (cyclesPerProcess !== null && cyclesThisTurn % 5 === 0 && this.logger.isEnabled(LogLevel.Debug, 'scheduler')) {
+        this.logger.debug('scheduler', 'Cycles per process in this turn:');
         cyclesPerProcess.forEach((cycles, pid) => {
           const p = this.processManager.getProcess(pid);
-          console.log(`- Process ${pid} (${p.name}): ${cycles} cycles`); 
+          this.logger.debug('scheduler', `- Process ${pid} (${p.name}): ${cycles} cycles`);
         });
       }
     }
@@ -220,13 +284,13 @@ export class BattleController {
     this.state.turn++;
 
     // Debug output on some turns
-    if (this.state.turn % 10 === 0) {
+    if (this.state.turn % 10 === 0 && this.logger.isEnabled(LogLevel.Info, 'battle')) {
       const activeProcesses = this.state.processes.filter(pid => {
         const process = this.processManager.getProcess(pid);
         return process.context.state !== ProcessState.Terminated;
       });
       
-      console.log(`Turn ${this.state.turn} completed: ${activeProcesses.length} active processes, ${cyclesThisTurn} cycles executed`);
+      this.logger.info('battle', `Turn ${this.state.turn} completed: ${activeProcesses.length} active processes, ${cyclesThisTurn} cycles executed`);
     }
 
     // Check victory conditions after each turn
@@ -242,6 +306,9 @@ export class BattleController {
   public onBeforeExecution?: (processId: ProcessId) => void;
   public onAfterExecution?: (processId: ProcessId) => void;
 
+  // Memory ownership for victory rules that need it, set by BattleSystem
+  public getMemoryOwners?: () => Uint16Array;
+
   private logExecution(processId: ProcessId, process: Process): void {
     const log: ExecutionLog = {
       timestamp: Date.now(),
@@ -258,74 +325,44 @@ export class BattleController {
     }
   }
 
-  checkVictory(): boolean {
-    // Count active processes
-    const activeProcesses = this.state.processes.filter(pid => {
-      const process = this.processManager.getProcess(pid);
-      return process.context.state !== ProcessState.Terminated;
-    });
-
-    // If only one process remains active, it's the winner
-    if (activeProcesses.length === 1) {
-      this.state.winner = activeProcesses[0];
-      return true;
-    }
-
-    // If no processes are active or max turns reached, winner is the one with highest score
-    if (activeProcesses.length === 0 || this.state.turn >= this.state.maxTurns) {
-      this.determineWinnerByScore();
-      return true;
+  private countActiveProcesses(): number {
+    let count = 0;
+    for (const pid of this.state.processes) {
+      if (this.processManager.getProcess(pid).context.state !== ProcessState.Terminated) {
+        count++;
+      }
     }
-
-    return false;
+    return count;
   }
 
-  private determineWinnerByScore(): void {
-    let highestScore = -1;
-    let lastActiveProcess: ProcessId | null = null;
-    let highestScoringProcess: ProcessId | null = null;
-
-    // First check if any processes are still active
-    const activeProcesses = this.state.processes.filter(pid => {
-      const process = this.processManager.getProcess(pid);
-      return process.context.state !== ProcessState.Terminated;
-    });
-
-    if (activeProcesses.length === 1) {
-      // Only one active process - it's the winner
-      this.state.winner = activeProcesses[0];
-      return;
-    }
-
-    // If all processes terminated in the same turn, use the score to determine winner
-    this.state.scores.forEach((score, processId) => {
-      const process = this.processManager.getProcess(processId);
-      
-      // Track the last active process (the one that survived the longest)
-      if (process.lastRun > 0) {
-        if (lastActiveProcess === null || 
-            process.lastRun > this.processManager.getProcess(lastActiveProcess).lastRun) {
-          lastActiveProcess = processId;
+  /**
+   * Ask the victory rule whether the battle is over, recording the winner or
+   * the draw if it is
+   */
+  checkVictory(): boolean {
+    const context: VictoryContext = {
+      processes: this.state.processes,
+      scores: this.state.scores,
+      turn: this.state.turn,
+      maxTurns: this.state.maxTurns,
+      getProcess: id => this.processManager.getProcess(id),
+      getMemoryOwners: () => {
+        if (!this.getMemoryOwners) {
+          throw new Error(`Victory rule ${this.victory.name} needs memory ownership, which this battle does not track`);
         }
+        return this.getMemoryOwners();
       }
-      
-      // Also track the highest scoring process
-      if (score > highestScore) {
-        highestScore = score;
-        highestScoringProcess = processId;
-      }
-    });
+    };
+    const decision = this.victory.judge(context);
+    if (decision === null) {
+      return false;
+    }
 
-    // Prefer the process that survived longest, but if they all terminated at the same time,
-    // use the highest scoring one
-    this.state.winner = lastActiveProcess !== null ? lastActiveProcess : highestScoringProcess;
-    
-    console.log("Winner determination:", {
-      activeProcesses: activeProcesses.length,
-      lastActiveProcess,
-      highestScoringProcess,
-      winner: this.state.winner
-    });
+    this.state.winner = decision.type === 'win' ? decision.winner : null;
+    this.state.winningTeam = decision.type === 'win' ? decision.team : null;
+    this.state.draw = decision.type === 'draw' ? decision.warriors : null;
+    this.logger.debug('battle', () => `Victory (${this.victory.name}): ${JSON.stringify(decision)}`);
+    return true;
   }
 
   private endBattle(): void {
@@ -355,9 +392,21 @@ export class BattleController {
 
   loadState(serializedState: string): void {
     const parsed = JSON.parse(serializedState);
-    this.state = {
+    this.restoreState({
       ...parsed,
       scores: new Map(parsed.scores)
+    });
+  }
+
+  /**
+   * Replace the battle's progress, e.g. with a battle run in another thread.
+   * Its processes must exist in the process manager.
+   */
+  restoreState(state: BattleState): void {
+    this.state = {
+      ...state,
+      processes: [...state.processes],
+      scores: new Map(state.scores)
     };
   }
 
@@ -372,18 +421,24 @@ export class BattleController {
   }
 
   public getBattleResults(): {
-    winner: ProcessId | null;
+    winner: WarriorId | null;
+    winningTeam: string | null;
+    draw: WarriorId[] | null;
     scores: Map<ProcessId, number>;
     duration: number;
     turns: number;
+    seed: number;
   } {
     return {
       winner: this.state.winner,
+      winningTeam: this.state.winningTeam,
+      draw: this.state.draw,
       scores: new Map(this.state.scores),
       duration: this.state.endTime 
         ? this.state.endTime - this.state.startTime 
         : Date.now() - this.state.startTime,
-      turns: this.state.turn
+      turns: this.state.turn,
+      seed: this.options.seed!
     };
   }
 
@@ -391,6 +446,8 @@ export class BattleController {
     id: ProcessId;
     name: string;
     owner: string;
+    warrior: WarriorId;
+    team: string | null;
     cycles: number;
     state: ProcessState;
     memoryUsed: number;
@@ -400,6 +457,8 @@ export class BattleController {
       id: process.id,
       name: process.name,
       owner: process.owner,
+      warrior: process.warrior,
+      team: process.team,
       cycles: process.cyclesUsed,
       state: process.context.state,
       memoryUsed: process.memoryUsed
@@ -410,10 +469,57 @@ export class BattleController {
     id: ProcessId;
     name: string;
     owner: string;
+    warrior: WarriorId;
+    team: string | null;
     cycles: number;
     state: ProcessState;
     memoryUsed: number;
   }> {
     return this.state.processes.map(id => this.getProcessInfo(id));
   }
-}
\ No newline at end of file
+
+  /**
+   * The battle's warriors, in the order they joined
+   */
+  public getWarriorInfo(): WarriorInfo[] {
+    const warriors = new Map<WarriorId, WarriorInfo>();
+    for (const id of this.state.processes) {
+      const process = this.processManager.getProcess(id);
+      let warrior = warriors.get(process.warrior);
+      if (!warrior) {
+        // Named after the bot, whose first process is the warrior
+        const bot = process.warrior === id ? process : this.processManager.getProcess(process.warrior);
+        warrior = { id: process.warrior, name: bot.name, owner: bot.owner, team: process.team, processes: 0, running: 0, score: 0 };
+        warriors.set(process.warrior, warrior);
+      }
+      warrior.processes++;
+      if (process.context.state !== ProcessState.Terminated) {
+        warrior.running++;
+      }
+      warrior.score += this.state.scores.get(id) ?? 0;
+    }
+    return [...warriors.values()];
+  }
+
+  /**
+   * The battle's teams, in the order they joined. Warriors without a team
+   * are not listed.
+   */
+  public getTeamInfo(): TeamInfo[] {
+    const teams = new Map<string, TeamInfo>();
+    for (const warrior of this.getWarriorInfo()) {
+      if (warrior.team === null) {
+        continue;
+      }
+      let team = teams.get(warrior.team);
+      if (!team) {
+        team = { team: warrior.team, warriors: [], running: 0, score: 0 };
+        teams.set(warrior.team, team);
+      }
+      team.warriors.push(warrior.id);
+      team.running += warrior.running;
+      team.score += warrior.score;
+    }
+    return [...teams.values()];
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Core Wars Battle Jobs
+ * Battles run away from the caller's thread: the job protocol shared by the
+ * battle pool and its workers, the runner that executes a job, and the
+ * state diffs it streams back.
+ */
+
+import { BattleSystem, BattleSnapshot } from './BattleSystem.js';
+import { BattleOptions, BattleState, DEFAULT_BATTLE_OPTIONS } from './BattleController.js';
+import { ProcessId, ProcessSnapshot, WarriorId } from './types.js';
+import { silentLogger } from './Logger.js';
+import { SeededRandom } from './SeededRandom.js';
+import { InMemoryResolver } from '../parser/SourceResolver.js';
+import { MemoryCells } from '../memory/MemorySystem.js';
+import { VictoryRuleName, createVictoryRule } from './Victory.js';
+import { PSpace, recordRoundResults } from './PSpace.js';
+
+export interface BattleJobBot {
+  name: string;
+  code: string;
+  owner: string;
+  team?: string;
+}
+
+/**
+ * Battle options that can cross a thread boundary
+ */
+export type BattleJobOptions = Partial<Omit<BattleOptions, 'logger' | 'placement' | 'resolver' | 'victory'>>;
+
+export interface BattleJobRequest {
+  bots?: BattleJobBot[];             // Bots to assemble and place, in order
+  includes?: Record<string, string>; // Files the bots may include, by name
+  snapshot?: BattleSnapshot;         // Or a battle to continue
+  options?: BattleJobOptions;        // Merged over DEFAULT_JOB_OPTIONS
+  victory?: VictoryRuleName;         // Victory rule (default: last-survivor)
+  pspaces?: number[][];              // With bots: each one's P-space slots, e.g. from the previous round's result
+  cpuTimeLimit?: number;             // Milliseconds of execution before the battle is stopped
+  updateInterval?: number;           // Milliseconds between diffs (default 50)
+}
+
+/**
+ * Changes since the previous diff (for the first one, since an empty core
+ * or the request's snapshot)
+ */
+export interface BattleDiff {
+  turn: number;
+  status: BattleState['status'];
+  winner: WarriorId | null;
+  winningTeam: string | null;
+  draw: WarriorId[] | null;
+  scores: Array<[ProcessId, number]>;  // Every process's score
+  processes: ProcessSnapshot[];        // New processes and ones whose state, PC or cycles changed
+  memory: number[];                    // Changed cells as address, value, owner triples
+}
+
+export type BattleJobOutcome =
+  | 'completed'   // The battle ended by its own rules
+  | 'cancelled'   // Stopped on request
+  | 'cpu-limit';  // Stopped after using its CPU time
+
+export interface BattleJobResult {
+  outcome: BattleJobOutcome;
+  winner: WarriorId | null;
+  winningTeam: string | null;
+  draw: WarriorId[] | null;  // Warriors that tied, for a completed draw
+  warriors: WarriorId[];     // Warrior of each request bot, in order; empty for a snapshot or a battle cancelled before it reported
+  turns: number;
+  scores: Array<[ProcessId, number]>;
+  seed: number;
+  cpuTime: number;  // Milliseconds spent executing the battle
+  pspaces?: number[][];  // The request's P-spaces after the battle, with each bot's result in slot 0
+}
+
+// Messages from the pool to a worker
+export type BattleWorkerRequest =
+  | { type: 'run'; jobId: string; request: BattleJobRequest }
+  | { type: 'cancel'; jobId: string };
+
+// Messages from a worker to the pool
+export type BattleWorkerMessage =
+  | { type: 'diff'; jobId: string; diff: BattleDiff }
+  | { type: 'result'; jobId: string; result: BattleJobResult }
+  | { type: 'error'; jobId: string; message: string };
+
+// Fast mode only trades the execution log for speed, so jobs play the same battles as BattleRunner
+export const DEFAULT_JOB_OPTIONS: BattleOptions = {
+  ...DEFAULT_BATTLE_OPTIONS,
+  fastMode: true
+};
+
+const DEFAULT_UPDATE_INTERVAL = 50;
+
+/**
+ * Runs one job, posting diffs as it goes and then a result or an error.
+ * Between slices it yields to the event loop, so cancel() takes effect
+ * within one update interval.
+ */
+export class BattleJobRunner {
+  private jobId: string;
+  private request: BattleJobRequest;
+  private post: (message: BattleWorkerMessage) => void;
+  private cancelled: boolean;
+  private lastMemory: MemoryCells | null;
+  private lastOwners: Uint16Array | null;
+  private lastProcesses: Map<ProcessId, ProcessSnapshot>;
+  private warriors: WarriorId[];
+  private pspaces: PSpace[];
+
+  constructor(jobId: string, request: BattleJobRequest, post: (message: BattleWorkerMessage) => void) {
+    this.jobId = jobId;
+    this.request = request;
+    this.post = post;
+    this.cancelled = false;
+    this.lastMemory = null;
+    this.lastOwners = null;
+    this.lastProcesses = new Map();
+    this.warriors = [];
+    this.pspaces = [];
+  }
+
+  public cancel(): void {
+    this.cancelled = true;
+  }
+
+  public async run(): Promise<void> {
+    try {
+      const system = this.createSystem();
+      const controller = system.getBattleController();
+      const updateInterval = this.request.updateInterval ?? DEFAULT_UPDATE_INTERVAL;
+      const cpuTimeLimit = this.request.cpuTimeLimit ?? Infinity;
+      system.start();
+
+      // The thread only runs this battle, so time spent in slices is its CPU time
+      let cpuTime = 0;
+      let running = true;
+      let outcome: BattleJobOutcome;
+      for (;;) {
+        if (this.cancelled) {
+          outcome = 'cancelled';
+          break;
+        }
+
+        const sliceStart = performance.now();
+        do {
+          running = controller.nextTurn();
+        } while (running && performance.now() - sliceStart < updateInterval);
+        cpuTime += performance.now() - sliceStart;
+
+        this.post({ type: 'diff', jobId: this.jobId, diff: this.diff(system) });
+        if (!running) {
+          outcome = 'completed';
+          break;
+        }
+        if (cpuTime >= cpuTimeLimit) {
+          outcome = 'cpu-limit';
+          break;
+        }
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      const results = controller.getBattleResults();
+      if (this.pspaces.length > 0) {
+        const survivors = controller.getWarriorInfo().filter(warrior => warrior.running > 0).map(warrior => warrior.id);
+        const bots = this.request.bots!.map((bot, index) => ({ warrior: this.warriors[index], team: bot.team ?? null }));
+        recordRoundResults(this.pspaces, bots, results, survivors);
+      }
+      this.post({
+        type: 'result',
+        jobId: this.jobId,
+        result: {
+          outcome,
+          winner: results.winner,
+          winningTeam: results.winningTeam,
+          draw: results.draw,
+          warriors: this.warriors,
+          turns: results.turns,
+          scores: Array.from(results.scores.entries()),
+          seed: results.seed,
+          cpuTime,
+          ...(this.pspaces.length > 0 ? { pspaces: this.pspaces.map(pspace => pspace.toArray()) } : {})
+        }
+      });
+    } catch (error) {
+      this.post({ type: 'error', jobId: this.jobId, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private createSystem(): BattleSystem {
+    const { bots, snapshot, includes } = this.request;
+    if (!snapshot && (!bots || bots.length === 0)) {
+      throw new Error('A battle job needs bots or a snapshot');
+    }
+    if (this.request.pspaces && this.request.pspaces.length !== bots?.length) {
+      throw new Error('A battle job with P-spaces needs one for each bot');
+    }
+
+    const options: BattleOptions = {
+      ...DEFAULT_JOB_OPTIONS,
+      ...this.request.options,
+      seed: this.request.options?.seed ?? SeededRandom.generateSeed(),
+      logger: silentLogger,
+      resolver: new InMemoryResolver(includes),
+      victory: this.request.victory ? createVictoryRule(this.request.victory) : undefined
+    };
+    if (snapshot) {
+      options.memorySize = snapshot.memory.length;
+      options.cellWidth = snapshot.memory instanceof Uint16Array ? 16 : 8;
+    }
+
+    const system = new BattleSystem(options);
+    if (snapshot) {
+      system.restoreSnapshot(snapshot);
+      this.lastMemory = snapshot.memory;
+      this.lastOwners = snapshot.owners;
+      for (const process of snapshot.processes) {
+        this.lastProcesses.set(process.id, process);
+      }
+    } else {
+      bots!.forEach((bot, index) => {
+        const warrior = system.loadBotSource(bot.code, bot.name, bot.owner, undefined, bot.team).processId;
+        this.warriors.push(warrior);
+        const slots = this.request.pspaces?.[index];
+        if (slots) {
+          this.pspaces.push(PSpace.fromArray(slots));
+          system.setPSpace(warrior, this.pspaces[index]);
+        }
+      });
+    }
+    return system;
+  }
+
+  private diff(system: BattleSystem): BattleDiff {
+    const memorySystem = system.getMemorySystem();
+    const memory = memorySystem.getMemory();
+    const owners = memorySystem.getOwners();
+    const changedCells: number[] = [];
+    for (let address = 0; address < memory.length; address++) {
+      const value = memory[address];
+      const owner = owners[address];
+      const changed = this.lastMemory
+        ? value !== this.lastMemory[address] || owner !== this.lastOwners![address]
+        : value !== 0 || owner !== 0;
+      if (changed) {
+        changedCells.push(address, value, owner);
+      }
+    }
+    this.lastMemory = memory;
+    this.lastOwners = owners;
+
+    const state = system.getBattleController().getState();
+    const processManager = system.getProcessManager();
+    const changedProcesses: ProcessSnapshot[] = [];
+    for (const id of state.processes) {
+      const process = processManager.snapshot(id);
+      const last = this.lastProcesses.get(id);
+      if (!last || last.state !== process.state || last.registers.pc !== process.registers.pc ||
+          last.cyclesUsed !== process.cyclesUsed) {
+        changedProcesses.push(process);
+        this.lastProcesses.set(id, process);
+      }
+    }
+
+    return {
+      turn: state.turn,
+      status: state.status,
+      winner: state.winner,
+      winningTeam: state.winningTeam,
+      draw: state.draw,
+      scores: Array.from(state.scores.entries()),
+      processes: changedProcesses,
+      memory: changedCells
+    };
+  }
+}
+
+/**
+ * Bring a battle system up to date with a diff, e.g. a main-thread copy of
+ * a battle that runs in a worker
+ */
+export function applyBattleDiff(system: BattleSystem, diff: BattleDiff): void {
+  const memorySystem = system.getMemorySystem();
+  memorySystem.setCurrentProcess(null);
+  for (let i = 0; i < diff.memory.length; i += 3) {
+    memorySystem.write(diff.memory[i], diff.memory[i + 1]);
+    memorySystem.setOwnershipRange(diff.memory[i], 1, diff.memory[i + 2]);
+  }
+
+  const processManager = system.getProcessManager();
+  const controller = system.getBattleController();
+  const state = controller.getState();
+  const added: ProcessId[] = [];
+  for (const process of diff.processes) {
+    if (!state.processes.includes(process.id)) {
+      added.push(process.id);
+    }
+    processManager.restore(process);
+  }
+
+  controller.restoreState({
+    ...state,
+    processes: [...state.processes, ...added],
+    turn: diff.turn,
+    status: diff.status,
+    winner: diff.winner,
+    winningTeam: diff.winningTeam,
+    draw: diff.draw,
+    scores: new Map(diff.scores),
+    endTime: diff.status === 'completed' ? state.endTime ?? Date.now() : state.endTime
+  });
+}
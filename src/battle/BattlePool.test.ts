@@ -0,0 +1,223 @@
+import { BattlePool, BattleJob, PoolWorker } from './BattlePool.js';
+import {
+  BattleJobRunner,
+  BattleJobRequest,
+  BattleDiff,
+  BattleWorkerRequest,
+  BattleWorkerMessage,
+  DEFAULT_JOB_OPTIONS,
+  applyBattleDiff
+} from './BattleJob.js';
+import { BattleSystem } from './BattleSystem.js';
+import { silentLogger } from './Logger.js';
+import fs from 'fs';
+import path from 'path';
+
+// Worker threads can't load .ts files under jest, so jobs run on this thread
+// the way BattleWorker runs them
+class InThreadWorker implements PoolWorker {
+  private listeners = new Map<string, Array<(value: any) => void>>();
+  private runners = new Map<string, BattleJobRunner>();
+  public terminated = false;
+
+  constructor(private ignoreCancel = false) {}
+
+  postMessage(message: BattleWorkerRequest): void {
+    setImmediate(() => {
+      if (this.terminated) return;
+      if (message.type === 'cancel') {
+        if (!this.ignoreCancel) this.runners.get(message.jobId)?.cancel();
+        return;
+      }
+      const runner = new BattleJobRunner(message.jobId, message.request, (reply: BattleWorkerMessage) => {
+        if (!this.terminated) this.emit('message', reply);
+      });
+      this.runners.set(message.jobId, runner);
+      runner.run();
+    });
+  }
+
+  on(event: 'message' | 'error', listener: (value: any) => void): this {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  emit(event: 'message' | 'error', value: unknown): void {
+    for (const listener of this.listeners.get(event) ?? []) listener(value);
+  }
+
+  async terminate(): Promise<number> {
+    this.terminated = true;
+    for (const runner of this.runners.values()) runner.cancel();
+    return 0;
+  }
+}
+
+describe('BattlePool', () => {
+  const bots = path.join(process.cwd(), 'bots');
+  const bot = (name: string) => ({
+    name,
+    code: fs.readFileSync(path.join(bots, `${name}.asm`), 'utf-8'),
+    owner: name
+  });
+
+  let workers: InThreadWorker[];
+  let pool: BattlePool;
+
+  const createPool = (options: { size?: number; cancelTimeout?: number; ignoreCancel?: boolean } = {}) => {
+    pool = new BattlePool({
+      size: options.size ?? 1,
+      cancelTimeout: options.cancelTimeout,
+      updateInterval: 5,
+      createWorker: () => {
+        const worker = new InThreadWorker(options.ignoreCancel);
+        workers.push(worker);
+        return worker;
+      }
+    });
+    return pool;
+  };
+
+  // The same battle on this thread, to check the pool's against
+  const runLocally = (request: BattleJobRequest): BattleSystem => {
+    const system = new BattleSystem({ ...DEFAULT_JOB_OPTIONS, ...request.options, logger: silentLogger });
+    for (const { code, name, owner } of request.bots!) {
+      system.loadBotSource(code, name, owner);
+    }
+    system.start();
+    while (system.getBattleController().nextTurn()) {
+      // run to the end
+    }
+    return system;
+  };
+
+  beforeEach(() => {
+    workers = [];
+  });
+
+  afterEach(async () => {
+    await pool?.close();
+  });
+
+  it('runs a battle and streams diffs that rebuild it on this thread', async () => {
+    const request = { bots: [bot('vampire'), bot('infinite_loop')], options: { maxTurns: 30, seed: 11 } };
+    const mirror = new BattleSystem({ ...DEFAULT_JOB_OPTIONS, logger: silentLogger });
+    const diffs: BattleDiff[] = [];
+
+    const result = await createPool().run(request, diff => {
+      diffs.push(diff);
+      applyBattleDiff(mirror, diff);
+    }).result;
+    const local = runLocally(request);
+
+    expect(result.outcome).toBe('completed');
+    expect(result.seed).toBe(11);
+    expect(result.turns).toBe(local.getBattleController().getState().turn);
+    expect(result.winner).toBe(local.getBattleController().getState().winner);
+    expect(diffs.length).toBeGreaterThan(0);
+    expect(mirror.getMemorySystem().getMemory()).toEqual(local.getMemorySystem().getMemory());
+    expect(mirror.getMemorySystem().getOwners()).toEqual(local.getMemorySystem().getOwners());
+    expect(mirror.getBattleController().getState()).toMatchObject({
+      status: 'completed',
+      turn: result.turns,
+      processes: local.getBattleController().getState().processes
+    });
+  });
+
+  it('continues a battle from a snapshot', async () => {
+    const system = new BattleSystem({ ...DEFAULT_JOB_OPTIONS, maxTurns: 20, seed: 3, logger: silentLogger });
+    system.loadBotSource(bot('infinite_loop').code, 'a', 'a');
+    system.loadBotSource(bot('infinite_loop').code, 'b', 'b');
+    system.start();
+    for (let turn = 0; turn < 5; turn++) {
+      system.getBattleController().nextTurn();
+    }
+
+    const result = await createPool().run({ snapshot: system.getSnapshot(), options: { maxTurns: 20 } }).result;
+    while (system.getBattleController().nextTurn()) {
+      // finish the original too
+    }
+
+    const state = system.getBattleController().getState();
+    expect(result).toMatchObject({ outcome: 'completed', turns: 20, winner: state.winner });
+    expect(new Map(result.scores)).toEqual(state.scores);
+  });
+
+  it('queues battles beyond its size and cancels queued ones', async () => {
+    createPool({ size: 1 });
+    const request = { bots: [bot('simple'), bot('infinite_loop')], options: { maxTurns: 10 } };
+    const first = pool.run(request);
+    const second = pool.run(request);
+    const third = pool.run(request);
+
+    expect(pool.getStats()).toEqual({ workers: 1, busy: 1, queued: 2 });
+    expect(pool.cancel(second.id)).toBe(true);
+    expect(await second.result).toMatchObject({ outcome: 'cancelled', turns: 0 });
+
+    expect((await first.result).outcome).toBe('completed');
+    expect((await third.result).outcome).toBe('completed');
+    expect(pool.cancel(first.id)).toBe(false);
+    expect(workers).toHaveLength(1);
+  });
+
+  it('cancels a running battle', async () => {
+    createPool();
+    const job: BattleJob = pool.run(
+      { bots: [bot('infinite_loop'), bot('infinite_loop')], options: { maxTurns: 1e9 } },
+      () => job.cancel()
+    );
+
+    const result = await job.result;
+
+    expect(result.outcome).toBe('cancelled');
+    expect(result.turns).toBeGreaterThan(0);
+  });
+
+  it('replaces a worker that does not stop when cancelled', async () => {
+    createPool({ cancelTimeout: 20, ignoreCancel: true });
+    const job = pool.run({ bots: [bot('infinite_loop'), bot('infinite_loop')], options: { maxTurns: 1e9 } });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    job.cancel();
+
+    expect((await job.result).outcome).toBe('cancelled');
+    expect(workers[0].terminated).toBe(true);
+    expect(workers).toHaveLength(2);
+    expect(pool.getStats()).toEqual({ workers: 1, busy: 0, queued: 0 });
+  });
+
+  it('stops battles at their CPU time limit', async () => {
+    const result = await createPool().run({
+      bots: [bot('infinite_loop'), bot('infinite_loop')],
+      options: { maxTurns: 1e9 },
+      cpuTimeLimit: 20
+    }).result;
+
+    expect(result.outcome).toBe('cpu-limit');
+    expect(result.cpuTime).toBeGreaterThanOrEqual(20);
+  });
+
+  it('rejects battles that fail to load', async () => {
+    const job = createPool().run({ bots: [{ name: 'broken', code: 'bogus r0, r1', owner: 'x' }] });
+
+    await expect(job.result).rejects.toThrow(/Parse errors in broken/);
+  });
+
+  it('needs a whole number of workers', () => {
+    for (const size of [0, 1.5, NaN]) {
+      expect(() => new BattlePool({ size })).toThrow(`Invalid battle pool size: ${size}`);
+    }
+  });
+
+  it('rejects queued battles when closed', async () => {
+    createPool();
+    const request = { bots: [bot('infinite_loop'), bot('infinite_loop')], options: { maxTurns: 1e9 } };
+    const running = pool.run(request);
+    const queued = pool.run(request);
+
+    await pool.close();
+
+    await expect(running.result).rejects.toThrow('Battle pool closed');
+    await expect(queued.result).rejects.toThrow('Battle pool closed');
+    expect(() => pool.run(request)).toThrow('Battle pool is closed');
+  });
+});
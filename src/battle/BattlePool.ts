@@ -0,0 +1,268 @@
+/**
+ * Core Wars Battle Pool
+ * Runs battles on worker threads so long battles don't block the caller's
+ * event loop. Each worker runs one battle at a time; further battles queue.
+ */
+
+import { Worker } from 'worker_threads';
+import os from 'os';
+import {
+  BattleJobRequest,
+  BattleJobResult,
+  BattleDiff,
+  BattleWorkerRequest,
+  BattleWorkerMessage
+} from './BattleJob.js';
+import { SeededRandom } from './SeededRandom.js';
+
+/**
+ * The parts of a worker thread the pool uses
+ */
+export interface PoolWorker {
+  postMessage(message: BattleWorkerRequest): void;
+  on(event: 'message' | 'error', listener: (value: any) => void): unknown;
+  terminate(): Promise<number>;
+}
+
+export interface BattlePoolOptions {
+  size?: number;           // Worker threads (default: one per CPU but one, at least 1)
+  cpuTimeLimit?: number;   // Default per-battle CPU time limit in milliseconds (default 30000)
+  updateInterval?: number; // Default milliseconds between diffs (default 50)
+  cancelTimeout?: number;  // Milliseconds a cancelled battle may take to stop before its worker is replaced (default 1000)
+  createWorker?: () => PoolWorker; // Default: a worker thread running BattleWorker.js
+}
+
+/**
+ * A battle submitted to the pool
+ */
+export interface BattleJob {
+  id: string;
+  result: Promise<BattleJobResult>;  // Rejects if the battle fails or the pool closes
+  cancel(): void;
+}
+
+interface PendingJob {
+  id: string;
+  request: BattleJobRequest;
+  onDiff?: (diff: BattleDiff) => void;
+  resolve(result: BattleJobResult): void;
+  reject(error: Error): void;
+  lastDiff: BattleDiff | null;
+  cancelTimer: NodeJS.Timeout | null;
+}
+
+interface WorkerSlot {
+  worker: PoolWorker;
+  job: PendingJob | null;
+}
+
+export class BattlePool {
+  private size: number;
+  private cpuTimeLimit: number;
+  private updateInterval: number;
+  private cancelTimeout: number;
+  private createWorker: () => PoolWorker;
+  private slots: WorkerSlot[];
+  private queue: PendingJob[];
+  private nextJobId: number;
+  private closed: boolean;
+
+  constructor(options: BattlePoolOptions = {}) {
+    if (options.size !== undefined && !(Number.isInteger(options.size) && options.size >= 1)) {
+      throw new Error(`Invalid battle pool size: ${options.size}`);
+    }
+    this.size = options.size ?? Math.max(1, os.availableParallelism() - 1);
+    this.cpuTimeLimit = options.cpuTimeLimit ?? 30000;
+    this.updateInterval = options.updateInterval ?? 50;
+    this.cancelTimeout = options.cancelTimeout ?? 1000;
+    this.createWorker = options.createWorker ?? (() => new Worker(new URL('./BattleWorker.js', import.meta.url)));
+    this.slots = [];
+    this.queue = [];
+    this.nextJobId = 1;
+    this.closed = false;
+  }
+
+  /**
+   * Queue a battle
+   * @param request Bots or a snapshot, and options; a seed is chosen when none is given
+   * @param onDiff Called on this thread with each state diff
+   */
+  public run(request: BattleJobRequest, onDiff?: (diff: BattleDiff) => void): BattleJob {
+    if (this.closed) {
+      throw new Error('Battle pool is closed');
+    }
+
+    const id = `job-${this.nextJobId++}`;
+    const result = new Promise<BattleJobResult>((resolve, reject) => {
+      this.queue.push({
+        id,
+        request: {
+          cpuTimeLimit: this.cpuTimeLimit,
+          updateInterval: this.updateInterval,
+          ...request,
+          options: { ...request.options, seed: request.options?.seed ?? SeededRandom.generateSeed() }
+        },
+        onDiff,
+        resolve,
+        reject,
+        lastDiff: null,
+        cancelTimer: null
+      });
+    });
+    this.dispatch();
+
+    return { id, result, cancel: () => this.cancel(id) };
+  }
+
+  /**
+   * Stop a battle. A queued battle never starts; a running one stops after
+   * its current slice, or its worker is replaced if it doesn't stop in time.
+   * Either way its result has the 'cancelled' outcome.
+   * @returns false if the battle is unknown or already finished
+   */
+  public cancel(jobId: string): boolean {
+    const queued = this.queue.findIndex(job => job.id === jobId);
+    if (queued !== -1) {
+      const [job] = this.queue.splice(queued, 1);
+      job.resolve(this.cancelledResult(job));
+      return true;
+    }
+
+    const slot = this.slots.find(slot => slot.job?.id === jobId);
+    if (!slot) {
+      return false;
+    }
+    const job = slot.job!;
+    if (job.cancelTimer === null) {
+      slot.worker.postMessage({ type: 'cancel', jobId });
+      job.cancelTimer = setTimeout(() => {
+        if (slot.job === job) {
+          this.finish(slot).resolve(this.cancelledResult(job));
+          this.replaceWorker(slot);
+        }
+      }, this.cancelTimeout);
+    }
+    return true;
+  }
+
+  /**
+   * Stop all workers; queued and running battles are rejected
+   */
+  public async close(): Promise<void> {
+    this.closed = true;
+    const error = new Error('Battle pool closed');
+    for (const job of this.queue.splice(0)) {
+      job.reject(error);
+    }
+    await Promise.all(this.slots.map(slot => {
+      if (slot.job) {
+        this.finish(slot).reject(error);
+      }
+      return slot.worker.terminate();
+    }));
+    this.slots = [];
+  }
+
+  public getStats(): { workers: number; busy: number; queued: number } {
+    return {
+      workers: this.slots.length,
+      busy: this.slots.filter(slot => slot.job !== null).length,
+      queued: this.queue.length
+    };
+  }
+
+  /**
+   * Start queued jobs on idle workers, spawning workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let slot = this.slots.find(slot => slot.job === null);
+      if (!slot) {
+        if (this.slots.length >= this.size) {
+          return;
+        }
+        slot = this.spawn();
+      }
+      const job = this.queue.shift()!;
+      slot.job = job;
+      slot.worker.postMessage({ type: 'run', jobId: job.id, request: job.request });
+    }
+  }
+
+  private spawn(): WorkerSlot {
+    const slot: WorkerSlot = { worker: this.createWorker(), job: null };
+    this.listen(slot);
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private listen(slot: WorkerSlot): void {
+    const worker = slot.worker;
+    worker.on('message', (message: BattleWorkerMessage) => {
+      // Replaced workers may still report; only the slot's current job counts
+      if (slot.worker !== worker || slot.job?.id !== message.jobId) {
+        return;
+      }
+      switch (message.type) {
+        case 'diff':
+          slot.job.lastDiff = message.diff;
+          slot.job.onDiff?.(message.diff);
+          break;
+        case 'result':
+          this.finish(slot).resolve(message.result);
+          this.dispatch();
+          break;
+        case 'error':
+          this.finish(slot).reject(new Error(message.message));
+          this.dispatch();
+          break;
+      }
+    });
+    worker.on('error', (error: Error) => {
+      if (slot.worker !== worker) {
+        return;
+      }
+      if (slot.job) {
+        this.finish(slot).reject(error);
+      }
+      this.replaceWorker(slot);
+    });
+  }
+
+  /**
+   * Free a slot and return the job it ran
+   */
+  private finish(slot: WorkerSlot): PendingJob {
+    const job = slot.job!;
+    if (job.cancelTimer !== null) {
+      clearTimeout(job.cancelTimer);
+    }
+    slot.job = null;
+    return job;
+  }
+
+  private replaceWorker(slot: WorkerSlot): void {
+    slot.worker.terminate();
+    slot.job = null;
+    slot.worker = this.createWorker();
+    this.listen(slot);
+    this.dispatch();
+  }
+
+  /**
+   * Result for a battle stopped before it reported one, from its last diff
+   */
+  private cancelledResult(job: PendingJob): BattleJobResult {
+    return {
+      outcome: 'cancelled',
+      winner: job.lastDiff?.winner ?? null,
+      winningTeam: job.lastDiff?.winningTeam ?? null,
+      draw: job.lastDiff?.draw ?? null,
+      warriors: [],
+      turns: job.lastDiff?.turn ?? 0,
+      scores: job.lastDiff?.scores ?? [],
+      seed: job.request.options!.seed!,
+      cpuTime: 0
+    };
+  }
+}
@@ -4,63 +4,131 @@
  */
 
 import { BattleSystem } from './BattleSystem.js';
-import { BattleOptions } from './BattleController.js';
-import { ProcessState } from './types.js';
+import { BattleOptions, DEFAULT_BATTLE_OPTIONS } from './BattleController.js';
+import { ProcessId, ProcessState, WarriorId } from './types.js';
+import { PSpace, recordRoundResults } from './PSpace.js';
+import { EngineLogger, Logger, LogLevel } from './Logger.js';
 import fs from 'fs';
 import path from 'path';
 
-// Default battle options
+// Default battle options: the shared ones, so a battle replays as a job would play it
 const DEFAULT_OPTIONS: BattleOptions = {
-  maxTurns: 1000,
-  maxCyclesPerTurn: 1000000, // More cycles per turn
-  maxMemoryPerProcess: 4096,
+  ...DEFAULT_BATTLE_OPTIONS,
   maxLogEntries: 10000
 };
 
+// A bot to load each round: from a file, or from source with its name
+interface RunnerBot {
+  source: { filePath: string } | { code: string; name: string };
+  owner: string;
+  team: string | null;
+}
+
 export class BattleRunner {
   private battleSystem: BattleSystem;
   private options: BattleOptions;
-  private botPaths: string[] = [];
-  private botOwners: string[] = [];
-  private verbose: boolean = false;
+  private bots: RunnerBot[] = [];
+  private pspaces: PSpace[] = [];  // Per bot, when options.pspaceSize is set
+  private round = 0;               // Rounds played
+  private logger: Logger;
+  private ownLogger: EngineLogger | null = null;
   
   constructor(options: Partial<BattleOptions> = {}) {
-    this.options = { ...DEFAULT_OPTIONS, ...options };
+    // Without an injected logger the runner owns one, so setVerbose() doesn't touch the shared default
+    if (!options.logger) {
+      this.ownLogger = new EngineLogger();
+    }
+    this.logger = options.logger ?? this.ownLogger!;
+    this.options = { ...DEFAULT_OPTIONS, ...options, logger: this.logger };
     this.battleSystem = new BattleSystem(this.options);
   }
   
-  public addBot(filePath: string, owner: string): void {
+  /**
+   * @param team Team the bot fights for (default: none, it fights alone)
+   */
+  public addBot(filePath: string, owner: string, team: string | null = null): void {
     if (!fs.existsSync(filePath)) {
       throw new Error(`Bot file not found: ${filePath}`);
     }
-    this.botPaths.push(filePath);
-    this.botOwners.push(owner);
+    this.add({ source: { filePath }, owner, team });
   }
   
+  /**
+   * Add a bot from assembly source, e.g. a stored bot
+   * @param name Bot name; includes resolve against <name>.asm
+   * @param team Team the bot fights for (default: none, it fights alone)
+   */
+  public addBotSource(code: string, name: string, owner: string, team: string | null = null): void {
+    this.add({ source: { code, name }, owner, team });
+  }
+  
+  /**
+   * Report loading, progress and results (info level). Has no effect on an
+   * injected logger, whose levels are up to its owner.
+   */
   public setVerbose(verbose: boolean): void {
-    this.verbose = verbose;
+    this.ownLogger?.setLevel(verbose ? LogLevel.Info : LogLevel.Warn);
+  }
+  
+  /**
+   * Get the battle system, e.g. to dump memory after the battle
+   */
+  public getBattleSystem(): BattleSystem {
+    return this.battleSystem;
+  }
+  
+  /**
+   * Get a bot's P-space, or undefined without options.pspaceSize
+   * @param index The bot's position in the order they were added
+   */
+  public getPSpace(index: number): PSpace | undefined {
+    return this.pspaces[index];
+  }
+  
+  /**
+   * Number of rounds played
+   */
+  public getRound(): number {
+    return this.round;
+  }
+  
+  private add(bot: RunnerBot): void {
+    this.bots.push(bot);
+    if (this.options.pspaceSize) {
+      this.pspaces.push(new PSpace(this.options.pspaceSize));
+    }
   }
   
+  /**
+   * Play a round. Every call after the first plays the next round of a match
+   * on a fresh battle system; with a seed, round n uses seed + n. Each bot's
+   * P-space carries over, with its result in this round in slot 0. The
+   * result's warriors are the bots' warrior IDs, in the order they were added.
+   */
   public async runBattle(): Promise<any> {
+    if (this.round > 0) {
+      const seed = this.options.seed !== undefined ? this.options.seed + this.round : undefined;
+      this.battleSystem = new BattleSystem({ ...this.options, seed });
+    }
+    
     // Load all bots
     const loadedBots = [];
-    for (let i = 0; i < this.botPaths.length; i++) {
-      const botPath = this.botPaths[i];
-      const owner = this.botOwners[i];
+    for (let i = 0; i < this.bots.length; i++) {
+      const { source, owner, team } = this.bots[i];
       
       try {
-        const bot = this.battleSystem.loadBot(botPath, owner);
+        const bot = 'filePath' in source
+          ? this.battleSystem.loadBot(source.filePath, owner, team)
+          : this.battleSystem.loadBotSource(source.code, source.name, owner, undefined, team);
         loadedBots.push(bot);
-        
-        if (this.verbose) {
-          console.log(`Loaded bot: ${bot.name} (owner: ${bot.owner})`);
-          console.log(`  Process ID: ${bot.processId}`);
-          console.log(`  Entry point: 0x${bot.entryPoint.toString(16).toUpperCase()}`);
-          console.log(`  Memory used: ${bot.memoryUsed} bytes`);
-          console.log('---------------------------------------------------');
+        if (this.pspaces[i]) {
+          this.battleSystem.setPSpace(bot.processId, this.pspaces[i]);
         }
+        
+        this.logger.info('loader', `Loaded bot: ${bot.name} (owner: ${bot.owner}), process ${bot.processId}, ` +
+          `entry point 0x${bot.entryPoint.toString(16).toUpperCase()}, ${bot.memoryUsed} bytes`);
       } catch (error) {
-        console.error(`Error loading bot ${path.basename(botPath)}: ${error}`);
+        this.logger.error('loader', `Error loading bot ${'filePath' in source ? path.basename(source.filePath) : source.name}: ${error}`);
         throw error;
       }
     }
@@ -72,55 +140,56 @@ export class BattleRunner {
     // Run the battle with multiple turns for more interesting battles
     const startTime = Date.now();
     
-    if (this.verbose) {
-      console.log('Starting battle...');
-    }
-    
-    // Increase minimum turns for a more interesting battle
-    const maxTurnsToRun = Math.max(5, Math.min(this.options.maxTurns, 500));
+    this.logger.info('battle', 'Starting battle...');
     
-    // Run the battle for a specific number of turns or until completion
-    const results = this.battleSystem.runBattle(maxTurnsToRun);
+    // Run to the turn limit, where the victory rule decides battles with several survivors
+    const results = this.battleSystem.runBattle(this.options.maxTurns);
     const endTime = Date.now();
+    this.round++;
+    if (this.pspaces.length > 0) {
+      this.recordResults(results, loadedBots);
+    }
     
-    // Print results
-    if (this.verbose) {
-      console.log('===================================================');
-      console.log('Battle Results:');
-      console.log(`Duration: ${(endTime - startTime) / 1000} seconds`);
-      console.log(`Turns: ${results.turns}`);
+    // Report results
+    if (this.logger.isEnabled(LogLevel.Info, 'battle')) {
+      this.logger.info('battle', `Battle results: ${results.turns} turns in ${(endTime - startTime) / 1000} seconds, seed ${results.seed}`);
       
-      console.log('Process info:');
       const controller = this.battleSystem.getBattleController();
       const processInfo = controller.getAllProcessInfo();
       
       for (const process of processInfo) {
-        console.log(`  - ${process.name} (owner: ${process.owner})`);
-        console.log(`    State: ${process.state}`);
-        console.log(`    Cycles used: ${process.cycles}`);
-        console.log(`    Memory used: ${process.memoryUsed}`);
+        this.logger.info('battle', `  - ${process.name} (owner: ${process.owner}): ${process.state}, ` +
+          `${process.cycles} cycles, ${process.memoryUsed} bytes, score ${results.scores.get(process.id) ?? 0}`);
       }
       
       if (results.winner !== null) {
         const winnerInfo = processInfo.find(p => p.id === results.winner);
-        console.log(`Winner: ${winnerInfo?.name} (owner: ${winnerInfo?.owner})`);
+        this.logger.info('battle', `Winner: ${winnerInfo?.name} (owner: ${winnerInfo?.owner})`);
       } else {
-        console.log('No winner - battle ended in a draw');
+        this.logger.info('battle', 'No winner - battle ended in a draw');
       }
-      
-      console.log('Scores:');
-      results.scores.forEach((score: number, processId: number) => {
-        const procInfo = processInfo.find(p => p.id === processId);
-        console.log(`  ${procInfo?.name}: ${score}`);
-      });
     }
     
     return {
       ...results,
       processes: this.battleSystem.getBattleController().getAllProcessInfo(),
+      warriors: loadedBots.map(bot => bot.processId),
       duration: endTime - startTime
     };
   }
+  
+  /**
+   * Store each bot's result in slot 0 of its P-space
+   */
+  private recordResults(
+    results: { winner: WarriorId | null; winningTeam: string | null; draw: WarriorId[] | null },
+    bots: Array<{ processId: ProcessId; team: string | null }>
+  ): void {
+    const survivors = this.battleSystem.getBattleController().getWarriorInfo()
+      .filter(warrior => warrior.running > 0)
+      .map(warrior => warrior.id);
+    recordRoundResults(this.pspaces, bots.map(bot => ({ warrior: bot.processId, team: bot.team })), results, survivors);
+  }
 }
 
 // CLI entry point for ES modules
@@ -151,6 +220,8 @@ if (isMainModule) {
       options.maxTurns = parseInt(args[++i], 10);
     } else if (arg === '--max-cycles' && i < args.length - 1) {
       options.maxCyclesPerTurn = parseInt(args[++i], 10);
+    } else if (arg === '--seed' && i < args.length - 1) {
+      options.seed = parseInt(args[++i], 10);
     } else if (arg.endsWith('.asm') && fs.existsSync(arg)) {
       botFiles.push(arg);
     }
@@ -0,0 +1,22 @@
+/**
+ * Core Wars Battle Worker
+ * Worker thread entry point for BattlePool: runs the jobs it is sent
+ */
+
+import { parentPort } from 'worker_threads';
+import { BattleJobRunner, BattleWorkerRequest, BattleWorkerMessage } from './BattleJob.js';
+
+const runners = new Map<string, BattleJobRunner>();
+
+parentPort?.on('message', (message: BattleWorkerRequest) => {
+  if (message.type === 'cancel') {
+    runners.get(message.jobId)?.cancel();
+    return;
+  }
+
+  const runner = new BattleJobRunner(message.jobId, message.request, (reply: BattleWorkerMessage) => {
+    parentPort!.postMessage(reply);
+  });
+  runners.set(message.jobId, runner);
+  runner.run().finally(() => runners.delete(message.jobId));
+});
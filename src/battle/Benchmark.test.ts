@@ -0,0 +1,29 @@
+import { runBenchmark, formatBenchmark } from './Benchmark.js';
+import path from 'path';
+
+describe('Benchmark', () => {
+  const bots = path.join(process.cwd(), 'bots');
+
+  it('measures both modes, which play the same battle', () => {
+    const options = { bots: [path.join(bots, 'vampire.asm')], turns: 50, seed: 5 };
+    const [result] = runBenchmark(options);
+
+    expect(result.bot).toBe('vampire');
+    expect(result.fast!.cycles).toBeGreaterThan(0);
+    expect(result.fast!.cycles).toBe(result.normal!.cycles);
+    expect(result.fast!.winner).toBe(result.normal!.winner);
+    expect(result.fast!.cyclesPerSecond).toBeGreaterThan(0);
+
+    // However long the runs take, the same seed picks the same winner
+    const [again] = runBenchmark(options);
+    expect(again.normal!.winner).toBe(result.normal!.winner);
+    expect(again.fast!.winner).toBe(result.fast!.winner);
+  });
+
+  it('reports bots that fail to load', () => {
+    const results = runBenchmark({ bots: [path.join(bots, 'missing.asm')], turns: 1 });
+
+    expect(results[0]).toMatchObject({ bot: 'missing', normal: null, fast: null });
+    expect(formatBenchmark(results).split('\n')[1]).toMatch(/^missing +skipped: /);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Core Wars Battle Benchmark
+ * Measures cycles per second of the battle loop for the bundled bots, in the
+ * regular and the fast execution mode
+ */
+
+import { BattleSystem } from './BattleSystem.js';
+import { silentLogger } from './Logger.js';
+import fs from 'fs';
+import path from 'path';
+
+export interface BenchmarkOptions {
+  bots?: string[];        // Bot files to measure (default: every bots/*.asm)
+  opponent?: string;      // Bot each one battles (default: bots/infinite_loop.asm)
+  turns?: number;         // Turns per battle (default 2000)
+  seed?: number;          // Battle seed, the same for both modes (default 1)
+}
+
+export interface BenchmarkRun {
+  cycles: number;         // Instructions scheduled, across all processes
+  milliseconds: number;
+  cyclesPerSecond: number;
+  winner: string | null;  // Winning bot's name
+}
+
+export interface BenchmarkResult {
+  bot: string;
+  normal: BenchmarkRun | null;  // null when the bot failed to load
+  fast: BenchmarkRun | null;
+  error?: string;
+}
+
+const BOTS_DIR = path.join(process.cwd(), 'bots');
+
+/**
+ * Run one battle and time it
+ */
+function runOnce(bot: string, opponent: string, turns: number, seed: number, fastMode: boolean): BenchmarkRun {
+  const system = new BattleSystem({
+    maxTurns: turns,
+    maxCyclesPerTurn: 1000,
+    maxMemoryPerProcess: 4096,
+    seed,
+    fastMode,
+    logger: silentLogger
+  });
+  system.loadBot(bot, 'bot');
+  system.loadBot(opponent, 'opponent');
+
+  const start = performance.now();
+  const results = system.runBattle(turns);
+  const milliseconds = performance.now() - start;
+
+  let cycles = 0;
+  results.scores.forEach((score: number) => {
+    cycles += score;
+  });
+  return {
+    cycles,
+    milliseconds,
+    cyclesPerSecond: milliseconds > 0 ? Math.round(cycles / (milliseconds / 1000)) : 0,
+    winner: results.winner !== null ? system.getProcessManager().getProcess(results.winner).name : null
+  };
+}
+
+/**
+ * Battle every bot against the opponent, once in each mode
+ * @returns One result per bot, in the order given
+ */
+export function runBenchmark(options: BenchmarkOptions = {}): BenchmarkResult[] {
+  const bots = options.bots ?? fs.readdirSync(BOTS_DIR)
+    .filter(file => file.endsWith('.asm'))
+    .sort()
+    .map(file => path.join(BOTS_DIR, file));
+  const opponent = options.opponent ?? path.join(BOTS_DIR, 'infinite_loop.asm');
+  const turns = options.turns ?? 2000;
+  const seed = options.seed ?? 1;
+
+  return bots.map(bot => {
+    const name = path.basename(bot, '.asm');
+    try {
+      return {
+        bot: name,
+        normal: runOnce(bot, opponent, turns, seed, false),
+        fast: runOnce(bot, opponent, turns, seed, true)
+      };
+    } catch (error) {
+      return { bot: name, normal: null, fast: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+}
+
+/**
+ * Format results as a table with the fast mode's speedup
+ */
+export function formatBenchmark(results: BenchmarkResult[]): string {
+  const width = Math.max(3, ...results.map(result => result.bot.length));
+  const lines = [`${'Bot'.padEnd(width)}  ${'Cycles'.padStart(8)}  ${'Normal c/s'.padStart(12)}  ${'Fast c/s'.padStart(12)}  Speedup`];
+  for (const { bot, normal, fast, error } of results) {
+    if (!normal || !fast) {
+      lines.push(`${bot.padEnd(width)}  skipped: ${error}`);
+      continue;
+    }
+    const speedup = normal.cyclesPerSecond > 0 ? `${(fast.cyclesPerSecond / normal.cyclesPerSecond).toFixed(1)}x` : '-';
+    lines.push(`${bot.padEnd(width)}  ${String(fast.cycles).padStart(8)}  ${String(normal.cyclesPerSecond).padStart(12)}  ` +
+      `${String(fast.cyclesPerSecond).padStart(12)}  ${speedup}`);
+  }
+  return lines.join('\n');
+}
+
+// CLI entry point for ES modules
+// Check if this is being run directly (not imported)
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const isMainModule = process.argv[1] === __filename || process.argv[1] === __filename.replace(/\.ts$/, '.js');
+
+if (isMainModule) {
+  const args = process.argv.slice(2);
+  const options: BenchmarkOptions = {};
+  const bots: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--turns' && i < args.length - 1) {
+      options.turns = parseInt(args[++i], 10);
+    } else if (arg === '--seed' && i < args.length - 1) {
+      options.seed = parseInt(args[++i], 10);
+    } else if (arg.endsWith('.asm')) {
+      bots.push(arg);
+    }
+  }
+  if (bots.length > 0) {
+    options.bots = bots;
+  }
+
+  console.log(formatBenchmark(runBenchmark(options)));
+}
@@ -0,0 +1,142 @@
+import { Hill, HillWarrior, InMemoryHillStore } from './Hill.js';
+import { BattlePool, PoolWorker } from './BattlePool.js';
+import { BattleJobRunner, BattleWorkerRequest, BattleWorkerMessage } from './BattleJob.js';
+import fs from 'fs';
+import path from 'path';
+
+// Runs pool jobs on this thread, as worker threads can't load .ts files under jest
+class InThreadWorker implements PoolWorker {
+  private listeners: Array<(message: BattleWorkerMessage) => void> = [];
+  public jobs = 0;
+
+  postMessage(message: BattleWorkerRequest): void {
+    if (message.type === 'run') {
+      this.jobs++;
+      setImmediate(() => new BattleJobRunner(message.jobId, message.request, reply => {
+        this.listeners.forEach(listener => listener(reply));
+      }).run());
+    }
+  }
+
+  on(event: 'message' | 'error', listener: (value: any) => void): this {
+    if (event === 'message') this.listeners.push(listener);
+    return this;
+  }
+
+  async terminate(): Promise<number> {
+    return 0;
+  }
+}
+
+describe('Hill', () => {
+  const looper = fs.readFileSync(path.join(process.cwd(), 'bots', 'infinite_loop.asm'), 'utf-8');
+  // Loopers (l*) beat quitters (q*), which halt straight away
+  const warrior = (id: string): HillWarrior => ({ id, name: id, code: id.startsWith('l') ? looper : 'halt', owner: id });
+  const settings = { size: 2, rounds: 3, seed: 11, options: { maxTurns: 20 } };
+
+  it('takes challengers onto an empty hill', async () => {
+    const hill = new Hill(new InMemoryHillStore(), settings);
+
+    const first = await hill.challenge(warrior('l1'));
+    expect(first).toMatchObject({ challenge: 1, challenger: 'l1', rank: 1, pushedOff: [] });
+
+    const second = await hill.challenge(warrior('q1'));
+    expect(second.rank).toBe(2);
+    expect(second.standings).toEqual([
+      { rank: 1, id: 'l1', name: 'l1', owner: 'l1', age: 1, wins: 3, losses: 0, ties: 0, score: 9 },
+      { rank: 2, id: 'q1', name: 'q1', owner: 'q1', age: 0, wins: 0, losses: 3, ties: 0, score: 0 }
+    ]);
+  });
+
+  it('pushes the weakest warrior off a full hill', async () => {
+    const hill = new Hill(new InMemoryHillStore(), settings);
+    await hill.challenge(warrior('l1'));
+    await hill.challenge(warrior('q1'));
+
+    const strong = await hill.challenge(warrior('l2'));
+    expect(strong.pushedOff).toEqual(['q1']);
+    expect(strong.rank).not.toBeNull();
+
+    const weak = await hill.challenge(warrior('q2'));
+    expect(weak).toMatchObject({ rank: null, pushedOff: ['q2'] });
+
+    // Scores only count rounds between the members still on the hill
+    const [top, bottom] = hill.getStandings();
+    expect([top.id, bottom.id].sort()).toEqual(['l1', 'l2']);
+    expect(top.wins).toBe(bottom.losses);
+    expect(top.wins + top.losses + top.ties).toBe(settings.rounds);
+    expect(hill.getStandings().find(standing => standing.id === 'l1')!.age).toBe(3);
+  });
+
+  it('records every rank and age in its history', async () => {
+    const hill = new Hill(new InMemoryHillStore(), settings);
+    for (const id of ['l1', 'q1', 'l2']) {
+      await hill.challenge(warrior(id));
+    }
+
+    expect(hill.getHistory('q1').map(entry => [entry.challenge, entry.rank, entry.age])).toEqual([[2, 2, 0], [3, null, 0]]);
+    expect(hill.getHistory('l1').map(entry => entry.age)).toEqual([0, 1, 2]);
+    expect(hill.getHistory().filter(entry => entry.challenge === 3)).toHaveLength(3);
+  });
+
+  it('plays challenges one at a time and replays from its seed', async () => {
+    const play = async () => {
+      const hill = new Hill(new InMemoryHillStore(), { ...settings, size: 3 });
+      const results = await Promise.all(['l1', 'l2', 'l3', 'q1'].map(id => hill.challenge(warrior(id))));
+      return { challenges: results.map(result => result.challenge), standings: hill.getStandings() };
+    };
+
+    const first = await play();
+    expect(first.challenges).toEqual([1, 2, 3, 4]);
+    expect(await play()).toEqual(first);
+  });
+
+  it('rejects members and bots that do not assemble, leaving the hill as it was', async () => {
+    const hill = new Hill(new InMemoryHillStore(), settings);
+    await hill.challenge(warrior('l1'));
+
+    await expect(hill.challenge(warrior('l1'))).rejects.toThrow('l1 is already on the hill');
+    await expect(hill.challenge({ ...warrior('x'), name: 'broken', code: 'bogus r0, r1' }))
+      .rejects.toThrow(/Parse errors in broken/);
+    expect(hill.getChallenges()).toBe(1);
+    expect((await hill.challenge(warrior('q1'))).challenge).toBe(2);
+  });
+
+  it('resumes the saved hill with its own settings', async () => {
+    const store = new InMemoryHillStore();
+    const hill = new Hill(store, settings);
+    await hill.challenge(warrior('l1'));
+    await hill.challenge(warrior('q1'));
+
+    const resumed = new Hill(store, { size: 5 });
+
+    expect(resumed.getSettings()).toEqual(settings);
+    expect(resumed.getStandings()).toEqual(hill.getStandings());
+    expect((await resumed.challenge(warrior('l2'))).pushedOff).toEqual(['q1']);
+  });
+
+  it('plays its rounds on a pool as it would on this thread', async () => {
+    const worker = new InThreadWorker();
+    const pool = new BattlePool({ size: 1, createWorker: () => worker });
+    const play = async (runOptions = {}) => {
+      const hill = new Hill(new InMemoryHillStore(), settings, runOptions);
+      for (const id of ['l1', 'q1', 'l2']) {
+        await hill.challenge(warrior(id));
+      }
+      return hill.getStandings();
+    };
+
+    try {
+      expect(await play({ pool })).toEqual(await play());
+      // q1 against l1, then l2 against both
+      expect(worker.jobs).toBe(3 * settings.rounds);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it('validates its settings', () => {
+    expect(() => new Hill(new InMemoryHillStore(), { size: 0 })).toThrow('Invalid hill size: 0');
+    expect(() => new Hill(new InMemoryHillStore(), { rounds: 1.5 })).toThrow('Invalid number of rounds: 1.5');
+  });
+});
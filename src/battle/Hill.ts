@@ -0,0 +1,348 @@
+/**
+ * Core Wars Hill
+ * King of the hill: a fixed number of warriors hold the hill. A challenger
+ * plays every member, the hill is re-ranked by score against the other
+ * members, and whoever ends up below the last place is pushed off.
+ */
+
+import { BattleSystem } from './BattleSystem.js';
+import { BattlePool } from './BattlePool.js';
+import {
+  BattleJobOptions,
+  BattleJobRequest,
+  BattleJobResult,
+  BattleJobRunner,
+  DEFAULT_JOB_OPTIONS
+} from './BattleJob.js';
+import { DEFAULT_PSPACE_SIZE, PSpace } from './PSpace.js';
+import { silentLogger } from './Logger.js';
+import { SeededRandom } from './SeededRandom.js';
+import { VictoryRuleName } from './Victory.js';
+import { InMemoryResolver } from '../parser/SourceResolver.js';
+
+export const DEFAULT_HILL_SIZE = 10;
+export const DEFAULT_HILL_ROUNDS = 10;
+
+export interface HillWarrior {
+  id: string;     // Stored bot ID
+  name: string;
+  code: string;
+  owner: string;
+}
+
+export interface HillMember extends HillWarrior {
+  age: number;     // Challenges survived
+  joined: number;  // Challenge that put it on the hill
+}
+
+export interface HillSettings {
+  size: number;                // Members the hill holds
+  rounds: number;              // Rounds per pairing, with P-space kept between them
+  seed: number;                // The nth pairing plays its rounds from seed + n * rounds
+  options?: BattleJobOptions;  // Battle options for every round
+  victory?: VictoryRuleName;
+}
+
+/**
+ * The rounds between a challenger (a) and a member (b), counted from a's side
+ */
+export interface HillResult {
+  a: string;
+  b: string;
+  seed: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface HillState {
+  settings: HillSettings;
+  challenges: number;     // Challenges played
+  pairings: number;       // Pairings played, for their seeds
+  members: HillMember[];  // Best first
+  results: HillResult[];  // Between current members
+}
+
+/**
+ * A member's line on the hill (3 points per round won, 1 per round tied)
+ */
+export interface HillStanding {
+  rank: number;   // From 1
+  id: string;
+  name: string;
+  owner: string;
+  age: number;
+  wins: number;   // Rounds, against the other members
+  losses: number;
+  ties: number;
+  score: number;
+}
+
+/**
+ * Where a warrior stood after a challenge
+ */
+export interface HillHistoryEntry {
+  challenge: number;
+  botId: string;
+  rank: number | null;  // null when pushed off
+  age: number;
+  score: number;
+  time: number;         // Milliseconds since the epoch
+}
+
+export interface HillChallengeResult {
+  challenge: number;
+  challenger: string;
+  rank: number | null;         // The challenger's, or null if it didn't make the hill
+  pushedOff: string[];         // IDs of the warriors pushed off
+  standings: HillStanding[];
+}
+
+/**
+ * Where the hill is saved. save() is called after every challenge, with the
+ * history entries it added.
+ */
+export interface HillStore {
+  load(): HillState | null;
+  save(state: HillState, history: HillHistoryEntry[]): void;
+  getHistory(botId?: string): HillHistoryEntry[];  // Oldest first
+}
+
+export class InMemoryHillStore implements HillStore {
+  private state: HillState | null = null;
+  private history: HillHistoryEntry[] = [];
+
+  public load(): HillState | null {
+    return this.state ? structuredClone(this.state) : null;
+  }
+
+  public save(state: HillState, history: HillHistoryEntry[]): void {
+    this.state = structuredClone(state);
+    this.history.push(...history);
+  }
+
+  public getHistory(botId?: string): HillHistoryEntry[] {
+    return this.history.filter(entry => botId === undefined || entry.botId === botId);
+  }
+}
+
+/**
+ * Run-time options, not saved with the hill
+ */
+export interface HillRunOptions {
+  pool?: BattlePool;  // Play the rounds on it (default: on this thread)
+}
+
+export class Hill {
+  private state: HillState;
+  private store: HillStore;
+  private runOptions: HillRunOptions;
+  private queue: Promise<unknown>;
+
+  /**
+   * Take up the hill saved in the store, or start an empty one
+   * @param settings For a new hill; a saved hill keeps its own
+   */
+  constructor(store: HillStore, settings: Partial<HillSettings> = {}, runOptions: HillRunOptions = {}) {
+    this.store = store;
+    this.runOptions = runOptions;
+    this.queue = Promise.resolve();
+
+    const saved = store.load();
+    if (saved) {
+      this.state = saved;
+      return;
+    }
+    const size = settings.size ?? DEFAULT_HILL_SIZE;
+    const rounds = settings.rounds ?? DEFAULT_HILL_ROUNDS;
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Invalid hill size: ${size}`);
+    }
+    if (!Number.isInteger(rounds) || rounds < 1) {
+      throw new Error(`Invalid number of rounds: ${rounds}`);
+    }
+    this.state = {
+      settings: { ...settings, size, rounds, seed: settings.seed ?? SeededRandom.generateSeed() },
+      challenges: 0,
+      pairings: 0,
+      members: [],
+      results: []
+    };
+  }
+
+  /**
+   * Play a challenger against every member and re-rank the hill. Challenges
+   * are played one at a time, in the order they were made. Rejects, leaving
+   * the hill as it was, if the challenger is already on the hill or doesn't
+   * assemble.
+   * @param includes Files the bots may include, by name
+   */
+  public challenge(challenger: HillWarrior, includes?: Record<string, string>): Promise<HillChallengeResult> {
+    const result = this.queue.then(() => this.play(challenger, includes));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  public getSettings(): HillSettings {
+    return structuredClone(this.state.settings);
+  }
+
+  public getChallenges(): number {
+    return this.state.challenges;
+  }
+
+  /**
+   * The members, best first
+   */
+  public getStandings(): HillStanding[] {
+    return this.rank(this.state.members, this.state.results);
+  }
+
+  /**
+   * Ranks and ages after each challenge, oldest first
+   * @param botId Only this warrior's (default: everyone's)
+   */
+  public getHistory(botId?: string): HillHistoryEntry[] {
+    return this.store.getHistory(botId);
+  }
+
+  private async play(challenger: HillWarrior, includes?: Record<string, string>): Promise<HillChallengeResult> {
+    if (this.state.members.some(member => member.id === challenger.id)) {
+      throw new Error(`${challenger.name} is already on the hill`);
+    }
+    // An empty hill plays no rounds, so check the challenger assembles
+    new BattleSystem({ ...DEFAULT_JOB_OPTIONS, ...this.state.settings.options, logger: silentLogger,
+      resolver: new InMemoryResolver(includes) })
+      .loadBotSource(challenger.code, challenger.name, challenger.owner);
+
+    const results: HillResult[] = [];
+    for (const member of this.state.members) {
+      const seed = (this.state.settings.seed + (this.state.pairings + results.length) * this.state.settings.rounds) >>> 0;
+      results.push(await this.playPairing(challenger, member, seed, includes));
+    }
+
+    const challenge = this.state.challenges + 1;
+    const members = [...this.state.members, { ...challenger, age: 0, joined: challenge }];
+    const ranked = this.rank(members, [...this.state.results, ...results]);
+    const kept = new Set(ranked.slice(0, this.state.settings.size).map(standing => standing.id));
+    const pushedOff = ranked.filter(standing => !kept.has(standing.id));
+
+    // Everyone who was on the hill and still is has survived another challenge
+    const byId = new Map(members.map(member => [member.id, member]));
+    this.state = {
+      ...this.state,
+      challenges: challenge,
+      pairings: this.state.pairings + results.length,
+      members: ranked
+        .filter(standing => kept.has(standing.id))
+        .map(standing => {
+          const member = byId.get(standing.id)!;
+          return member.id === challenger.id ? member : { ...member, age: member.age + 1 };
+        }),
+      results: [...this.state.results, ...results].filter(result => kept.has(result.a) && kept.has(result.b))
+    };
+
+    const standings = this.getStandings();
+    const time = Date.now();
+    const history: HillHistoryEntry[] = [
+      ...standings.map(standing => ({
+        challenge, botId: standing.id, rank: standing.rank, age: standing.age, score: standing.score, time
+      })),
+      ...pushedOff.map(standing => ({
+        challenge, botId: standing.id, rank: null, age: standing.age, score: standing.score, time
+      }))
+    ];
+    this.store.save(this.state, history);
+
+    return {
+      challenge,
+      challenger: challenger.id,
+      rank: standings.find(standing => standing.id === challenger.id)?.rank ?? null,
+      pushedOff: pushedOff.map(standing => standing.id),
+      standings
+    };
+  }
+
+  /**
+   * The rounds of one pairing, one after another so each warrior's P-space
+   * carries from round to round. Round n plays from seed + n.
+   */
+  private async playPairing(
+    challenger: HillWarrior,
+    member: HillMember,
+    seed: number,
+    includes?: Record<string, string>
+  ): Promise<HillResult> {
+    const { rounds, options, victory } = this.state.settings;
+    const pspaceSize = options?.pspaceSize ?? DEFAULT_PSPACE_SIZE;
+    let pspaces = [new PSpace(pspaceSize).toArray(), new PSpace(pspaceSize).toArray()];
+
+    const result: HillResult = { a: challenger.id, b: member.id, seed, wins: 0, losses: 0, ties: 0 };
+    for (let round = 0; round < rounds; round++) {
+      const { winner, warriors, pspaces: after } = await this.playRound({
+        bots: [challenger, member].map(({ name, code, owner }) => ({ name, code, owner })),
+        includes,
+        options: { ...options, seed: (seed + round) >>> 0 },
+        victory,
+        pspaces
+      });
+      if (winner === warriors[0]) {
+        result.wins++;
+      } else if (winner === warriors[1]) {
+        result.losses++;
+      } else {
+        result.ties++;
+      }
+      pspaces = after!;
+    }
+    return result;
+  }
+
+  /**
+   * A round on the pool, or else on this thread
+   */
+  private playRound(request: BattleJobRequest): Promise<BattleJobResult> {
+    if (this.runOptions.pool) {
+      return this.runOptions.pool.run(request).result;
+    }
+    return new Promise((resolve, reject) => {
+      new BattleJobRunner('hill-round', request, message => {
+        if (message.type === 'result') {
+          resolve(message.result);
+        } else if (message.type === 'error') {
+          reject(new Error(message.message));
+        }
+      }).run();
+    });
+  }
+
+  /**
+   * Standings of the given members from their results against each other,
+   * best first: by score, then the older, then the earlier to join
+   */
+  private rank(members: HillMember[], results: HillResult[]): HillStanding[] {
+    const standings = members.map(member => {
+      const standing = { rank: 0, id: member.id, name: member.name, owner: member.owner, age: member.age,
+        wins: 0, losses: 0, ties: 0, score: 0 };
+      for (const result of results) {
+        if (result.a === member.id) {
+          standing.wins += result.wins;
+          standing.losses += result.losses;
+        } else if (result.b === member.id) {
+          standing.wins += result.losses;
+          standing.losses += result.wins;
+        } else {
+          continue;
+        }
+        standing.ties += result.ties;
+      }
+      standing.score = standing.wins * 3 + standing.ties;
+      return standing;
+    });
+
+    const joined = new Map(members.map(member => [member.id, member.joined]));
+    standings.sort((x, y) => y.score - x.score || y.age - x.age || joined.get(x.id)! - joined.get(y.id)!);
+    standings.forEach((standing, index) => standing.rank = index + 1);
+    return standings;
+  }
+}
@@ -0,0 +1,112 @@
+import { EngineLogger, LogLevel, RingBufferSink, FileSink, ConsoleSink, formatLogRecord } from './Logger.js';
+import { ProcessManager } from './ProcessManager.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('Logger', () => {
+  let sink: RingBufferSink;
+
+  beforeEach(() => {
+    sink = new RingBufferSink(10);
+  });
+
+  const messages = () => sink.getRecords().map(record => record.message);
+
+  describe('EngineLogger', () => {
+    it('drops records below the level', () => {
+      const logger = new EngineLogger({ level: LogLevel.Info, sinks: [sink] });
+
+      logger.debug('cpu', 'hidden');
+      logger.info('cpu', 'shown');
+      logger.error('loader', 'failed');
+
+      expect(messages()).toEqual(['shown', 'failed']);
+    });
+
+    it('applies per-category levels', () => {
+      const logger = new EngineLogger({ level: LogLevel.Warn, categories: { scheduler: LogLevel.Debug }, sinks: [sink] });
+
+      logger.debug('scheduler', 'scheduled');
+      logger.info('cpu', 'executed');
+      logger.setLevel(LogLevel.Silent, 'scheduler');
+      logger.error('scheduler', 'silenced');
+
+      expect(messages()).toEqual(['scheduled']);
+      expect(logger.isEnabled(LogLevel.Warn, 'cpu')).toBe(true);
+    });
+
+    it('only builds lazy messages for enabled records', () => {
+      const logger = new EngineLogger({ level: LogLevel.Info, sinks: [sink] });
+      let calls = 0;
+      const build = () => `built ${++calls}`;
+
+      logger.debug('cpu', build);
+      expect(calls).toBe(0);
+
+      logger.info('cpu', build);
+      expect(messages()).toEqual(['built 1']);
+    });
+
+    it('defaults to warnings and errors only', () => {
+      const logger = new EngineLogger({ sinks: [sink] });
+
+      logger.info('battle', 'turn');
+      logger.warn('battle', 'careful');
+
+      expect(messages()).toEqual(['careful']);
+    });
+  });
+
+  describe('sinks', () => {
+    it('keeps the most recent records in the ring buffer', () => {
+      const logger = new EngineLogger({ level: LogLevel.Debug, sinks: [sink] });
+
+      for (let i = 0; i < 25; i++) {
+        logger.info('cpu', `record ${i}`);
+      }
+
+      expect(messages()).toEqual(Array.from({ length: 10 }, (_, i) => `record ${15 + i}`));
+      sink.clear();
+      expect(messages()).toEqual([]);
+    });
+
+    it('appends lines to a file', () => {
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'asm-bots-log-')), 'engine.log');
+      const fileSink = new FileSink(file);
+      const logger = new EngineLogger({ level: LogLevel.Info, sinks: [fileSink] });
+
+      logger.info('loader', 'Loaded bot');
+      fileSink.close();
+      logger.info('loader', 'dropped');
+
+      const lines = fs.readFileSync(file, 'utf-8').trim().split('\n');
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatch(/^\d{4}-\d\d-\d\dT.* INFO  \[loader\] Loaded bot$/);
+      fs.rmSync(path.dirname(file), { recursive: true });
+    });
+
+    it('formats console lines with level and category', () => {
+      const lines: string[] = [];
+      new EngineLogger({ sinks: [new ConsoleSink(line => lines.push(line))] }).error('cpu', 'Execution error');
+
+      expect(lines).toEqual(['ERROR [cpu] Execution error']);
+      expect(formatLogRecord({ timestamp: 0, level: LogLevel.Debug, category: 'memory', message: 'x' }))
+        .toBe('DEBUG [memory] x');
+    });
+  });
+
+  it('receives engine messages through the injected logger', () => {
+    const logger = new EngineLogger({ level: LogLevel.Debug, sinks: [sink] });
+    const manager = new ProcessManager({ defaultQuantum: 1, defaultPriority: 1, maxProcesses: 2, logger });
+    const id = manager.create({ name: 'bot', owner: 'me', memorySegments: [], entryPoint: 0 });
+
+    manager.terminate(id, 'DAT bomb executed');
+
+    expect(sink.getRecords()).toContainEqual(expect.objectContaining({
+      level: LogLevel.Info,
+      category: 'scheduler',
+      message: 'Process 1 (bot) terminated: DAT bomb executed'
+    }));
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Core Wars Engine Logging
+ * Leveled, categorized log records delivered to pluggable sinks. Engine
+ * modules take a Logger through their options; the default only reports
+ * warnings and errors.
+ */
+
+import fs from 'fs';
+
+export enum LogLevel {
+  Debug = 0,   // Per-cycle detail: scheduling decisions, executed instructions
+  Info = 1,    // Battle milestones: bots loaded, turns, terminations, winner
+  Warn = 2,    // Recoverable problems
+  Error = 3,   // Failures
+  Silent = 4   // Threshold that disables logging
+}
+
+export type LogCategory = 'battle' | 'scheduler' | 'cpu' | 'memory' | 'loader';
+
+/**
+ * A message, or a function building it. Functions are only called when the
+ * record is enabled, so hot paths don't format strings nobody reads.
+ */
+export type LogMessage = string | (() => string);
+
+export interface LogRecord {
+  timestamp: number;
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+}
+
+/**
+ * Destination for log records
+ */
+export interface LogSink {
+  write(record: LogRecord): void;
+}
+
+export interface Logger {
+  isEnabled(level: LogLevel, category: LogCategory): boolean;
+  log(level: LogLevel, category: LogCategory, message: LogMessage): void;
+  debug(category: LogCategory, message: LogMessage): void;
+  info(category: LogCategory, message: LogMessage): void;
+  warn(category: LogCategory, message: LogMessage): void;
+  error(category: LogCategory, message: LogMessage): void;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;                                        // Default threshold (default Warn)
+  categories?: Partial<Record<LogCategory, LogLevel>>;     // Per-category thresholds
+  sinks?: LogSink[];                                       // Default: one ConsoleSink
+}
+
+/**
+ * Format a record as `LEVEL [category] message`
+ */
+export function formatLogRecord(record: LogRecord): string {
+  return `${LogLevel[record.level].toUpperCase().padEnd(5)} [${record.category}] ${record.message}`;
+}
+
+/**
+ * Writes records to the console, or to a line writer such as stderr
+ */
+export class ConsoleSink implements LogSink {
+  private writeLine?: (line: string) => void;
+
+  /**
+   * @param writeLine Where lines go; by default console.log, console.warn or
+   *                  console.error depending on the level
+   */
+  constructor(writeLine?: (line: string) => void) {
+    this.writeLine = writeLine;
+  }
+
+  public write(record: LogRecord): void {
+    const line = formatLogRecord(record);
+    if (this.writeLine) {
+      this.writeLine(line);
+    } else if (record.level >= LogLevel.Error) {
+      console.error(line);
+    } else if (record.level === LogLevel.Warn) {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * Appends records to a file, one line each, prefixed with an ISO timestamp
+ */
+export class FileSink implements LogSink {
+  private fd: number | null;
+
+  /**
+   * @param filePath File to append to; created if missing
+   */
+  constructor(filePath: string) {
+    this.fd = fs.openSync(filePath, 'a');
+  }
+
+  public write(record: LogRecord): void {
+    if (this.fd !== null) {
+      fs.writeSync(this.fd, `${new Date(record.timestamp).toISOString()} ${formatLogRecord(record)}\n`);
+    }
+  }
+
+  /**
+   * Close the file; later records are dropped
+   */
+  public close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
+
+/**
+ * Keeps the most recent records in memory, e.g. for crash reports or tests
+ */
+export class RingBufferSink implements LogSink {
+  private records: LogRecord[];
+  private next: number;
+  private capacity: number;
+
+  /**
+   * @param capacity Records kept before the oldest are overwritten
+   */
+  constructor(capacity: number = 1000) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Invalid ring buffer capacity: ${capacity}`);
+    }
+    this.capacity = capacity;
+    this.records = [];
+    this.next = 0;
+  }
+
+  public write(record: LogRecord): void {
+    if (this.records.length < this.capacity) {
+      this.records.push(record);
+    } else {
+      this.records[this.next] = record;
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  /**
+   * Get the kept records, oldest first
+   */
+  public getRecords(): LogRecord[] {
+    return this.records.length < this.capacity
+      ? [...this.records]
+      : [...this.records.slice(this.next), ...this.records.slice(0, this.next)];
+  }
+
+  public clear(): void {
+    this.records = [];
+    this.next = 0;
+  }
+}
+
+/**
+ * Logger with a default threshold, per-category overrides and any number of sinks
+ */
+export class EngineLogger implements Logger {
+  private level: LogLevel;
+  private categories: Partial<Record<LogCategory, LogLevel>>;
+  private sinks: LogSink[];
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? LogLevel.Warn;
+    this.categories = { ...options.categories };
+    this.sinks = options.sinks ?? [new ConsoleSink()];
+  }
+
+  /**
+   * Change the threshold, for all categories or for one
+   */
+  public setLevel(level: LogLevel, category?: LogCategory): void {
+    if (category) {
+      this.categories[category] = level;
+    } else {
+      this.level = level;
+    }
+  }
+
+  public addSink(sink: LogSink): void {
+    this.sinks.push(sink);
+  }
+
+  public isEnabled(level: LogLevel, category: LogCategory): boolean {
+    return level < LogLevel.Silent && level >= (this.categories[category] ?? this.level);
+  }
+
+  public log(level: LogLevel, category: LogCategory, message: LogMessage): void {
+    if (!this.isEnabled(level, category)) {
+      return;
+    }
+    const record: LogRecord = {
+      timestamp: Date.now(),
+      level,
+      category,
+      message: typeof message === 'function' ? message() : message
+    };
+    for (const sink of this.sinks) {
+      sink.write(record);
+    }
+  }
+
+  public debug(category: LogCategory, message: LogMessage): void {
+    this.log(LogLevel.Debug, category, message);
+  }
+
+  public info(category: LogCategory, message: LogMessage): void {
+    this.log(LogLevel.Info, category, message);
+  }
+
+  public warn(category: LogCategory, message: LogMessage): void {
+    this.log(LogLevel.Warn, category, message);
+  }
+
+  public error(category: LogCategory, message: LogMessage): void {
+    this.log(LogLevel.Error, category, message);
+  }
+}
+
+/**
+ * Logger used when none is injected: warnings and errors to the console.
+ * Shared, so setLevel() on it affects every module that uses the default.
+ */
+export const defaultLogger: EngineLogger = new EngineLogger();
+
+/**
+ * Logger that drops everything
+ */
+export const silentLogger: Logger = new EngineLogger({ level: LogLevel.Silent, sinks: [] });
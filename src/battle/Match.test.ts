@@ -0,0 +1,121 @@
+import { Match } from './Match.js';
+import { BattlePool, PoolWorker } from './BattlePool.js';
+import { BattleJobRunner, BattleWorkerRequest, BattleWorkerMessage } from './BattleJob.js';
+import fs from 'fs';
+import path from 'path';
+
+// Runs pool jobs on this thread, as worker threads can't load .ts files under jest
+class InThreadWorker implements PoolWorker {
+  private listeners: Array<(message: BattleWorkerMessage) => void> = [];
+  public jobs = 0;
+
+  postMessage(message: BattleWorkerRequest): void {
+    if (message.type === 'run') {
+      this.jobs++;
+      setImmediate(() => new BattleJobRunner(message.jobId, message.request, reply => {
+        this.listeners.forEach(listener => listener(reply));
+      }).run());
+    }
+  }
+
+  on(event: 'message' | 'error', listener: (value: any) => void): this {
+    if (event === 'message') this.listeners.push(listener);
+    return this;
+  }
+
+  async terminate(): Promise<number> {
+    return 0;
+  }
+}
+
+describe('Match', () => {
+  const looper = {
+    name: 'looper',
+    code: fs.readFileSync(path.join(process.cwd(), 'bots', 'infinite_loop.asm'), 'utf-8'),
+    owner: 'a'
+  };
+  const quitter = { name: 'quitter', code: 'halt', owner: 'b' };
+  const options = { maxTurns: 20 };
+
+  it('plays every round and totals wins, losses and scores', async () => {
+    const rounds: number[] = [];
+    const result = await new Match([looper, quitter], { rounds: 4, seed: 9, options }).run(round => rounds.push(round.round));
+
+    expect(rounds).toEqual([0, 1, 2, 3]);
+    expect(result.seed).toBe(9);
+    expect(result.rounds.every(round => round.outcome === 'completed')).toBe(true);
+    expect(new Set(result.rounds.map(round => round.seed)).size).toBe(4);
+    expect(result.standings).toEqual([
+      { name: 'looper', owner: 'a', team: null, wins: 4, losses: 0, ties: 0, score: 12, averageScore: 3, confidence: [3, 3] },
+      { name: 'quitter', owner: 'b', team: null, wins: 0, losses: 4, ties: 0, score: 0, averageScore: 0, confidence: [0, 0] }
+    ]);
+  });
+
+  it('replays the same rounds from the same seed', async () => {
+    const bots = [looper, { ...looper, name: 'other', owner: 'b' }];
+
+    const first = await new Match(bots, { rounds: 3, seed: 21, options }).run();
+    const second = await new Match(bots, { rounds: 3, seed: 21, options }).run();
+
+    expect(second).toEqual(first);
+    for (const standing of first.standings) {
+      expect(standing.wins + standing.losses + standing.ties).toBe(3);
+      expect(standing.confidence[0]).toBeLessThanOrEqual(standing.averageScore);
+      expect(standing.confidence[1]).toBeGreaterThanOrEqual(standing.averageScore);
+    }
+  });
+
+  it('counts rounds stopped without a decision as ties', async () => {
+    const result = await new Match([looper, { ...looper, name: 'other' }], {
+      rounds: 2,
+      options: { maxTurns: 1e9 },
+      cpuTimeLimit: 10
+    }).run();
+
+    expect(result.rounds.map(round => round.outcome)).toEqual(['cpu-limit', 'cpu-limit']);
+    expect(result.standings.map(standing => standing.ties)).toEqual([2, 2]);
+    expect(result.standings[0].score).toBe(2);
+  });
+
+  it('runs rounds in parallel on a pool', async () => {
+    const workers: InThreadWorker[] = [];
+    const pool = new BattlePool({
+      size: 2,
+      createWorker: () => {
+        const worker = new InThreadWorker();
+        workers.push(worker);
+        return worker;
+      }
+    });
+
+    try {
+      const parallel = await new Match([looper, quitter], { rounds: 4, seed: 9, options, pool }).run();
+      const sequential = await new Match([looper, quitter], { rounds: 4, seed: 9, options }).run();
+
+      expect(workers.map(worker => worker.jobs)).toEqual([2, 2]);
+      expect(parallel.standings).toEqual(sequential.standings);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it('rejects when a bot fails to assemble', async () => {
+    const match = new Match([looper, { name: 'broken', code: 'bogus r0, r1', owner: 'x' }], { rounds: 2, options });
+
+    await expect(match.run()).rejects.toThrow(/Parse errors in broken/);
+  });
+
+  it('stops and rejects when cancelled', async () => {
+    const match = new Match([looper, { ...looper, name: 'other' }], { rounds: 3, options: { maxTurns: 1e9 } });
+
+    const running = match.run();
+    match.cancel();
+
+    await expect(running).rejects.toThrow('Match cancelled');
+  });
+
+  it('validates its bots and rounds', () => {
+    expect(() => new Match([looper])).toThrow('A match needs at least two bots');
+    expect(() => new Match([looper, quitter], { rounds: 0 })).toThrow('Invalid number of rounds: 0');
+  });
+});
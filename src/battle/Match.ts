@@ -0,0 +1,219 @@
+/**
+ * Core Wars Matches
+ * The same bots battle for a number of rounds, each with its own seed and so
+ * its own placement, and their results are totalled. Rounds run one after
+ * another on this thread, or in parallel on a battle pool.
+ */
+
+import { BattleJob, BattlePool } from './BattlePool.js';
+import {
+  BattleJobBot,
+  BattleJobOptions,
+  BattleJobOutcome,
+  BattleJobRequest,
+  BattleJobResult,
+  BattleJobRunner
+} from './BattleJob.js';
+import { SeededRandom } from './SeededRandom.js';
+import { VictoryRuleName } from './Victory.js';
+
+export interface MatchOptions {
+  rounds?: number;                   // Default DEFAULT_MATCH_ROUNDS
+  seed?: number;                     // Round seeds are drawn from it; generated when omitted
+  options?: BattleJobOptions;        // Battle options for every round; their seed is ignored
+  victory?: VictoryRuleName;         // Victory rule (default: last-survivor)
+  includes?: Record<string, string>; // Files the bots may include, by name
+  cpuTimeLimit?: number;             // Milliseconds each round may execute (default: no limit, or the pool's)
+  pool?: BattlePool;                 // Run the rounds in parallel on it (default: one after another on this thread)
+}
+
+export type RoundResult = 'win' | 'loss' | 'tie';
+
+export interface MatchRound {
+  round: number;           // From 0
+  seed: number;            // Replays the round as a single battle
+  outcome: BattleJobOutcome;
+  turns: number;
+  results: RoundResult[];  // Per bot, in order
+}
+
+/**
+ * A bot's totals over the match (3 points per win, 1 per tie)
+ */
+export interface MatchStanding {
+  name: string;
+  owner: string;
+  team: string | null;
+  wins: number;
+  losses: number;
+  ties: number;
+  score: number;
+  averageScore: number;          // Points per round
+  confidence: [number, number];  // 95% confidence interval of averageScore
+}
+
+export interface MatchResult {
+  seed: number;
+  rounds: MatchRound[];        // In round order
+  standings: MatchStanding[];  // Per bot, in order
+}
+
+export const DEFAULT_MATCH_ROUNDS = 10;
+
+const WIN_POINTS = 3;
+const TIE_POINTS = 1;
+
+export class Match {
+  private bots: BattleJobBot[];
+  private rounds: number;
+  private seed: number;
+  private options: MatchOptions;
+  private cancelled = false;
+  private jobs: BattleJob[] = [];                // Rounds on the pool
+  private runner: BattleJobRunner | null = null; // The round on this thread
+
+  /**
+   * @param bots The bots, in the order standings are reported
+   */
+  constructor(bots: BattleJobBot[], options: MatchOptions = {}) {
+    const rounds = options.rounds ?? DEFAULT_MATCH_ROUNDS;
+    if (bots.length < 2) {
+      throw new Error('A match needs at least two bots');
+    }
+    if (!Number.isInteger(rounds) || rounds < 1) {
+      throw new Error(`Invalid number of rounds: ${rounds}`);
+    }
+    this.bots = bots;
+    this.rounds = rounds;
+    this.seed = options.seed ?? SeededRandom.generateSeed();
+    this.options = options;
+  }
+
+  /**
+   * Play every round. Rejects if a round fails, e.g. because a bot doesn't
+   * assemble (with a pool, the rounds still running are cancelled), or if the
+   * match is cancelled.
+   * @param onRound Called as each round finishes, in finishing order
+   */
+  public async run(onRound?: (round: MatchRound) => void): Promise<MatchResult> {
+    // Round seeds come from the match seed, so the match and each round can be replayed
+    const random = new SeededRandom(this.seed);
+    const requests = Array.from({ length: this.rounds }, () => this.createRequest(random.nextInt(0x100000000)));
+    const finish = (round: number, result: BattleJobResult): MatchRound => {
+      const matchRound = this.toMatchRound(round, result);
+      onRound?.(matchRound);
+      return matchRound;
+    };
+
+    const rounds: MatchRound[] = [];
+    const pool = this.options.pool;
+    if (pool) {
+      this.jobs = requests.map(request => pool.run(request));
+      try {
+        rounds.push(...await Promise.all(this.jobs.map(async (job, round) => finish(round, await job.result))));
+      } catch (error) {
+        this.jobs.forEach(job => job.cancel());
+        throw error;
+      }
+    } else {
+      for (let round = 0; round < requests.length && !this.cancelled; round++) {
+        rounds.push(finish(round, await this.runOnThisThread(round, requests[round])));
+      }
+    }
+    if (this.cancelled) {
+      throw new Error('Match cancelled');
+    }
+
+    return { seed: this.seed, rounds, standings: this.tally(rounds) };
+  }
+
+  /**
+   * Stop the match. Rounds still to play never start and running ones stop
+   * as battles do when cancelled; run() then rejects.
+   */
+  public cancel(): void {
+    this.cancelled = true;
+    this.jobs.forEach(job => job.cancel());
+    this.runner?.cancel();
+  }
+
+  private createRequest(seed: number): BattleJobRequest {
+    return {
+      bots: this.bots,
+      includes: this.options.includes,
+      options: { ...this.options.options, seed },
+      victory: this.options.victory,
+      ...(this.options.cpuTimeLimit !== undefined ? { cpuTimeLimit: this.options.cpuTimeLimit } : {})
+    };
+  }
+
+  private runOnThisThread(round: number, request: BattleJobRequest): Promise<BattleJobResult> {
+    return new Promise((resolve, reject) => {
+      this.runner = new BattleJobRunner(`round-${round}`, request, message => {
+        if (message.type === 'result') {
+          resolve(message.result);
+        } else if (message.type === 'error') {
+          reject(new Error(message.message));
+        }
+      });
+      this.runner.run();
+    });
+  }
+
+  /**
+   * A round's result for each bot. A team's win is a win for all its bots;
+   * a round stopped without a decision is a tie for everyone.
+   */
+  private toMatchRound(round: number, result: BattleJobResult): MatchRound {
+    const results = this.bots.map((bot, index): RoundResult => {
+      const warrior = result.warriors[index];
+      if (result.winner !== null) {
+        const won = warrior === result.winner || (result.winningTeam !== null && bot.team === result.winningTeam);
+        return won ? 'win' : 'loss';
+      }
+      if (result.draw !== null) {
+        return result.draw.includes(warrior) ? 'tie' : 'loss';
+      }
+      return 'tie';
+    });
+    return { round, seed: result.seed, outcome: result.outcome, turns: result.turns, results };
+  }
+
+  private tally(rounds: MatchRound[]): MatchStanding[] {
+    return this.bots.map((bot, index) => {
+      const points = rounds.map(round =>
+        round.results[index] === 'win' ? WIN_POINTS : round.results[index] === 'tie' ? TIE_POINTS : 0
+      );
+      const wins = rounds.filter(round => round.results[index] === 'win').length;
+      const ties = rounds.filter(round => round.results[index] === 'tie').length;
+      const score = wins * WIN_POINTS + ties * TIE_POINTS;
+      return {
+        name: bot.name,
+        owner: bot.owner,
+        team: bot.team ?? null,
+        wins,
+        losses: rounds.length - wins - ties,
+        ties,
+        score,
+        averageScore: score / rounds.length,
+        confidence: confidenceInterval(points)
+      };
+    });
+  }
+}
+
+/**
+ * 95% confidence interval of the mean points per round, by the normal
+ * approximation. One round says nothing, so its interval is every possible
+ * average.
+ */
+function confidenceInterval(points: number[]): [number, number] {
+  const n = points.length;
+  if (n < 2) {
+    return [0, WIN_POINTS];
+  }
+  const mean = points.reduce((sum, p) => sum + p, 0) / n;
+  const variance = points.reduce((sum, p) => sum + (p - mean) ** 2, 0) / (n - 1);
+  const margin = 1.96 * Math.sqrt(variance / n);
+  return [Math.max(0, mean - margin), Math.min(WIN_POINTS, mean + margin)];
+}
@@ -0,0 +1,130 @@
+import { PSpace, PSPACE_NO_RESULT } from './PSpace.js';
+import { BattleRunner } from './BattleRunner.js';
+import { BattleJobRequest, BattleJobResult, BattleJobRunner } from './BattleJob.js';
+import { silentLogger } from './Logger.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('PSpace', () => {
+  it('starts with no result in slot 0 and zeroes elsewhere', () => {
+    const pspace = new PSpace(8);
+
+    expect(pspace.size).toBe(8);
+    expect(pspace.getResult()).toBe(PSPACE_NO_RESULT);
+    expect(pspace.load(0)).toBe(PSPACE_NO_RESULT);
+    expect(pspace.load(5)).toBe(0);
+  });
+
+  it('wraps slot indices and keeps slot 0 read-only', () => {
+    const pspace = new PSpace(8);
+
+    pspace.store(9, 0x1234);
+    pspace.store(-1, 7);
+    pspace.store(8, 42);
+
+    expect(pspace.load(1)).toBe(0x1234);
+    expect(pspace.load(7)).toBe(7);
+    expect(pspace.getResult()).toBe(PSPACE_NO_RESULT);
+
+    pspace.setResult(1);
+    expect(pspace.load(0)).toBe(1);
+  });
+
+  it('rejects invalid sizes', () => {
+    expect(() => new PSpace(0)).toThrow('Invalid P-space size: 0');
+  });
+
+  it('copies its slots to and from an array', () => {
+    const pspace = new PSpace(4);
+    pspace.store(2, 9);
+
+    const copy = PSpace.fromArray(pspace.toArray());
+
+    expect(copy.toArray()).toEqual([PSPACE_NO_RESULT, 0, 9, 0]);
+    expect(copy.size).toBe(4);
+  });
+});
+
+describe('BattleRunner P-space', () => {
+  let tmp: string;
+
+  // Counts its rounds in slot 1 and keeps the last result it saw in slot 2
+  const rememberer = [
+    'ldp r0, 1',
+    'add r0, 1',
+    'stp 1, r0',
+    'ldp r1, 0',
+    'stp 2, r1',
+    'loop:',
+    'jmp loop'
+  ].join('\n');
+
+  const write = (name: string, code: string): string => {
+    const file = path.join(tmp, name);
+    fs.writeFileSync(file, code);
+    return file;
+  };
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'asm-bots-pspace-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it('keeps each bot\'s P-space across rounds with its last result in slot 0', async () => {
+    const runner = new BattleRunner({ maxTurns: 20, seed: 5, pspaceSize: 4, logger: silentLogger });
+    runner.addBot(write('rememberer.asm', rememberer), 'a');
+    runner.addBot(write('quitter.asm', 'halt'), 'b');
+
+    await runner.runBattle();
+    const [winner, loser] = [runner.getPSpace(0)!, runner.getPSpace(1)!];
+    expect(runner.getRound()).toBe(1);
+    expect(winner.getResult()).toBe(1);
+    expect(loser.getResult()).toBe(0);
+    expect(winner.load(1)).toBe(1);
+    expect(winner.load(2)).toBe(PSPACE_NO_RESULT);
+
+    await runner.runBattle();
+    expect(runner.getRound()).toBe(2);
+    expect(winner.load(1)).toBe(2);
+    expect(winner.load(2)).toBe(1);
+  });
+
+  it('plays without P-space unless a size is given', async () => {
+    const runner = new BattleRunner({ maxTurns: 20, seed: 5, logger: silentLogger });
+    runner.addBot(write('rememberer.asm', rememberer), 'a');
+    runner.addBot(write('quitter.asm', 'halt'), 'b');
+
+    const results = await runner.runBattle();
+
+    expect(runner.getPSpace(0)).toBeUndefined();
+    expect(results.winner).not.toBeNull();
+  });
+});
+
+describe('Battle job P-space', () => {
+  const rememberer = ['ldp r0, 1', 'add r0, 1', 'stp 1, r0', 'loop:', 'jmp loop'].join('\n');
+
+  const runJob = (request: BattleJobRequest) => new Promise<BattleJobResult>((resolve, reject) => {
+    new BattleJobRunner('job', request, message => {
+      if (message.type === 'result') resolve(message.result);
+      if (message.type === 'error') reject(new Error(message.message));
+    }).run();
+  });
+
+  it('carries each bot\'s P-space into and out of the battle, with its result in slot 0', async () => {
+    const bots = [{ name: 'rememberer', code: rememberer, owner: 'a' }, { name: 'quitter', code: 'halt', owner: 'b' }];
+    const fresh = new PSpace(4).toArray();
+
+    const first = await runJob({ bots, options: { maxTurns: 20, seed: 5 }, pspaces: [fresh, fresh] });
+    const second = await runJob({ bots, options: { maxTurns: 20, seed: 6 }, pspaces: first.pspaces });
+
+    expect(first.pspaces).toEqual([[1, 1, 0, 0], [0, 0, 0, 0]]);
+    expect(second.pspaces![0]).toEqual([1, 2, 0, 0]);
+    expect((await runJob({ bots, options: { maxTurns: 20 } })).pspaces).toBeUndefined();
+    await expect(runJob({ bots, pspaces: [fresh] })).rejects.toThrow('A battle job with P-spaces needs one for each bot');
+  });
+});
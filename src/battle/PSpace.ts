@@ -0,0 +1,110 @@
+/**
+ * Core Wars P-space
+ * Private storage a warrior keeps across the rounds of a match, read with
+ * `ldp` and written with `stp`. As in ICWS P-space, slot 0 holds the
+ * warrior's result in the previous round and cannot be written.
+ */
+
+import { WarriorId } from './types.js';
+
+export const DEFAULT_PSPACE_SIZE = 16;
+
+// Slot 0 before the first round has been played (ICWS: -1)
+export const PSPACE_NO_RESULT = 0xFFFF;
+
+export class PSpace {
+  private slots: Uint16Array;
+
+  /**
+   * @param size Number of 16-bit slots, slot 0 included (default DEFAULT_PSPACE_SIZE)
+   */
+  constructor(size: number = DEFAULT_PSPACE_SIZE) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Invalid P-space size: ${size}`);
+    }
+    this.slots = new Uint16Array(size);
+    this.slots[0] = PSPACE_NO_RESULT;
+  }
+
+  public get size(): number {
+    return this.slots.length;
+  }
+
+  /**
+   * Read a slot. Indices wrap around the P-space size.
+   */
+  public load(index: number): number {
+    return this.slots[this.wrap(index)];
+  }
+
+  /**
+   * Write a slot. Writes to slot 0 are ignored.
+   */
+  public store(index: number, value: number): void {
+    const slot = this.wrap(index);
+    if (slot !== 0) {
+      this.slots[slot] = value;
+    }
+  }
+
+  /**
+   * Record the warrior's result in the round just played: 0 for a loss,
+   * otherwise the number of sides still standing (1 for a win)
+   */
+  public setResult(result: number): void {
+    this.slots[0] = result;
+  }
+
+  public getResult(): number {
+    return this.slots[0];
+  }
+
+  /**
+   * Every slot, e.g. to carry the P-space to a battle on another thread
+   */
+  public toArray(): number[] {
+    return Array.from(this.slots);
+  }
+
+  /**
+   * A P-space holding the slots from toArray()
+   */
+  public static fromArray(slots: number[]): PSpace {
+    const pspace = new PSpace(slots.length);
+    pspace.slots.set(slots);
+    return pspace;
+  }
+
+  private wrap(index: number): number {
+    return ((index % this.slots.length) + this.slots.length) % this.slots.length;
+  }
+}
+
+/**
+ * Store each bot's result in a round in slot 0 of its P-space, as in ICWS:
+ * 0 for a loss, otherwise the number of sides still standing (1 for a win)
+ * @param pspaces Per bot, in the same order as bots
+ * @param survivors Warriors still running, who share a round stopped without a decision
+ */
+export function recordRoundResults(
+  pspaces: PSpace[],
+  bots: Array<{ warrior: WarriorId; team: string | null }>,
+  results: { winner: WarriorId | null; winningTeam: string | null; draw: WarriorId[] | null },
+  survivors: WarriorId[]
+): void {
+  let standing: Set<WarriorId>;
+  if (results.winner !== null) {
+    standing = new Set(bots
+      .filter(bot => bot.warrior === results.winner || (results.winningTeam !== null && bot.team === results.winningTeam))
+      .map(bot => bot.warrior));
+  } else if (results.draw !== null) {
+    standing = new Set(results.draw);
+  } else {
+    standing = new Set(survivors);
+  }
+
+  const sides = new Set(bots.filter(bot => standing.has(bot.warrior)).map(bot => bot.team ?? bot.warrior)).size;
+  bots.forEach((bot, index) => {
+    pspaces[index].setResult(standing.has(bot.warrior) ? sides : 0);
+  });
+}
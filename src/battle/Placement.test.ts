@@ -0,0 +1,112 @@
+import {
+  BotPlacer,
+  RandomPlacement,
+  EvenPlacement,
+  FixedPlacement,
+  PlacementContext,
+  isSeparated
+} from './Placement.js';
+import { SeededRandom } from './SeededRandom.js';
+import { TrackedMemorySystem } from '../memory/TrackedMemorySystem.js';
+
+describe('Placement', () => {
+  let memory: TrackedMemorySystem;
+
+  beforeEach(() => {
+    memory = new TrackedMemorySystem(0x1000);
+  });
+
+  const context = (start: number, size: number, minDistance: number): PlacementContext => ({
+    memorySize: 0x1000,
+    size,
+    slot: 1,
+    placed: [{ start, size }],
+    minDistance,
+    random: new SeededRandom(1)
+  });
+
+  describe('isSeparated()', () => {
+    it('measures the gap both ways around memory', () => {
+      const placed = context(0x100, 0x10, 0x20);
+
+      expect(isSeparated(0x130, placed)).toBe(true);
+      expect(isSeparated(0x12F, placed)).toBe(false);
+      expect(isSeparated(0xD0, placed)).toBe(true);
+      expect(isSeparated(0xD1, placed)).toBe(false);
+      expect(isSeparated(0x108, placed)).toBe(false);
+    });
+
+    it('wraps around the end of memory', () => {
+      const placed = context(0x0, 0x10, 0x20);
+
+      expect(isSeparated(0xFD0, placed)).toBe(true);
+      expect(isSeparated(0xFE0, placed)).toBe(false);
+    });
+  });
+
+  describe('RandomPlacement', () => {
+    it('keeps bots apart and replays with the same seed', () => {
+      const placeAll = (seed: number): number[] => {
+        const placer = new BotPlacer(new RandomPlacement(), 0x100, new SeededRandom(seed));
+        const target = new TrackedMemorySystem(0x1000);
+        return [0, 1, 2, 3].map(() => placer.place(0x80, target));
+      };
+
+      const starts = placeAll(3);
+
+      expect(placeAll(3)).toEqual(starts);
+      for (const a of starts) {
+        for (const b of starts.filter(other => other !== a)) {
+          const gap = ((b - a) % 0x1000 + 0x1000) % 0x1000;
+          expect(gap).toBeGreaterThanOrEqual(0x180);
+        }
+      }
+    });
+
+    it('reports when memory is too crowded', () => {
+      const placer = new BotPlacer(new RandomPlacement(5), 0x400, new SeededRandom(1));
+
+      placer.place(0x200, memory);
+      placer.place(0x200, memory);
+
+      expect(() => placer.place(0x200, memory)).toThrow('No room for a bot of 512 cells at least 1024 cells from the others');
+    });
+  });
+
+  describe('EvenPlacement', () => {
+    it('spreads slots evenly', () => {
+      const placer = new BotPlacer(new EvenPlacement(4), 0x100, new SeededRandom(1));
+
+      expect([0, 1, 2, 3].map(() => placer.place(0x40, memory))).toEqual([0x0, 0x400, 0x800, 0xC00]);
+      expect(() => placer.place(0x40, memory)).toThrow('No placement slot for bot 5: only 4 slots');
+    });
+  });
+
+  describe('FixedPlacement', () => {
+    it('uses the offset of each slot', () => {
+      const placer = new BotPlacer(new FixedPlacement([0x200, 0x900]), 0x100, new SeededRandom(1));
+
+      expect(placer.place(0x40, memory)).toBe(0x200);
+      expect(placer.place(0x40, memory)).toBe(0x900);
+      expect(placer.getPlacements()).toEqual([{ start: 0x200, size: 0x40 }, { start: 0x900, size: 0x40 }]);
+    });
+
+    it('rejects offsets that are too close or out of range', () => {
+      const close = new BotPlacer(new FixedPlacement([0x200, 0x250]), 0x100, new SeededRandom(1));
+      close.place(0x40, memory);
+
+      expect(() => close.place(0x40, memory)).toThrow('within 256 cells of another bot');
+      expect(() => new BotPlacer(new FixedPlacement([0xFF0]), 0, new SeededRandom(1)).place(0x40, memory))
+        .toThrow('outside memory');
+    });
+  });
+
+  describe('BotPlacer', () => {
+    it('rejects regions owned by a process', () => {
+      memory.setOwnershipRange(0x310, 4, 7);
+      const placer = new BotPlacer(new FixedPlacement([0x300]), 0, new SeededRandom(1));
+
+      expect(() => placer.place(0x20, memory)).toThrow('Placement at 0x300 overlaps memory owned by process 7 at 0x310');
+    });
+  });
+});
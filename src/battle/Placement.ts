@@ -0,0 +1,218 @@
+/**
+ * Core Wars Bot Placement
+ * Chooses where each bot is loaded, keeping a minimum distance between bots
+ * (ICWS MINDISTANCE)
+ */
+
+import { SeededRandom } from './SeededRandom.js';
+import { TrackedMemorySystem } from '../memory/TrackedMemorySystem.js';
+
+// Cells between bots when BattleOptions.minDistance is not set
+export const DEFAULT_MIN_DISTANCE = 100;
+
+/**
+ * Memory occupied by a placed bot
+ */
+export interface PlacedRegion {
+  start: number;
+  size: number;
+}
+
+/**
+ * Everything a strategy needs to choose a start address
+ */
+export interface PlacementContext {
+  memorySize: number;                // Cells in memory
+  size: number;                      // Cells the bot occupies
+  slot: number;                      // Index of the bot being placed, from 0
+  placed: readonly PlacedRegion[];   // Bots already placed
+  minDistance: number;               // Free cells required between bots
+  random: SeededRandom;
+}
+
+/**
+ * Chooses a start address for a bot. Images never wrap past the end of
+ * memory, so a start must lie in [0, memorySize - size].
+ */
+export interface PlacementStrategy {
+  readonly name: string;
+  place(context: PlacementContext): number;
+}
+
+/**
+ * Check whether a bot at `start` keeps at least `minDistance` free cells to
+ * every placed bot, measured both ways around circular memory
+ */
+export function isSeparated(start: number, context: PlacementContext): boolean {
+  const { memorySize, size, placed, minDistance } = context;
+  return placed.every(region => {
+    const offset = ((region.start - start) % memorySize + memorySize) % memorySize;
+    return offset >= size + minDistance && memorySize - offset >= region.size + minDistance;
+  });
+}
+
+/**
+ * Random start addresses, retried until one is far enough from the other bots
+ */
+export class RandomPlacement implements PlacementStrategy {
+  public readonly name = 'random';
+  private maxAttempts: number;
+
+  /**
+   * @param maxAttempts Random tries before scanning memory for the first free start
+   */
+  constructor(maxAttempts: number = 100) {
+    this.maxAttempts = maxAttempts;
+  }
+
+  public place(context: PlacementContext): number {
+    const range = context.memorySize - context.size + 1;
+    if (range <= 0) {
+      throw new Error(`Bot of ${context.size} cells does not fit in ${context.memorySize} cells of memory`);
+    }
+
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const start = context.random.nextInt(range);
+      if (isSeparated(start, context)) {
+        return start;
+      }
+    }
+
+    // Crowded memory: scan from a random point so the result still varies with the seed
+    const origin = context.random.nextInt(range);
+    for (let i = 0; i < range; i++) {
+      const start = (origin + i) % range;
+      if (isSeparated(start, context)) {
+        return start;
+      }
+    }
+
+    throw new Error(`No room for a bot of ${context.size} cells at least ${context.minDistance} cells from the others`);
+  }
+}
+
+/**
+ * Bots spread evenly over memory: slot i starts at i * memorySize / slots
+ */
+export class EvenPlacement implements PlacementStrategy {
+  public readonly name = 'even';
+  private slots: number;
+
+  /**
+   * @param slots Number of bots memory is divided between
+   */
+  constructor(slots: number) {
+    if (!Number.isInteger(slots) || slots < 1) {
+      throw new Error(`Invalid slot count: ${slots}`);
+    }
+    this.slots = slots;
+  }
+
+  public place(context: PlacementContext): number {
+    if (context.slot >= this.slots) {
+      throw new Error(`No placement slot for bot ${context.slot + 1}: only ${this.slots} slots`);
+    }
+    return Math.floor(context.slot * context.memorySize / this.slots);
+  }
+}
+
+/**
+ * A fixed start address per slot
+ */
+export class FixedPlacement implements PlacementStrategy {
+  public readonly name = 'fixed';
+  private offsets: number[];
+
+  /**
+   * @param offsets Start address of each slot's bot
+   */
+  constructor(offsets: number[]) {
+    this.offsets = [...offsets];
+  }
+
+  public place(context: PlacementContext): number {
+    const offset = this.offsets[context.slot];
+    if (offset === undefined) {
+      throw new Error(`No placement offset for bot ${context.slot + 1}`);
+    }
+    return offset;
+  }
+}
+
+/**
+ * Places the bots of one battle: asks the strategy for a start address, then
+ * checks it against the other bots and against memory ownership before the
+ * bot is loaded
+ */
+export class BotPlacer {
+  private strategy: PlacementStrategy;
+  private minDistance: number;
+  private random: SeededRandom;
+  private placed: PlacedRegion[];
+
+  /**
+   * @param strategy How start addresses are chosen
+   * @param minDistance Free cells required between bots
+   * @param random Generator for strategies that need randomness
+   */
+  constructor(strategy: PlacementStrategy, minDistance: number, random: SeededRandom) {
+    if (minDistance < 0) {
+      throw new Error(`Invalid minimum distance: ${minDistance}`);
+    }
+    this.strategy = strategy;
+    this.minDistance = minDistance;
+    this.random = random;
+    this.placed = [];
+  }
+
+  /**
+   * Choose where the next bot goes and reserve its region
+   * @param size Cells the bot occupies
+   * @param memory Memory the bot will be loaded into
+   * @returns Start address
+   * @throws Error if the start is out of range, too close to another bot or
+   *         overlaps memory owned by a process
+   */
+  public place(size: number, memory: TrackedMemorySystem): number {
+    const memorySize = memory.getSize();
+    const context: PlacementContext = {
+      memorySize,
+      size,
+      slot: this.placed.length,
+      placed: this.placed,
+      minDistance: this.minDistance,
+      random: this.random
+    };
+
+    const start = this.strategy.place(context);
+    if (!Number.isInteger(start) || start < 0 || start + size > memorySize) {
+      throw new Error(`Placement ${this.strategy.name} chose 0x${start.toString(16)}, outside memory for a bot of ${size} cells`);
+    }
+    if (!isSeparated(start, context)) {
+      throw new Error(`Placement ${this.strategy.name} put bot ${context.slot + 1} at 0x${start.toString(16)}, within ${this.minDistance} cells of another bot`);
+    }
+    for (let address = start; address < start + size; address++) {
+      const owner = memory.getOwner(address);
+      if (owner !== 0) {
+        throw new Error(`Placement at 0x${start.toString(16)} overlaps memory owned by process ${owner} at 0x${address.toString(16)}`);
+      }
+    }
+
+    this.placed.push({ start, size });
+    return start;
+  }
+
+  /**
+   * Get the regions placed so far, in placement order
+   */
+  public getPlacements(): PlacedRegion[] {
+    return this.placed.map(region => ({ ...region }));
+  }
+
+  /**
+   * Forget all placements, e.g. when memory is cleared
+   */
+  public reset(): void {
+    this.placed = [];
+  }
+}
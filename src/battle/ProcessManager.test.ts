@@ -44,6 +44,10 @@ describe('ProcessManager', () => {
       // Attempt to create one more process
       expect(() => manager.create(defaultProcessOptions))
         .toThrow('Maximum number of processes reached');
+
+      // Terminated processes make room
+      manager.terminate(1);
+      expect(() => manager.create(defaultProcessOptions)).not.toThrow();
     });
   });
 
@@ -160,6 +164,65 @@ describe('ProcessManager', () => {
     });
   });
 
+  describe('warrior queues', () => {
+    beforeEach(() => {
+      manager = new ProcessManager({ ...defaultOptions, mode: 'warrior-queues', maxProcessesPerWarrior: 3 });
+    });
+
+    it('alternates warriors one instruction at a time, however many processes they have', () => {
+      const a = manager.create({ ...defaultProcessOptions, name: 'a' });
+      const b = manager.create({ ...defaultProcessOptions, name: 'b' });
+      const a2 = manager.create({ ...defaultProcessOptions, name: 'a-child', warrior: a });
+      const a3 = manager.create({ ...defaultProcessOptions, name: 'a-child-2', warrior: a });
+
+      const order = Array.from({ length: 8 }, () => manager.schedule());
+
+      expect(manager.getSchedulingMode()).toBe('warrior-queues');
+      expect(order).toEqual([a, b, a2, b, a3, b, a, b]);
+    });
+
+    it('runs a child after its parent, and drops terminated processes', () => {
+      const a = manager.create({ ...defaultProcessOptions, name: 'a' });
+      const b = manager.create({ ...defaultProcessOptions, name: 'b' });
+
+      expect(manager.schedule()).toBe(a);
+      const child = manager.create({ ...defaultProcessOptions, name: 'a-child', warrior: a });
+      expect(manager.schedule()).toBe(b);
+      expect(manager.schedule()).toBe(a);
+      manager.terminate(b);
+      expect(manager.schedule()).toBe(child);
+      expect(manager.schedule()).toBe(a);
+      expect(manager.getProcess(a).cyclesUsed).toBe(2);
+    });
+
+    it('limits the processes of each warrior', () => {
+      const a = manager.create({ ...defaultProcessOptions, name: 'a' });
+      const children = [1, 2].map(i => manager.create({ ...defaultProcessOptions, name: `a-child-${i}`, warrior: a }));
+
+      expect(manager.hasRoomFor(a)).toBe(false);
+      expect(() => manager.create({ ...defaultProcessOptions, warrior: a })).toThrow('Warrior 1 has reached its limit of 3 processes');
+
+      manager.terminate(children[0]);
+      expect(manager.hasRoomFor(a)).toBe(true);
+    });
+
+    it('counts only live processes, and keeps a share for every warrior', () => {
+      manager = new ProcessManager({ ...defaultOptions, maxProcesses: 4, mode: 'warrior-queues', maxProcessesPerWarrior: 8 });
+      const a = manager.create({ ...defaultProcessOptions, name: 'a' });
+      for (let i = 0; i < 20; i++) {
+        manager.terminate(manager.create({ ...defaultProcessOptions, name: `a-child-${i}`, warrior: a }));
+      }
+      const b = manager.create({ ...defaultProcessOptions, name: 'b' });
+
+      expect(manager.getProcessLimit()).toBe(16);
+      for (let i = 0; i < 7; i++) {
+        manager.create({ ...defaultProcessOptions, name: `b-child-${i}`, warrior: b });
+      }
+      expect(manager.hasRoomFor(b)).toBe(false);
+      expect(manager.hasRoomFor(a)).toBe(true);
+    });
+  });
+
   describe('terminate()', () => {
     it('cleans up resources properly', () => {
       const processId = manager.create(defaultProcessOptions);
@@ -194,6 +257,23 @@ describe('ProcessManager', () => {
     });
   });
 
+  describe('reset()', () => {
+    it('restarts the process at its entry point', () => {
+      const processId = manager.create({ ...defaultProcessOptions, entryPoint: 0x10 });
+      const process = manager.getProcess(processId);
+      process.context.registers.pc = 0x42;
+      process.context.registers.r0 = 7;
+
+      manager.reset(processId);
+      expect(process.context.registers.pc).toBe(0x10);
+      expect(process.context.registers.r0).toBe(0);
+
+      manager.restore(manager.snapshot(processId));
+      manager.reset(processId);
+      expect(manager.getProcess(processId).context.registers.pc).toBe(0x10);
+    });
+  });
+
   describe('getStats()', () => {
     it('provides accurate scheduler statistics', () => {
       // Create processes in different states
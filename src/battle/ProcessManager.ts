@@ -4,11 +4,15 @@ import {
   ProcessState,
   ProcessContext,
   ProcessCreateOptions,
+  ProcessSnapshot,
   SchedulerOptions,
   SchedulerStats,
   ResourceUsage,
-  ResourceLimits
+  ResourceLimits,
+  SchedulingMode,
+  WarriorId
 } from './types.js';
+import { Logger, LogLevel, defaultLogger } from './Logger.js';
 
 export class ProcessManager {
   private processes: Map<ProcessId, Process>;
@@ -16,17 +20,35 @@ export class ProcessManager {
   private runningProcess: ProcessId | null;
   private schedulerOptions: SchedulerOptions;
   private startTime: number;
+  private logger: Logger;
+  private mode: SchedulingMode;
+  // Each warrior's processes in run order, warriors in the order they were created
+  private warriorQueues: Map<WarriorId, ProcessId[]>;
+  private warriorTurns: ProcessId[][];  // The same queues, in turn order
+  private lastWarriorTurn: number;
+  private ticks: number;  // Calls to schedule() so far
 
   constructor(options: SchedulerOptions) {
     this.processes = new Map();
+    this.mode = options.mode ?? (options.roundRobin === false ? 'priority' : 'round-robin');
+    this.warriorQueues = new Map();
+    this.warriorTurns = [];
+    this.lastWarriorTurn = -1;
+    this.ticks = 0;
     this.nextProcessId = 1;
     this.runningProcess = null;
     this.schedulerOptions = options;
     this.startTime = Date.now();
+    this.logger = options.logger ?? defaultLogger;
   }
 
   create(options: ProcessCreateOptions): ProcessId {
-    if (this.processes.size >= this.schedulerOptions.maxProcesses) {
+    if (options.warrior !== undefined && !this.hasRoomFor(options.warrior)) {
+      throw new Error(`Warrior ${options.warrior} has reached its limit of ${this.schedulerOptions.maxProcessesPerWarrior} processes`);
+    }
+    // A process without a warrior starts a new one
+    const warriors = this.warriorQueues.size + (options.warrior === undefined ? 1 : 0);
+    if (this.countLive() >= this.processLimit(warriors)) {
       throw new Error('Maximum number of processes reached');
     }
 
@@ -35,12 +57,16 @@ export class ProcessManager {
       id: processId,
       name: options.name,
       owner: options.owner,
+      warrior: options.warrior ?? processId,
+      team: options.team ?? null,
       priority: options.priority ?? this.schedulerOptions.defaultPriority,
       quantum: options.quantum ?? this.schedulerOptions.defaultQuantum,
       cyclesUsed: 0,
       memoryUsed: this.calculateMemoryUsage(options.memorySegments),
       createdAt: Date.now(),
       lastRun: 0,
+      lastTick: 0,
+      entryPoint: options.entryPoint,
       context: {
         registers: {
           r0: 0,
@@ -64,9 +90,105 @@ export class ProcessManager {
     }
 
     this.processes.set(processId, process);
+    this.enqueue(process);
     return processId;
   }
 
+  /**
+   * Whether a warrior may start another process under maxProcessesPerWarrior
+   */
+  hasRoomFor(warrior: WarriorId): boolean {
+    const limit = this.schedulerOptions.maxProcessesPerWarrior;
+    return limit === undefined || this.countLive(warrior) < limit;
+  }
+
+  /**
+   * Most live processes there may be at once. Warrior queues with a
+   * per-warrior limit allow that many for every warrior, so no warrior can
+   * take another's share; otherwise it's maxProcesses.
+   */
+  getProcessLimit(): number {
+    return this.processLimit(this.warriorQueues.size);
+  }
+
+  private processLimit(warriors: number): number {
+    const perWarrior = this.schedulerOptions.maxProcessesPerWarrior;
+    return this.mode === 'warrior-queues' && perWarrior !== undefined
+      ? perWarrior * warriors
+      : this.schedulerOptions.maxProcesses;
+  }
+
+  // Processes that haven't terminated, of one warrior or of all
+  private countLive(warrior?: WarriorId): number {
+    let live = 0;
+    for (const process of this.processes.values()) {
+      if ((warrior === undefined || process.warrior === warrior) && process.context.state !== ProcessState.Terminated) {
+        live++;
+      }
+    }
+    return live;
+  }
+
+  getSchedulingMode(): SchedulingMode {
+    return this.mode;
+  }
+
+  /**
+   * Capture a process so it can be recreated with restore()
+   */
+  snapshot(processId: ProcessId): ProcessSnapshot {
+    const process = this.getProcess(processId);
+    return {
+      id: process.id,
+      name: process.name,
+      owner: process.owner,
+      warrior: process.warrior,
+      team: process.team,
+      priority: process.priority,
+      quantum: process.quantum,
+      cyclesUsed: process.cyclesUsed,
+      state: process.context.state,
+      registers: { ...process.context.registers },
+      memory: process.context.memory,
+      entryPoint: process.entryPoint
+    };
+  }
+
+  /**
+   * Recreate a process under its original ID, replacing any process with
+   * that ID. A running process comes back ready.
+   */
+  restore(snapshot: ProcessSnapshot): void {
+    if (this.runningProcess === snapshot.id) {
+      this.runningProcess = null;
+    }
+
+    this.processes.set(snapshot.id, {
+      id: snapshot.id,
+      name: snapshot.name,
+      owner: snapshot.owner,
+      warrior: snapshot.warrior,
+      team: snapshot.team,
+      priority: snapshot.priority,
+      quantum: snapshot.quantum,
+      cyclesUsed: snapshot.cyclesUsed,
+      memoryUsed: this.calculateMemoryUsage(snapshot.memory),
+      createdAt: Date.now(),
+      lastRun: 0,
+      lastTick: 0,
+      entryPoint: snapshot.entryPoint,
+      context: {
+        registers: { ...snapshot.registers },
+        memory: snapshot.memory,
+        cycles: 0,
+        state: snapshot.state === ProcessState.Running ? ProcessState.Ready : snapshot.state,
+        currentInstruction: ''
+      }
+    });
+    this.nextProcessId = Math.max(this.nextProcessId, snapshot.id + 1);
+    this.enqueue(this.processes.get(snapshot.id)!);
+  }
+
   reset(processId: ProcessId): void {
     const process = this.getProcess(processId);
 
@@ -75,26 +197,17 @@ export class ProcessManager {
     process.context.cycles = 0;
     process.cyclesUsed = 0;
     process.lastRun = 0;
+    process.lastTick = 0;
 
-    // Generate new random PC within the code segment
-    let newPC = 0;
-    if (process.context.memory.length > 0) {
-      const codeSegment = process.context.memory[0];
-      // Random offset within the code segment (aligned to 3-byte boundary)
-      const maxOffset = Math.max(0, codeSegment.size - 3);
-      const randomOffset = Math.floor(Math.random() * (maxOffset / 3)) * 3;
-      newPC = codeSegment.start + randomOffset;
-      console.log(`Reset process ${processId}: new random PC = 0x${newPC.toString(16)}`);
-    }
-
-    // Reset registers with new PC
+    // Restart at the entry point, the one address known to hold an instruction
+    this.logger.debug('scheduler', `Reset process ${processId}: PC = 0x${process.entryPoint.toString(16)}`);
     process.context.registers = {
       r0: 0,
       r1: 0,
       r2: 0,
       r3: 0,
       sp: 0xFFFF,
-      pc: newPC,
+      pc: process.entryPoint,
       flags: 0
     };
 
@@ -109,7 +222,8 @@ export class ProcessManager {
   terminate(processId: ProcessId, reason?: string): void {
     const process = this.getProcess(processId);
     process.context.state = ProcessState.Terminated;
-    process.lastRun = Date.now(); // Record termination time for winner determination
+    process.lastRun = Date.now();
+    process.lastTick = this.ticks; // Record termination tick for winner determination
 
     if (this.runningProcess === processId) {
       this.runningProcess = null;
@@ -117,7 +231,7 @@ export class ProcessManager {
 
     // Log termination reason if provided
     if (reason) {
-      console.log(`Process ${processId} (${process.name}) terminated: ${reason}`);
+      this.logger.info('scheduler', `Process ${processId} (${process.name}) terminated: ${reason}`);
     }
 
     // Clean up resources
@@ -125,10 +239,25 @@ export class ProcessManager {
   }
 
   schedule(): ProcessId | null {
+    this.ticks++;
+    const next = this.mode === 'warrior-queues' ? this.scheduleWarriorQueues() : this.scheduleByQuantum();
+    if (next !== null) {
+      this.processes.get(next)!.lastTick = this.ticks;
+    }
+    return next;
+  }
+
+  /**
+   * Round-robin and priority scheduling: the running process keeps the CPU
+   * until its quantum expires
+   */
+  private scheduleByQuantum(): ProcessId | null {
     // Debug output - current process state
-    console.log("\nProcess State Before Scheduling:");
-    for (const [pid, process] of this.processes.entries()) {
-      console.log(`- Process ${pid} (${process.name}): State=${process.context.state}, Cycles=${process.context.cycles}/${process.quantum}`);
+    if (this.logger.isEnabled(LogLevel.Debug, 'scheduler')) {
+      this.logger.debug('scheduler', 'Process state before scheduling:');
+      for (const [pid, process] of this.processes.entries()) {
+        this.logger.debug('scheduler', `- Process ${pid} (${process.name}): State=${process.context.state}, Cycles=${process.context.cycles}/${process.quantum}`);
+      }
     }
     
     // If there's a running process, handle its cycle
@@ -141,7 +270,9 @@ export class ProcessManager {
 
       // Check if quantum has expired
       if (runningProcess.context.cycles >= runningProcess.quantum) {
-        console.log(`Process ${this.runningProcess} quantum expired (${runningProcess.context.cycles}/${runningProcess.quantum})`);
+        if (this.logger.isEnabled(LogLevel.Debug, 'scheduler')) {
+          this.logger.debug('scheduler', `Process ${this.runningProcess} quantum expired (${runningProcess.context.cycles}/${runningProcess.quantum})`);
+        }
         
         // Move to ready state and clear running process
         runningProcess.context.state = ProcessState.Ready;
@@ -176,6 +307,74 @@ export class ProcessManager {
     return this.runningProcess;
   }
 
+  /**
+   * Core War scheduling: every call runs one instruction of the next warrior
+   * with a ready process, taking the process at the head of its queue. The
+   * process goes back to the tail straight away, so a child it creates with
+   * spl runs after it.
+   */
+  private scheduleWarriorQueues(): ProcessId | null {
+    if (this.runningProcess !== null) {
+      const previous = this.processes.get(this.runningProcess)!;
+      previous.context.cycles++;
+      previous.cyclesUsed++;
+      previous.context.state = ProcessState.Ready;
+      this.runningProcess = null;
+    }
+
+    // The warriors after the last one to run, wrapping around to it
+    const warriors = this.warriorTurns.length;
+    for (let offset = 1; offset <= warriors; offset++) {
+      const turn = (this.lastWarriorTurn + offset) % warriors;
+      const next = this.dequeue(this.warriorTurns[turn]);
+      if (next === null) {
+        continue;
+      }
+
+      const process = this.processes.get(next)!;
+      process.context.state = ProcessState.Running;
+      process.lastRun = Date.now();
+      this.runningProcess = next;
+      this.lastWarriorTurn = turn;
+      if (this.logger.isEnabled(LogLevel.Debug, 'scheduler')) {
+        this.logger.debug('scheduler', `Scheduling: warrior ${process.warrior} runs process ${next}`);
+      }
+      break;
+    }
+    return this.runningProcess;
+  }
+
+  /**
+   * Take the first ready process from a warrior's queue and move it to the
+   * tail. Terminated processes leave the queue.
+   */
+  private dequeue(queue: ProcessId[]): ProcessId | null {
+    for (let checked = queue.length; checked > 0; checked--) {
+      const id = queue.shift()!;
+      const state = this.processes.get(id)?.context.state;
+      if (state === undefined || state === ProcessState.Terminated) {
+        continue;
+      }
+      queue.push(id);
+      if (state === ProcessState.Ready) {
+        return id;
+      }
+    }
+    return null;
+  }
+
+  private enqueue(process: Process): void {
+    let queue = this.warriorQueues.get(process.warrior);
+    if (!queue) {
+      queue = [];
+      this.warriorQueues.set(process.warrior, queue);
+      this.warriorTurns.push(queue);
+    }
+    if (!queue.includes(process.id)) {
+      queue.push(process.id);
+    }
+  }
+
   // Track the last scheduled process ID to implement round-robin
   private lastScheduledId: ProcessId | null = null;
   
@@ -186,7 +385,7 @@ export class ProcessManager {
     }
     
     // If round-robin is disabled, use the original priority-based scheduling
-    if (this.schedulerOptions.roundRobin === false) {
+    if (this.mode === 'priority') {
       // Just find the highest priority ready process
       let nextProcess: Process | null = null;
       let highestPriority = -1;
@@ -201,77 +400,54 @@ export class ProcessManager {
       return nextProcess?.id ?? null;
     }
     
-    // Below is the round-robin implementation
-    // Track highest priority
+    // Below is the round-robin implementation, over ready processes at the
+    // highest priority in creation order. Two passes over the process table
+    // keep it free of allocations, since it runs on every quantum expiry.
     let highestPriority = -1;
-    // Map of processes by priority
-    const readyProcessesByPriority = new Map<number, ProcessId[]>();
-    
-    // Debug output - log all processes and their states
-    console.log("\nDebug Scheduling:");
-    console.log("All Processes:");
-    for (const [pid, process] of this.processes.entries()) {
-      console.log(`- Process ${pid} (${process.name}): Priority=${process.priority}, State=${process.context.state}`);
-    }
-    
-    // Group processes by priority
     for (const process of this.processes.values()) {
-      if (process.context.state === ProcessState.Ready) {
-        if (!readyProcessesByPriority.has(process.priority)) {
-          readyProcessesByPriority.set(process.priority, []);
-        }
-        readyProcessesByPriority.get(process.priority)!.push(process.id);
-        
-        // Track highest priority
-        if (process.priority > highestPriority) {
-          highestPriority = process.priority;
-        }
+      if (process.context.state === ProcessState.Ready && process.priority > highestPriority) {
+        highestPriority = process.priority;
       }
     }
-    
+
     // If no ready processes, return null
     if (highestPriority === -1) {
       return null;
     }
-    
-    // Get ready processes at highest priority
-    const highestPriorityProcesses = readyProcessesByPriority.get(highestPriority)!;
-    
-    // If there's only one process at highest priority, return it
-    if (highestPriorityProcesses.length === 1) {
-      this.lastScheduledId = highestPriorityProcesses[0];
-      console.log(`Scheduling: Only one process available - Bot ${this.lastScheduledId}`);
-      return this.lastScheduledId;
-    }
-    
-    // Implement round-robin for processes at the same priority level
-    // Additional debug output
-    console.log("Round-Robin Details:");
-    console.log(`- Highest priority processes: ${JSON.stringify(highestPriorityProcesses)}`);
-    console.log(`- Last scheduled ID: ${this.lastScheduledId}`);
-    
-    // Fixed round-robin algorithm:
-    // If no last ID, start with first process
-    if (this.lastScheduledId === null) {
-      this.lastScheduledId = highestPriorityProcesses[0];
-      console.log(`Scheduling: Bot ${this.lastScheduledId} selected from ${highestPriorityProcesses.length} ready processes (first run)`);
-      return this.lastScheduledId;
+
+    // Pick the process after the last scheduled one, wrapping around to the
+    // first; the first also starts a new cycle when the last one is gone
+    let first: ProcessId | null = null;
+    let afterLast: ProcessId | null = null;
+    let seenLast = false;
+    let candidates = 0;
+    for (const process of this.processes.values()) {
+      if (process.context.state !== ProcessState.Ready || process.priority !== highestPriority) {
+        continue;
+      }
+      candidates++;
+      if (first === null) {
+        first = process.id;
+      }
+      if (seenLast && afterLast === null) {
+        afterLast = process.id;
+      }
+      if (process.id === this.lastScheduledId) {
+        seenLast = true;
+      }
     }
-    
-    // If last scheduled process is in the list, pick the next one
-    const currentIndex = highestPriorityProcesses.indexOf(this.lastScheduledId);
-    if (currentIndex !== -1) {
-      // Get the next process in the list, wrapping around to the beginning
-      const nextIndex = (currentIndex + 1) % highestPriorityProcesses.length;
-      this.lastScheduledId = highestPriorityProcesses[nextIndex];
-      console.log(`Scheduling: Bot ${this.lastScheduledId} selected from ${highestPriorityProcesses.length} ready processes (rotating from ${currentIndex} to ${nextIndex})`);
-      return this.lastScheduledId;
+
+    const previous = this.lastScheduledId;
+    this.lastScheduledId = afterLast ?? first;
+
+    if (this.logger.isEnabled(LogLevel.Debug, 'scheduler')) {
+      this.logger.debug('scheduler', 'All processes:');
+      for (const [pid, process] of this.processes.entries()) {
+        this.logger.debug('scheduler', `- Process ${pid} (${process.name}): Priority=${process.priority}, State=${process.context.state}`);
+      }
+      this.logger.debug('scheduler', `Scheduling: Bot ${this.lastScheduledId} selected from ${candidates} ready processes (last scheduled ${previous})`);
     }
-    
-    // The last scheduled process is no longer in the list
-    // Just pick the first available process and start a new round-robin cycle
-    this.lastScheduledId = highestPriorityProcesses[0];
-    console.log(`Scheduling: Bot ${this.lastScheduledId} selected from ${highestPriorityProcesses.length} ready processes (previous process no longer available)`);
+
     return this.lastScheduledId;
   }
 
@@ -0,0 +1,114 @@
+import {
+  EloRating,
+  Glicko2Rating,
+  RatingTable,
+  createRatingSystem,
+  placeBattle,
+  rateBattle
+} from './Rating.js';
+
+describe('Ratings', () => {
+  describe('EloRating', () => {
+    const elo = new EloRating();
+
+    it('moves equal ratings by half of K', () => {
+      const [winner, loser] = rateBattle(elo, [
+        { rating: elo.initial(), place: 0 },
+        { rating: elo.initial(), place: 1 }
+      ]);
+
+      expect(winner).toEqual({ rating: 1516, deviation: 0, volatility: 0, games: 1 });
+      expect(loser.rating).toBe(1484);
+    });
+
+    it('gains little from beating a much weaker bot', () => {
+      const strong = { ...elo.initial(), rating: 2000 };
+      const weak = { ...elo.initial(), rating: 1400 };
+
+      const gain = elo.update(strong, [{ opponent: weak, score: 1 }]).rating - strong.rating;
+      const upset = elo.update(weak, [{ opponent: strong, score: 1 }]).rating - weak.rating;
+
+      expect(gain).toBeCloseTo(0.98, 2);
+      expect(upset).toBeCloseTo(31.02, 2);
+    });
+  });
+
+  describe('Glicko2Rating', () => {
+    it('matches the worked example from the Glicko-2 paper', () => {
+      const glicko = new Glicko2Rating(0.5);
+      const player = { rating: 1500, deviation: 200, volatility: 0.06, games: 0 };
+
+      const updated = glicko.update(player, [
+        { opponent: { rating: 1400, deviation: 30, volatility: 0.06, games: 0 }, score: 1 },
+        { opponent: { rating: 1550, deviation: 100, volatility: 0.06, games: 0 }, score: 0 },
+        { opponent: { rating: 1700, deviation: 300, volatility: 0.06, games: 0 }, score: 0 }
+      ]);
+
+      expect(updated.rating).toBeCloseTo(1464.06, 1);
+      expect(updated.deviation).toBeCloseTo(151.52, 1);
+      expect(updated.volatility).toBeCloseTo(0.06, 4);
+      expect(updated.games).toBe(1);
+    });
+
+    it('grows the deviation of a bot that sits a period out', () => {
+      const glicko = new Glicko2Rating();
+      const player = { rating: 1600, deviation: 50, volatility: 0.06, games: 10 };
+
+      const idle = glicko.update(player, []);
+
+      expect(idle.rating).toBe(1600);
+      expect(idle.deviation).toBeGreaterThan(50);
+    });
+  });
+
+  it('rates every pair in a battle of several bots', () => {
+    const elo = new EloRating();
+    const ratings = rateBattle(elo, placeBattle(['a', 'b', 'c'], ['a']).map(({ place }) => ({ rating: elo.initial(), place })));
+
+    expect(ratings[0].rating).toBe(1516);
+    expect(ratings[1].rating).toBe(ratings[2].rating);
+    expect(ratings[1].rating).toBe(1492);
+  });
+
+  it('places winners ahead and everyone level without them', () => {
+    expect(placeBattle(['a', 'b', 'c', 'd'], ['a', 'c']).map(placing => placing.place)).toEqual([0, 1, 0, 1]);
+    expect(placeBattle(['a', 'b'], []).map(placing => placing.place)).toEqual([0, 0]);
+  });
+
+  describe('RatingTable', () => {
+    const history = [
+      placeBattle(['a', 'b'], ['a']),
+      placeBattle(['a', 'c'], ['a']),
+      placeBattle(['b', 'c'], []),
+      placeBattle(['a', 'b', 'c'], ['b'])
+    ];
+
+    it('recomputes the same ratings from the same history', () => {
+      const system = createRatingSystem('glicko2');
+      const table = new RatingTable(system);
+      history.forEach(placings => table.record(placings));
+
+      expect(RatingTable.recompute(system, history).list()).toEqual(table.list());
+      // With deviations still wide, b's win over both in the last battle counts for most
+      expect(table.list().map(entry => entry.id)).toEqual(['b', 'a', 'c']);
+      expect(table.get('a').games).toBe(3);
+      expect(table.get('a').deviation).toBeLessThan(350);
+      expect(table.get('unrated')).toEqual(system.initial());
+    });
+
+    it('rates an ID once at its best place and ignores battles without opponents', () => {
+      const table = new RatingTable(new EloRating());
+
+      expect(table.record([{ id: 'user', place: 1 }, { id: 'user', place: 0 }]).size).toBe(0);
+      const updated = table.record([{ id: 'x', place: 0 }, { id: 'y', place: 1 }, { id: 'x', place: 1 }]);
+
+      expect(updated.get('x')!.rating).toBe(1516);
+      expect(table.list().map(entry => entry.id)).toEqual(['x', 'y']);
+    });
+  });
+
+  it('rejects unknown rating systems', () => {
+    expect(createRatingSystem('elo').name).toBe('elo');
+    expect(() => createRatingSystem('trueskill')).toThrow('Unknown rating system: trueskill (expected one of elo, glicko2)');
+  });
+});
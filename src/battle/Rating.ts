@@ -0,0 +1,268 @@
+/**
+ * Core Wars Ratings
+ * Skill ratings from battle results, by Elo or Glicko-2. A battle with more
+ * than two bots counts as a game between every pair of them, so ratings
+ * follow whom a bot beat rather than how often it won.
+ */
+
+export interface Rating {
+  rating: number;
+  deviation: number;   // How unsure the rating is (Glicko-2; 0 under Elo)
+  volatility: number;  // How erratic the bot's results are (Glicko-2; 0 under Elo)
+  games: number;       // Battles rated
+}
+
+/**
+ * One game of a rating period, from the rated side: 1 for a win, 0.5 for a
+ * tie, 0 for a loss
+ */
+export interface RatedGame {
+  opponent: Rating;
+  score: number;
+}
+
+/**
+ * Updates ratings from the games of a rating period
+ */
+export interface RatingSystem {
+  readonly name: string;
+  initial(): Rating;
+  update(player: Rating, games: RatedGame[]): Rating;
+}
+
+/**
+ * Elo: a rating moves by K times the games' score over the expected score.
+ * K is shared between the games of a period, so one battle moves a rating
+ * as far as one game would however many bots were in it.
+ */
+export class EloRating implements RatingSystem {
+  public readonly name = 'elo';
+  private k: number;
+  private start: number;
+
+  /**
+   * @param k Most a battle can move a rating (default 32)
+   * @param start Rating of a new bot (default 1500)
+   */
+  constructor(k = 32, start = 1500) {
+    this.k = k;
+    this.start = start;
+  }
+
+  public initial(): Rating {
+    return { rating: this.start, deviation: 0, volatility: 0, games: 0 };
+  }
+
+  public update(player: Rating, games: RatedGame[]): Rating {
+    if (games.length === 0) {
+      return player;
+    }
+    const surplus = games.reduce((sum, game) =>
+      sum + game.score - 1 / (1 + 10 ** ((game.opponent.rating - player.rating) / 400)), 0);
+    return { ...player, rating: player.rating + this.k * surplus / games.length, games: player.games + 1 };
+  }
+}
+
+// Glicko-2 works on its own scale: (rating - 1500) / GLICKO2_SCALE
+const GLICKO2_SCALE = 173.7178;
+const GLICKO2_TOLERANCE = 0.000001;
+
+/**
+ * Glicko-2 (Glickman, 2012): each rating carries a deviation that shrinks as
+ * the bot plays and a volatility that grows with surprising results. Each
+ * battle is a rating period for the bots in it.
+ */
+export class Glicko2Rating implements RatingSystem {
+  public readonly name = 'glicko2';
+  private tau: number;
+
+  /**
+   * @param tau How far volatility can change in a period (default 0.5)
+   */
+  constructor(tau = 0.5) {
+    this.tau = tau;
+  }
+
+  public initial(): Rating {
+    return { rating: 1500, deviation: 350, volatility: 0.06, games: 0 };
+  }
+
+  public update(player: Rating, games: RatedGame[]): Rating {
+    const mu = (player.rating - 1500) / GLICKO2_SCALE;
+    const phi = player.deviation / GLICKO2_SCALE;
+    if (games.length === 0) {
+      // Sitting a period out only makes the rating less certain
+      return { ...player, deviation: Math.sqrt(phi ** 2 + player.volatility ** 2) * GLICKO2_SCALE };
+    }
+
+    // Estimated variance from the games, and the improvement they show
+    let inverseVariance = 0;
+    let improvement = 0;
+    for (const { opponent, score } of games) {
+      const g = 1 / Math.sqrt(1 + 3 * (opponent.deviation / GLICKO2_SCALE) ** 2 / Math.PI ** 2);
+      const expected = 1 / (1 + Math.exp(-g * (mu - (opponent.rating - 1500) / GLICKO2_SCALE)));
+      inverseVariance += g ** 2 * expected * (1 - expected);
+      improvement += g * (score - expected);
+    }
+    const v = 1 / inverseVariance;
+    const delta = v * improvement;
+
+    const volatility = this.volatility(phi, player.volatility, v, delta);
+    const phiStar = Math.sqrt(phi ** 2 + volatility ** 2);
+    const newPhi = 1 / Math.sqrt(1 / phiStar ** 2 + 1 / v);
+    return {
+      rating: (mu + newPhi ** 2 * improvement) * GLICKO2_SCALE + 1500,
+      deviation: newPhi * GLICKO2_SCALE,
+      volatility,
+      games: player.games + 1
+    };
+  }
+
+  /**
+   * The new volatility, by the Illinois algorithm (step 5 of the paper)
+   */
+  private volatility(phi: number, sigma: number, v: number, delta: number): number {
+    const a = Math.log(sigma ** 2);
+    const f = (x: number) =>
+      Math.exp(x) * (delta ** 2 - phi ** 2 - v - Math.exp(x)) / (2 * (phi ** 2 + v + Math.exp(x)) ** 2) -
+      (x - a) / this.tau ** 2;
+
+    let A = a;
+    let B: number;
+    if (delta ** 2 > phi ** 2 + v) {
+      B = Math.log(delta ** 2 - phi ** 2 - v);
+    } else {
+      let k = 1;
+      while (f(a - k * this.tau) < 0) {
+        k++;
+      }
+      B = a - k * this.tau;
+    }
+
+    let fA = f(A);
+    let fB = f(B);
+    while (Math.abs(B - A) > GLICKO2_TOLERANCE) {
+      const C = A + (A - B) * fA / (fB - fA);
+      const fC = f(C);
+      if (fC * fB <= 0) {
+        A = B;
+        fA = fB;
+      } else {
+        fA /= 2;
+      }
+      B = C;
+      fB = fC;
+    }
+    return Math.exp(A / 2);
+  }
+}
+
+export const RATING_SYSTEMS = ['elo', 'glicko2'] as const;
+export type RatingSystemName = typeof RATING_SYSTEMS[number];
+
+/**
+ * Create a rating system by name, with its default parameters
+ */
+export function createRatingSystem(name: string): RatingSystem {
+  switch (name) {
+    case 'elo':
+      return new EloRating();
+    case 'glicko2':
+      return new Glicko2Rating();
+    default:
+      throw new Error(`Unknown rating system: ${name} (expected one of ${RATING_SYSTEMS.join(', ')})`);
+  }
+}
+
+/**
+ * Where a competitor finished in a battle: lower places are better, and
+ * competitors on the same place tied
+ */
+export interface BattlePlacing {
+  id: string;
+  place: number;
+}
+
+/**
+ * Placings for a battle with the given winners (a bot, or a team's bots),
+ * who beat everyone else. With no winners, e.g. a draw between all, everyone
+ * ties.
+ */
+export function placeBattle(ids: string[], winners: string[]): BattlePlacing[] {
+  return ids.map(id => ({ id, place: winners.length === 0 || winners.includes(id) ? 0 : 1 }));
+}
+
+/**
+ * New ratings after a battle, in competitor order. Every competitor plays
+ * every other, from the ratings they had before the battle.
+ */
+export function rateBattle(system: RatingSystem, competitors: Array<{ rating: Rating; place: number }>): Rating[] {
+  return competitors.map((competitor, index) => system.update(competitor.rating, competitors
+    .filter((_, other) => other !== index)
+    .map(other => ({
+      opponent: other.rating,
+      score: competitor.place < other.place ? 1 : competitor.place === other.place ? 0.5 : 0
+    }))
+  ));
+}
+
+/**
+ * Ratings by ID (of a bot, a user, ...), kept up to date battle by battle
+ */
+export class RatingTable {
+  private system: RatingSystem;
+  private ratings: Map<string, Rating>;
+
+  /**
+   * @param ratings Ratings so far; anyone else starts at system.initial()
+   */
+  constructor(system: RatingSystem, ratings: Iterable<[string, Rating]> = []) {
+    this.system = system;
+    this.ratings = new Map(ratings);
+  }
+
+  /**
+   * Rate a whole battle history from scratch, e.g. after changing the rating
+   * system
+   * @param history Battles in the order they were played
+   */
+  public static recompute(system: RatingSystem, history: BattlePlacing[][]): RatingTable {
+    const table = new RatingTable(system);
+    history.forEach(placings => table.record(placings));
+    return table;
+  }
+
+  public get(id: string): Rating {
+    return this.ratings.get(id) ?? this.system.initial();
+  }
+
+  /**
+   * Rate a battle. An ID that appears more than once, e.g. a user with two
+   * bots in the battle, is rated once at its best place. A battle with fewer
+   * than two competitors changes nothing.
+   * @returns The competitors' new ratings
+   */
+  public record(placings: BattlePlacing[]): Map<string, Rating> {
+    const places = new Map<string, number>();
+    for (const { id, place } of placings) {
+      places.set(id, Math.min(place, places.get(id) ?? Infinity));
+    }
+    const ids = [...places.keys()];
+    if (ids.length < 2) {
+      return new Map();
+    }
+
+    const rated = rateBattle(this.system, ids.map(id => ({ rating: this.get(id), place: places.get(id)! })));
+    const updated = new Map(ids.map((id, index) => [id, rated[index]]));
+    updated.forEach((rating, id) => this.ratings.set(id, rating));
+    return updated;
+  }
+
+  /**
+   * Every rated ID, best first
+   */
+  public list(): Array<{ id: string } & Rating> {
+    return Array.from(this.ratings, ([id, rating]) => ({ id, ...rating }))
+      .sort((x, y) => y.rating - x.rating || x.id.localeCompare(y.id));
+  }
+}
@@ -0,0 +1,140 @@
+import { RedcodeBattle } from './RedcodeBattle.js';
+import { FixedPlacement } from './Placement.js';
+import { RedcodeParser } from '../parser/RedcodeParser.js';
+import { RedcodeOpcode, formatRedcode } from '../cpu/Redcode.js';
+import { RedcodeWarrior } from '../parser/types.js';
+
+const IMP = 'mov.i $0, $1';
+
+const DWARF = `
+;name Dwarf
+bomb    dat     #0
+start   add.ab  #4, bomb
+        mov.i   bomb, @bomb
+        jmp     start
+        end     start
+`;
+
+describe('RedcodeBattle', () => {
+  const parse = (source: string): RedcodeWarrior => {
+    const result = new RedcodeParser().parse(source);
+    expect(result.errors).toEqual([]);
+    return result.warrior;
+  };
+
+  const battle = (offsets: number[], coreSize = 800) =>
+    new RedcodeBattle({ coreSize, maxCycles: 8000, minDistance: 10, placement: new FixedPlacement(offsets) });
+
+  it('moves the Imp one cell per cycle', () => {
+    const mars = battle([0]);
+    mars.addWarrior(parse(IMP));
+
+    for (let i = 0; i < 5; i++) mars.step();
+
+    expect(formatRedcode(mars.getCell(5))).toBe('MOV.I $0, $1');
+    expect(mars.getWarriors()[0].processes).toEqual([5]);
+  });
+
+  it('lets the Dwarf bomb every fourth cell', () => {
+    const mars = battle([0]);
+    mars.addWarrior(parse(DWARF));
+
+    for (let i = 0; i < 9; i++) mars.step();
+
+    expect(mars.getCell(4)).toMatchObject({ opcode: RedcodeOpcode.DAT, b: { value: 4 } });
+    expect(mars.getCell(8)).toMatchObject({ opcode: RedcodeOpcode.DAT, b: { value: 8 } });
+    expect(mars.getCell(12)).toMatchObject({ opcode: RedcodeOpcode.DAT, b: { value: 12 } });
+  });
+
+  it('kills processes that execute DAT or divide by zero', () => {
+    const mars = battle([0, 100]);
+    mars.addWarrior(parse('dat #0, #0'), 'data');
+    mars.addWarrior(parse('div.ab #0, 1\ndat 0'), 'divider');
+
+    mars.step();
+
+    expect(mars.isOver()).toBe(true);
+    expect(mars.getResults().warriors.map(w => w.alive)).toEqual([false, false]);
+    expect(mars.getResults().winner).toBeNull();
+  });
+
+  it('declares the last warrior alive the winner', () => {
+    const mars = battle([0, 100]);
+    mars.addWarrior(parse(IMP), 'imp');
+    mars.addWarrior(parse('dat 0'), 'suicide');
+
+    const results = mars.run();
+
+    expect(results.winner).toBe(0);
+    expect(results.cycles).toBe(1);
+  });
+
+  it('ends in a tie when the cycle limit is reached', () => {
+    const mars = new RedcodeBattle({ coreSize: 800, maxCycles: 50, minDistance: 10, placement: new FixedPlacement([0, 400]) });
+    mars.addWarrior(parse('jmp 0'));
+    mars.addWarrior(parse('jmp 0'));
+
+    const results = mars.run();
+
+    expect(results.winner).toBeNull();
+    expect(results.cycles).toBe(50);
+  });
+
+  it('splits processes up to the process limit', () => {
+    const mars = new RedcodeBattle({ coreSize: 800, maxProcesses: 4, placement: new FixedPlacement([0]) });
+    mars.addWarrior(parse('spl 0\njmp -1'));
+
+    for (let i = 0; i < 10; i++) mars.step();
+
+    expect(mars.getWarriors()[0].processes).toHaveLength(4);
+  });
+
+  it('applies pre-decrement and post-increment to the addressed field', () => {
+    const mars = battle([0]);
+    mars.addWarrior(parse('mov.i }2, <3\njmp 0\ndat 1, 0\ndat 0, 10'));
+
+    mars.step();
+
+    expect(mars.getCell(2).a.value).toBe(2);
+    expect(mars.getCell(3).b.value).toBe(9);
+    // The A-operand is read before the B-operand decrements it
+    expect(formatRedcode(mars.getCell(12))).toBe('DAT.F $0, $10');
+  });
+
+  it('skips the next instruction on SEQ, SNE and SLT', () => {
+    const mars = battle([0]);
+    mars.addWarrior(parse('seq.ab #3, #3\ndat 0\nslt #1, #2\ndat 0\nsne 0, 1\ndat 0\njmp 0'));
+
+    for (let i = 0; i < 3; i++) mars.step();
+
+    expect(mars.getWarriors()[0].processes).toEqual([6]);
+  });
+
+  it('tests and decrements with JMZ, JMN and DJN', () => {
+    const mars = battle([0]);
+    mars.addWarrior(parse('djn 0, #2\njmz 2, #0\ndat 0\njmn 0, #1'));
+
+    for (let i = 0; i < 3; i++) mars.step();
+
+    expect(mars.getCell(0).b.value).toBe(0);
+    expect(mars.getWarriors()[0].processes).toEqual([3]);
+  });
+
+  it('places warriors the same way for the same seed', () => {
+    const starts = (seed: number) => {
+      const mars = new RedcodeBattle({ seed });
+      mars.addWarrior(parse(IMP));
+      mars.addWarrior(parse(DWARF));
+      return mars.getWarriors().map(w => w.start);
+    };
+
+    expect(starts(42)).toEqual(starts(42));
+    expect(new RedcodeBattle({ seed: 42 }).getResults().seed).toBe(42);
+  });
+
+  it('rejects warriors longer than the maximum length', () => {
+    const mars = new RedcodeBattle({ maxLength: 2 });
+
+    expect(() => mars.addWarrior(parse('nop\nnop\nnop'))).toThrow('exceeds the maximum length of 2');
+  });
+});
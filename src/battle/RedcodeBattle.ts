@@ -0,0 +1,382 @@
+/**
+ * Classic Redcode Battle
+ * A cell-based core that runs ICWS '94 warriors under the standard rules,
+ * without P-space
+ */
+
+import { SeededRandom } from './SeededRandom.js';
+import { DEFAULT_MIN_DISTANCE, PlacedRegion, PlacementContext, PlacementStrategy, RandomPlacement } from './Placement.js';
+import {
+  RedcodeInstruction,
+  RedcodeMode,
+  RedcodeModifier,
+  RedcodeOpcode,
+  RedcodeOperand,
+  copyInstruction,
+  createEmptyCell
+} from '../cpu/Redcode.js';
+import { RedcodeWarrior } from '../parser/types.js';
+
+export interface RedcodeBattleOptions {
+  coreSize?: number;       // Cells in the core (default 8000)
+  maxCycles?: number;      // Cycles before the battle is a tie (default 80000)
+  maxProcesses?: number;   // Processes per warrior (default 8000)
+  maxLength?: number;      // Instructions per warrior (default 100)
+  minDistance?: number;    // Free cells required between warriors (default DEFAULT_MIN_DISTANCE)
+  seed?: number;           // Seed for warrior placement; generated when omitted
+  placement?: PlacementStrategy; // Where warriors are loaded (default: random)
+}
+
+export interface RedcodeWarriorState {
+  name: string;
+  start: number;           // Core address of the warrior's first instruction
+  processes: number[];     // Program counters, next to run first
+}
+
+export interface RedcodeBattleResult {
+  winner: number | null;   // Index of the surviving warrior, or null for a tie
+  cycles: number;
+  seed: number;
+  warriors: Array<{ name: string; start: number; processes: number; alive: boolean }>;
+}
+
+// Which fields an operation reads (from) and writes (to) under each modifier
+type FieldPair = ['a' | 'b', 'a' | 'b'];
+
+const FIELD_PAIRS: Record<RedcodeModifier, FieldPair[]> = {
+  [RedcodeModifier.A]: [['a', 'a']],
+  [RedcodeModifier.B]: [['b', 'b']],
+  [RedcodeModifier.AB]: [['a', 'b']],
+  [RedcodeModifier.BA]: [['b', 'a']],
+  [RedcodeModifier.F]: [['a', 'a'], ['b', 'b']],
+  [RedcodeModifier.X]: [['a', 'b'], ['b', 'a']],
+  [RedcodeModifier.I]: [['a', 'a'], ['b', 'b']]
+};
+
+/**
+ * Memory Array Redcode Simulator. Every core cell holds one instruction and
+ * all numbers are kept modulo the core size. Each cycle, every live warrior
+ * executes one instruction from the head of its process queue.
+ */
+export class RedcodeBattle {
+  private coreSize: number;
+  private maxCycles: number;
+  private maxProcesses: number;
+  private maxLength: number;
+  private minDistance: number;
+  private placement: PlacementStrategy;
+  private random: SeededRandom;
+  private core: RedcodeInstruction[];
+  private warriors: RedcodeWarriorState[];
+  private placed: PlacedRegion[];
+  private cycles: number;
+
+  constructor(options: RedcodeBattleOptions = {}) {
+    this.coreSize = options.coreSize ?? 8000;
+    this.maxCycles = options.maxCycles ?? 80000;
+    this.maxProcesses = options.maxProcesses ?? 8000;
+    this.maxLength = options.maxLength ?? 100;
+    this.minDistance = options.minDistance ?? DEFAULT_MIN_DISTANCE;
+    this.placement = options.placement ?? new RandomPlacement();
+    this.random = new SeededRandom(options.seed);
+
+    if (!Number.isInteger(this.coreSize) || this.coreSize < 1) {
+      throw new Error(`Invalid core size: ${this.coreSize}`);
+    }
+
+    this.core = Array.from({ length: this.coreSize }, createEmptyCell);
+    this.warriors = [];
+    this.placed = [];
+    this.cycles = 0;
+  }
+
+  /**
+   * Load a warrior into the core
+   * @param warrior Parsed warrior
+   * @param name Display name; defaults to the warrior's ;name
+   * @returns Index of the warrior
+   * @throws Error if the warrior is empty, too long, or does not fit
+   */
+  public addWarrior(warrior: RedcodeWarrior, name?: string): number {
+    const size = warrior.instructions.length;
+    if (size === 0) {
+      throw new Error('Warrior has no instructions');
+    }
+    if (size > this.maxLength) {
+      throw new Error(`Warrior of ${size} instructions exceeds the maximum length of ${this.maxLength}`);
+    }
+    if (this.cycles > 0) {
+      throw new Error('Cannot add warriors after the battle has started');
+    }
+
+    const context: PlacementContext = {
+      memorySize: this.coreSize,
+      size,
+      slot: this.warriors.length,
+      placed: this.placed,
+      minDistance: this.minDistance,
+      random: this.random
+    };
+    const start = this.placement.place(context);
+    if (!Number.isInteger(start) || start < 0 || start + size > this.coreSize) {
+      throw new Error(`Placement ${this.placement.name} chose ${start}, outside the core for a warrior of ${size} instructions`);
+    }
+
+    warrior.instructions.forEach((instruction, offset) => {
+      this.core[start + offset] = {
+        opcode: instruction.opcode,
+        modifier: instruction.modifier,
+        a: { mode: instruction.a.mode, value: this.fold(instruction.a.value) },
+        b: { mode: instruction.b.mode, value: this.fold(instruction.b.value) }
+      };
+    });
+
+    this.placed.push({ start, size });
+    this.warriors.push({
+      name: name ?? warrior.name ?? `Warrior ${this.warriors.length + 1}`,
+      start,
+      processes: [this.fold(start + warrior.start)]
+    });
+    return this.warriors.length - 1;
+  }
+
+  /**
+   * Run one cycle: each live warrior executes one instruction
+   * @returns Whether the battle is still going
+   */
+  public step(): boolean {
+    if (this.isOver()) {
+      return false;
+    }
+
+    for (const warrior of this.warriors) {
+      const pc = warrior.processes.shift();
+      if (pc !== undefined) {
+        this.execute(warrior, pc);
+      }
+    }
+    this.cycles++;
+    return !this.isOver();
+  }
+
+  /**
+   * Run until one warrior is left or the cycle limit is reached
+   */
+  public run(): RedcodeBattleResult {
+    while (this.step()) {
+      // Cycles are counted by step()
+    }
+    return this.getResults();
+  }
+
+  /**
+   * Check whether the battle has ended. A lone warrior runs until it dies.
+   */
+  public isOver(): boolean {
+    const alive = this.warriors.filter(warrior => warrior.processes.length > 0).length;
+    return this.cycles >= this.maxCycles || alive === 0 || (this.warriors.length > 1 && alive === 1);
+  }
+
+  public getResults(): RedcodeBattleResult {
+    const alive = this.warriors
+      .map((warrior, index) => ({ warrior, index }))
+      .filter(({ warrior }) => warrior.processes.length > 0);
+
+    return {
+      winner: this.warriors.length > 1 && alive.length === 1 ? alive[0].index : null,
+      cycles: this.cycles,
+      seed: this.random.getSeed(),
+      warriors: this.warriors.map(warrior => ({
+        name: warrior.name,
+        start: warrior.start,
+        processes: warrior.processes.length,
+        alive: warrior.processes.length > 0
+      }))
+    };
+  }
+
+  /**
+   * Get a copy of the instruction at a core address
+   */
+  public getCell(address: number): RedcodeInstruction {
+    return copyInstruction(this.core[this.fold(address)]);
+  }
+
+  public getCoreSize(): number {
+    return this.coreSize;
+  }
+
+  public getCycles(): number {
+    return this.cycles;
+  }
+
+  public getWarriors(): RedcodeWarriorState[] {
+    return this.warriors.map(warrior => ({ ...warrior, processes: [...warrior.processes] }));
+  }
+
+  private fold(value: number): number {
+    return ((value % this.coreSize) + this.coreSize) % this.coreSize;
+  }
+
+  /**
+   * Resolve an operand to a core address, applying its increment or decrement.
+   * Immediate operands point at the executing instruction.
+   */
+  private resolve(pc: number, operand: RedcodeOperand): number {
+    if (operand.mode === RedcodeMode.Immediate) {
+      return pc;
+    }
+
+    const address = this.fold(pc + operand.value);
+    if (operand.mode === RedcodeMode.Direct) {
+      return address;
+    }
+
+    const field = operand.mode === RedcodeMode.AIndirect ||
+      operand.mode === RedcodeMode.APreDecrement ||
+      operand.mode === RedcodeMode.APostIncrement ? 'a' : 'b';
+    const pointer = this.core[address][field];
+
+    if (operand.mode === RedcodeMode.APreDecrement || operand.mode === RedcodeMode.BPreDecrement) {
+      pointer.value = this.fold(pointer.value - 1);
+    }
+    const target = this.fold(address + pointer.value);
+    if (operand.mode === RedcodeMode.APostIncrement || operand.mode === RedcodeMode.BPostIncrement) {
+      pointer.value = this.fold(pointer.value + 1);
+    }
+    return target;
+  }
+
+  private execute(warrior: RedcodeWarriorState, pc: number): void {
+    const instruction = copyInstruction(this.core[pc]);
+
+    // Operands are evaluated A first, and their values captured before execution
+    const aAddress = this.resolve(pc, instruction.a);
+    const source = copyInstruction(this.core[aAddress]);
+    const bAddress = this.resolve(pc, instruction.b);
+    const target = copyInstruction(this.core[bAddress]);
+
+    const pairs = FIELD_PAIRS[instruction.modifier];
+    const next = this.fold(pc + 1);
+    const queue = (address: number) => warrior.processes.push(this.fold(address));
+
+    switch (instruction.opcode) {
+      case RedcodeOpcode.DAT:
+        return;
+
+      case RedcodeOpcode.MOV:
+        if (instruction.modifier === RedcodeModifier.I) {
+          this.core[bAddress] = source;
+        } else {
+          for (const [from, to] of pairs) {
+            this.core[bAddress][to].value = source[from].value;
+          }
+        }
+        queue(next);
+        return;
+
+      case RedcodeOpcode.ADD:
+      case RedcodeOpcode.SUB:
+      case RedcodeOpcode.MUL:
+      case RedcodeOpcode.DIV:
+      case RedcodeOpcode.MOD: {
+        let divideByZero = false;
+        for (const [from, to] of pairs) {
+          const result = this.arithmetic(instruction.opcode, target[to].value, source[from].value);
+          if (result === null) {
+            divideByZero = true;
+          } else {
+            this.core[bAddress][to].value = result;
+          }
+        }
+        if (!divideByZero) {
+          queue(next);
+        }
+        return;
+      }
+
+      case RedcodeOpcode.JMP:
+        queue(aAddress);
+        return;
+
+      case RedcodeOpcode.JMZ:
+        queue(this.targetFields(instruction.modifier).every(field => target[field].value === 0) ? aAddress : next);
+        return;
+
+      case RedcodeOpcode.JMN:
+        queue(this.targetFields(instruction.modifier).some(field => target[field].value !== 0) ? aAddress : next);
+        return;
+
+      case RedcodeOpcode.DJN: {
+        const fields = this.targetFields(instruction.modifier);
+        for (const field of fields) {
+          this.core[bAddress][field].value = this.fold(this.core[bAddress][field].value - 1);
+          target[field].value = this.fold(target[field].value - 1);
+        }
+        queue(fields.some(field => target[field].value !== 0) ? aAddress : next);
+        return;
+      }
+
+      case RedcodeOpcode.CMP:
+      case RedcodeOpcode.SEQ:
+        queue(this.isEqual(instruction.modifier, source, target) ? pc + 2 : next);
+        return;
+
+      case RedcodeOpcode.SNE:
+        queue(this.isEqual(instruction.modifier, source, target) ? next : pc + 2);
+        return;
+
+      case RedcodeOpcode.SLT:
+        queue(pairs.every(([from, to]) => source[from].value < target[to].value) ? pc + 2 : next);
+        return;
+
+      case RedcodeOpcode.SPL:
+        queue(next);
+        if (warrior.processes.length < this.maxProcesses) {
+          queue(aAddress);
+        }
+        return;
+
+      case RedcodeOpcode.NOP:
+        queue(next);
+        return;
+    }
+  }
+
+  // Apply an arithmetic opcode; null means division by zero
+  private arithmetic(opcode: RedcodeOpcode, target: number, source: number): number | null {
+    switch (opcode) {
+      case RedcodeOpcode.ADD: return this.fold(target + source);
+      case RedcodeOpcode.SUB: return this.fold(target - source);
+      case RedcodeOpcode.MUL: return this.fold(target * source);
+      case RedcodeOpcode.DIV: return source === 0 ? null : Math.floor(target / source);
+      default: return source === 0 ? null : target % source;
+    }
+  }
+
+  // Fields of the B-target that JMZ, JMN and DJN test
+  private targetFields(modifier: RedcodeModifier): Array<'a' | 'b'> {
+    switch (modifier) {
+      case RedcodeModifier.A:
+      case RedcodeModifier.BA:
+        return ['a'];
+      case RedcodeModifier.B:
+      case RedcodeModifier.AB:
+        return ['b'];
+      default:
+        return ['a', 'b'];
+    }
+  }
+
+  private isEqual(modifier: RedcodeModifier, source: RedcodeInstruction, target: RedcodeInstruction): boolean {
+    const fieldsEqual = FIELD_PAIRS[modifier].every(([from, to]) => source[from].value === target[to].value);
+    if (modifier !== RedcodeModifier.I) {
+      return fieldsEqual;
+    }
+    return fieldsEqual &&
+      source.opcode === target.opcode &&
+      source.modifier === target.modifier &&
+      source.a.mode === target.a.mode &&
+      source.b.mode === target.b.mode;
+  }
+}
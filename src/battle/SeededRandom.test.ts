@@ -0,0 +1,46 @@
+import { SeededRandom } from './SeededRandom.js';
+
+describe('SeededRandom', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+
+    const first = Array.from({ length: 5 }, () => a.next());
+    expect(Array.from({ length: 5 }, () => b.next())).toEqual(first);
+    expect(new SeededRandom(43).next()).not.toBe(first[0]);
+  });
+
+  it('stays within range', () => {
+    const random = new SeededRandom(7);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+
+      const int = random.nextInt(10);
+      expect(Number.isInteger(int)).toBe(true);
+      expect(int).toBeGreaterThanOrEqual(0);
+      expect(int).toBeLessThan(10);
+    }
+  });
+
+  it('restarts from its seed', () => {
+    const random = new SeededRandom(0xDEADBEEF);
+    const first = random.next();
+    random.next();
+
+    random.reset();
+
+    expect(random.next()).toBe(first);
+    expect(random.getSeed()).toBe(0xDEADBEEF);
+  });
+
+  it('generates a seed when none is given', () => {
+    const seed = new SeededRandom().getSeed();
+
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(0x100000000);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32)
+ * All randomness in the battle engine goes through one of these, so a battle
+ * replays identically from its seed.
+ */
+export class SeededRandom {
+  private readonly seed: number;
+  private state: number;
+
+  /**
+   * @param seed 32-bit seed; a fresh one is generated when omitted
+   */
+  constructor(seed?: number) {
+    this.seed = (seed ?? SeededRandom.generateSeed()) >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Generate a seed for battles that do not specify one
+   */
+  public static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  /**
+   * Get the seed this generator was created with
+   */
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Next value in [0, 1), like Math.random()
+   */
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Next integer in [0, max)
+   * @param max Exclusive upper bound
+   */
+  public nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Restart the sequence from the seed
+   */
+  public reset(): void {
+    this.state = this.seed;
+  }
+}
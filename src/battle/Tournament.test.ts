@@ -0,0 +1,155 @@
+import {
+  Tournament,
+  TournamentEntrant,
+  TournamentFormatName,
+  TournamentState,
+  InMemoryTournamentStore,
+  SwissFormat
+} from './Tournament.js';
+import fs from 'fs';
+import path from 'path';
+
+// Keeps every saved state, so a test can pick one up as if after a restart
+class RecordingStore extends InMemoryTournamentStore {
+  public saved: TournamentState[] = [];
+
+  save(state: TournamentState): void {
+    super.save(state);
+    this.saved.push(structuredClone(state));
+  }
+}
+
+describe('Tournament', () => {
+  const looper = fs.readFileSync(path.join(process.cwd(), 'bots', 'infinite_loop.asm'), 'utf-8');
+  // Loopers (l*) beat quitters (q*), which halt straight away
+  const entrants = (...ids: string[]): TournamentEntrant[] =>
+    ids.map(id => ({ id, name: id, code: id.startsWith('l') ? looper : 'halt', owner: id }));
+  const settings = { roundsPerMatch: 2, seed: 5, options: { maxTurns: 20 } };
+
+  const play = async (format: TournamentFormatName, ids: string[], store = new InMemoryTournamentStore()) => {
+    const tournament = Tournament.create(format, entrants(...ids), { format, ...settings }, store);
+    const state = await tournament.run();
+    return { tournament, state, standings: tournament.getStandings() };
+  };
+
+  const matches = (state: TournamentState) => state.pairings.filter(pairing => pairing.b !== null);
+
+  it('plays every pair once in a round-robin', async () => {
+    const { state, standings } = await play('round-robin', ['l1', 'q1', 'l2', 'q2', 'l3']);
+
+    expect(state.status).toBe('completed');
+    expect(state.stages).toBe(5);
+    const pairs = matches(state).map(pairing => [pairing.a, pairing.b].sort().join('-'));
+    expect(pairs).toHaveLength(10);
+    expect(new Set(pairs).size).toBe(10);
+    expect(state.pairings.every(pairing => pairing.status === 'completed')).toBe(true);
+
+    expect(standings.slice(0, 3).map(standing => standing.id).sort()).toEqual(['l1', 'l2', 'l3']);
+    for (const standing of standings) {
+      expect(standing.played).toBe(4);
+      expect(standing.points).toBe(standing.wins * 3 + standing.draws);
+    }
+  });
+
+  it('pairs Swiss stages without rematches, spreading the byes', async () => {
+    const { state, standings } = await play('swiss', ['l1', 'q1', 'l2', 'q2', 'l3']);
+
+    expect(state.stages).toBe(3);
+    const pairs = matches(state).map(pairing => [pairing.a, pairing.b].sort().join('-'));
+    expect(new Set(pairs).size).toBe(pairs.length);
+    const byes = state.pairings.filter(pairing => pairing.b === null).map(pairing => pairing.a);
+    expect(byes).toHaveLength(3);
+    expect(new Set(byes).size).toBe(3);
+
+    // Two loopers still running at the turn limit on equal cycles draw
+    expect(standings[0]).toMatchObject({ id: 'l1', wins: 2, draws: 1, points: 7 });
+    const buchholz = new Map(standings.map(standing => [standing.id, standing.points]));
+    expect(standings[0].buchholz).toBe(matches(state)
+      .filter(pairing => pairing.a === 'l1' || pairing.b === 'l1')
+      .reduce((sum, pairing) => sum + buchholz.get(pairing.a === 'l1' ? pairing.b! : pairing.a)!, 0));
+  });
+
+  it('plays the given number of Swiss stages', () => {
+    const state = { entrants: entrants('a', 'b', 'c', 'd'), stages: 2, pairings: [] } as unknown as TournamentState;
+
+    expect(new SwissFormat().pair(state, [])).toBeNull();
+    expect(new SwissFormat(3).pair(state, [])).not.toBeNull();
+  });
+
+  it('runs a seeded single elimination bracket down to a champion', async () => {
+    const { state, standings } = await play('single-elimination', ['l1', 'q1', 'l2', 'q2', 'l3']);
+
+    // Seeds 1-3 get byes into the second stage, 4 meets 5
+    expect(state.pairings.filter(pairing => pairing.stage === 0).map(pairing => [pairing.a, pairing.b])).toEqual([
+      ['l1', null], ['q2', 'l3'], ['q1', null], ['l2', null]
+    ]);
+    expect(matches(state)).toHaveLength(4);
+    expect(standings[0]).toMatchObject({ id: 'l1', losses: 0, eliminatedIn: null });
+    expect(standings.slice(1).every(standing => standing.losses === 1 && standing.eliminatedIn !== null)).toBe(true);
+    expect(standings[1].eliminatedIn).toBe(state.stages - 1);
+  });
+
+  it('gives everyone a second life in double elimination', async () => {
+    const { state, standings } = await play('double-elimination', ['l1', 'q1', 'l2', 'q2', 'l3']);
+
+    expect(state.status).toBe('completed');
+    expect(standings[0]).toMatchObject({ id: 'l1', eliminatedIn: null });
+    expect(standings.slice(1).map(standing => standing.losses)).toEqual([2, 2, 2, 2]);
+    const final = state.pairings[state.pairings.length - 1];
+    expect([final.a, final.b]).toEqual(['l1', standings[1].id]);
+  });
+
+  it('resumes a saved tournament and finishes as if never interrupted', async () => {
+    const store = new RecordingStore();
+    const { state: uninterrupted } = await play('swiss', ['l1', 'q1', 'l2', 'q2'], store);
+    const saved = store.saved.find(state =>
+      state.pairings.filter(pairing => pairing.status === 'completed').length === 3)!;
+    expect(saved.status).toBe('running');
+
+    const resumed = await new Tournament(saved, new InMemoryTournamentStore()).run();
+
+    expect(resumed.pairings).toEqual(uninterrupted.pairings);
+    expect(resumed.status).toBe('completed');
+  });
+
+  it('cancels the match being played', async () => {
+    const store = new InMemoryTournamentStore();
+    const tournament = Tournament.create('t', entrants('l1', 'l2', 'l3'), {
+      format: 'round-robin',
+      roundsPerMatch: 1,
+      options: { maxTurns: 1e9 }
+    }, store);
+
+    const running = tournament.run();
+    expect(tournament.cancel()).toBe(true);
+    const state = await running;
+
+    expect(state.status).toBe('cancelled');
+    expect(state.error).toBeNull();
+    expect(state.pairings.every(pairing => pairing.status === 'pending')).toBe(true);
+    expect(store.load('t')!.status).toBe('cancelled');
+    expect(tournament.cancel()).toBe(false);
+  });
+
+  it('fails when a bot does not assemble', async () => {
+    const broken = [...entrants('l1'), { id: 'x', name: 'broken', code: 'bogus r0, r1', owner: 'x' }];
+    const state = await Tournament.create('t', broken, { format: 'round-robin', ...settings }, new InMemoryTournamentStore()).run();
+
+    expect(state.status).toBe('failed');
+    expect(state.error).toMatch(/Parse errors in broken/);
+  });
+
+  it('validates its entrants and settings', () => {
+    const store = new InMemoryTournamentStore();
+
+    expect(() => Tournament.create('t', entrants('l1'), { format: 'swiss' }, store))
+      .toThrow('A tournament needs at least two bots');
+    expect(() => Tournament.create('t', entrants('l1', 'l1'), { format: 'swiss' }, store))
+      .toThrow('A bot can only enter a tournament once');
+    expect(() => Tournament.create('t', entrants('l1', 'l2'), { format: 'swiss', roundsPerMatch: 0 }, store))
+      .toThrow('Invalid number of rounds: 0');
+    expect(() => Tournament.create('t', entrants('l1', 'l2'), { format: 'bogus' as TournamentFormatName }, store))
+      .toThrow(/Unknown tournament format: bogus/);
+    expect(store.list()).toEqual([]);
+  });
+});
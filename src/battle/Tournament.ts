@@ -0,0 +1,532 @@
+/**
+ * Core Wars Tournaments
+ * Stored bots play multi-round matches in stages: a round-robin, Swiss
+ * rounds, or a single or double elimination bracket. The tournament is saved
+ * after every match, so one interrupted by a restart resumes where it stopped.
+ */
+
+import { Match, DEFAULT_MATCH_ROUNDS } from './Match.js';
+import { BattlePool } from './BattlePool.js';
+import { BattleJobOptions } from './BattleJob.js';
+import { SeededRandom } from './SeededRandom.js';
+import { VictoryRuleName } from './Victory.js';
+
+export const TOURNAMENT_FORMATS = ['round-robin', 'swiss', 'single-elimination', 'double-elimination'] as const;
+export type TournamentFormatName = typeof TOURNAMENT_FORMATS[number];
+
+export interface TournamentEntrant {
+  id: string;     // Stored bot ID
+  name: string;
+  code: string;   // Kept so the tournament can resume without the bot
+  owner: string;
+}
+
+export interface TournamentSettings {
+  format: TournamentFormatName;
+  roundsPerMatch: number;
+  swissRounds?: number;         // Swiss only (default: ceil(log2(entrants)))
+  seed: number;                 // The nth match is played with seed + n
+  options?: BattleJobOptions;   // Battle options for every round
+  victory?: VictoryRuleName;
+}
+
+/**
+ * One match of a stage, or a bye when b is null
+ */
+export interface TournamentPairing {
+  stage: number;
+  a: string;               // Entrant IDs
+  b: string | null;
+  seed: number;
+  status: 'pending' | 'completed';
+  winner: string | null;   // null for a drawn match
+  scoreA: number;          // Match scores: 3 per round won, 1 per round tied
+  scoreB: number;
+}
+
+export type TournamentStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface TournamentState {
+  id: string;
+  settings: TournamentSettings;
+  entrants: TournamentEntrant[];  // In seeding order
+  status: TournamentStatus;
+  stages: number;                 // Stages paired so far
+  pairings: TournamentPairing[];  // Every stage so far, in order
+  error: string | null;           // Why the tournament failed
+  created: number;                // Milliseconds since the epoch
+  updated: number;
+}
+
+/**
+ * An entrant's line in the standings (3 points per match won, 1 per draw)
+ */
+export interface TournamentStanding {
+  id: string;
+  name: string;
+  played: number;               // Matches, byes not included
+  wins: number;                 // Byes count as wins
+  losses: number;
+  draws: number;
+  points: number;
+  roundScore: number;           // Match scores added up
+  buchholz: number;             // Opponents' points added up, the Swiss tiebreak
+  eliminatedIn: number | null;  // Stage of the loss that put the entrant out (elimination formats)
+}
+
+/**
+ * Where tournaments are saved. save() is called after every change.
+ */
+export interface TournamentStore {
+  save(state: TournamentState): void;
+  load(id: string): TournamentState | null;
+  list(): TournamentState[];
+}
+
+export class InMemoryTournamentStore implements TournamentStore {
+  private states = new Map<string, TournamentState>();
+
+  public save(state: TournamentState): void {
+    this.states.set(state.id, structuredClone(state));
+  }
+
+  public load(id: string): TournamentState | null {
+    const state = this.states.get(id);
+    return state ? structuredClone(state) : null;
+  }
+
+  public list(): TournamentState[] {
+    return Array.from(this.states.values(), state => structuredClone(state));
+  }
+}
+
+/**
+ * Pairs entrants stage by stage
+ */
+export interface TournamentFormat {
+  readonly name: TournamentFormatName;
+  readonly lives?: number;  // Elimination: match losses that put an entrant out; a drawn match has a winner
+  /**
+   * Pairings for the next stage (state.stages), or null when the tournament is over
+   * @param standings Current standings, best first
+   */
+  pair(state: TournamentState, standings: TournamentStanding[]): Array<[string, string | null]> | null;
+}
+
+/**
+ * Every entrant plays every other once, by the circle method. With an odd
+ * number of entrants one sits out each stage.
+ */
+export class RoundRobinFormat implements TournamentFormat {
+  public readonly name = 'round-robin';
+
+  public pair(state: TournamentState): Array<[string, string | null]> | null {
+    const ids: Array<string | null> = state.entrants.map(entrant => entrant.id);
+    if (ids.length % 2 === 1) {
+      ids.push(null);
+    }
+    if (state.stages >= ids.length - 1) {
+      return null;
+    }
+
+    // The first entrant stays put while the others rotate one place per stage
+    const rest = ids.slice(1);
+    const shift = state.stages % rest.length;
+    const circle = [ids[0], ...rest.slice(rest.length - shift), ...rest.slice(0, rest.length - shift)];
+    const pairs: Array<[string, string | null]> = [];
+    for (let i = 0; i < circle.length / 2; i++) {
+      const [a, b] = [circle[i], circle[circle.length - 1 - i]];
+      if (a !== null && b !== null) {
+        pairs.push([a, b]);
+      }
+    }
+    return pairs;
+  }
+}
+
+// Pairings a Swiss stage tries before settling for rematches
+const SWISS_PAIRING_ATTEMPTS = 10000;
+
+/**
+ * Each stage pairs entrants with similar points who haven't met yet. With an
+ * odd number of entrants, the lowest ranked one without a bye gets one.
+ */
+export class SwissFormat implements TournamentFormat {
+  public readonly name = 'swiss';
+  private rounds?: number;
+
+  /**
+   * @param rounds Stages to play (default: ceil(log2(entrants)))
+   */
+  constructor(rounds?: number) {
+    this.rounds = rounds;
+  }
+
+  public pair(state: TournamentState, standings: TournamentStanding[]): Array<[string, string | null]> | null {
+    const rounds = this.rounds ?? Math.ceil(Math.log2(state.entrants.length));
+    if (state.stages >= rounds) {
+      return null;
+    }
+
+    const met = new Set(state.pairings.flatMap(pairing => [`${pairing.a}/${pairing.b}`, `${pairing.b}/${pairing.a}`]));
+    const unpaired = standings.map(standing => standing.id);
+    let bye: string | null = null;
+    if (unpaired.length % 2 === 1) {
+      const hadBye = new Set(state.pairings.filter(pairing => pairing.b === null).map(pairing => pairing.a));
+      const index = unpaired.map(id => !hadBye.has(id)).lastIndexOf(true);
+      [bye] = unpaired.splice(index !== -1 ? index : unpaired.length - 1, 1);
+    }
+
+    // From the top, each entrant meets the nearest one down it hasn't met, backtracking when
+    // that leaves others only rematches; failing that, rematches pair neighbours
+    let attempts = 0;
+    const search = (ids: string[]): Array<[string, string]> | null => {
+      if (ids.length === 0) {
+        return [];
+      }
+      for (let i = 1; i < ids.length && attempts++ < SWISS_PAIRING_ATTEMPTS; i++) {
+        if (!met.has(`${ids[0]}/${ids[i]}`)) {
+          const rest = search(ids.filter((_, index) => index !== 0 && index !== i));
+          if (rest) {
+            return [[ids[0], ids[i]], ...rest];
+          }
+        }
+      }
+      return null;
+    };
+    const pairs: Array<[string, string | null]> = search(unpaired) ??
+      Array.from({ length: unpaired.length / 2 }, (_, i): [string, string] => [unpaired[2 * i], unpaired[2 * i + 1]]);
+    if (bye !== null) {
+      pairs.push([bye, null]);
+    }
+    return pairs;
+  }
+}
+
+/**
+ * Entrants are out after their first (single) or second (double) match
+ * loss. The first stage follows a seeded bracket, with byes for the top
+ * seeds; after that, entrants with the same number of losses meet in
+ * bracket order, and byes go to those who have had the fewest. The last one
+ * left wins.
+ */
+export class EliminationFormat implements TournamentFormat {
+  public readonly name: TournamentFormatName;
+  public readonly lives: number;
+
+  /**
+   * @param lives 1 for single elimination, 2 for double
+   */
+  constructor(lives: 1 | 2) {
+    this.lives = lives;
+    this.name = lives === 1 ? 'single-elimination' : 'double-elimination';
+  }
+
+  public pair(state: TournamentState): Array<[string, string | null]> | null {
+    if (state.stages === 0) {
+      return this.seededBracket(state.entrants.map(entrant => entrant.id));
+    }
+
+    const losses = new Map(state.entrants.map(entrant => [entrant.id, 0]));
+    for (const pairing of state.pairings) {
+      const loser = pairing.winner === pairing.a ? pairing.b : pairing.a;
+      if (pairing.b !== null && loser !== null) {
+        losses.set(loser, losses.get(loser)! + 1);
+      }
+    }
+
+    // Bracket order: where each entrant played in the last stage
+    const lastStage = state.pairings.filter(pairing => pairing.stage === state.stages - 1);
+    const alive = lastStage
+      .flatMap(pairing => [pairing.a, pairing.b])
+      .filter((id): id is string => id !== null && losses.get(id)! < this.lives);
+    if (alive.length <= 1) {
+      return null;
+    }
+
+    const groups = Array.from({ length: this.lives }, (_, lost) => alive.filter(id => losses.get(id) === lost));
+    // One unbeaten entrant and one with a loss left: the final
+    if (groups.length === 2 && groups[0].length === 1 && groups[1].length === 1) {
+      return [[groups[0][0], groups[1][0]]];
+    }
+
+    // In a group of odd size, the entrant with the fewest byes so far (the first of them) sits out
+    const byes = (id: string) => state.pairings.filter(pairing => pairing.a === id && pairing.b === null).length;
+    const pairs: Array<[string, string | null]> = [];
+    for (const group of groups) {
+      let bye: string | null = null;
+      if (group.length % 2 === 1) {
+        const fewest = Math.min(...group.map(byes));
+        [bye] = group.splice(group.findIndex(id => byes(id) === fewest), 1);
+      }
+      for (let i = 0; i < group.length; i += 2) {
+        pairs.push([group[i], group[i + 1]]);
+      }
+      if (bye !== null) {
+        pairs.push([bye, null]);
+      }
+    }
+    return pairs;
+  }
+
+  private seededBracket(ids: string[]): Array<[string, string | null]> {
+    // Standard seeding, e.g. 1-8, 4-5, 2-7, 3-6 for eight; seeds past the field are byes
+    let order = [1];
+    while (order.length < ids.length) {
+      const size = order.length * 2;
+      order = order.flatMap(seed => [seed, size + 1 - seed]);
+    }
+    const pairs: Array<[string, string | null]> = [];
+    for (let i = 0; i < order.length; i += 2) {
+      pairs.push([ids[order[i] - 1], ids[order[i + 1] - 1] ?? null]);
+    }
+    return pairs;
+  }
+}
+
+/**
+ * Create a format from a tournament's settings
+ */
+export function createTournamentFormat(settings: TournamentSettings): TournamentFormat {
+  switch (settings.format) {
+    case 'round-robin':
+      return new RoundRobinFormat();
+    case 'swiss':
+      return new SwissFormat(settings.swissRounds);
+    case 'single-elimination':
+      return new EliminationFormat(1);
+    case 'double-elimination':
+      return new EliminationFormat(2);
+    default:
+      throw new Error(`Unknown tournament format: ${settings.format} (expected one of ${TOURNAMENT_FORMATS.join(', ')})`);
+  }
+}
+
+/**
+ * Run-time options, not saved with the tournament
+ */
+export interface TournamentRunOptions {
+  pool?: BattlePool;                 // Play each match's rounds in parallel on it
+  includes?: Record<string, string>; // Files the bots may include, by name
+}
+
+export class Tournament {
+  private state: TournamentState;
+  private store: TournamentStore;
+  private format: TournamentFormat;
+  private runOptions: TournamentRunOptions;
+  private match: Match | null;
+
+  /**
+   * Start a tournament; run() plays it
+   * @param entrants In seeding order
+   */
+  public static create(
+    id: string,
+    entrants: TournamentEntrant[],
+    settings: Partial<TournamentSettings> & Pick<TournamentSettings, 'format'>,
+    store: TournamentStore,
+    runOptions: TournamentRunOptions = {}
+  ): Tournament {
+    if (entrants.length < 2) {
+      throw new Error('A tournament needs at least two bots');
+    }
+    if (new Set(entrants.map(entrant => entrant.id)).size !== entrants.length) {
+      throw new Error('A bot can only enter a tournament once');
+    }
+    const roundsPerMatch = settings.roundsPerMatch ?? DEFAULT_MATCH_ROUNDS;
+    if (!Number.isInteger(roundsPerMatch) || roundsPerMatch < 1) {
+      throw new Error(`Invalid number of rounds: ${roundsPerMatch}`);
+    }
+
+    const now = Date.now();
+    const state: TournamentState = {
+      id,
+      settings: { ...settings, roundsPerMatch, seed: settings.seed ?? SeededRandom.generateSeed() },
+      entrants,
+      status: 'running',
+      stages: 0,
+      pairings: [],
+      error: null,
+      created: now,
+      updated: now
+    };
+    const tournament = new Tournament(state, store, runOptions);
+    tournament.save();
+    return tournament;
+  }
+
+  /**
+   * Take up a saved tournament, e.g. after a restart; run() continues it
+   */
+  constructor(state: TournamentState, store: TournamentStore, runOptions: TournamentRunOptions = {}) {
+    this.state = state;
+    this.store = store;
+    this.format = createTournamentFormat(state.settings);
+    this.runOptions = runOptions;
+    this.match = null;
+  }
+
+  /**
+   * Play the remaining matches, stage by stage. Resolves when the tournament
+   * is completed, cancelled or has failed.
+   */
+  public async run(): Promise<TournamentState> {
+    while (this.state.status === 'running') {
+      const pending = this.state.pairings.filter(pairing => pairing.status === 'pending');
+      if (pending.length === 0) {
+        this.nextStage();
+        continue;
+      }
+
+      for (const pairing of pending) {
+        try {
+          await this.play(pairing);
+        } catch (error) {
+          if (this.state.status !== 'running') {
+            break;
+          }
+          this.state.status = 'failed';
+          this.state.error = error instanceof Error ? error.message : String(error);
+        }
+        this.save();
+        if (this.state.status !== 'running') {
+          break;
+        }
+      }
+    }
+    return this.getState();
+  }
+
+  /**
+   * Stop the tournament, including the match being played
+   * @returns false if it isn't running
+   */
+  public cancel(): boolean {
+    if (this.state.status !== 'running') {
+      return false;
+    }
+    this.state.status = 'cancelled';
+    this.match?.cancel();
+    this.save();
+    return true;
+  }
+
+  public getState(): TournamentState {
+    return structuredClone(this.state);
+  }
+
+  /**
+   * Standings so far, best first: entrants still in before eliminated ones,
+   * then by points, Buchholz, match scores and seeding
+   */
+  public getStandings(): TournamentStanding[] {
+    const standings = new Map<string, TournamentStanding>(this.state.entrants.map(entrant => [entrant.id, {
+      id: entrant.id,
+      name: entrant.name,
+      played: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      points: 0,
+      roundScore: 0,
+      buchholz: 0,
+      eliminatedIn: null
+    }]));
+    const completed = this.state.pairings.filter(pairing => pairing.status === 'completed');
+
+    for (const pairing of completed) {
+      const a = standings.get(pairing.a)!;
+      if (pairing.b === null) {
+        a.wins++;
+        a.points += 3;
+        continue;
+      }
+      const b = standings.get(pairing.b)!;
+      for (const [standing, score] of [[a, pairing.scoreA], [b, pairing.scoreB]] as const) {
+        standing.played++;
+        standing.roundScore += score;
+        if (pairing.winner === null) {
+          standing.draws++;
+          standing.points += 1;
+        } else if (pairing.winner === standing.id) {
+          standing.wins++;
+          standing.points += 3;
+        } else {
+          standing.losses++;
+          if (this.format.lives !== undefined && standing.losses === this.format.lives) {
+            standing.eliminatedIn = pairing.stage;
+          }
+        }
+      }
+    }
+
+    for (const pairing of completed) {
+      if (pairing.b !== null) {
+        standings.get(pairing.a)!.buchholz += standings.get(pairing.b)!.points;
+        standings.get(pairing.b)!.buchholz += standings.get(pairing.a)!.points;
+      }
+    }
+
+    const seeds = new Map(this.state.entrants.map((entrant, index) => [entrant.id, index]));
+    const outIn = (standing: TournamentStanding) => standing.eliminatedIn ?? Number.MAX_SAFE_INTEGER;
+    return [...standings.values()].sort((x, y) =>
+      outIn(y) - outIn(x) ||
+      y.points - x.points ||
+      y.buchholz - x.buchholz ||
+      y.roundScore - x.roundScore ||
+      seeds.get(x.id)! - seeds.get(y.id)!
+    );
+  }
+
+  private nextStage(): void {
+    const pairs = this.format.pair(this.state, this.getStandings());
+    if (pairs === null) {
+      this.state.status = 'completed';
+    } else {
+      for (const [a, b] of pairs) {
+        this.state.pairings.push({
+          stage: this.state.stages,
+          a,
+          b,
+          seed: (this.state.settings.seed + this.state.pairings.length) >>> 0,
+          status: b === null ? 'completed' : 'pending',
+          winner: b === null ? a : null,
+          scoreA: 0,
+          scoreB: 0
+        });
+      }
+      this.state.stages++;
+    }
+    this.save();
+  }
+
+  private async play(pairing: TournamentPairing): Promise<void> {
+    const entrants = [pairing.a, pairing.b!].map(id => this.state.entrants.find(entrant => entrant.id === id)!);
+    const { roundsPerMatch, options, victory } = this.state.settings;
+    this.match = new Match(
+      entrants.map(({ name, code, owner }) => ({ name, code, owner })),
+      { rounds: roundsPerMatch, seed: pairing.seed, options, victory, ...this.runOptions }
+    );
+    try {
+      const { standings } = await this.match.run();
+      pairing.scoreA = standings[0].score;
+      pairing.scoreB = standings[1].score;
+      pairing.winner = standings[0].score > standings[1].score ? pairing.a
+        : standings[1].score > standings[0].score ? pairing.b
+        : this.format.lives === undefined ? null
+        // Elimination needs a winner: the one with more rounds won, then the higher seed
+        : standings[1].wins > standings[0].wins ? pairing.b
+        : standings[0].wins > standings[1].wins ? pairing.a
+        : this.state.entrants.indexOf(entrants[0]) < this.state.entrants.indexOf(entrants[1]) ? pairing.a : pairing.b;
+      pairing.status = 'completed';
+    } finally {
+      this.match = null;
+    }
+  }
+
+  private save(): void {
+    this.state.updated = Date.now();
+    this.store.save(this.state);
+  }
+}
@@ -0,0 +1,203 @@
+import { BattleController, BattleOptions } from './BattleController.js';
+import { ProcessManager } from './ProcessManager.js';
+import { ProcessId } from './types.js';
+import {
+  LastSurvivorRule,
+  MostProcessesRule,
+  TerritoryRule,
+  CyclesExecutedRule,
+  VictoryRule,
+  createVictoryRule
+} from './Victory.js';
+
+describe('Victory rules', () => {
+  let processManager: ProcessManager;
+
+  const battleOptions: BattleOptions = {
+    maxTurns: 3,
+    maxCyclesPerTurn: 10,
+    maxMemoryPerProcess: 1000
+  };
+
+  // A bot, or with `warrior` one of its spl children
+  const spawn = (name: string, options: { warrior?: ProcessId; team?: string } = {}): ProcessId => processManager.create({
+    name,
+    owner: 'test-owner',
+    memorySegments: [{ name: 'code', start: 0, size: 10, data: new Uint8Array(10) }],
+    entryPoint: 0,
+    ...options
+  });
+
+  const createBattle = (victory: VictoryRule, bots: Array<string | { team: string }>) => {
+    const controller = new BattleController(processManager, { ...battleOptions, victory });
+    const ids = bots.map((bot, index) => spawn(`bot-${index}`, typeof bot === 'string' ? {} : bot));
+    ids.forEach(id => controller.addProcess(id));
+    controller.start();
+    return { controller, ids };
+  };
+
+  const addChild = (controller: BattleController, parent: ProcessId): ProcessId => {
+    const parentProcess = processManager.getProcess(parent);
+    const child = spawn(`${parentProcess.name}_child`, { warrior: parentProcess.warrior, team: parentProcess.team ?? undefined });
+    controller.addProcess(child);
+    return child;
+  };
+
+  const runToEnd = (controller: BattleController) => {
+    while (controller.nextTurn()) {
+      // play every turn
+    }
+    return controller.getState();
+  };
+
+  beforeEach(() => {
+    processManager = new ProcessManager({ defaultQuantum: 10, defaultPriority: 1, maxProcesses: 10 });
+  });
+
+  describe('LastSurvivorRule', () => {
+    it('ends the battle when one warrior is left', () => {
+      const { controller, ids } = createBattle(new LastSurvivorRule(), ['a', 'b']);
+      controller.nextTurn();
+      processManager.terminate(ids[0]);
+
+      expect(controller.checkVictory()).toBe(true);
+      expect(controller.getState()).toMatchObject({ winner: ids[1], winningTeam: null, draw: null });
+    });
+
+    it('counts spl children with their warrior, so a bot cannot beat itself', () => {
+      const { controller, ids } = createBattle(new LastSurvivorRule(), ['a', 'b']);
+      addChild(controller, ids[0]);
+      processManager.terminate(ids[1]);
+
+      expect(controller.checkVictory()).toBe(true);
+      expect(controller.getState().winner).toBe(ids[0]);
+
+      const solo = createBattle(new LastSurvivorRule(), ['c', 'd']);
+      addChild(solo.controller, solo.ids[0]);
+      processManager.terminate(solo.ids[0]);
+
+      expect(solo.controller.checkVictory()).toBe(false);
+    });
+
+    it('lets the last team running win', () => {
+      const { controller, ids } = createBattle(new LastSurvivorRule(), [{ team: 'x' }, { team: 'y' }, { team: 'x' }, { team: 'y' }]);
+      processManager.terminate(ids[0]);
+      processManager.terminate(ids[1]);
+
+      expect(controller.checkVictory()).toBe(false);
+
+      processManager.terminate(ids[3]);
+      expect(controller.checkVictory()).toBe(true);
+      expect(controller.getState()).toMatchObject({ winner: ids[0], winningTeam: 'x' });
+    });
+
+    it('picks a winner at the turn limit, or calls a draw with the draw tiebreak', () => {
+      expect(runToEnd(createBattle(new LastSurvivorRule(), ['a', 'b']).controller).winner).not.toBeNull();
+
+      const { controller, ids } = createBattle(new LastSurvivorRule('draw'), ['c', 'd']);
+      expect(runToEnd(controller)).toMatchObject({ turn: 3, winner: null, draw: ids });
+    });
+
+    it('gives the win to the warrior that lasted longest, counted in scheduler ticks', () => {
+      const { controller, ids } = createBattle(new LastSurvivorRule(), ['a', 'b']);
+      controller.nextTurn();
+      processManager.terminate(ids[1]);
+      processManager.schedule();
+      processManager.terminate(ids[0]);
+
+      expect(controller.checkVictory()).toBe(true);
+      expect(controller.getState().winner).toBe(ids[0]);
+    });
+
+    it('gives the win to the highest score among the warriors running at the turn limit', () => {
+      const ids = [spawn('a'), spawn('b')];
+      while (processManager.schedule() !== ids[1]) {
+        // b runs last
+      }
+
+      const decision = new LastSurvivorRule().judge({
+        processes: ids,
+        scores: new Map([[ids[0], 5], [ids[1], 3]]),
+        turn: 3,
+        maxTurns: 3,
+        getProcess: id => processManager.getProcess(id),
+        getMemoryOwners: () => new Uint16Array(0)
+      });
+
+      expect(decision).toEqual({ type: 'win', winner: ids[0], team: null });
+    });
+
+    it('calls a draw between the warriors running at the turn limit on equal scores', () => {
+      const ids = [spawn('a'), spawn('b')];
+
+      const decision = new LastSurvivorRule().judge({
+        processes: ids,
+        scores: new Map([[ids[0], 4], [ids[1], 4]]),
+        turn: 3,
+        maxTurns: 3,
+        getProcess: id => processManager.getProcess(id),
+        getMemoryOwners: () => new Uint16Array(0)
+      });
+
+      expect(decision).toEqual({ type: 'draw', warriors: ids });
+    });
+  });
+
+  describe('MostProcessesRule', () => {
+    it('counts running processes per warrior', () => {
+      const { controller, ids } = createBattle(new MostProcessesRule(), ['a', 'b']);
+      addChild(controller, ids[0]);
+
+      expect(runToEnd(controller)).toMatchObject({ winner: ids[0], draw: null });
+    });
+
+    it('lets the last warrior running win early', () => {
+      const { controller, ids } = createBattle(new MostProcessesRule(), ['a', 'b']);
+      addChild(controller, ids[0]);
+      processManager.terminate(ids[1]);
+
+      expect(controller.nextTurn()).toBe(false);
+      expect(controller.getState()).toMatchObject({ turn: 1, winner: ids[0] });
+    });
+
+    it('calls a draw between warriors with as many processes', () => {
+      const { controller, ids } = createBattle(new MostProcessesRule(), ['a', 'b']);
+
+      expect(runToEnd(controller)).toMatchObject({ winner: null, draw: ids });
+    });
+  });
+
+  describe('TerritoryRule', () => {
+    it('counts memory cells owned per warrior', () => {
+      const { controller, ids } = createBattle(new TerritoryRule(), ['a', 'b']);
+      const child = addChild(controller, ids[0]);
+      const owners = new Uint16Array(16);
+      owners.fill(ids[1], 0, 5);
+      owners.fill(ids[0], 5, 8);
+      owners.fill(child, 8, 11);
+      controller.getMemoryOwners = () => owners;
+
+      expect(runToEnd(controller)).toMatchObject({ winner: ids[0], draw: null });
+    });
+
+    it('needs memory ownership', () => {
+      const { controller } = createBattle(new TerritoryRule(), ['a', 'b']);
+
+      expect(() => runToEnd(controller)).toThrow('Victory rule territory needs memory ownership');
+    });
+  });
+
+  describe('CyclesExecutedRule', () => {
+    it('sums cycles per team', () => {
+      const { controller, ids } = createBattle(new CyclesExecutedRule(), [{ team: 'x' }, { team: 'y' }, { team: 'y' }]);
+
+      expect(runToEnd(controller)).toMatchObject({ winner: ids[1], winningTeam: 'y', draw: null });
+    });
+  });
+
+  it('creates rules by name', () => {
+    expect(createVictoryRule('territory')).toBeInstanceOf(TerritoryRule);
+    expect(createVictoryRule('cycles').name).toBe('cycles');
+    expect(() => createVictoryRule('points')).toThrow('Unknown victory rule: points');
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Core Wars Victory Rules
+ * Decide when a battle is over and whether it ended in a win or a draw.
+ * Rules judge sides: teams of warriors, or warriors fighting alone, each
+ * counting its spl children.
+ */
+
+import { ProcessId, Process, ProcessState, WarriorId } from './types.js';
+
+/**
+ * The battle as a rule sees it after each turn
+ */
+export interface VictoryContext {
+  processes: readonly ProcessId[];         // Every process in the battle, in the order they joined
+  scores: ReadonlyMap<ProcessId, number>;  // Cycles each process has executed
+  turn: number;                            // Turns completed
+  maxTurns: number;
+  getProcess(id: ProcessId): Process;
+  getMemoryOwners(): Uint16Array;          // Owning process of each memory cell, 0 for none
+}
+
+/**
+ * How a battle ended. A team's win names its first warrior; a draw lists
+ * every warrior of the sides that tied.
+ */
+export type VictoryDecision =
+  | { type: 'win'; winner: WarriorId; team: string | null }
+  | { type: 'draw'; warriors: WarriorId[] };
+
+/**
+ * Called after every turn. Rules must decide once the turn limit is reached
+ * or no process is left running.
+ */
+export interface VictoryRule {
+  readonly name: string;
+  judge(context: VictoryContext): VictoryDecision | null;  // null: the battle goes on
+}
+
+/**
+ * A side of the battle: a team, or a warrior fighting alone
+ */
+export interface Contender {
+  team: string | null;
+  warriors: WarriorId[];   // In the order they joined
+  processes: ProcessId[];  // Every process of its warriors, spl children included
+}
+
+export function isAlive(context: VictoryContext, id: ProcessId): boolean {
+  return context.getProcess(id).context.state !== ProcessState.Terminated;
+}
+
+/**
+ * The battle's sides, in the order they joined
+ */
+export function groupContenders(context: VictoryContext): Contender[] {
+  const contenders = new Map<string | WarriorId, Contender>();
+  for (const id of context.processes) {
+    const process = context.getProcess(id);
+    const key = process.team ?? process.warrior;
+    let contender = contenders.get(key);
+    if (!contender) {
+      contender = { team: process.team, warriors: [], processes: [] };
+      contenders.set(key, contender);
+    }
+    if (!contender.warriors.includes(process.warrior)) {
+      contender.warriors.push(process.warrior);
+    }
+    contender.processes.push(id);
+  }
+  return [...contenders.values()];
+}
+
+function win(contender: Contender): VictoryDecision {
+  return { type: 'win', winner: contender.warriors[0], team: contender.team };
+}
+
+function draw(contenders: Contender[]): VictoryDecision {
+  return { type: 'draw', warriors: contenders.flatMap(contender => contender.warriors) };
+}
+
+function isRunning(context: VictoryContext, contender: Contender): boolean {
+  return contender.processes.some(id => isAlive(context, id));
+}
+
+/**
+ * The last side with a process running wins. At the turn limit with several
+ * sides running, or when all stopped together, the tiebreak decides: the
+ * highest score among the sides still running, else the side that ran last
+ * then the highest score. Sides still tied draw, as do all sides with the
+ * draw tiebreak.
+ */
+export class LastSurvivorRule implements VictoryRule {
+  public readonly name = 'last-survivor';
+  private tiebreak: 'longest-lived' | 'draw';
+
+  /**
+   * @param tiebreak How a battle without a single survivor ends (default 'longest-lived')
+   */
+  constructor(tiebreak: 'longest-lived' | 'draw' = 'longest-lived') {
+    this.tiebreak = tiebreak;
+  }
+
+  public judge(context: VictoryContext): VictoryDecision | null {
+    const contenders = groupContenders(context);
+    const running = contenders.filter(contender => isRunning(context, contender));
+    if (running.length === 1) {
+      return win(running[0]);
+    }
+    if (running.length > 1 && context.turn < context.maxTurns) {
+      return null;
+    }
+
+    if (this.tiebreak === 'draw') {
+      return draw(running.length > 0 ? running : contenders);
+    }
+
+    // Sides still running at the turn limit lasted equally long; otherwise the sides
+    // that ran last (by scheduler tick) lasted longest. Then the highest score wins
+    const sides = running.length > 0 ? running : contenders;
+    const lastTicks = sides.map(contender => running.length > 0 ? 0 :
+      Math.max(...contender.processes.map(id => context.getProcess(id).lastTick)));
+    const longestLived = sides.filter((_, index) => lastTicks[index] === Math.max(...lastTicks));
+    const scores = longestLived.map(contender => totalScore(context, contender));
+    const leaders = longestLived.filter((_, index) => scores[index] === Math.max(...scores));
+    return leaders.length === 1 ? win(leaders[0]) : draw(leaders);
+  }
+}
+
+function totalScore(context: VictoryContext, contender: Contender): number {
+  return contender.processes.reduce((cycles, id) => cycles + (context.scores.get(id) ?? 0), 0);
+}
+
+/**
+ * Shared by the rules that measure the sides. When only one side still has
+ * processes running, it wins. At the turn limit, or once every process has
+ * stopped, the side with the highest measure wins; sides tied for it draw.
+ */
+function judgeByMeasure(
+  context: VictoryContext,
+  measure: (contenders: Contender[]) => number[]
+): VictoryDecision | null {
+  const contenders = groupContenders(context);
+  const running = contenders.filter(contender => isRunning(context, contender));
+  if (running.length === 1 && contenders.length > 1) {
+    return win(running[0]);
+  }
+  // A warrior battling alone plays until the turn limit
+  if (running.length > 0 && context.turn < context.maxTurns) {
+    return null;
+  }
+
+  const values = measure(contenders);
+  const best = Math.max(...values);
+  const leaders = contenders.filter((_, index) => values[index] === best);
+  return leaders.length === 1 ? win(leaders[0]) : draw(leaders);
+}
+
+/**
+ * The side with the most processes still running wins
+ */
+export class MostProcessesRule implements VictoryRule {
+  public readonly name = 'most-processes';
+
+  public judge(context: VictoryContext): VictoryDecision | null {
+    return judgeByMeasure(context, contenders => contenders.map(contender =>
+      contender.processes.filter(id => isAlive(context, id)).length
+    ));
+  }
+}
+
+/**
+ * The side whose processes own the most memory cells wins
+ */
+export class TerritoryRule implements VictoryRule {
+  public readonly name = 'territory';
+
+  public judge(context: VictoryContext): VictoryDecision | null {
+    return judgeByMeasure(context, contenders => {
+      const cellsByProcess = new Map<ProcessId, number>();
+      for (const owner of context.getMemoryOwners()) {
+        if (owner !== 0) {
+          cellsByProcess.set(owner, (cellsByProcess.get(owner) ?? 0) + 1);
+        }
+      }
+      return contenders.map(contender =>
+        contender.processes.reduce((cells, id) => cells + (cellsByProcess.get(id) ?? 0), 0)
+      );
+    });
+  }
+}
+
+/**
+ * The side whose processes executed the most cycles wins
+ */
+export class CyclesExecutedRule implements VictoryRule {
+  public readonly name = 'cycles';
+
+  public judge(context: VictoryContext): VictoryDecision | null {
+    return judgeByMeasure(context, contenders => contenders.map(contender => totalScore(context, contender)));
+  }
+}
+
+export const VICTORY_RULES = ['last-survivor', 'most-processes', 'territory', 'cycles'] as const;
+export type VictoryRuleName = typeof VICTORY_RULES[number];
+
+/**
+ * Create a rule by name, e.g. from a command line option
+ */
+export function createVictoryRule(name: string): VictoryRule {
+  switch (name) {
+    case 'last-survivor':
+      return new LastSurvivorRule();
+    case 'most-processes':
+      return new MostProcessesRule();
+    case 'territory':
+      return new TerritoryRule();
+    case 'cycles':
+      return new CyclesExecutedRule();
+    default:
+      throw new Error(`Unknown victory rule: ${name} (expected one of ${VICTORY_RULES.join(', ')})`);
+  }
+}
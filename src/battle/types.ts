@@ -1,4 +1,5 @@
 import { MemorySegment } from '../parser/CodeGenerator.js';
+import { Logger } from './Logger.js';
 
 export enum ProcessState {
   Ready = 'Ready',
@@ -27,6 +28,8 @@ export interface Process {
   id: number;
   name: string;
   owner: string;
+  warrior: WarriorId;   // The bot this process belongs to; spl children share it
+  team: string | null;  // Warriors of a team fight together; null fights alone
   context: ProcessContext;
   priority: number;
   quantum: number;
@@ -34,6 +37,8 @@ export interface Process {
   memoryUsed: number;
   createdAt: number;
   lastRun: number;
+  lastTick: number;  // Scheduler tick on which it last ran or terminated, to break ties between replays alike
+  entryPoint: number; // Where it started, and where reset() restarts it
 }
 
 export interface SchedulerStats {
@@ -60,9 +65,32 @@ export interface ResourceLimits {
 
 export type ProcessId = number;
 
+// A warrior (a loaded bot) is identified by the ID of its first process
+export type WarriorId = ProcessId;
+
+/**
+ * Everything needed to recreate a process elsewhere, e.g. in a worker thread
+ */
+export interface ProcessSnapshot {
+  id: ProcessId;
+  name: string;
+  owner: string;
+  warrior: WarriorId;
+  team: string | null;
+  priority: number;
+  quantum: number;
+  cyclesUsed: number;
+  state: ProcessState;
+  registers: ProcessContext['registers'];
+  memory: MemorySegment[];
+  entryPoint: number;
+}
+
 export interface ProcessCreateOptions {
   name: string;
   owner: string;
+  warrior?: WarriorId;   // Warrior to join, e.g. for spl children (default: a new warrior)
+  team?: string | null;  // Team of a new warrior (default: none)
   priority?: number;
   quantum?: number;
   memorySegments: MemorySegment[];
@@ -70,9 +98,22 @@ export interface ProcessCreateOptions {
   resourceLimits?: ResourceLimits;
 }
 
+/**
+ * How processes share the CPU:
+ * - round-robin: ready processes of the highest priority take turns, one quantum each
+ * - priority: the highest priority ready process runs
+ * - warrior-queues: warriors take turns, one instruction each, running their
+ *   processes from a FIFO queue as in Core War
+ */
+export const SCHEDULING_MODES = ['round-robin', 'priority', 'warrior-queues'] as const;
+export type SchedulingMode = typeof SCHEDULING_MODES[number];
+
 export interface SchedulerOptions {
   defaultQuantum: number;
   defaultPriority: number;
   maxProcesses: number;
   roundRobin?: boolean;  // Added to control the scheduling algorithm
+  mode?: SchedulingMode; // Overrides roundRobin when set
+  maxProcessesPerWarrior?: number; // Live processes a warrior may have, spl children included (default: no limit)
+  logger?: Logger;       // Scheduler logging; defaults to the shared default logger
 }
\ No newline at end of file
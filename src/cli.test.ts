@@ -0,0 +1,233 @@
+import { runCli, ExitCode, CliOutput } from './cli.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('CLI', () => {
+  const bots = path.join(process.cwd(), 'bots');
+  let tmp: string;
+  let out: string[];
+  let err: string[];
+  let output: CliOutput;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'asm-bots-cli-'));
+    out = [];
+    err = [];
+    output = { out: text => out.push(text), err: text => err.push(text) };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  const write = (name: string, content: string) => {
+    const file = path.join(tmp, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  describe('usage', () => {
+    it('prints help and rejects unknown commands and options', async () => {
+      expect(await runCli(['--help'], output)).toBe(ExitCode.Success);
+      expect(out[0]).toContain('Usage: asm-bots');
+
+      expect(await runCli(['fight'], output)).toBe(ExitCode.Usage);
+      expect(err[0]).toContain('Unknown command: fight');
+
+      expect(await runCli(['battle', '--bogus'], output)).toBe(ExitCode.Usage);
+      expect(await runCli([], output)).toBe(ExitCode.Usage);
+    });
+  });
+
+  describe('assemble', () => {
+    it('prints a listing', async () => {
+      const file = write('bot.asm', 'start:\n  mov r0, 1\n  jmp start');
+
+      expect(await runCli(['assemble', file], output)).toBe(ExitCode.Success);
+      expect(out[0].split('\n')).toHaveLength(2);
+      expect(out[0]).toContain('jmp start');
+    });
+
+    it('writes a binary image and JSON', async () => {
+      const file = write('bot.asm', 'halt');
+      const image = path.join(tmp, 'bot.bin');
+
+      expect(await runCli(['assemble', file, '--binary', '-o', image, '--json'], output)).toBe(ExitCode.Success);
+      expect(Array.from(fs.readFileSync(image))).toEqual([0xFF]);
+      expect(JSON.parse(out[0])).toMatchObject({ entryPoint: 0, segments: [{ name: 'code', bytes: [0xFF] }] });
+    });
+
+    it('reports assembly errors with exit code 1', async () => {
+      const file = write('bad.asm', 'nop\nfrobnicate r0');
+
+      expect(await runCli(['assemble', file], output)).toBe(ExitCode.Error);
+      expect(err[0]).toMatch(/^bad\.asm:2: /);
+    });
+
+    it('requires an output file for --binary', async () => {
+      expect(await runCli(['assemble', write('bot.asm', 'halt'), '--binary'], output)).toBe(ExitCode.Usage);
+    });
+  });
+
+  describe('battle', () => {
+    const args = ['--seed', '7', '--max-turns', '5', '--max-cycles', '20', '--core-size', '0x1000'];
+
+    it('reports the winner as JSON and replays from the seed', async () => {
+      const files = [path.join(bots, 'simplest.asm'), path.join(bots, 'infinite_loop.asm')];
+
+      expect(await runCli(['battle', ...files, ...args, '--json'], output)).toBe(ExitCode.Success);
+      const first = JSON.parse(out[0]);
+      expect(first.seed).toBe(7);
+      expect(first.bots.map((bot: { name: string }) => bot.name)).toEqual(['simplest', 'infinite_loop']);
+      expect(first.winner).toBe(1);
+
+      await runCli(['battle', ...files, ...args, '--json'], output);
+      expect(JSON.parse(out[1])).toEqual(first);
+
+      await runCli(['battle', ...files, ...args, '--json', '--fast'], output);
+      expect(JSON.parse(out[2])).toEqual(first);
+    });
+
+    it('plays to the turn limit, where the survivor with the higher score wins', async () => {
+      const files = [path.join(bots, 'vampire.asm'), path.join(bots, 'simple_hunter.asm')];
+
+      expect(await runCli(['battle', ...files, '--seed', '1', '--max-turns', '600', '--json'], output)).toBe(ExitCode.Success);
+      const result = JSON.parse(out[0]);
+      expect(result.cycles).toBe(600);
+      expect(result.winner).toBe(0);
+      expect(result.bots[0].score).toBeGreaterThan(result.bots[1].score);
+    });
+
+    it('selects the victory rule, which can call a draw', async () => {
+      const loop = path.join(bots, 'infinite_loop.asm');
+
+      expect(await runCli(['battle', loop, loop, ...args, '--victory', 'cycles'], output)).toBe(ExitCode.Draw);
+      expect(out).toContain('Draw');
+      expect(await runCli(['battle', loop, loop, ...args, '--victory', 'bogus'], output)).toBe(ExitCode.Usage);
+    });
+
+    it('runs team battles', async () => {
+      const loop = path.join(bots, 'infinite_loop.asm');
+      const files = [loop, path.join(bots, 'simplest.asm'), loop, path.join(bots, 'simplest.asm')];
+
+      expect(await runCli(['battle', ...files, ...args, '--teams', 'a,b,a,b', '--json'], output)).toBe(ExitCode.Success);
+      const summary = JSON.parse(out[0]);
+      expect(summary).toMatchObject({ winner: 0, winningTeam: 'a' });
+      expect(summary.bots.map((bot: { team: string }) => bot.team)).toEqual(['a', 'b', 'a', 'b']);
+
+      expect(await runCli(['battle', ...files, '--teams', 'a,b'], output)).toBe(ExitCode.Usage);
+      expect(await runCli(['battle', ...files, '--teams', 'a,a,a,a'], output)).toBe(ExitCode.Usage);
+    });
+
+    it('gives each warrior its own process queue', async () => {
+      const splitter = write('splitter.asm', 'start:\n  spl start\n  jmp start');
+      const loop = path.join(bots, 'infinite_loop.asm');
+      const battle = async (...options: string[]) => {
+        out = [];
+        await runCli(['battle', splitter, loop, ...args, '--json', ...options], output);
+        return JSON.parse(out[0]).bots.map((bot: { score: number }) => bot.score);
+      };
+
+      const [shared, alone] = await battle();
+      expect(shared).toBeGreaterThan(alone * 2);
+
+      const [queued, opponent] = await battle('--scheduling', 'warrior-queues', '--max-processes', '8');
+      expect(Math.abs(queued - opponent)).toBeLessThanOrEqual(1);
+
+      expect(await runCli(['battle', splitter, loop, '--scheduling', 'fifo'], output)).toBe(ExitCode.Usage);
+    });
+
+    it('writes a core dump that disasm decodes', async () => {
+      const files = [path.join(bots, 'simplest.asm'), path.join(bots, 'infinite_loop.asm')];
+      const dump = path.join(tmp, 'core.bin');
+
+      await runCli(['battle', ...files, ...args, '--dump', dump], output);
+      expect(fs.statSync(dump).size).toBe(0x1000);
+
+      out = [];
+      const halt = fs.readFileSync(dump).indexOf(0xFF);
+      expect(await runCli(['disasm', dump, '--start', String(halt), '--length', '1', '--json'], output)).toBe(ExitCode.Success);
+      expect(JSON.parse(out[0])[0]).toMatchObject({ address: halt, mnemonic: 'halt' });
+    });
+
+    it('runs Redcode warriors and exits with 3 on a draw', async () => {
+      const imp = write('imp.red', ';name Imp\nmov.i $0, $1');
+      const loop = write('loop.red', 'jmp 0');
+
+      expect(await runCli(['battle', imp, loop, '--seed', '1', '--max-cycles', '100'], output)).toBe(ExitCode.Draw);
+      expect(out).toContain('Draw');
+    });
+
+    it('rejects mixed bot kinds and missing files', async () => {
+      const red = write('imp.red', 'mov.i $0, $1');
+
+      expect(await runCli(['battle', red, path.join(bots, 'simplest.asm')], output)).toBe(ExitCode.Usage);
+      expect(await runCli(['battle', red, path.join(tmp, 'missing.red')], output)).toBe(ExitCode.Error);
+      expect(err[err.length - 1]).toContain('File not found');
+    });
+  });
+
+  describe('match', () => {
+    it('plays rounds and reports standings with confidence intervals', async () => {
+      const files = [path.join(bots, 'infinite_loop.asm'), write('quitter.asm', 'halt')];
+
+      expect(await runCli(['match', ...files, '--seed', '4', '--rounds', '3', '--max-turns', '20', '--json'], output))
+        .toBe(ExitCode.Success);
+
+      const { seed, rounds, standings } = JSON.parse(out[0]);
+      expect(seed).toBe(4);
+      expect(rounds).toHaveLength(3);
+      expect(standings.map((s: { name: string; wins: number; losses: number; score: number }) =>
+        [s.name, s.wins, s.losses, s.score])).toEqual([['infinite_loop', 3, 0, 9], ['quitter', 0, 3, 0]]);
+      expect(standings[0].confidence).toEqual([3, 3]);
+
+      out = [];
+      expect(await runCli(['match', ...files, '--seed', '4', '--rounds', '3', '--max-turns', '20'], output))
+        .toBe(ExitCode.Success);
+      expect(out[0]).toBe('Seed: 4, 3 rounds');
+      expect(out[2]).toMatch(/^infinite_loop\s+3\s+0\s+0\s+9\s+3\.00\s+3\.00-3\.00$/);
+    });
+
+    it('plays each round as the battle command replays it from the round seed', async () => {
+      // With the default options, which both commands share
+      const files = [path.join(bots, 'vampire.asm'), path.join(bots, 'simple_hunter.asm')];
+
+      await runCli(['match', ...files, '--seed', '7', '--rounds', '3', '--json'], output);
+      const { rounds } = JSON.parse(out[0]);
+
+      for (const [index, round] of rounds.entries()) {
+        await runCli(['battle', ...files, '--seed', String(round.seed), '--json'], output);
+        const battle = JSON.parse(out[index + 1]);
+        expect(battle.cycles).toBe(round.turns);
+        expect(files.map((_, bot) => battle.winner === null ? 'tie' : bot === battle.winner ? 'win' : 'loss'))
+          .toEqual(round.results);
+      }
+    });
+
+    it('rejects Redcode warriors and bad round counts', async () => {
+      const asm = path.join(bots, 'infinite_loop.asm');
+
+      expect(await runCli(['match', asm, write('imp.red', 'mov.i $0, $1')], output)).toBe(ExitCode.Usage);
+      expect(err[0]).toMatch(/match only supports assembly bots/);
+      expect(await runCli(['match', asm, asm, '--rounds', '0'], output)).toBe(ExitCode.Usage);
+      expect(err[1]).toMatch(/Invalid --rounds: 0/);
+    });
+  });
+
+  describe('tournament', () => {
+    it('plays every pair and ranks by points', async () => {
+      const files = ['imp', 'dat', 'loop'].map((name, index) =>
+        write(`${name}.red`, ['mov.i $0, $1', 'dat 0', 'jmp 0'][index]));
+
+      expect(await runCli(['tournament', ...files, '--seed', '3', '--rounds', '2', '--max-cycles', '50', '--json'], output))
+        .toBe(ExitCode.Success);
+
+      const { standings, battles } = JSON.parse(out[0]);
+      expect(battles).toHaveLength(6);
+      expect(standings.map((s: { name: string; points: number }) => [s.name, s.points])).toEqual([
+        ['imp', 8], ['loop', 8], ['dat', 0]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,572 @@
+#!/usr/bin/env node
+/**
+ * ASM-Bots Command-Line Interface
+ * Assembles bots, runs battles, matches and round-robin tournaments, and
+ * disassembles core dumps. Every command can print JSON for scripting.
+ */
+
+import { BattleRunner } from './battle/BattleRunner.js';
+import { BattleOptions } from './battle/BattleController.js';
+import { BattleJobOptions } from './battle/BattleJob.js';
+import { BattlePool } from './battle/BattlePool.js';
+import { ConsoleSink, EngineLogger, LogLevel } from './battle/Logger.js';
+import { DEFAULT_MATCH_ROUNDS, Match, MatchResult } from './battle/Match.js';
+import { RedcodeBattle } from './battle/RedcodeBattle.js';
+import { SeededRandom } from './battle/SeededRandom.js';
+import { SCHEDULING_MODES, SchedulingMode } from './battle/types.js';
+import { VICTORY_RULES, VictoryRuleName, createVictoryRule } from './battle/Victory.js';
+import { CellWidth } from './memory/MemorySystem.js';
+import { AssemblyParser } from './parser/AssemblyParser.js';
+import { CodeGenerator, GeneratedCode } from './parser/CodeGenerator.js';
+import { Disassembler } from './parser/Disassembler.js';
+import { formatListing } from './parser/Listing.js';
+import { RedcodeParser } from './parser/RedcodeParser.js';
+import { FileSystemResolver } from './parser/SourceResolver.js';
+import { RedcodeWarrior } from './parser/types.js';
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+
+/**
+ * Process exit codes
+ */
+export enum ExitCode {
+  Success = 0,  // Command succeeded; for battles, a bot won
+  Error = 1,    // Assembly errors, unreadable files or engine failures
+  Usage = 2,    // Unknown command or invalid arguments
+  Draw = 3      // The battle ended without a winner
+}
+
+/**
+ * Where the CLI writes; tests capture it instead of using the console
+ */
+export interface CliOutput {
+  out(text: string): void;
+  err(text: string): void;
+}
+
+/**
+ * Outcome of one battle, for either core
+ */
+export interface BattleSummary {
+  seed: number;
+  cycles: number;          // Turns for assembly bots, cycles for Redcode warriors
+  winner: number | null;   // Index into bots, or null for a draw; for a team, its first bot
+  winningTeam?: string | null;  // Team battles only
+  bots: Array<{ file: string; name: string; score: number; team?: string }>;
+}
+
+/**
+ * A bot's line in the tournament table (3 points per win, 1 per draw)
+ */
+export interface Standing {
+  file: string;
+  name: string;
+  wins: number;
+  losses: number;
+  draws: number;
+  points: number;
+}
+
+// Thrown for bad arguments, reported with the usage text
+class UsageError extends Error {}
+
+const consoleOutput: CliOutput = {
+  out: text => process.stdout.write(`${text}\n`),
+  err: text => process.stderr.write(`${text}\n`)
+};
+
+const USAGE = `Usage: asm-bots <command> [options]
+
+Commands:
+  assemble <bot.asm>         Print a listing of the assembled bot
+    --binary -o <file>       Write the flat binary image instead
+  battle <bot>...            Run one battle (.asm bots, or .red Redcode warriors)
+    --seed <n>               Seed for placement and scheduling
+    --core-size <n>          Memory size in cells
+    --cell-width <8|16>      Bits per memory cell (.asm only)
+    --max-turns <n>          Turn limit (.asm only)
+    --max-cycles <n>         Cycles per turn (.asm) or cycle limit (.red)
+    --dump <file>            Write the final core to a file (.asm only)
+    --fast                   Fast mode: cached decoding, no execution log (.asm only)
+    --victory <rule>         last-survivor (default), most-processes, territory or cycles (.asm only)
+    --teams <a,b,...>        Team of each bot, e.g. a,a,b,b for 2v2 (.asm only)
+    --scheduling <mode>      round-robin (default), priority or warrior-queues (.asm only)
+    --max-processes <n>      Processes each bot may run, spl children included (.asm only)
+  match <bot.asm>...         Play rounds between the same bots with varied seeds and placements
+    --rounds <n>             Rounds to play (default ${DEFAULT_MATCH_ROUNDS})
+    --parallel <n>           Worker threads to play rounds on (default: one round at a time)
+    (and the battle options above, except --dump and --fast; always in fast mode)
+  tournament <bot>...        Round-robin: every pair of bots battles
+    --rounds <n>             Battles per pair (default 1)
+    (and the battle options above, except --dump and --teams; always in fast mode)
+  disasm <dump>              Disassemble a core dump
+    --base <n>               Address of the dump's first byte (default 0)
+    --start <n>              First address to decode (default: base)
+    --length <n>             Bytes to decode (default: to the end)
+
+Options for all commands:
+  --json                     Print results as JSON
+  -v, --verbose              Show battle progress on stderr (warnings are always shown)
+
+Exit codes: 0 success or a winner, 1 error, 2 usage, 3 draw`;
+
+const OPTIONS = {
+  json: { type: 'boolean' },
+  verbose: { type: 'boolean', short: 'v' },
+  help: { type: 'boolean', short: 'h' },
+  binary: { type: 'boolean' },
+  output: { type: 'string', short: 'o' },
+  seed: { type: 'string' },
+  'core-size': { type: 'string' },
+  'cell-width': { type: 'string' },
+  'max-turns': { type: 'string' },
+  'max-cycles': { type: 'string' },
+  dump: { type: 'string' },
+  fast: { type: 'boolean' },
+  victory: { type: 'string' },
+  teams: { type: 'string' },
+  scheduling: { type: 'string' },
+  'max-processes': { type: 'string' },
+  rounds: { type: 'string' },
+  parallel: { type: 'string' },
+  base: { type: 'string' },
+  start: { type: 'string' },
+  length: { type: 'string' }
+} as const;
+
+type Flags = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+/**
+ * Run the CLI
+ * @param args Arguments after the program name, e.g. ['battle', 'a.asm', 'b.asm']
+ * @param output Where to write results and errors
+ * @returns Exit code
+ */
+export async function runCli(args: string[], output: CliOutput = consoleOutput): Promise<ExitCode> {
+  let flags: Flags;
+  let positionals: string[];
+  try {
+    ({ values: flags, positionals } = parseArgs({ args, options: OPTIONS, allowPositionals: true, strict: true }));
+  } catch (error) {
+    output.err(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    return ExitCode.Usage;
+  }
+
+  const [command, ...files] = positionals;
+  if (flags.help || command === undefined || command === 'help') {
+    output.out(USAGE);
+    return command === undefined && !flags.help ? ExitCode.Usage : ExitCode.Success;
+  }
+
+  try {
+    switch (command) {
+      case 'assemble': return assemble(files, flags, output);
+      case 'battle': return await battle(files, flags, output);
+      case 'match': return await match(files, flags, output);
+      case 'tournament': return await tournament(files, flags, output);
+      case 'disasm': return disasm(files, flags, output);
+      default: throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      output.err(`${error.message}\n\n${USAGE}`);
+      return ExitCode.Usage;
+    }
+    output.err(`Error: ${error instanceof Error ? error.message : error}`);
+    return ExitCode.Error;
+  }
+}
+
+function assemble(files: string[], flags: Flags, output: CliOutput): ExitCode {
+  if (files.length !== 1) {
+    throw new UsageError('assemble takes exactly one bot file');
+  }
+  if (flags.binary && !flags.output) {
+    throw new UsageError('--binary requires -o <file>');
+  }
+
+  const file = files[0];
+  const source = readFile(file);
+  const resolver = new FileSystemResolver(path.dirname(file));
+  const result = new AssemblyParser(resolver).parse(source, path.basename(file));
+  if (result.errors.length > 0) {
+    for (const error of result.errors) {
+      output.err(`${error.file ?? path.basename(file)}:${error.line}: ${error.message}`);
+    }
+    return ExitCode.Error;
+  }
+
+  const generator = new CodeGenerator();
+  const code = generator.layout(generator.encode(result.tokens, result.symbols), result.symbols);
+  const entries = generator.getListing();
+
+  if (flags.binary) {
+    fs.writeFileSync(flags.output!, flatImage(code));
+  }
+
+  if (flags.json) {
+    output.out(JSON.stringify({
+      file,
+      entryPoint: code.entryPoint,
+      segments: code.segments.map(segment => ({
+        name: segment.name,
+        start: segment.start,
+        size: segment.size,
+        bytes: Array.from(segment.data)
+      })),
+      symbols: result.symbols,
+      listing: entries
+    }, null, 2));
+  } else if (!flags.binary) {
+    // Included files are read on demand, relative to the bot's directory
+    const sources: { [file: string]: string } = { '': source, [path.basename(file)]: source };
+    for (const entry of entries) {
+      if (entry.file && !(entry.file in sources)) {
+        try {
+          sources[entry.file] = resolver.read(entry.file);
+        } catch {
+          sources[entry.file] = '';
+        }
+      }
+    }
+    output.out(formatListing(entries, sources));
+  }
+  return ExitCode.Success;
+}
+
+async function battle(files: string[], flags: Flags, output: CliOutput): Promise<ExitCode> {
+  if (files.length < 2) {
+    throw new UsageError('battle needs at least two bot files');
+  }
+
+  const summary = await runBattle(files, flags, output, flags.dump);
+  if (flags.json) {
+    output.out(JSON.stringify(summary, null, 2));
+  } else {
+    output.out(`Seed: ${summary.seed}`);
+    output.out(`Cycles: ${summary.cycles}`);
+    for (const bot of summary.bots) {
+      output.out(`  ${bot.name.padEnd(24)} ${bot.score}`);
+    }
+    if (summary.winningTeam) {
+      output.out(`Winner: team ${summary.winningTeam}`);
+    } else {
+      output.out(summary.winner !== null ? `Winner: ${summary.bots[summary.winner].name}` : 'Draw');
+    }
+  }
+  return summary.winner !== null ? ExitCode.Success : ExitCode.Draw;
+}
+
+async function match(files: string[], flags: Flags, output: CliOutput): Promise<ExitCode> {
+  if (files.length < 2) {
+    throw new UsageError('match needs at least two bot files');
+  }
+  if (flags.dump) {
+    throw new UsageError('--dump is only supported by battle');
+  }
+  if (files.some(file => path.extname(file).toLowerCase() === '.red')) {
+    throw new UsageError('match only supports assembly bots (.asm)');
+  }
+
+  const rounds = parseNumber(flags.rounds, 'rounds', DEFAULT_MATCH_ROUNDS);
+  if (rounds < 1) {
+    throw new UsageError(`Invalid --rounds: ${flags.rounds}`);
+  }
+  const parallel = parseNumber(flags.parallel, 'parallel', 0);
+  // The seed is the match's; each round gets its own from it
+  const { seed, ...options } = parseAssemblyOptions(flags);
+  const victory = parseVictory(flags);
+  const teams = flags.teams !== undefined ? parseTeams(flags.teams, files.length) : null;
+  const bots = files.map((file, index) => ({
+    name: botName(file),
+    code: readFile(file),
+    owner: `Player ${index + 1}`,
+    ...(teams ? { team: teams[index] } : {})
+  }));
+
+  const pool = parallel > 0 ? new BattlePool({ size: parallel }) : null;
+  let result: MatchResult;
+  try {
+    result = await new Match(bots, { rounds, seed, options, victory, pool: pool ?? undefined }).run(round => {
+      if (flags.verbose) {
+        output.err(`Round ${round.round + 1}/${rounds}: ${round.results.join(', ')} (seed ${round.seed})`);
+      }
+    });
+  } finally {
+    await pool?.close();
+  }
+
+  if (flags.json) {
+    output.out(JSON.stringify(result, null, 2));
+  } else {
+    output.out(`Seed: ${result.seed}, ${rounds} rounds`);
+    output.out(`${'Bot'.padEnd(24)}   W   L   T  Score   Avg  95% CI`);
+    for (const s of result.standings) {
+      const columns = [s.wins, s.losses, s.ties].map(n => String(n).padStart(3)).join(' ');
+      const [low, high] = s.confidence;
+      output.out(`${s.name.padEnd(24)} ${columns} ${String(s.score).padStart(6)} ${s.averageScore.toFixed(2).padStart(5)}  ` +
+        `${low.toFixed(2)}-${high.toFixed(2)}`);
+    }
+  }
+  return ExitCode.Success;
+}
+
+async function tournament(files: string[], flags: Flags, output: CliOutput): Promise<ExitCode> {
+  if (files.length < 2) {
+    throw new UsageError('tournament needs at least two bot files');
+  }
+  if (flags.dump || flags.teams) {
+    throw new UsageError(`--${flags.dump ? 'dump' : 'teams'} is only supported by battle`);
+  }
+
+  const rounds = parseNumber(flags.rounds, 'rounds', 1);
+  const seed = parseNumber(flags.seed, 'seed', SeededRandom.generateSeed());
+  const standings: Standing[] = files.map(file => ({
+    file, name: botName(file), wins: 0, losses: 0, draws: 0, points: 0
+  }));
+  const battles: Array<BattleSummary & { pair: [number, number] }> = [];
+
+  // Each battle gets its own seed, derived from the tournament seed, so any one can be replayed
+  let battleSeed = seed;
+  for (let i = 0; i < files.length; i++) {
+    for (let j = i + 1; j < files.length; j++) {
+      for (let round = 0; round < rounds; round++) {
+        const summary = await runBattle([files[i], files[j]], { ...flags, fast: true, seed: String(battleSeed++ >>> 0) }, output);
+        battles.push({ ...summary, pair: [i, j] });
+
+        if (summary.winner === null) {
+          standings[i].draws++;
+          standings[j].draws++;
+        } else {
+          const [winner, loser] = summary.winner === 0 ? [i, j] : [j, i];
+          standings[winner].wins++;
+          standings[loser].losses++;
+        }
+      }
+    }
+  }
+
+  for (const standing of standings) {
+    standing.points = standing.wins * 3 + standing.draws;
+  }
+  standings.sort((a, b) => b.points - a.points || b.wins - a.wins);
+
+  if (flags.json) {
+    output.out(JSON.stringify({ seed, rounds, standings, battles }, null, 2));
+  } else {
+    output.out(`Seed: ${seed}, ${battles.length} battles`);
+    output.out(`${'Bot'.padEnd(24)}   W   L   D  Pts`);
+    for (const s of standings) {
+      const columns = [s.wins, s.losses, s.draws, s.points].map(n => String(n).padStart(3)).join(' ');
+      output.out(`${s.name.padEnd(24)} ${columns}`);
+    }
+  }
+  return ExitCode.Success;
+}
+
+function disasm(files: string[], flags: Flags, output: CliOutput): ExitCode {
+  if (files.length !== 1) {
+    throw new UsageError('disasm takes exactly one core dump');
+  }
+
+  const dump = fs.readFileSync(files[0]);
+  const base = parseNumber(flags.base, 'base', 0);
+  const start = parseNumber(flags.start, 'start', base);
+  const length = parseNumber(flags.length, 'length', base + dump.length - start);
+  if (start < base || start + length > base + dump.length) {
+    throw new UsageError(`Range 0x${start.toString(16)}+${length} is outside the dump`);
+  }
+
+  const disassembler = new Disassembler();
+  const instructions = disassembler.disassemble(dump.subarray(start - base, start - base + length), start);
+  if (flags.json) {
+    output.out(JSON.stringify(instructions, null, 2));
+  } else {
+    output.out(disassembler.format(instructions));
+  }
+  return ExitCode.Success;
+}
+
+/**
+ * Run one battle between bot files: assembly bots through BattleRunner, or
+ * Redcode warriors (.red) on the cell-based core
+ */
+async function runBattle(files: string[], flags: Flags, output: CliOutput, dumpFile?: string): Promise<BattleSummary> {
+  const redcode = files.filter(file => path.extname(file).toLowerCase() === '.red').length;
+  if (redcode > 0 && redcode < files.length) {
+    throw new UsageError('Redcode warriors (.red) cannot battle assembly bots');
+  }
+  for (const file of files) {
+    readFile(file);
+  }
+
+  return redcode > 0
+    ? runRedcodeBattle(files, flags, dumpFile)
+    : runAssemblyBattle(files, flags, output, dumpFile);
+}
+
+async function runAssemblyBattle(files: string[], flags: Flags, output: CliOutput, dumpFile?: string): Promise<BattleSummary> {
+  // Engine messages go to stderr so stdout stays machine-readable
+  const victory = parseVictory(flags);
+  const options: Partial<BattleOptions> = {
+    ...parseAssemblyOptions(flags),
+    logger: new EngineLogger({
+      level: flags.verbose ? LogLevel.Info : LogLevel.Warn,
+      sinks: [new ConsoleSink(line => output.err(line))]
+    }),
+    fastMode: flags.fast,
+    victory: victory !== undefined ? createVictoryRule(victory) : undefined
+  };
+
+  const teams = flags.teams !== undefined ? parseTeams(flags.teams, files.length) : null;
+
+  const runner = new BattleRunner(options);
+  files.forEach((file, index) => runner.addBot(file, `Player ${index + 1}`, teams?.[index]));
+  const results = await runner.runBattle();
+
+  // Bots are loaded in order, so warrior i is bot i; its score includes its spl children
+  const warriors = runner.getBattleSystem().getBattleController().getWarriorInfo();
+  const winner = warriors.findIndex(warrior => warrior.id === results.winner);
+
+  if (dumpFile) {
+    const memory = runner.getBattleSystem().getMemorySystem().getMemory();
+    // Code is loaded one byte per cell, so the dump keeps the low byte of each cell
+    fs.writeFileSync(dumpFile, Uint8Array.from(memory, cell => cell & 0xFF));
+  }
+
+  return {
+    seed: results.seed,
+    cycles: results.turns,
+    winner: winner !== -1 ? winner : null,
+    ...(teams ? { winningTeam: results.winningTeam } : {}),
+    bots: files.map((file, index) => ({
+      file,
+      name: botName(file),
+      score: warriors[index].score,
+      ...(teams ? { team: teams[index] } : {})
+    }))
+  };
+}
+
+function parseTeams(value: string, bots: number): string[] {
+  const teams = value.split(',').map(team => team.trim());
+  if (teams.length !== bots || teams.some(team => team === '')) {
+    throw new UsageError(`--teams needs one team for each of the ${bots} bots`);
+  }
+  if (new Set(teams).size < 2) {
+    throw new UsageError('--teams needs at least two teams');
+  }
+  return teams;
+}
+
+/**
+ * Battle options for assembly bots from the flags
+ */
+function parseAssemblyOptions(flags: Flags): BattleJobOptions {
+  const options: BattleJobOptions = {};
+  if (flags.scheduling !== undefined) {
+    if (!(SCHEDULING_MODES as readonly string[]).includes(flags.scheduling)) {
+      throw new UsageError(`Invalid scheduling mode: ${flags.scheduling}`);
+    }
+    options.scheduling = flags.scheduling as SchedulingMode;
+  }
+  if (flags['max-processes'] !== undefined) {
+    options.maxProcessesPerWarrior = parseNumber(flags['max-processes'], 'max-processes');
+  }
+  if (flags.seed !== undefined) options.seed = parseNumber(flags.seed, 'seed');
+  if (flags['core-size'] !== undefined) options.memorySize = parseNumber(flags['core-size'], 'core-size');
+  if (flags['max-turns'] !== undefined) options.maxTurns = parseNumber(flags['max-turns'], 'max-turns');
+  if (flags['max-cycles'] !== undefined) options.maxCyclesPerTurn = parseNumber(flags['max-cycles'], 'max-cycles');
+  if (flags['cell-width'] !== undefined) {
+    const width = parseNumber(flags['cell-width'], 'cell-width');
+    if (width !== 8 && width !== 16) {
+      throw new UsageError(`Invalid cell width: ${width}`);
+    }
+    options.cellWidth = width as CellWidth;
+  }
+  return options;
+}
+
+function parseVictory(flags: Flags): VictoryRuleName | undefined {
+  if (flags.victory !== undefined && !(VICTORY_RULES as readonly string[]).includes(flags.victory)) {
+    throw new UsageError(`Invalid victory rule: ${flags.victory}`);
+  }
+  return flags.victory as VictoryRuleName | undefined;
+}
+
+function runRedcodeBattle(files: string[], flags: Flags, dumpFile?: string): BattleSummary {
+  if (dumpFile) {
+    throw new UsageError('--dump is not supported for Redcode warriors');
+  }
+
+  const mars = new RedcodeBattle({
+    seed: flags.seed !== undefined ? parseNumber(flags.seed, 'seed') : undefined,
+    coreSize: flags['core-size'] !== undefined ? parseNumber(flags['core-size'], 'core-size') : undefined,
+    maxCycles: flags['max-cycles'] !== undefined ? parseNumber(flags['max-cycles'], 'max-cycles') : undefined
+  });
+  for (const file of files) {
+    mars.addWarrior(parseWarrior(file), botName(file));
+  }
+
+  const results = mars.run();
+  return {
+    seed: results.seed,
+    cycles: results.cycles,
+    winner: results.winner,
+    bots: results.warriors.map((warrior, index) => ({ file: files[index], name: warrior.name, score: warrior.processes }))
+  };
+}
+
+function parseWarrior(file: string): RedcodeWarrior {
+  const result = new RedcodeParser().parse(readFile(file));
+  if (result.errors.length > 0) {
+    throw new Error(`Parse errors in ${file}: ${result.errors.map(e => `Line ${e.line}: ${e.message}`).join(', ')}`);
+  }
+  return result.warrior;
+}
+
+/**
+ * Lay the segments out as one image starting at address 0, gaps zero-filled
+ */
+function flatImage(code: GeneratedCode): Uint8Array {
+  const size = Math.max(0, ...code.segments.map(segment => segment.start + segment.size));
+  const image = new Uint8Array(size);
+  for (const segment of code.segments) {
+    image.set(segment.data.subarray(0, segment.size), segment.start);
+  }
+  return image;
+}
+
+function readFile(file: string): string {
+  if (!fs.existsSync(file)) {
+    throw new Error(`File not found: ${file}`);
+  }
+  return fs.readFileSync(file, 'utf-8');
+}
+
+function botName(file: string): string {
+  return path.basename(file, path.extname(file));
+}
+
+// Decimal or 0x-prefixed hexadecimal
+function parseNumber(value: string | undefined, name: string, fallback?: number): number {
+  if (value === undefined) {
+    if (fallback === undefined) throw new UsageError(`Missing --${name}`);
+    return fallback;
+  }
+  const number = /^0x[0-9a-f]+$/i.test(value) ? parseInt(value, 16) : /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (Number.isNaN(number)) {
+    throw new UsageError(`Invalid --${name}: ${value}`);
+  }
+  return number;
+}
+
+// Run when executed directly (not imported)
+const isMainModule = process.argv[1] !== undefined &&
+  fileURLToPath(import.meta.url).replace(/\.ts$/, '.js') === path.resolve(process.argv[1]).replace(/\.ts$/, '.js');
+
+if (isMainModule) {
+  runCli(process.argv.slice(2)).then(code => process.exit(code));
+}
@@ -174,6 +174,427 @@ describe('ExecutionUnit', () => {
             expect(executor.execute(addInstr)).toBe(true);
             expect(executor.getFlags() & StatusFlag.Overflow).not.toBe(0);
         });
+
+        test('executor.updateFlags() keeps comparisons in the flags register', () => {
+            const registers = { r0: 0x8000, r1: 1, r2: 0, r3: 0, sp: 0xF000, pc: 0, flags: 0 };
+            executor.attach(registers);
+
+            // cmp r0, r1: 0x8000 - 1 overflows, so the result looks positive
+            const cmpInstr: Instruction = {
+                opcode: Opcode.CMP,
+                addressingModeA: AddressingMode.Register,
+                operandA: 0,
+                registerA: 1,
+                addressingModeB: AddressingMode.Register,
+                operandB: 0,
+                registerB: 0
+            };
+
+            expect(executor.execute(cmpInstr)).toBe(true);
+            expect(registers.r0).toBe(0x8000);
+            expect(registers.r1).toBe(1);
+            expect(registers.flags).toBe(StatusFlag.Overflow);
+
+            // cmp r1, r0: 1 - 0x8000 borrows
+            expect(executor.execute({ ...cmpInstr, registerA: 0, registerB: 1 })).toBe(true);
+            expect(registers.flags & StatusFlag.Carry).not.toBe(0);
+        });
+
+        test('executor.branch() compares signed values', () => {
+            const registers = { r0: 0, r1: 0, r2: 0, r3: 0, sp: 0xF000, pc: 0, flags: 0 };
+            executor.attach(registers);
+
+            const jump = (opcode: Opcode): boolean => {
+                registers.pc = 0;
+                executor.execute({
+                    opcode,
+                    addressingModeA: AddressingMode.Immediate,
+                    operandA: 0x0100,
+                    addressingModeB: AddressingMode.Immediate,
+                    operandB: 0
+                });
+                return registers.pc === 0x0100;
+            };
+            const compare = (dest: number, src: number): void => {
+                registers.r0 = dest;
+                executor.execute({
+                    opcode: Opcode.CMP,
+                    addressingModeA: AddressingMode.Immediate,
+                    operandA: src,
+                    addressingModeB: AddressingMode.Register,
+                    operandB: 0,
+                    registerB: 0
+                });
+            };
+
+            // -32768 < 1 although the difference does not look negative
+            compare(0x8000, 1);
+            expect([jump(Opcode.JL), jump(Opcode.JLE), jump(Opcode.JG), jump(Opcode.JGE)]).toEqual([true, true, false, false]);
+
+            // 5 > -2
+            compare(5, 0xFFFE);
+            expect([jump(Opcode.JL), jump(Opcode.JLE), jump(Opcode.JG), jump(Opcode.JGE)]).toEqual([false, false, true, true]);
+
+            // 7 == 7
+            compare(7, 7);
+            expect([jump(Opcode.JL), jump(Opcode.JLE), jump(Opcode.JG), jump(Opcode.JGE)]).toEqual([false, true, false, true]);
+            expect([jump(Opcode.JE), jump(Opcode.JNE)]).toEqual([true, false]);
+        });
+    });
+
+    describe('Registers and Stack', () => {
+        test('executor runs against an attached register file', () => {
+            const registers = { r0: 0, r1: 0x0100, r2: 0, r3: 0, sp: 0xF000, pc: 0x0200, flags: 0 };
+            executor.attach(registers);
+
+            // mov [r1+2], 0x1234 stores the low byte in memory
+            const movInstr: Instruction = {
+                opcode: Opcode.MOV,
+                addressingModeA: AddressingMode.Immediate,
+                operandA: 0x1234,
+                addressingModeB: AddressingMode.RegisterIndexed,
+                operandB: 2,
+                registerB: 1
+            };
+
+            expect(executor.execute(movInstr)).toBe(true);
+            expect(memory.read(0x0102)).toBe(0x34);
+            expect(registers.pc).toBe(0x0207); // Advanced past the 7-byte instruction
+
+            // add r0, 0xFFFF is a 16-bit register operation
+            const addInstr: Instruction = {
+                opcode: Opcode.ADD,
+                addressingModeA: AddressingMode.Immediate,
+                operandA: 0xFFFF,
+                addressingModeB: AddressingMode.Register,
+                operandB: 0,
+                registerB: 0
+            };
+
+            expect(executor.execute(addInstr)).toBe(true);
+            expect(registers.r0).toBe(0xFFFF);
+            expect(executor.getFlags() & StatusFlag.Negative).not.toBe(0);
+        });
+
+        test('executor calls and returns through the stack', () => {
+            const registers = { r0: 0, r1: 0, r2: 0, r3: 0, sp: 0xF000, pc: 0x0300, flags: 0 };
+            executor.attach(registers);
+
+            const callInstr: Instruction = {
+                opcode: Opcode.CALL,
+                addressingModeA: AddressingMode.Immediate,
+                operandA: 0x0400,
+                addressingModeB: AddressingMode.Immediate,
+                operandB: 0
+            };
+
+            expect(executor.execute(callInstr)).toBe(true);
+            expect(registers.pc).toBe(0x0400);
+            expect(registers.sp).toBe(0xEFFE);
+            expect(memory.read(0xEFFE) | (memory.read(0xEFFF) << 8)).toBe(0x0304);
+
+            const retInstr: Instruction = {
+                opcode: Opcode.RET,
+                addressingModeA: AddressingMode.Immediate,
+                operandA: 0,
+                addressingModeB: AddressingMode.Immediate,
+                operandB: 0
+            };
+
+            expect(executor.execute(retInstr)).toBe(true);
+            expect(registers.pc).toBe(0x0304);
+            expect(registers.sp).toBe(0xF000);
+        });
+
+        test('executor reports SPL through hooks and stops on DAT', () => {
+            const splits: number[] = [];
+            executor = new ExecutionUnit(memory, { split: address => splits.push(address) });
+            executor.start(0x1000);
+
+            const splInstr: Instruction = {
+                opcode: Opcode.SPL,
+                addressingModeA: AddressingMode.Immediate,
+                operandA: 0x2000,
+                addressingModeB: AddressingMode.Immediate,
+                operandB: 0
+            };
+            const datInstr: Instruction = { ...splInstr, opcode: Opcode.DAT };
+
+            expect(executor.execute(splInstr)).toBe(true);
+            expect(splits).toEqual([0x2000]);
+            expect(executor.execute(datInstr)).toBe(false);
+            expect(executor.getHaltedBy()).toBe(Opcode.DAT);
+        });
+
+        test('executor reads and writes P-space through hooks', () => {
+            const pspace = new Map<number, number>([[3, 0x1234]]);
+            const registers = { r0: 0, r1: 0x55, r2: 0, r3: 0, sp: 0xF000, pc: 0, flags: 0 };
+            executor = new ExecutionUnit(memory, {
+                loadPSpace: slot => pspace.get(slot) ?? 0,
+                storePSpace: (slot, value) => pspace.set(slot, value)
+            });
+            executor.attach(registers);
+
+            // ldp r0, 3
+            const ldpInstr: Instruction = {
+                opcode: Opcode.LDP,
+                addressingModeA: AddressingMode.Immediate,
+                operandA: 3,
+                addressingModeB: AddressingMode.Register,
+                operandB: 0,
+                registerB: 0
+            };
+            // stp 7, r1
+            const stpInstr: Instruction = {
+                opcode: Opcode.STP,
+                addressingModeA: AddressingMode.Register,
+                operandA: 0,
+                registerA: 1,
+                addressingModeB: AddressingMode.Immediate,
+                operandB: 7
+            };
+
+            expect(executor.execute(ldpInstr)).toBe(true);
+            expect(registers.r0).toBe(0x1234);
+            expect(executor.execute(stpInstr)).toBe(true);
+            expect(pspace.get(7)).toBe(0x55);
+
+            // Without P-space, ldp loads 0 and sets the zero flag
+            executor = new ExecutionUnit(memory);
+            executor.attach(registers);
+            expect(executor.execute(ldpInstr)).toBe(true);
+            expect(registers.r0).toBe(0);
+            expect(registers.flags & StatusFlag.Zero).not.toBe(0);
+        });
+
+        test('executor rejects immediate destinations', () => {
+            const incInstr: Instruction = {
+                opcode: Opcode.INC,
+                addressingModeA: AddressingMode.Immediate,
+                operandA: 0,
+                addressingModeB: AddressingMode.Immediate,
+                operandB: 5
+            };
+
+            expect(() => executor.execute(incInstr)).toThrow('Cannot use immediate mode for destination');
+        });
+    });
+
+    describe('Shifts and Bit Tests', () => {
+        let registers: { r0: number; r1: number; r2: number; r3: number; sp: number; pc: number; flags: number };
+
+        // op r0, count
+        const shift = (opcode: Opcode, count: number): Instruction => ({
+            opcode,
+            addressingModeA: AddressingMode.Immediate,
+            operandA: count,
+            addressingModeB: AddressingMode.Register,
+            operandB: 0,
+            registerB: 0
+        });
+
+        beforeEach(() => {
+            registers = { r0: 0, r1: 0, r2: 0, r3: 0, sp: 0xF000, pc: 0, flags: 0 };
+            executor.attach(registers);
+        });
+
+        test('executor shifts left with carry and overflow', () => {
+            registers.r0 = 0xC001;
+            executor.execute(shift(Opcode.SHL, 1));
+            expect(registers.r0).toBe(0x8002);
+            expect(executor.getFlags() & StatusFlag.Carry).not.toBe(0);
+            expect(executor.getFlags() & StatusFlag.Overflow).toBe(0);
+
+            executor.execute(shift(Opcode.SHL, 1));
+            expect(registers.r0).toBe(0x0004);
+            expect(executor.getFlags() & StatusFlag.Carry).not.toBe(0);
+            expect(executor.getFlags() & StatusFlag.Overflow).not.toBe(0);
+        });
+
+        test('executor shifts right logically and arithmetically', () => {
+            registers.r0 = 0x8003;
+            executor.execute(shift(Opcode.SHR, 1));
+            expect(registers.r0).toBe(0x4001);
+            expect(executor.getFlags() & StatusFlag.Carry).not.toBe(0);
+            expect(executor.getFlags() & StatusFlag.Overflow).not.toBe(0);
+
+            registers.r0 = 0x8004;
+            executor.execute(shift(Opcode.SAR, 2));
+            expect(registers.r0).toBe(0xE001);
+            expect(executor.getFlags() & StatusFlag.Carry).toBe(0);
+            expect(executor.getFlags() & StatusFlag.Negative).not.toBe(0);
+
+            executor.execute(shift(Opcode.SAR, 20));
+            expect(registers.r0).toBe(0xFFFF);
+            expect(executor.getFlags() & StatusFlag.Carry).not.toBe(0);
+        });
+
+        test('executor rotates through the operand width', () => {
+            registers.r0 = 0x8001;
+            executor.execute(shift(Opcode.ROL, 1));
+            expect(registers.r0).toBe(0x0003);
+            expect(executor.getFlags() & StatusFlag.Carry).not.toBe(0);
+
+            executor.execute(shift(Opcode.ROR, 2));
+            expect(registers.r0).toBe(0xC000);
+            expect(executor.getFlags() & StatusFlag.Carry).not.toBe(0);
+
+            // Memory cells rotate at 8 bits
+            memory.write(0x0300, 0x81);
+            executor.execute({ ...shift(Opcode.ROL, 4), addressingModeB: AddressingMode.Direct, operandB: 0x0300 });
+            expect(memory.read(0x0300)).toBe(0x18);
+        });
+
+        test('executor ignores a zero shift count', () => {
+            registers.r0 = 0x1234;
+            registers.flags = StatusFlag.Carry;
+            executor.execute(shift(Opcode.SHL, 32));
+            expect(registers.r0).toBe(0x1234);
+            expect(registers.flags).toBe(StatusFlag.Carry);
+        });
+
+        test('executor copies a tested bit into carry only', () => {
+            registers.r0 = 0x0400;
+            registers.flags = StatusFlag.Zero;
+            executor.execute(shift(Opcode.BT, 10));
+            expect(registers.flags).toBe(StatusFlag.Zero | StatusFlag.Carry);
+
+            executor.execute(shift(Opcode.BT, 11));
+            expect(registers.flags).toBe(StatusFlag.Zero);
+            expect(registers.r0).toBe(0x0400);
+        });
+    });
+
+    describe('Addressing Modes', () => {
+        test('executor adds an index register to a base register', () => {
+            const registers = { r0: 0, r1: 0x0100, r2: 0x0020, r3: 0, sp: 0xF000, pc: 0, flags: 0 };
+            executor.attach(registers);
+
+            // mov [r1+r2], 0x77
+            const movInstr: Instruction = {
+                opcode: Opcode.MOV,
+                addressingModeA: AddressingMode.Immediate,
+                operandA: 0x77,
+                addressingModeB: AddressingMode.BaseIndexed,
+                operandB: 2,
+                registerB: 1
+            };
+
+            expect(executor.execute(movInstr)).toBe(true);
+            expect(memory.read(0x0120)).toBe(0x77);
+        });
+
+        test('executor steps registers before and after use', () => {
+            const registers = { r0: 0, r1: 0x0200, r2: 0x0300, r3: 0, sp: 0xF000, pc: 0, flags: 0 };
+            executor.attach(registers);
+            memory.write(0x0200, 0x11);
+
+            // mov [--r2], [r1++] copies one byte and moves both pointers
+            const movInstr: Instruction = {
+                opcode: Opcode.MOV,
+                addressingModeA: AddressingMode.RegisterPostIncrement,
+                operandA: 0,
+                registerA: 1,
+                addressingModeB: AddressingMode.RegisterPreDecrement,
+                operandB: 0,
+                registerB: 2
+            };
+
+            expect(executor.execute(movInstr)).toBe(true);
+            expect(memory.read(0x02FF)).toBe(0x11);
+            expect(registers.r1).toBe(0x0201);
+            expect(registers.r2).toBe(0x02FF);
+        });
+
+        test('executor steps memory pointers before and after use', () => {
+            executor.attach({ r0: 0, r1: 0, r2: 0, r3: 0, sp: 0xF000, pc: 0, flags: 0 });
+            memory.write(0x0050, 0x00); // Pointer at 0x50 -> 0x0400
+            memory.write(0x0051, 0x04);
+
+            // mov <0x50, 0x99 writes to 0x03FF
+            const preInstr: Instruction = {
+                opcode: Opcode.MOV,
+                addressingModeA: AddressingMode.Immediate,
+                operandA: 0x99,
+                addressingModeB: AddressingMode.PreDecrementIndirect,
+                operandB: 0x0050
+            };
+
+            expect(executor.execute(preInstr)).toBe(true);
+            expect(memory.read(0x03FF)).toBe(0x99);
+
+            // mov >0x50, 0x98 writes to 0x03FF again, then moves the pointer back
+            const postInstr: Instruction = { ...preInstr, operandA: 0x98, addressingModeB: AddressingMode.PostIncrementIndirect };
+
+            expect(executor.execute(postInstr)).toBe(true);
+            expect(memory.read(0x03FF)).toBe(0x98);
+            expect(memory.read(0x0050) | (memory.read(0x0051) << 8)).toBe(0x0400);
+        });
+
+        test('executor applies jump operand side effects when not branching', () => {
+            const registers = { r0: 0, r1: 0x0200, r2: 0, r3: 0, sp: 0xF000, pc: 0, flags: 0 };
+            executor.attach(registers);
+
+            // jz [r1++] with Z clear falls through but still increments r1
+            const jzInstr: Instruction = {
+                opcode: Opcode.JZ,
+                addressingModeA: AddressingMode.RegisterPostIncrement,
+                operandA: 0,
+                registerA: 1,
+                addressingModeB: AddressingMode.Immediate,
+                operandB: 0
+            };
+
+            expect(executor.execute(jzInstr)).toBe(true);
+            expect(registers.pc).toBe(4);
+            expect(registers.r1).toBe(0x0201);
+        });
+    });
+
+    describe('Word Memory', () => {
+        beforeEach(() => {
+            memory = new MemorySystem(0x1000, 16);
+            executor = new ExecutionUnit(memory);
+            executor.start(0);
+        });
+
+        test('executor stores whole registers in word cells', () => {
+            const registers = { r0: 0xBEEF, r1: 0x0100, r2: 0, r3: 0, sp: 0x0F00, pc: 0, flags: 0 };
+            executor.attach(registers);
+
+            // mov [r1], r0
+            const movInstr: Instruction = {
+                opcode: Opcode.MOV,
+                addressingModeA: AddressingMode.Register,
+                operandA: 0,
+                registerA: 0,
+                addressingModeB: AddressingMode.RegisterIndirect,
+                operandB: 0,
+                registerB: 1
+            };
+
+            expect(executor.execute(movInstr)).toBe(true);
+            expect(memory.read(0x0100)).toBe(0xBEEF);
+            expect(executor.getFlags() & StatusFlag.Negative).not.toBe(0);
+        });
+
+        test('executor pushes one cell per word', () => {
+            const registers = { r0: 0x1234, r1: 0, r2: 0, r3: 0, sp: 0x0F00, pc: 0, flags: 0 };
+            executor.attach(registers);
+
+            const pushInstr: Instruction = {
+                opcode: Opcode.PUSH,
+                addressingModeA: AddressingMode.Register,
+                operandA: 0,
+                registerA: 0,
+                addressingModeB: AddressingMode.Immediate,
+                operandB: 0
+            };
+
+            expect(executor.execute(pushInstr)).toBe(true);
+            expect(registers.sp).toBe(0x0EFF);
+            expect(memory.read(0x0EFF)).toBe(0x1234);
+        });
     });
 
     describe('Halt and Reset', () => {
@@ -4,8 +4,11 @@
  */
 
 import { AddressingMode, Instruction } from './InstructionDecoder.js';
+import { Opcode, REGISTER_NAMES, getInstructionSize } from './ISA.js';
 import { MemorySystem } from '../memory/MemorySystem.js';
 
+export { Opcode };
+
 export enum StatusFlag {
     Zero = 1 << 0,     // Result was zero
     Negative = 1 << 1, // Result was negative
@@ -13,48 +16,72 @@ export enum StatusFlag {
     Carry = 1 << 3     // Operation caused carry
 }
 
-export enum Opcode {
-    MOV = 0x1, // Move data
-    ADD = 0x2, // Add
-    SUB = 0x3, // Subtract
-    MUL = 0x4, // Multiply
-    DIV = 0x5, // Divide
-    AND = 0x6, // Bitwise AND
-    OR  = 0x7, // Bitwise OR
-    XOR = 0x8, // Bitwise XOR
-    CMP = 0x9, // Compare
-    JMP = 0xA, // Jump
-    JZ  = 0xB, // Jump if zero
-    JNZ = 0xC, // Jump if not zero
-    JGT = 0xD, // Jump if greater than
-    JLT = 0xE, // Jump if less than
-    HLT = 0xF  // Halt execution
+/**
+ * Register file the unit executes against. Battle processes keep theirs in
+ * ProcessContext.registers, which has the same shape.
+ */
+export interface RegisterFile {
+    r0: number;
+    r1: number;
+    r2: number;
+    r3: number;
+    sp: number;
+    pc: number;
+    flags: number;
+}
+
+/**
+ * Callbacks for instructions whose effects reach outside the CPU
+ */
+export interface ExecutionHooks {
+    split?(address: number): void;                   // SPL: start a new process at address
+    loadPSpace?(slot: number): number;               // LDP: read a P-space slot (0 without P-space)
+    storePSpace?(slot: number, value: number): void; // STP: write a P-space slot
+}
+
+// Where an operand lives once its addressing mode has been applied: value
+// is the immediate value, the register index or the memory address
+interface Location {
+    kind: 'immediate' | 'register' | 'memory';
+    value: number;
+}
+
+// Shift or rotate at a destination width; carry is the last bit shifted or rotated out
+interface ShiftOperation {
+    result(value: number, count: number, width: number): number;
+    carry(value: number, count: number, width: number, result: number): boolean;
 }
 
 export class ExecutionUnit {
     private memory: MemorySystem;
-    private registers: Uint16Array;
-    private flags: number;
-    private pc: number;
+    private hooks: ExecutionHooks;
+    private state: RegisterFile;
     private running: boolean;
+    private haltedBy: Opcode | null;
+    private nextPC: number;
+    private current: Instruction | null; // Instruction being executed
+
+    // Operands are resolved into these, so executing an instruction allocates nothing
+    private readonly locationA: Location = { kind: 'immediate', value: 0 };
+    private readonly locationB: Location = { kind: 'immediate', value: 0 };
 
-    // Register indices
-    private static readonly R0 = 0;
-    private static readonly R1 = 1;
-    private static readonly R2 = 2;
-    private static readonly R3 = 3;
-    private static readonly NUM_REGISTERS = 4;
+    // Register indices as encoded in operands
+    private static readonly REGISTERS = REGISTER_NAMES as readonly (keyof RegisterFile)[];
+    private static readonly PC = REGISTER_NAMES.indexOf('pc');
 
-    constructor(memory: MemorySystem) {
+    constructor(memory: MemorySystem, hooks: ExecutionHooks = {}) {
         this.memory = memory;
-        this.registers = new Uint16Array(ExecutionUnit.NUM_REGISTERS);
-        this.flags = 0;
-        this.pc = 0;
+        this.hooks = hooks;
+        this.state = { r0: 0, r1: 0, r2: 0, r3: 0, sp: 0xFFFF, pc: 0, flags: 0 };
         this.running = false;
+        this.haltedBy = null;
+        this.nextPC = 0;
+        this.current = null;
     }
 
     /**
-     * Execute a single instruction
+     * Execute a single instruction. The PC advances past the instruction
+     * unless it transfers control.
      * @param instruction Decoded instruction to execute
      * @returns true if execution should continue
      */
@@ -63,77 +90,138 @@ export class ExecutionUnit {
             return false;
         }
 
-        // Pre-resolve operand A for all instructions
-        const operandA = this.resolveOperand(instruction.addressingModeA, instruction.operandA, false);
-        let destAddr: number;
+        this.current = instruction;
+        this.nextPC = this.state.pc + getInstructionSize(instruction.opcode);
 
-        // Only resolve destination for instructions that need it
         switch (instruction.opcode) {
-            case Opcode.JMP:
-            case Opcode.JZ:
-            case Opcode.JNZ:
-            case Opcode.JGT:
-            case Opcode.JLT:
-            case Opcode.HLT:
-                // Control flow instructions don't need destination resolution
-                destAddr = 0;
+            case Opcode.NOP:
                 break;
-            default:
-                // ALU and memory instructions need destination resolution
-                destAddr = this.resolveOperand(instruction.addressingModeB, instruction.operandB, true);
-        }
-
-        // Execute the instruction
-        switch (instruction.opcode) {
             case Opcode.MOV:
-                this.mov(operandA, destAddr);
+            case Opcode.LOAD:
+            case Opcode.STORE:
+                this.mov(this.a(), this.destination(this.b()));
+                break;
+            case Opcode.XCHG:
+                this.xchg(this.destination(this.a()), this.destination(this.b()));
                 break;
             case Opcode.ADD:
-                this.add(operandA, destAddr);
+                this.add(this.a(), this.destination(this.b()));
                 break;
             case Opcode.SUB:
-                this.sub(operandA, destAddr);
+                this.sub(this.a(), this.destination(this.b()));
                 break;
             case Opcode.MUL:
-                this.mul(operandA, destAddr);
+                this.mul(this.a(), this.destination(this.b()));
                 break;
             case Opcode.DIV:
-                this.div(operandA, destAddr);
+                this.div(this.a(), this.destination(this.b()));
                 break;
             case Opcode.AND:
-                this.and(operandA, destAddr);
+                this.and(this.a(), this.destination(this.b()));
                 break;
             case Opcode.OR:
-                this.or(operandA, destAddr);
+                this.or(this.a(), this.destination(this.b()));
                 break;
             case Opcode.XOR:
-                this.xor(operandA, destAddr);
+                this.xor(this.a(), this.destination(this.b()));
+                break;
+            case Opcode.NOT:
+                this.not(this.destination(this.b()));
+                break;
+            case Opcode.SHL:
+                this.shl(this.a(), this.destination(this.b()));
+                break;
+            case Opcode.SHR:
+                this.shr(this.a(), this.destination(this.b()));
+                break;
+            case Opcode.SAR:
+                this.sar(this.a(), this.destination(this.b()));
+                break;
+            case Opcode.ROL:
+                this.rol(this.a(), this.destination(this.b()));
+                break;
+            case Opcode.ROR:
+                this.ror(this.a(), this.destination(this.b()));
+                break;
+            case Opcode.INC:
+                this.inc(this.destination(this.b()), 1);
+                break;
+            case Opcode.DEC:
+                this.inc(this.destination(this.b()), -1);
                 break;
             case Opcode.CMP:
-                this.cmp(operandA, this.memory.read(destAddr));
+                this.cmp(this.a(), this.b());
+                break;
+            case Opcode.TEST:
+                this.test(this.a(), this.b());
+                break;
+            case Opcode.BT:
+                this.bt(this.a(), this.b());
+                break;
+            case Opcode.LEA:
+                this.lea(this.a(), this.destination(this.b()));
                 break;
             case Opcode.JMP:
-                this.jmp(instruction.operandA);
+                this.branch(true, this.a());
                 break;
             case Opcode.JZ:
-                if (this.hasFlag(StatusFlag.Zero)) this.jmp(instruction.operandA);
+            case Opcode.JE:
+                this.branch(this.hasFlag(StatusFlag.Zero), this.a());
                 break;
             case Opcode.JNZ:
-                if (!this.hasFlag(StatusFlag.Zero)) this.jmp(instruction.operandA);
+            case Opcode.JNE:
+                this.branch(!this.hasFlag(StatusFlag.Zero), this.a());
                 break;
             case Opcode.JGT:
-                if (!this.hasFlag(StatusFlag.Zero) && !this.hasFlag(StatusFlag.Negative)) this.jmp(instruction.operandA);
+                this.branch(!this.hasFlag(StatusFlag.Zero) && !this.isLess(), this.a());
                 break;
             case Opcode.JLT:
-                if (this.hasFlag(StatusFlag.Negative)) this.jmp(instruction.operandA);
+                this.branch(this.isLess(), this.a());
+                break;
+            case Opcode.JGE:
+                this.branch(!this.isLess(), this.a());
+                break;
+            case Opcode.JLE:
+                this.branch(this.hasFlag(StatusFlag.Zero) || this.isLess(), this.a());
                 break;
+            case Opcode.PUSH:
+                this.push(this.read(this.a()));
+                break;
+            case Opcode.POP:
+                this.write(this.destination(this.b()), this.pop());
+                break;
+            case Opcode.CALL:
+                this.push(this.nextPC);
+                this.jmp(this.read(this.a()));
+                break;
+            case Opcode.RET:
+                this.jmp(this.pop());
+                break;
+            case Opcode.SPL:
+                this.hooks.split?.(this.read(this.a()) & 0xFFFF);
+                break;
+            case Opcode.LDP: {
+                const slot = this.read(this.a());
+                const loaded = ExecutionUnit.at(this.locationA, 'immediate', this.hooks.loadPSpace?.(slot) ?? 0);
+                this.mov(loaded, this.destination(this.b()));
+                break;
+            }
+            case Opcode.STP:
+                this.hooks.storePSpace?.(this.read(this.b()), this.read(this.a()) & 0xFFFF);
+                break;
+            case Opcode.DAT:
             case Opcode.HLT:
                 this.running = false;
+                this.haltedBy = instruction.opcode;
                 break;
             default:
                 throw new Error(`Invalid opcode: ${instruction.opcode}`);
         }
 
+        if (this.running) {
+            this.state.pc = this.nextPC & 0xFFFF;
+        }
+
         return this.running;
     }
 
@@ -142,8 +230,20 @@ export class ExecutionUnit {
      * @param startAddress Initial program counter value
      */
     public start(startAddress: number): void {
-        this.pc = startAddress;
+        this.state.pc = startAddress;
         this.running = true;
+        this.haltedBy = null;
+    }
+
+    /**
+     * Continue execution on another register file, e.g. a battle process's
+     * context. The registers are updated in place.
+     * @param state Register file to execute against
+     */
+    public attach(state: RegisterFile): void {
+        this.state = state;
+        this.running = true;
+        this.haltedBy = null;
     }
 
     /**
@@ -153,149 +253,429 @@ export class ExecutionUnit {
         this.running = false;
     }
 
+    /**
+     * Get the instruction that stopped execution (HLT or DAT), if any
+     */
+    public getHaltedBy(): Opcode | null {
+        return this.haltedBy;
+    }
+
     /**
      * Get current program counter value
      */
     public getPC(): number {
-        return this.pc;
+        return this.state.pc;
     }
 
     /**
      * Get current status flags
      */
     public getFlags(): number {
-        return this.flags;
+        return this.state.flags;
     }
 
     /**
      * Get register value
-     * @param index Register index
+     * @param index Register index (r0-r3, sp, pc, flags)
      */
     public getRegister(index: number): number {
-        if (index < 0 || index >= ExecutionUnit.NUM_REGISTERS) {
+        if (index < 0 || index >= ExecutionUnit.REGISTERS.length) {
             throw new Error(`Invalid register index: ${index}`);
         }
-        return this.registers[index];
+        return this.state[ExecutionUnit.REGISTERS[index]];
     }
 
-    private resolveOperand(mode: AddressingMode, value: number, isDestination: boolean = false): number {
-        let address: number;
+    // Operand A or B of the instruction being executed, resolved into its scratch location
+    private a(): Location {
+        const instruction = this.current!;
+        return this.locate(instruction.addressingModeA, instruction.operandA, instruction.registerA, this.locationA);
+    }
+
+    private b(): Location {
+        const instruction = this.current!;
+        return this.locate(instruction.addressingModeB, instruction.operandB, instruction.registerB, this.locationB);
+    }
+
+    private static at(location: Location, kind: Location['kind'], value: number): Location {
+        location.kind = kind;
+        location.value = value;
+        return location;
+    }
 
+    // The PC still holds the instruction's own address while it executes
+    private locate(mode: AddressingMode, value: number, register: number = 0, into: Location): Location {
         switch (mode) {
             case AddressingMode.Immediate:
-                if (isDestination) {
-                    throw new Error('Cannot use immediate mode for destination');
-                }
-                return value & 0xFF;
+                return ExecutionUnit.at(into, 'immediate', value & 0xFFFF);
             case AddressingMode.Direct:
-                address = value & 0xFFFF;
-                break;
+                return ExecutionUnit.at(into, 'memory', value & 0xFFFF);
             case AddressingMode.Indirect:
-                address = this.memory.read(value & 0xFFFF) & 0xFFFF;
-                break;
+                return ExecutionUnit.at(into, 'memory', this.memory.readWord(value & 0xFFFF));
             case AddressingMode.Indexed:
-                address = (this.pc + value) & 0xFFFF;
-                break;
+                return ExecutionUnit.at(into, 'memory', (this.state.pc + value) & 0xFFFF);
+            case AddressingMode.Register:
+                return ExecutionUnit.at(into, 'register', this.registerIndex(register));
+            case AddressingMode.RegisterIndirect:
+                return ExecutionUnit.at(into, 'memory', this.getRegister(this.registerIndex(register)) & 0xFFFF);
+            case AddressingMode.RegisterIndexed:
+                return ExecutionUnit.at(into, 'memory', (this.getRegister(this.registerIndex(register)) + value) & 0xFFFF);
+            case AddressingMode.BaseIndexed:
+                return ExecutionUnit.at(
+                    into,
+                    'memory',
+                    (this.getRegister(this.registerIndex(register)) + this.getRegister(this.registerIndex(value))) & 0xFFFF
+                );
+            case AddressingMode.RegisterPreDecrement: {
+                const index = this.registerIndex(register);
+                this.writeRegister(index, this.getRegister(index) - 1);
+                return ExecutionUnit.at(into, 'memory', this.getRegister(index));
+            }
+            case AddressingMode.RegisterPostIncrement: {
+                const index = this.registerIndex(register);
+                const address = this.getRegister(index);
+                this.writeRegister(index, address + 1);
+                return ExecutionUnit.at(into, 'memory', address);
+            }
+            case AddressingMode.PreDecrementIndirect: {
+                const address = (this.memory.readWord(value) - 1) & 0xFFFF;
+                this.memory.writeWord(value, address);
+                return ExecutionUnit.at(into, 'memory', address);
+            }
+            case AddressingMode.PostIncrementIndirect: {
+                const address = this.memory.readWord(value);
+                this.memory.writeWord(value, address + 1);
+                return ExecutionUnit.at(into, 'memory', address);
+            }
             default:
                 throw new Error(`Invalid addressing mode: ${mode}`);
         }
+    }
+
+    private registerIndex(register: number): number {
+        if (register < 0 || register >= ExecutionUnit.REGISTERS.length) {
+            throw new Error(`Invalid register index: ${register}`);
+        }
+        return register;
+    }
+
+    private destination(location: Location): Location {
+        if (location.kind === 'immediate') {
+            throw new Error('Cannot use immediate mode for destination');
+        }
+        return location;
+    }
+
+    // Registers are 16 bits wide, memory cells 8 or 16 bits
+    private width(location: Location): number {
+        return location.kind === 'memory' ? this.memory.getCellWidth() : 16;
+    }
+
+    private read(location: Location): number {
+        switch (location.kind) {
+            case 'immediate':
+                return location.value;
+            case 'register':
+                return this.getRegister(location.value);
+            case 'memory':
+                return this.memory.read(location.value);
+        }
+    }
 
-        return isDestination ? address : this.memory.read(address);
+    private write(location: Location, value: number): void {
+        switch (location.kind) {
+            case 'register':
+                this.writeRegister(location.value, value);
+                break;
+            case 'memory':
+                this.memory.write(location.value, value & ((1 << this.memory.getCellWidth()) - 1));
+                break;
+        }
     }
 
-    private setFlags(result: number, checkOverflow: boolean = false): void {
-        this.flags = 0;
+    private writeRegister(index: number, value: number): void {
+        if (index === ExecutionUnit.PC) {
+            this.nextPC = value & 0xFFFF;
+        } else {
+            this.state[ExecutionUnit.REGISTERS[index]] = value & 0xFFFF;
+        }
+    }
+
+    private setFlags(
+        result: number,
+        width: number,
+        overflow: boolean = false,
+        carry: boolean = result > (1 << width) - 1 || result < 0
+    ): void {
+        const mask = (1 << width) - 1;
+        this.state.flags = 0;
 
         // Zero flag
-        if ((result & 0xFF) === 0) {
-            this.flags |= StatusFlag.Zero;
+        if ((result & mask) === 0) {
+            this.state.flags |= StatusFlag.Zero;
         }
 
         // Negative flag (if high bit is set)
-        if ((result & 0x80) !== 0) {
-            this.flags |= StatusFlag.Negative;
+        if ((result & (1 << (width - 1))) !== 0) {
+            this.state.flags |= StatusFlag.Negative;
         }
 
         // Carry flag
-        if (result > 0xFF) {
-            this.flags |= StatusFlag.Carry;
+        if (carry) {
+            this.state.flags |= StatusFlag.Carry;
         }
 
         // Overflow flag (for signed arithmetic)
-        if (checkOverflow && ((result > 127) || (result < -128))) {
-            this.flags |= StatusFlag.Overflow;
+        if (overflow) {
+            this.state.flags |= StatusFlag.Overflow;
         }
     }
 
     private hasFlag(flag: StatusFlag): boolean {
-        return (this.flags & flag) !== 0;
+        return (this.state.flags & flag) !== 0;
+    }
+
+    // Signed less-than after cmp: the sign of the difference, corrected for overflow
+    private isLess(): boolean {
+        return this.hasFlag(StatusFlag.Negative) !== this.hasFlag(StatusFlag.Overflow);
     }
 
     // Instruction implementations
-    private mov(src: number, dest: number): void {
-        const value = src & 0xFF;
-        this.memory.write(dest, value);
-        this.setFlags(value);
+    private mov(src: Location, dest: Location): void {
+        const value = this.read(src);
+        this.write(dest, value);
+        this.setFlags(value & ((1 << this.width(dest)) - 1), this.width(dest));
+    }
+
+    private xchg(a: Location, b: Location): void {
+        const value = this.read(a);
+        this.write(a, this.read(b));
+        this.write(b, value);
+    }
+
+    // Operations are static functions rather than closures, so nothing is allocated per instruction
+    private arithmetic(
+        src: Location,
+        dest: Location,
+        operation: (current: number, value: number, width: number) => number,
+        overflow?: (current: number, value: number, result: number, signBit: number) => boolean
+    ): void {
+        const width = this.width(dest);
+        const current = this.read(dest);
+        const value = this.read(src) & ((1 << width) - 1);
+        const result = operation(current, value, width);
+        this.write(dest, result);
+        this.setFlags(result, width, overflow?.(current, value, result, 1 << (width - 1)) ?? false);
     }
 
-    private add(a: number, b: number): void {
-        const currentValue = this.memory.read(b);
-        const result = (currentValue + (a & 0xFF)) & 0xFFFF;
-        this.memory.write(b, result & 0xFF);
-        this.setFlags(result, true);
+    private add(a: Location, b: Location): void {
+        this.arithmetic(a, b, ExecutionUnit.sum, ExecutionUnit.addOverflow);
     }
 
-    private sub(a: number, b: number): void {
-        const currentValue = this.memory.read(b);
-        const result = (currentValue - (a & 0xFF)) & 0xFFFF;
-        this.memory.write(b, result & 0xFF);
-        this.setFlags(result, true);
+    private sub(a: Location, b: Location): void {
+        this.arithmetic(a, b, ExecutionUnit.difference, ExecutionUnit.subOverflow);
     }
 
-    private mul(a: number, b: number): void {
-        const currentValue = this.memory.read(b);
-        const result = (currentValue * (a & 0xFF)) & 0xFFFF;
-        this.memory.write(b, result & 0xFF);
-        this.setFlags(result);
+    private mul(a: Location, b: Location): void {
+        this.arithmetic(a, b, ExecutionUnit.product);
     }
 
-    private div(a: number, b: number): void {
-        if (a === 0) {
+    private div(a: Location, b: Location): void {
+        if (this.read(a) === 0) {
             throw new Error('Division by zero');
         }
-        const currentValue = this.memory.read(b);
-        const result = Math.floor(currentValue / (a & 0xFF)) & 0xFFFF;
-        this.memory.write(b, result & 0xFF);
-        this.setFlags(result);
+        this.arithmetic(a, b, ExecutionUnit.quotient);
+    }
+
+    private and(a: Location, b: Location): void {
+        this.arithmetic(a, b, ExecutionUnit.bitwiseAnd);
+    }
+
+    private or(a: Location, b: Location): void {
+        this.arithmetic(a, b, ExecutionUnit.bitwiseOr);
+    }
+
+    private xor(a: Location, b: Location): void {
+        this.arithmetic(a, b, ExecutionUnit.bitwiseXor);
+    }
+
+    private not(b: Location): void {
+        this.arithmetic(b, b, ExecutionUnit.complement);
+    }
+
+    private inc(b: Location, step: 1 | -1): void {
+        if (step > 0) {
+            this.arithmetic(ExecutionUnit.ONE, b, ExecutionUnit.sum, ExecutionUnit.addOverflow);
+        } else {
+            this.arithmetic(ExecutionUnit.ONE, b, ExecutionUnit.difference, ExecutionUnit.subOverflow);
+        }
+    }
+
+    private static readonly ONE: Location = { kind: 'immediate', value: 1 };
+
+    private static sum(current: number, value: number): number {
+        return current + value;
+    }
+
+    private static difference(current: number, value: number): number {
+        return current - value;
+    }
+
+    // Truncated to the width, so the carry is never set
+    private static product(current: number, value: number, width: number): number {
+        return (current * value) & ((1 << width) - 1);
+    }
+
+    private static quotient(current: number, value: number): number {
+        return Math.floor(current / value);
+    }
+
+    private static bitwiseAnd(current: number, value: number): number {
+        return current & value;
+    }
+
+    private static bitwiseOr(current: number, value: number): number {
+        return current | value;
+    }
+
+    private static bitwiseXor(current: number, value: number): number {
+        return current ^ value;
+    }
+
+    private static complement(current: number, value: number, width: number): number {
+        return ~current & ((1 << width) - 1);
+    }
+
+    /**
+     * Shift or rotate the destination by the source count (taken modulo 32).
+     * A zero count leaves the destination and flags unchanged. Overflow is
+     * set when the sign bit changes.
+     * @param operation Computes the result and carry at the destination's width
+     */
+    private shift(src: Location, dest: Location, operation: ShiftOperation): void {
+        const count = this.read(src) & 0x1F;
+        if (count === 0) {
+            return;
+        }
+        const width = this.width(dest);
+        const value = this.read(dest);
+        const result = operation.result(value, count, width);
+        this.write(dest, result);
+        this.setFlags(result, width, ExecutionUnit.signChanged(value, result, width), operation.carry(value, count, width, result));
+    }
+
+    private shl(a: Location, b: Location): void {
+        this.shift(a, b, ExecutionUnit.SHL);
+    }
+
+    private shr(a: Location, b: Location): void {
+        this.shift(a, b, ExecutionUnit.SHR);
+    }
+
+    private sar(a: Location, b: Location): void {
+        this.shift(a, b, ExecutionUnit.SAR);
+    }
+
+    private rol(a: Location, b: Location): void {
+        this.shift(a, b, ExecutionUnit.ROL);
+    }
+
+    private ror(a: Location, b: Location): void {
+        this.shift(a, b, ExecutionUnit.ROR);
+    }
+
+    private static readonly SHL: ShiftOperation = {
+        result: (value, count, width) => count < width ? (value << count) & ((1 << width) - 1) : 0,
+        carry: (value, count, width) => count <= width && ((value >> (width - count)) & 1) !== 0
+    };
+
+    private static readonly SHR: ShiftOperation = {
+        result: (value, count, width) => count < width ? value >>> count : 0,
+        carry: (value, count, width) => count <= width && ((value >> (count - 1)) & 1) !== 0
+    };
+
+    // Fills with the sign bit, so the sign never changes
+    private static readonly SAR: ShiftOperation = {
+        result: (value, count, width) => (ExecutionUnit.signed(value, width) >> Math.min(count, width - 1)) & ((1 << width) - 1),
+        carry: (value, count, width) => ((ExecutionUnit.signed(value, width) >> Math.min(count - 1, width - 1)) & 1) !== 0
+    };
+
+    private static readonly ROL: ShiftOperation = {
+        result: (value, count, width) => {
+            const n = count % width;
+            return ((value << n) | (value >>> (width - n))) & ((1 << width) - 1);
+        },
+        carry: (value, count, width, result) => (result & 1) !== 0
+    };
+
+    private static readonly ROR: ShiftOperation = {
+        result: (value, count, width) => {
+            const n = count % width;
+            return ((value >>> n) | (value << (width - n))) & ((1 << width) - 1);
+        },
+        carry: (value, count, width, result) => (result >> (width - 1)) !== 0
+    };
+
+    private static signed(value: number, width: number): number {
+        return value << (32 - width) >> (32 - width);
+    }
+
+    private static signChanged(value: number, result: number, width: number): boolean {
+        return (((value ^ result) >> (width - 1)) & 1) !== 0;
+    }
+
+    // Signed overflow: the operands' signs agree (add) or differ (sub) and the result's sign does not match
+    private static addOverflow(current: number, value: number, result: number, signBit: number): boolean {
+        return ((current ^ result) & (value ^ result) & signBit) !== 0;
     }
 
-    private and(a: number, b: number): void {
-        const currentValue = this.memory.read(b);
-        const result = currentValue & (a & 0xFF);
-        this.memory.write(b, result);
-        this.setFlags(result);
+    private static subOverflow(current: number, value: number, result: number, signBit: number): boolean {
+        return ((current ^ value) & (current ^ result) & signBit) !== 0;
     }
 
-    private or(a: number, b: number): void {
-        const currentValue = this.memory.read(b);
-        const result = currentValue | (a & 0xFF);
-        this.memory.write(b, result);
-        this.setFlags(result);
+    // Flags as for `sub b, a` without storing the result; carry is the unsigned borrow
+    private cmp(a: Location, b: Location): void {
+        const width = this.width(b);
+        const current = this.read(b);
+        const value = this.read(a) & ((1 << width) - 1);
+        const result = current - value;
+        this.setFlags(result, width, ExecutionUnit.subOverflow(current, value, result, 1 << (width - 1)));
     }
 
-    private xor(a: number, b: number): void {
-        const currentValue = this.memory.read(b);
-        const result = currentValue ^ (a & 0xFF);
-        this.memory.write(b, result);
-        this.setFlags(result);
+    private test(a: Location, b: Location): void {
+        this.setFlags(this.read(b) & this.read(a), this.width(b));
     }
 
-    private cmp(a: number, b: number): void {
-        const result = b - a;
-        this.setFlags(result);
+    // Copies bit `a` (modulo the operand width) of `b` into the carry flag; other flags are kept
+    private bt(a: Location, b: Location): void {
+        const bit = this.read(a) % this.width(b);
+        const set = ((this.read(b) >> bit) & 1) !== 0;
+        this.state.flags = set ? this.state.flags | StatusFlag.Carry : this.state.flags & ~StatusFlag.Carry;
+    }
+
+    private lea(a: Location, b: Location): void {
+        const address = a.kind === 'memory' ? a.value : this.read(a);
+        this.write(b, address);
+    }
+
+    private push(value: number): void {
+        this.state.sp = (this.state.sp - this.memory.getWordCells()) & 0xFFFF;
+        this.memory.writeWord(this.state.sp, value);
+    }
+
+    private pop(): number {
+        const value = this.memory.readWord(this.state.sp);
+        this.state.sp = (this.state.sp + this.memory.getWordCells()) & 0xFFFF;
+        return value;
+    }
+
+    // The target is resolved even when the branch is not taken, so its
+    // pre-decrement or post-increment side effects always happen
+    private branch(condition: boolean, target: Location): void {
+        const address = this.read(target);
+        if (condition) this.jmp(address);
     }
 
     private jmp(address: number): void {
-        this.pc = address & 0xFFFF;
+        this.nextPC = address & 0xFFFF;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,83 @@
+import {
+    AddressingMode,
+    Opcode,
+    OperandAccess,
+    INSTRUCTIONS,
+    getInstructionSpec,
+    getInstructionSpecByMnemonic,
+    getInstructionSize,
+    getDataSize,
+    isModeAllowed,
+    encodeOperand,
+    decodeOperand
+} from './ISA.js';
+
+describe('ISA', () => {
+    describe('Instruction Definitions', () => {
+        test('every opcode is defined once', () => {
+            const opcodes = INSTRUCTIONS.map(spec => spec.opcode);
+            expect(new Set(opcodes).size).toBe(opcodes.length);
+        });
+
+        test('looks up definitions by opcode and mnemonic', () => {
+            expect(getInstructionSpec(Opcode.MOV)?.mnemonic).toBe('mov');
+            expect(getInstructionSpecByMnemonic('JNZ')?.opcode).toBe(Opcode.JNZ);
+            expect(getInstructionSpec(0xEE)).toBeUndefined();
+        });
+
+        test('keeps the original execution unit names', () => {
+            expect(Opcode.JGT).toBe(Opcode.JG);
+            expect(Opcode.JLT).toBe(Opcode.JL);
+            expect(Opcode.HLT).toBe(Opcode.HALT);
+        });
+
+        test('maps two-operand instructions written dest, src to slots B, A', () => {
+            const add = getInstructionSpec(Opcode.ADD)!;
+            expect(add.operands.map(operand => operand.slot)).toEqual(['b', 'a']);
+            expect(add.operands[0].access).toBe(OperandAccess.Modify);
+            expect(getInstructionSpec(Opcode.JMP)!.operands).toEqual([{ slot: 'a', access: OperandAccess.Target }]);
+        });
+    });
+
+    describe('Sizing', () => {
+        test('sizes instructions by operand count', () => {
+            expect(getInstructionSize(Opcode.NOP)).toBe(1);
+            expect(getInstructionSize(Opcode.PUSH)).toBe(4);
+            expect(getInstructionSize(Opcode.JMP)).toBe(4);
+            expect(getInstructionSize(Opcode.MOV)).toBe(7);
+            expect(getInstructionSize(Opcode.HALT)).toBe(1);
+        });
+
+        test('treats unknown opcodes as single bytes', () => {
+            expect(getInstructionSize(0xEE)).toBe(1);
+        });
+
+        test('sizes data definitions', () => {
+            expect(getDataSize('db', 3)).toBe(3);
+            expect(getDataSize('DW', 2)).toBe(4);
+            expect(getDataSize('dq', 1)).toBe(8);
+            expect(getDataSize('equ', 1)).toBe(0);
+        });
+    });
+
+    describe('Operands', () => {
+        test('round-trips the mode byte and 16-bit value', () => {
+            const operand = { mode: AddressingMode.RegisterIndexed, register: 3, value: 0x1234 };
+            const bytes = encodeOperand(operand);
+
+            expect(bytes).toEqual([0x36, 0x34, 0x12]);
+            expect(decodeOperand([0xFF, ...bytes], 1)).toEqual(operand);
+        });
+
+        test('wraps negative values to 16 bits', () => {
+            expect(encodeOperand({ mode: AddressingMode.Immediate, register: 0, value: -2 })).toEqual([0x00, 0xFE, 0xFF]);
+        });
+
+        test('rejects immediate destinations', () => {
+            expect(isModeAllowed(OperandAccess.Write, AddressingMode.Immediate)).toBe(false);
+            expect(isModeAllowed(OperandAccess.Modify, AddressingMode.Immediate)).toBe(false);
+            expect(isModeAllowed(OperandAccess.Modify, AddressingMode.RegisterIndirect)).toBe(true);
+            expect(isModeAllowed(OperandAccess.Read, AddressingMode.Immediate)).toBe(true);
+        });
+    });
+});
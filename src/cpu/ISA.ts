@@ -0,0 +1,240 @@
+/**
+ * Core Wars Instruction Set Architecture
+ * The single definition of opcodes, operands, addressing modes and instruction
+ * encoding shared by the assembler, the disassembler and the execution unit
+ */
+
+export enum AddressingMode {
+    Immediate,              // Value is used directly
+    Direct,                 // Value is used as memory address
+    Indirect,               // Value is used as pointer to memory address
+    Indexed,                // Value is added to program counter
+    Register,               // Register is used directly
+    RegisterIndirect,       // Register holds the memory address
+    RegisterIndexed,        // Register plus value is the memory address
+    BaseIndexed,            // Register plus the register numbered by value is the memory address
+    RegisterPreDecrement,   // Register is decremented, then holds the memory address
+    RegisterPostIncrement,  // Register holds the memory address, then is incremented
+    PreDecrementIndirect,   // Pointer at value is decremented, then used as memory address
+    PostIncrementIndirect   // Pointer at value is used as memory address, then incremented
+}
+
+export enum Opcode {
+    NOP   = 0x00, // No operation
+    MOV   = 0x10, // Move data
+    XCHG  = 0x11, // Exchange values
+    ADD   = 0x20, // Add
+    SUB   = 0x21, // Subtract
+    MUL   = 0x22, // Multiply
+    DIV   = 0x23, // Divide
+    JMP   = 0x30, // Jump
+    JZ    = 0x31, // Jump if zero
+    JNZ   = 0x32, // Jump if not zero
+    JE    = 0x33, // Jump if equal
+    JNE   = 0x34, // Jump if not equal
+    JL    = 0x35, // Jump if less than
+    JG    = 0x36, // Jump if greater than
+    JGE   = 0x37, // Jump if greater or equal
+    JLE   = 0x38, // Jump if less or equal
+    PUSH  = 0x40, // Push to stack
+    POP   = 0x41, // Pop from stack
+    CALL  = 0x42, // Push return address and jump
+    RET   = 0x43, // Pop return address and jump
+    AND   = 0x50, // Bitwise AND
+    OR    = 0x51, // Bitwise OR
+    XOR   = 0x52, // Bitwise XOR
+    NOT   = 0x53, // Bitwise NOT
+    SHL   = 0x54, // Shift left
+    SHR   = 0x55, // Logical shift right
+    SAR   = 0x56, // Arithmetic shift right
+    ROL   = 0x57, // Rotate left
+    ROR   = 0x58, // Rotate right
+    INC   = 0x60, // Increment
+    DEC   = 0x61, // Decrement
+    CMP   = 0x70, // Compare
+    TEST  = 0x71, // Test bits
+    BT    = 0x72, // Test a single bit
+    LEA   = 0x80, // Load effective address
+    LOAD  = 0x90, // Load from memory
+    STORE = 0x91, // Store to memory
+    SPL   = 0xA0, // Split process
+    LDP   = 0xA1, // Load from P-space
+    STP   = 0xA2, // Store to P-space
+    DAT   = 0xF0, // Data (kills the process that executes it)
+    HALT  = 0xFF, // Halt execution
+
+    // Names used by the original execution unit
+    JGT = JG,
+    JLT = JL,
+    HLT = HALT
+}
+
+export enum OperandAccess {
+    Read = 'read',       // Value is read
+    Write = 'write',     // Location is written
+    Modify = 'modify',   // Location is read and written
+    Address = 'address', // Effective address of a memory operand is used
+    Target = 'target'    // Value is a code address (jumps, call, spl)
+}
+
+export interface OperandSpec {
+    slot: 'a' | 'b';      // Decoded operand: A is the source, B the destination
+    access: OperandAccess;
+}
+
+export interface InstructionSpec {
+    mnemonic: string;
+    opcode: Opcode;
+    operands: OperandSpec[]; // In assembly order
+}
+
+/**
+ * One encoded operand: a mode byte (addressing mode in the low nibble,
+ * register index in the high nibble) followed by a 16-bit little-endian value
+ */
+export interface EncodedOperand {
+    mode: AddressingMode;
+    register: number;
+    value: number;
+}
+
+// Encoded size of one operand in bytes
+export const OPERAND_SIZE = 3;
+
+// Register names by index, as used in the mode byte
+export const REGISTER_NAMES: readonly string[] = ['r0', 'r1', 'r2', 'r3', 'sp', 'pc', 'flags'];
+
+const source: OperandSpec = { slot: 'a', access: OperandAccess.Read };
+const destination: OperandSpec = { slot: 'b', access: OperandAccess.Write };
+const modified: OperandSpec = { slot: 'b', access: OperandAccess.Modify };
+const compared: OperandSpec = { slot: 'b', access: OperandAccess.Read };
+const target: OperandSpec = { slot: 'a', access: OperandAccess.Target };
+
+// Two-operand instructions are written `op dest, src`
+export const INSTRUCTIONS: readonly InstructionSpec[] = [
+    { mnemonic: 'nop', opcode: Opcode.NOP, operands: [] },
+    { mnemonic: 'mov', opcode: Opcode.MOV, operands: [destination, source] },
+    { mnemonic: 'xchg', opcode: Opcode.XCHG, operands: [modified, { slot: 'a', access: OperandAccess.Modify }] },
+    { mnemonic: 'add', opcode: Opcode.ADD, operands: [modified, source] },
+    { mnemonic: 'sub', opcode: Opcode.SUB, operands: [modified, source] },
+    { mnemonic: 'mul', opcode: Opcode.MUL, operands: [modified, source] },
+    { mnemonic: 'div', opcode: Opcode.DIV, operands: [modified, source] },
+    { mnemonic: 'jmp', opcode: Opcode.JMP, operands: [target] },
+    { mnemonic: 'jz', opcode: Opcode.JZ, operands: [target] },
+    { mnemonic: 'jnz', opcode: Opcode.JNZ, operands: [target] },
+    { mnemonic: 'je', opcode: Opcode.JE, operands: [target] },
+    { mnemonic: 'jne', opcode: Opcode.JNE, operands: [target] },
+    { mnemonic: 'jl', opcode: Opcode.JL, operands: [target] },
+    { mnemonic: 'jg', opcode: Opcode.JG, operands: [target] },
+    { mnemonic: 'jge', opcode: Opcode.JGE, operands: [target] },
+    { mnemonic: 'jle', opcode: Opcode.JLE, operands: [target] },
+    { mnemonic: 'push', opcode: Opcode.PUSH, operands: [source] },
+    { mnemonic: 'pop', opcode: Opcode.POP, operands: [destination] },
+    { mnemonic: 'call', opcode: Opcode.CALL, operands: [target] },
+    { mnemonic: 'ret', opcode: Opcode.RET, operands: [] },
+    { mnemonic: 'and', opcode: Opcode.AND, operands: [modified, source] },
+    { mnemonic: 'or', opcode: Opcode.OR, operands: [modified, source] },
+    { mnemonic: 'xor', opcode: Opcode.XOR, operands: [modified, source] },
+    { mnemonic: 'not', opcode: Opcode.NOT, operands: [modified] },
+    { mnemonic: 'shl', opcode: Opcode.SHL, operands: [modified, source] },
+    { mnemonic: 'shr', opcode: Opcode.SHR, operands: [modified, source] },
+    { mnemonic: 'sar', opcode: Opcode.SAR, operands: [modified, source] },
+    { mnemonic: 'rol', opcode: Opcode.ROL, operands: [modified, source] },
+    { mnemonic: 'ror', opcode: Opcode.ROR, operands: [modified, source] },
+    { mnemonic: 'inc', opcode: Opcode.INC, operands: [modified] },
+    { mnemonic: 'dec', opcode: Opcode.DEC, operands: [modified] },
+    { mnemonic: 'cmp', opcode: Opcode.CMP, operands: [compared, source] },
+    { mnemonic: 'test', opcode: Opcode.TEST, operands: [compared, source] },
+    { mnemonic: 'bt', opcode: Opcode.BT, operands: [compared, source] },
+    { mnemonic: 'lea', opcode: Opcode.LEA, operands: [destination, { slot: 'a', access: OperandAccess.Address }] },
+    { mnemonic: 'load', opcode: Opcode.LOAD, operands: [destination, source] },
+    { mnemonic: 'store', opcode: Opcode.STORE, operands: [destination, source] },
+    { mnemonic: 'spl', opcode: Opcode.SPL, operands: [target] },
+    { mnemonic: 'ldp', opcode: Opcode.LDP, operands: [destination, source] },  // ldp dest, slot
+    { mnemonic: 'stp', opcode: Opcode.STP, operands: [compared, source] },     // stp slot, value
+    { mnemonic: 'dat', opcode: Opcode.DAT, operands: [source] },
+    { mnemonic: 'halt', opcode: Opcode.HALT, operands: [] }
+];
+
+const BY_OPCODE = new Map<number, InstructionSpec>(INSTRUCTIONS.map(spec => [spec.opcode, spec]));
+const BY_MNEMONIC = new Map<string, InstructionSpec>(INSTRUCTIONS.map(spec => [spec.mnemonic, spec]));
+
+// Bytes per value for data definitions
+const DATA_SIZES: { [defType: string]: number } = {
+    'db': 1,
+    'dw': 2,
+    'dq': 8
+};
+
+/**
+ * Get the definition of an opcode
+ * @param opcode Opcode byte
+ * @returns The definition, or undefined for unknown opcodes
+ */
+export function getInstructionSpec(opcode: number): InstructionSpec | undefined {
+    return BY_OPCODE.get(opcode);
+}
+
+/**
+ * Get the definition of an instruction mnemonic
+ * @param mnemonic Instruction name (case-insensitive)
+ * @returns The definition, or undefined for unknown mnemonics
+ */
+export function getInstructionSpecByMnemonic(mnemonic: string): InstructionSpec | undefined {
+    return BY_MNEMONIC.get(mnemonic.toLowerCase());
+}
+
+/**
+ * Get the encoded size of an instruction in bytes (1 for unknown opcodes).
+ * The size depends only on the opcode, so labels can be assigned before
+ * operands are resolved.
+ * @param opcode Opcode byte
+ */
+export function getInstructionSize(opcode: number): number {
+    const spec = BY_OPCODE.get(opcode);
+    return spec ? 1 + spec.operands.length * OPERAND_SIZE : 1;
+}
+
+/**
+ * Get the encoded size of a data definition in bytes (0 for equ)
+ * @param defType Data definition keyword (db, dw, dq, equ)
+ * @param valueCount Number of values being defined
+ */
+export function getDataSize(defType: string, valueCount: number): number {
+    return (DATA_SIZES[defType.toLowerCase()] ?? 0) * valueCount;
+}
+
+/**
+ * Check whether an addressing mode can be used for an operand
+ * @param access How the instruction uses the operand
+ * @param mode Addressing mode
+ */
+export function isModeAllowed(access: OperandAccess, mode: AddressingMode): boolean {
+    if (access === OperandAccess.Write || access === OperandAccess.Modify) {
+        return mode !== AddressingMode.Immediate;
+    }
+    return true;
+}
+
+/**
+ * Encode an operand as its mode byte and 16-bit little-endian value
+ * @param operand Operand to encode
+ */
+export function encodeOperand(operand: EncodedOperand): number[] {
+    const value = operand.value & 0xFFFF;
+    return [((operand.register & 0xF) << 4) | (operand.mode & 0xF), value & 0xFF, value >> 8];
+}
+
+/**
+ * Decode an operand from its three bytes
+ * @param bytes Encoded bytes
+ * @param offset Offset of the mode byte
+ */
+export function decodeOperand(bytes: ArrayLike<number>, offset: number): EncodedOperand {
+    const modeByte = bytes[offset] & 0xFF;
+    return {
+        mode: modeByte & 0xF,
+        register: modeByte >> 4,
+        value: (bytes[offset + 1] & 0xFF) | ((bytes[offset + 2] & 0xFF) << 8)
+    };
+}
@@ -0,0 +1,60 @@
+import { InstructionCache } from './InstructionCache.js';
+import { AddressingMode } from './InstructionDecoder.js';
+import { Opcode, encodeOperand } from './ISA.js';
+import { MemorySystem } from '../memory/MemorySystem.js';
+
+describe('InstructionCache', () => {
+    let memory: MemorySystem;
+    let cache: InstructionCache;
+
+    const load = (address: number, bytes: number[]) => {
+        bytes.forEach((byte, i) => memory.write(address + i, byte));
+    };
+
+    beforeEach(() => {
+        memory = new MemorySystem(256);
+        cache = new InstructionCache(memory);
+    });
+
+    test('decodes once and answers later fetches from the cache', () => {
+        load(0x10, [Opcode.JMP, ...encodeOperand({ mode: AddressingMode.Direct, register: 0, value: 0x40 })]);
+
+        const first = cache.fetch(0x10);
+        expect(first).toMatchObject({ opcode: Opcode.JMP, addressingModeA: AddressingMode.Direct, operandA: 0x40 });
+        expect(cache.fetch(0x10)).toBe(first);
+        expect(cache.fetch(0x10 + 256)).toBe(first);
+        expect(cache.getStats()).toEqual({ hits: 2, misses: 1, invalidations: 0 });
+    });
+
+    test('drops an instruction when any of its bytes is written', () => {
+        load(0x10, [Opcode.JMP, ...encodeOperand({ mode: AddressingMode.Direct, register: 0, value: 0x40 })]);
+        cache.fetch(0x10);
+
+        memory.write(0x12, 0x50);
+        expect(cache.fetch(0x10).operandA).toBe(0x50);
+
+        memory.write(0x80, 1);
+        cache.fetch(0x10);
+        expect(cache.getStats()).toEqual({ hits: 1, misses: 2, invalidations: 1 });
+    });
+
+    test('invalidates across the end of memory', () => {
+        load(254, [Opcode.JMP, ...encodeOperand({ mode: AddressingMode.Direct, register: 0, value: 0x40 })]);
+        cache.fetch(254);
+
+        memory.write(1, 0x60);
+        expect(cache.fetch(254).operandA).toBe(0x6040);
+    });
+
+    test('executes unknown opcodes as NOP and stops listening when detached', () => {
+        memory.write(0x20, 0xEE);
+        expect(cache.fetch(0x20).opcode).toBe(Opcode.NOP);
+
+        cache.detach();
+        memory.write(0x20, Opcode.HALT);
+        expect(cache.fetch(0x20).opcode).toBe(Opcode.NOP);
+
+        cache.clear();
+        expect(cache.fetch(0x20).opcode).toBe(Opcode.HALT);
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * Core Wars Instruction Cache
+ * Predecoded instructions per address, invalidated when memory is written
+ */
+
+import { InstructionDecoder, Instruction } from './InstructionDecoder.js';
+import { Opcode, OPERAND_SIZE, getInstructionSpec, getInstructionSize } from './ISA.js';
+import { MemorySystem } from '../memory/MemorySystem.js';
+
+export interface InstructionCacheStats {
+    hits: number;          // Fetches answered from the cache
+    misses: number;        // Fetches that decoded from memory
+    invalidations: number; // Cached instructions dropped by writes
+}
+
+export class InstructionCache {
+    private memory: MemorySystem;
+    private decoder: InstructionDecoder;
+    private entries: (Instruction | null)[];
+    private fetchBuffers: number[][]; // Indexed by instruction size, reused across fetches
+    private stats: InstructionCacheStats;
+
+    // Longest encoding: opcode byte plus two operands
+    private static readonly MAX_INSTRUCTION_SIZE = 1 + 2 * OPERAND_SIZE;
+
+    // Unknown opcodes execute as NOP, like in the regular battle loop
+    private static readonly UNKNOWN: Instruction = new InstructionDecoder().decode([Opcode.NOP]);
+
+    /**
+     * Create a cache for a memory system and start listening to its writes
+     * @param memory Memory the instructions are fetched from
+     * @param decoder Decoder used on cache misses
+     */
+    constructor(memory: MemorySystem, decoder: InstructionDecoder = new InstructionDecoder()) {
+        this.memory = memory;
+        this.decoder = decoder;
+        this.entries = new Array(memory.getSize()).fill(null);
+        this.fetchBuffers = [];
+        for (let size = 0; size <= InstructionCache.MAX_INSTRUCTION_SIZE; size++) {
+            this.fetchBuffers.push(new Array(size).fill(0));
+        }
+        this.stats = { hits: 0, misses: 0, invalidations: 0 };
+        memory.setWriteListener(address => this.invalidate(address));
+    }
+
+    /**
+     * Get the instruction at an address, decoding it on a miss. Code is read
+     * one byte per cell, whatever the cell width.
+     * @param pc Address of the opcode byte
+     * @returns Decoded instruction; shared, so callers must not modify it
+     * @throws Error if an addressing mode is invalid (nothing is cached then)
+     */
+    public fetch(pc: number): Instruction {
+        const size = this.entries.length;
+        const address = ((pc % size) + size) % size;
+        const cached = this.entries[address];
+        if (cached !== null) {
+            this.stats.hits++;
+            return cached;
+        }
+
+        this.stats.misses++;
+        const opcode = this.memory.read(address) & 0xFF;
+        let instruction = InstructionCache.UNKNOWN;
+        if (getInstructionSpec(opcode)) {
+            const bytes = this.fetchBuffers[getInstructionSize(opcode)];
+            bytes[0] = opcode;
+            for (let i = 1; i < bytes.length; i++) {
+                bytes[i] = this.memory.read(address + i) & 0xFF;
+            }
+            instruction = this.decoder.decode(bytes);
+        }
+        this.entries[address] = instruction;
+        return instruction;
+    }
+
+    /**
+     * Drop every cached instruction that covers an address
+     * @param address Written address
+     */
+    public invalidate(address: number): void {
+        const size = this.entries.length;
+        for (let offset = 0; offset < InstructionCache.MAX_INSTRUCTION_SIZE; offset++) {
+            const start = (((address - offset) % size) + size) % size;
+            if (this.entries[start] !== null) {
+                this.entries[start] = null;
+                this.stats.invalidations++;
+            }
+        }
+    }
+
+    /**
+     * Drop all cached instructions
+     */
+    public clear(): void {
+        this.entries.fill(null);
+    }
+
+    /**
+     * Stop listening to memory writes; the cache must not be used afterwards
+     */
+    public detach(): void {
+        this.memory.setWriteListener(null);
+    }
+
+    /**
+     * Get hit, miss and invalidation counts
+     */
+    public getStats(): InstructionCacheStats {
+        return { ...this.stats };
+    }
+}
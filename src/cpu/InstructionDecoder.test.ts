@@ -7,50 +7,34 @@ describe('InstructionDecoder', () => {
         decoder = new InstructionDecoder();
     });
 
-    describe('Instruction Parsing', () => {
-        test('decoder.parse() handles all instruction formats', () => {
-            // Test instruction format: [opcode(4)][addrA(2)][addrB(2)] = 8 bits
-            // Example: MOV #1, @2
-            // opcode = 0001 (MOV)
-            // addrA = 00 (Immediate)
-            // addrB = 10 (Indirect)
-            const instruction = 0x12; // 0001 0010 in binary
-
-            const decoded = decoder.parse(instruction);
-            expect(decoded.opcode).toBe(1); // MOV
-            expect(decoded.addressingModeA).toBe(AddressingMode.Immediate);
-            expect(decoded.addressingModeB).toBe(AddressingMode.Indirect);
+    describe('Byte Encoding', () => {
+        test('decoder.decode() places operands in their A/B slots', () => {
+            // add r1, [r2+0x10]: destination r1 is B, source is A
+            const decoded = decoder.decode([0x20, 0x14, 0x00, 0x00, 0x26, 0x10, 0x00]);
+
+            expect(decoded).toEqual({
+                opcode: 0x20,
+                addressingModeA: AddressingMode.RegisterIndexed,
+                operandA: 0x10,
+                registerA: 2,
+                addressingModeB: AddressingMode.Register,
+                operandB: 0,
+                registerB: 1
+            });
         });
 
-        test('decoder.validate() catches invalid opcodes', () => {
-            // Valid opcodes are 0-15 (4 bits)
-            expect(decoder.validateOpcode(0)).toBe(true);
-            expect(decoder.validateOpcode(15)).toBe(true);
-            expect(decoder.validateOpcode(16)).toBe(false);
-            expect(decoder.validateOpcode(-1)).toBe(false);
+        test('decoder.validateOpcode() accepts only ISA opcodes', () => {
+            expect(decoder.validateOpcode(0x00)).toBe(true);  // NOP
+            expect(decoder.validateOpcode(0x10)).toBe(true);  // MOV
+            expect(decoder.validateOpcode(0xFF)).toBe(true);  // HALT
+            expect(decoder.validateOpcode(0x0F)).toBe(false);
+            expect(decoder.validateOpcode(0xEE)).toBe(false);
         });
 
-        test('decoder.parse() throws on invalid addressing modes', () => {
-            // Test each addressing mode position
-            const instructions = [
-                0x1C, // 0001 1100 - addrA = 3 (valid)
-                0x13, // 0001 0011 - addrB = 3 (valid)
-                0x18, // 0001 1000 - addrA = 2 (valid)
-                0x12, // 0001 0010 - addrB = 2 (valid)
-                0x14, // 0001 0100 - addrA = 1 (valid)
-                0x11, // 0001 0001 - addrB = 1 (valid)
-                0x10  // 0001 0000 - both = 0 (valid)
-            ];
-
-            // All these should parse successfully
-            instructions.forEach(inst => {
-                expect(() => decoder.parse(inst)).not.toThrow();
-            });
-
-            // Test invalid instruction formats
-            expect(() => decoder.parse(0x100)).toThrow('Invalid instruction format'); // Extra bits set
-            expect(() => decoder.parse(-1)).toThrow('Invalid instruction format'); // All bits set
-            expect(() => decoder.parse(0xFF)).not.toThrow(); // Valid - all bits within 8-bit range
+        test('decoder.decode() throws on invalid encodings', () => {
+            expect(() => decoder.decode([0xEE])).toThrow('Invalid opcode: 0xee');
+            expect(() => decoder.decode([0x30, 0x00])).toThrow('Invalid instruction format');
+            expect(() => decoder.decode([0x30, 0x0F, 0x00, 0x00])).toThrow('Invalid addressing mode A: 15');
         });
     });
 
@@ -3,81 +3,72 @@
  * Handles opcode parsing, operand extraction, and addressing mode resolution
  */
 
-export enum AddressingMode {
-    Immediate, // Value is used directly
-    Direct,    // Value is used as memory address
-    Indirect,  // Value is used as pointer to memory address
-    Indexed    // Value is added to program counter
-}
+import { AddressingMode, getInstructionSpec, getInstructionSize, decodeOperand, OPERAND_SIZE } from './ISA.js';
+
+export { AddressingMode };
 
 export interface Instruction {
     opcode: number;
     addressingModeA: AddressingMode;
     operandA: number;
+    registerA?: number; // Register index for register-based modes
     addressingModeB: AddressingMode;
     operandB: number;
+    registerB?: number;
 }
 
 export class InstructionDecoder {
-    // Instruction format: [opcode(4)][addrA(2)][addrB(2)]
-    private static readonly OPCODE_MASK = 0xF0;      // 1111 0000
-    private static readonly ADDR_MODE_A_MASK = 0x0C; // 0000 1100
-    private static readonly ADDR_MODE_B_MASK = 0x03; // 0000 0011
-    private static readonly VALID_INSTRUCTION_MASK = 0xFF; // 1111 1111
-
     /**
-     * Parse a raw instruction into its components
-     * @param instruction Raw instruction word
-     * @returns Decoded instruction with opcode, addressing modes, and operands
-     * @throws Error if instruction contains invalid addressing modes
+     * Decode an instruction in the byte encoding defined by the ISA: an opcode
+     * byte followed by three bytes per operand (see encodeOperand)
+     * @param bytes Bytes starting at the instruction; extra bytes are ignored
+     * @returns Decoded instruction with operands in their A/B slots
+     * @throws Error if the opcode or an addressing mode is invalid, or the bytes are cut off
      */
-    public parse(instruction: number): Instruction {
-        // Validate instruction format
-        if ((instruction & ~InstructionDecoder.VALID_INSTRUCTION_MASK) !== 0) {
-            throw new Error('Invalid instruction format: extra bits set');
-        }
-
-        const opcode = (instruction & InstructionDecoder.OPCODE_MASK) >> 4;
-        const addrModeA = (instruction & InstructionDecoder.ADDR_MODE_A_MASK) >> 2;
-        const addrModeB = instruction & InstructionDecoder.ADDR_MODE_B_MASK;
-
-        // Validate addressing modes
-        if (addrModeA > 3) {
-            throw new Error(`Invalid addressing mode A: ${addrModeA}`);
+    public decode(bytes: ArrayLike<number>): Instruction {
+        const opcode = bytes[0] & 0xFF;
+        const spec = getInstructionSpec(opcode);
+        if (!spec) {
+            throw new Error(`Invalid opcode: 0x${opcode.toString(16)}`);
         }
-        if (addrModeB > 3) {
-            throw new Error(`Invalid addressing mode B: ${addrModeB}`);
+        if (bytes.length < getInstructionSize(opcode)) {
+            throw new Error('Invalid instruction format: truncated');
         }
 
-        // Extract operands from next words
-        return {
+        const instruction: Instruction = {
             opcode,
-            addressingModeA: addrModeA,
-            operandA: 0, // Will be set by executor
-            addressingModeB: addrModeB,
-            operandB: 0  // Will be set by executor
+            addressingModeA: AddressingMode.Immediate,
+            operandA: 0,
+            addressingModeB: AddressingMode.Immediate,
+            operandB: 0
         };
-    }
 
-    /**
-     * Validate an addressing mode value
-     * @param mode Raw addressing mode value
-     * @param label Label for error message
-     * @throws Error if mode is invalid
-     */
-    private validateAddressingMode(mode: number, label: string): void {
-        if (mode < 0 || mode > 3) {
-            throw new Error(`Invalid addressing mode ${label}: ${mode}`);
-        }
+        spec.operands.forEach((operandSpec, i) => {
+            const operand = decodeOperand(bytes, 1 + i * OPERAND_SIZE);
+            if (AddressingMode[operand.mode] === undefined) {
+                throw new Error(`Invalid addressing mode ${operandSpec.slot.toUpperCase()}: ${operand.mode}`);
+            }
+            if (operandSpec.slot === 'a') {
+                instruction.addressingModeA = operand.mode;
+                instruction.operandA = operand.value;
+                instruction.registerA = operand.register;
+            } else {
+                instruction.addressingModeB = operand.mode;
+                instruction.operandB = operand.value;
+                instruction.registerB = operand.register;
+            }
+        });
+
+        return instruction;
     }
 
     /**
      * Validate an opcode value
      * @param opcode Raw opcode value
-     * @returns true if opcode is valid
+     * @returns true if the opcode is defined by the ISA
      */
     public validateOpcode(opcode: number): boolean {
-        return opcode >= 0 && opcode <= 15; // 4-bit opcode
+        return getInstructionSpec(opcode) !== undefined;
     }
 
     /**
@@ -94,9 +85,18 @@ export class InstructionDecoder {
             case AddressingMode.Direct:
                 return value;
             case AddressingMode.Indirect:
+            case AddressingMode.PreDecrementIndirect:
+            case AddressingMode.PostIncrementIndirect:
                 return value; // Actual indirection handled by executor
             case AddressingMode.Indexed:
                 return (pc + value) & 0xFFFF; // Wrap to 16 bits
+            case AddressingMode.Register:
+            case AddressingMode.RegisterIndirect:
+            case AddressingMode.RegisterIndexed:
+            case AddressingMode.BaseIndexed:
+            case AddressingMode.RegisterPreDecrement:
+            case AddressingMode.RegisterPostIncrement:
+                return value; // Register contents are applied by executor
             default:
                 throw new Error(`Invalid addressing mode: ${mode}`);
         }
@@ -0,0 +1,154 @@
+/**
+ * Classic Redcode (ICWS '94) Instruction Set
+ * Opcodes, modifiers and addressing modes for warriors that run on a
+ * cell-based core, where every memory cell holds one whole instruction
+ */
+
+export enum RedcodeOpcode {
+    DAT = 'DAT', // Remove the executing process
+    MOV = 'MOV', // Copy
+    ADD = 'ADD', // Add
+    SUB = 'SUB', // Subtract
+    MUL = 'MUL', // Multiply
+    DIV = 'DIV', // Divide (the process dies on division by zero)
+    MOD = 'MOD', // Remainder (the process dies on division by zero)
+    JMP = 'JMP', // Jump
+    JMZ = 'JMZ', // Jump if zero
+    JMN = 'JMN', // Jump if not zero
+    DJN = 'DJN', // Decrement, then jump if not zero
+    SPL = 'SPL', // Queue a new process at the A-pointer
+    SLT = 'SLT', // Skip the next instruction if less than
+    CMP = 'CMP', // Skip the next instruction if equal (same as SEQ)
+    SEQ = 'SEQ', // Skip the next instruction if equal
+    SNE = 'SNE', // Skip the next instruction if not equal
+    NOP = 'NOP'  // No operation
+}
+
+export enum RedcodeModifier {
+    A = 'A',   // A-number to A-number
+    B = 'B',   // B-number to B-number
+    AB = 'AB', // A-number to B-number
+    BA = 'BA', // B-number to A-number
+    F = 'F',   // Both numbers to the same fields
+    X = 'X',   // Both numbers to the opposite fields
+    I = 'I'    // Whole instructions
+}
+
+export enum RedcodeMode {
+    Immediate = '#',          // The operand is the value itself
+    Direct = '$',             // Relative address
+    AIndirect = '*',          // Through the A-number of the addressed cell
+    BIndirect = '@',          // Through the B-number of the addressed cell
+    APreDecrement = '{',      // Decrement the A-number, then indirect through it
+    BPreDecrement = '<',      // Decrement the B-number, then indirect through it
+    APostIncrement = '}',     // Indirect through the A-number, then increment it
+    BPostIncrement = '>'      // Indirect through the B-number, then increment it
+}
+
+/**
+ * One operand: an addressing mode and a number
+ */
+export interface RedcodeOperand {
+    mode: RedcodeMode;
+    value: number;
+}
+
+/**
+ * One instruction, which is also the content of one core cell
+ */
+export interface RedcodeInstruction {
+    opcode: RedcodeOpcode;
+    modifier: RedcodeModifier;
+    a: RedcodeOperand;
+    b: RedcodeOperand;
+}
+
+const OPCODES = new Set<string>(Object.values(RedcodeOpcode));
+const MODIFIERS = new Set<string>(Object.values(RedcodeModifier));
+const MODES = new Set<string>(Object.values(RedcodeMode));
+
+/**
+ * Check whether a name is a Redcode opcode (case-insensitive)
+ */
+export function isRedcodeOpcode(name: string): boolean {
+    return OPCODES.has(name.toUpperCase());
+}
+
+/**
+ * Check whether a name is an opcode modifier (case-insensitive)
+ */
+export function isRedcodeModifier(name: string): boolean {
+    return MODIFIERS.has(name.toUpperCase());
+}
+
+/**
+ * Check whether a character is an addressing mode symbol
+ */
+export function isRedcodeMode(symbol: string): boolean {
+    return MODES.has(symbol);
+}
+
+/**
+ * Get the modifier ICWS '94 assigns to an instruction written without one
+ * @param opcode Instruction opcode
+ * @param aMode A-operand addressing mode
+ * @param bMode B-operand addressing mode
+ */
+export function getDefaultModifier(opcode: RedcodeOpcode, aMode: RedcodeMode, bMode: RedcodeMode): RedcodeModifier {
+    switch (opcode) {
+        case RedcodeOpcode.DAT:
+        case RedcodeOpcode.NOP:
+            return RedcodeModifier.F;
+        case RedcodeOpcode.MOV:
+        case RedcodeOpcode.CMP:
+        case RedcodeOpcode.SEQ:
+        case RedcodeOpcode.SNE:
+            if (aMode === RedcodeMode.Immediate) return RedcodeModifier.AB;
+            if (bMode === RedcodeMode.Immediate) return RedcodeModifier.B;
+            return RedcodeModifier.I;
+        case RedcodeOpcode.ADD:
+        case RedcodeOpcode.SUB:
+        case RedcodeOpcode.MUL:
+        case RedcodeOpcode.DIV:
+        case RedcodeOpcode.MOD:
+            if (aMode === RedcodeMode.Immediate) return RedcodeModifier.AB;
+            if (bMode === RedcodeMode.Immediate) return RedcodeModifier.B;
+            return RedcodeModifier.F;
+        case RedcodeOpcode.SLT:
+            return aMode === RedcodeMode.Immediate ? RedcodeModifier.AB : RedcodeModifier.B;
+        default:
+            return RedcodeModifier.B;
+    }
+}
+
+/**
+ * The instruction every core cell holds before warriors are loaded
+ */
+export function createEmptyCell(): RedcodeInstruction {
+    return {
+        opcode: RedcodeOpcode.DAT,
+        modifier: RedcodeModifier.F,
+        a: { mode: RedcodeMode.Direct, value: 0 },
+        b: { mode: RedcodeMode.Direct, value: 0 }
+    };
+}
+
+/**
+ * Copy an instruction, e.g. into an instruction register
+ */
+export function copyInstruction(instruction: RedcodeInstruction): RedcodeInstruction {
+    return {
+        opcode: instruction.opcode,
+        modifier: instruction.modifier,
+        a: { ...instruction.a },
+        b: { ...instruction.b }
+    };
+}
+
+/**
+ * Format an instruction in load-file style, e.g. "MOV.I $0, $1"
+ */
+export function formatRedcode(instruction: RedcodeInstruction): string {
+    const { opcode, modifier, a, b } = instruction;
+    return `${opcode}.${modifier} ${a.mode}${a.value}, ${b.mode}${b.value}`;
+}
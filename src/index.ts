@@ -3,7 +3,7 @@
  * Initializes the Core Wars battle server and API
  */
 
-import { server } from './server/api.js';
+import { startServer } from './server/api.js';
 import fs from 'fs';
 import path from 'path';
 
@@ -17,7 +17,7 @@ if (!fs.existsSync(botsDir)) {
 // Log directories
 console.log('Bot directory:', botsDir);
 
-// Start server (handled in api.js)
+const server = startServer();
 console.log('Core Wars server is running!');
 console.log('API available at: http://localhost:8080/api');
 console.log('WebSocket available at: ws://localhost:8080/ws');
@@ -47,6 +47,42 @@ describe('MemorySystem', () => {
         });
     });
 
+    describe('Cell Width', () => {
+        test('byte memory stores words as two little-endian cells', () => {
+            memory.writeWord(0x2000, 0x1234);
+            expect(memory.read(0x2000)).toBe(0x34);
+            expect(memory.read(0x2001)).toBe(0x12);
+            expect(memory.readWord(0x2000)).toBe(0x1234);
+            expect(memory.getWordCells()).toBe(2);
+        });
+
+        test('byte memory words wrap around the end of memory', () => {
+            memory.writeWord(0xFFFF, 0xABCD);
+            expect(memory.read(0xFFFF)).toBe(0xCD);
+            expect(memory.read(0x0000)).toBe(0xAB);
+            expect(memory.readWord(-1)).toBe(0xABCD);
+        });
+
+        test('word memory stores 16 bits per cell', () => {
+            memory = new MemorySystem(0x1000, 16);
+            expect(memory.getCellWidth()).toBe(16);
+            expect(memory.getWordCells()).toBe(1);
+
+            memory.write(0x10, 0x1FFFF);
+            expect(memory.read(0x10)).toBe(0xFFFF);
+
+            memory.writeWord(0x20, 0xBEEF);
+            expect(memory.read(0x20)).toBe(0xBEEF);
+            expect(memory.read(0x21)).toBe(0);
+            expect(memory.getMemory()).toBeInstanceOf(Uint16Array);
+        });
+
+        test('word writes respect protection', () => {
+            memory.protect(0x3001);
+            expect(() => memory.writeWord(0x3000, 0x1234)).toThrow('Memory protection violation');
+        });
+    });
+
     describe('Memory Allocation', () => {
         test('memory.allocate(0x1000) returns valid address', () => {
             const addr = memory.allocate(0x1000);
@@ -2,6 +2,19 @@
  * Core Wars Memory System Implementation
  * 16-bit addressable memory with circular addressing and protection
  */
+
+import { Logger, defaultLogger } from '../battle/Logger.js';
+
+/**
+ * Width of one memory cell in bits: 8-bit bytes or 16-bit words
+ */
+export type CellWidth = 8 | 16;
+
+/**
+ * Raw memory contents, one element per cell
+ */
+export type MemoryCells = Uint8Array | Uint16Array;
+
 export interface AccessViolation {
     type: 'protection' | 'bounds' | 'allocation';
     address: number;
@@ -11,21 +24,32 @@ export interface AccessViolation {
 }
 
 export class MemorySystem {
-    private memory: Uint8Array;
+    private memory: MemoryCells;
+    private cellWidth: CellWidth;
     private protectedRegions: Set<number>;
     private allocatedRegions: Map<number, number>; // start -> size
     private accessLog: AccessViolation[];
+    private writeListener: ((address: number) => void) | null;
     private readonly SIZE: number;
+    protected logger: Logger;
 
-    constructor(size?: number) {
+    /**
+     * @param size number of cells, default 65536
+     * @param cellWidth bits per cell, default 8
+     * @param logger logger for the memory category
+     */
+    constructor(size?: number, cellWidth: CellWidth = 8, logger: Logger = defaultLogger) {
         // Allow customizing memory size, default to 64KB
         this.SIZE = size || 65536; 
-        console.log(`Initializing memory system with ${this.SIZE} bytes`);
+        this.logger = logger;
+        this.logger.debug('memory', () => `Initializing memory system with ${this.SIZE} ${cellWidth === 16 ? 'words' : 'bytes'}`);
         
-        this.memory = new Uint8Array(this.SIZE);
+        this.cellWidth = cellWidth;
+        this.memory = cellWidth === 16 ? new Uint16Array(this.SIZE) : new Uint8Array(this.SIZE);
         this.protectedRegions = new Set();
         this.allocatedRegions = new Map();
         this.accessLog = [];
+        this.writeListener = null;
     }
 
     /**
@@ -79,9 +103,9 @@ export class MemorySystem {
     }
 
     /**
-     * Read a byte from memory with bounds checking and access logging
+     * Read a cell from memory with bounds checking and access logging
      * @param address 16-bit address
-     * @returns byte value at address
+     * @returns cell value at address
      * @throws Error if address is out of bounds
      */
     public read(address: number): number {
@@ -90,9 +114,9 @@ export class MemorySystem {
     }
 
     /**
-     * Write a byte to memory with protection checking
+     * Write a cell to memory with protection checking
      * @param address 16-bit address
-     * @param value byte to write
+     * @param value value to write, truncated to the cell width
      * @throws Error if address is protected
      */
     public write(address: number, value: number): void {
@@ -109,7 +133,71 @@ export class MemorySystem {
             throw new Error(`Memory protection violation at address 0x${normalizedAddress.toString(16)}`);
         }
 
-        this.memory[normalizedAddress] = value & 0xFF;
+        this.memory[normalizedAddress] = value & ((1 << this.cellWidth) - 1);
+        if (this.writeListener !== null) {
+            this.writeListener(normalizedAddress);
+        }
+    }
+
+    /**
+     * Register a function called with the normalized address after every
+     * successful write, e.g. to invalidate cached decodes. Replaces any
+     * previous listener.
+     * @param listener callback, or null to remove it
+     */
+    public setWriteListener(listener: ((address: number) => void) | null): void {
+        this.writeListener = listener;
+    }
+
+    /**
+     * Read a 16-bit word: one cell in word memory, two little-endian cells in byte memory
+     * @param address 16-bit address of the (low) cell
+     * @returns word value at address
+     */
+    public readWord(address: number): number {
+        if (this.cellWidth === 16) {
+            return this.read(address);
+        }
+        return this.read(address) | (this.read(address + 1) << 8);
+    }
+
+    /**
+     * Write a 16-bit word: one cell in word memory, two little-endian cells in byte memory
+     * @param address 16-bit address of the (low) cell
+     * @param value word to write
+     * @throws Error if an address is protected
+     */
+    public writeWord(address: number, value: number): void {
+        if (this.cellWidth === 16) {
+            this.write(address, value & 0xFFFF);
+            return;
+        }
+        this.write(address, value & 0xFF);
+        this.write(address + 1, (value >> 8) & 0xFF);
+    }
+
+    /**
+     * Get the number of cells in memory
+     * @returns memory size in cells
+     */
+    public getSize(): number {
+        return this.SIZE;
+    }
+
+    /**
+     * Get the width of a memory cell
+     * @returns bits per cell (8 or 16)
+     */
+    public getCellWidth(): CellWidth {
+        return this.cellWidth;
+    }
+
+    /**
+     * Get the number of cells a 16-bit word occupies
+     * @returns 1 for word memory, 2 for byte memory
+     */
+    public getWordCells(): number {
+        return 16 / this.cellWidth;
     }
 
     /**
@@ -146,7 +234,7 @@ export class MemorySystem {
      */
     private logViolation(violation: AccessViolation): void {
         this.accessLog.push(violation);
-        console.warn(`Memory ${violation.type} violation at 0x${violation.address.toString(16)}: ${violation.message}`);
+        this.logger.debug('memory', () => `Memory ${violation.type} violation at 0x${violation.address.toString(16)}: ${violation.message}`);
     }
 
     /**
@@ -188,6 +276,14 @@ export class MemorySystem {
         return [...this.accessLog];
     }
 
+    /**
+     * Get the number of logged violations without copying the log
+     * @returns violation count
+     */
+    public getAccessViolationCount(): number {
+        return this.accessLog.length;
+    }
+
     /**
      * Clear access violation log
      */
@@ -209,7 +305,7 @@ export class MemorySystem {
      * Get the raw memory array for visualization
      * @returns copy of the memory array
      */
-    public getMemory(): Uint8Array {
-        return new Uint8Array(this.memory);
+    public getMemory(): MemoryCells {
+        return this.memory.slice();
     }
 }
\ No newline at end of file
@@ -3,15 +3,16 @@
  * Extends the basic memory system to track which process owns each memory location
  */
 
-import { MemorySystem } from './MemorySystem.js';
+import { MemorySystem, CellWidth } from './MemorySystem.js';
 import { ProcessId } from '../battle/types.js';
+import { Logger } from '../battle/Logger.js';
 
 export class TrackedMemorySystem extends MemorySystem {
   private owners: Uint16Array;
   private currentOwner: ProcessId | null = null;
 
-  constructor(size?: number) {
-    super(size);
+  constructor(size?: number, cellWidth?: CellWidth, logger?: Logger) {
+    super(size, cellWidth, logger);
     // Track owner for each memory location (0 = unowned)
     this.owners = new Uint16Array(size || 65536);
   }
@@ -1,5 +1,7 @@
 import { AssemblyParser } from './AssemblyParser.js';
+import { InMemoryResolver } from './SourceResolver.js';
 import { TokenType } from './types.js';
+import { AddressingMode } from '../cpu/ISA.js';
 
 describe('AssemblyParser', () => {
   let parser: AssemblyParser;
@@ -135,6 +137,365 @@ describe('AssemblyParser', () => {
     });
   });
 
+  describe('constant expressions', () => {
+    it('evaluates equ expressions without relying on a start label', () => {
+      const source = `
+        entry:
+          nop
+          nop
+        size equ $ - entry
+        double equ (size * 2) | 1
+      `;
+
+      const result = parser.parse(source);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.symbols['size']).toBe(2);
+      expect(result.symbols['double']).toBe(5);
+    });
+
+    it('folds operand expressions into immediates', () => {
+      const source = `
+        start:
+          mov r0, end - start
+          add r1, #(1 << 3)
+        end:
+      `;
+
+      const result = parser.parse(source);
+      const immediates = result.tokens.filter(t => t.type === TokenType.Immediate);
+
+      expect(result.errors).toHaveLength(0);
+      expect(immediates.map(t => t.value)).toEqual(['14', '8']);
+    });
+
+    it('keeps the label that an operand expression offsets', () => {
+      const source = `
+        start:
+          mov cx, table + 2
+          mov r0, table - start
+        table: dw 1, 2
+      `;
+
+      const result = parser.parse(source);
+      const immediates = result.tokens.filter(t => t.type === TokenType.Immediate);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.tokens).toContainEqual({ type: TokenType.Label, value: 'table', line: 5 });
+      expect(immediates).toEqual([
+        { type: TokenType.Immediate, value: '16', line: 3, symbol: 'table' },
+        { type: TokenType.Immediate, value: '14', line: 4 },
+        { type: TokenType.Immediate, value: '1', line: 5 },
+        { type: TokenType.Immediate, value: '2', line: 5 }
+      ]);
+    });
+
+    it('resolves constants that reference later symbols', () => {
+      const result = parser.parse(`
+        span equ finish - begin
+        begin:
+          nop
+        finish:
+      `);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.symbols['span']).toBe(1);
+    });
+
+    it('reports constants that cannot be resolved', () => {
+      const result = parser.parse('broken equ nowhere + 1');
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].message).toContain('Undefined symbol: nowhere');
+      expect(result.errors[0].line).toBe(1);
+    });
+  });
+
+  describe('memory operands', () => {
+    it('parses bracketed and Redcode-style addressing modes', () => {
+      const source = `
+        start:
+          mov [bx], [cx + 4]
+          mov [r1 - 2], [r1 + r2]
+          mov [--r3], [si++]
+          mov @ptr, <ptr
+          mov >r2, [table + 1]
+        ptr dw table
+        table db 1, 2
+      `;
+
+      const result = parser.parse(source);
+      const memory = result.tokens.filter(t => t.type === TokenType.MemoryAccess).map(t => t.memory);
+
+      expect(result.errors).toHaveLength(0);
+      expect(memory).toEqual([
+        { mode: AddressingMode.RegisterIndirect, register: 'bx', offset: 0 },
+        { mode: AddressingMode.RegisterIndexed, register: 'cx', offset: 4 },
+        { mode: AddressingMode.RegisterIndexed, register: 'r1', offset: -2 },
+        { mode: AddressingMode.BaseIndexed, register: 'r1', index: 'r2', offset: 0 },
+        { mode: AddressingMode.RegisterPreDecrement, register: 'r3', offset: 0 },
+        { mode: AddressingMode.RegisterPostIncrement, register: 'si', offset: 0 },
+        { mode: AddressingMode.Indirect, offset: 35, symbol: 'ptr' },
+        { mode: AddressingMode.PreDecrementIndirect, offset: 35, symbol: 'ptr' },
+        { mode: AddressingMode.RegisterPostIncrement, register: 'r2', offset: 0 },
+        { mode: AddressingMode.Direct, offset: 38, symbol: 'table' }
+      ]);
+    });
+
+    it('reports malformed memory operands', () => {
+      const result = parser.parse('mov [bx - cx], 0');
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].message).toBe('Invalid memory operand: [bx - cx]');
+    });
+  });
+
+  describe('macros', () => {
+    it('expands macros with parameters before collecting symbols', () => {
+      const source = `
+        .macro twice reg, value
+          mov reg, value
+          add reg, value
+        .endm
+        start:
+          twice r1, 4
+        after:
+          nop
+      `;
+
+      const result = parser.parse(source);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.symbols['after']).toBe(14);
+      expect(result.tokens.filter(t => t.type === TokenType.Instruction).map(t => t.value))
+        .toEqual(['mov', 'add', 'nop']);
+      expect(result.tokens.filter(t => t.type === TokenType.Register).every(t => t.value === 'r1')).toBe(true);
+    });
+
+    it('gives each invocation unique local labels', () => {
+      const source = `
+        .macro spin
+        here\\@:
+          jmp here\\@
+        .endm
+          spin
+          spin
+      `;
+
+      const result = parser.parse(source);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.symbols['here_1']).toBe(0);
+      expect(result.symbols['here_2']).toBe(4);
+    });
+
+    it('reports expanded lines at the invocation line', () => {
+      const source = [
+        '.macro bad',
+        '  bogus r0',
+        '.endm',
+        '  nop',
+        '  bad'
+      ].join('\n');
+
+      const result = parser.parse(source);
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].line).toBe(5);
+    });
+
+    it('catches malformed macro definitions and invocations', () => {
+      const source = `
+        .macro pair a, b
+          mov a, b
+        .endm
+          pair r0
+        .endm
+        .macro open
+      `;
+
+      const messages = parser.parse(source).errors.map(e => e.message);
+
+      expect(messages).toEqual(expect.arrayContaining([
+        expect.stringContaining('expects 2 argument(s), got 1'),
+        expect.stringContaining('.endm without matching .macro'),
+        expect.stringContaining('Unterminated macro: open')
+      ]));
+    });
+  });
+
+  describe('includes', () => {
+    it('inlines included files and keeps their origin', () => {
+      const resolver = new InMemoryResolver({
+        'lib/bombs.inc': [
+          '.macro drop target',
+          '  mov [target], 0',
+          '.endm',
+          'bomb_value equ 0xF0'
+        ].join('\n')
+      });
+      parser = new AssemblyParser(resolver);
+
+      const result = parser.parse([
+        '.include "lib/bombs.inc"',
+        'start:',
+        '  drop 0x200',
+        '  mov r0, bomb_value'
+      ].join('\n'), 'bot.asm');
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.symbols['bomb_value']).toBe(0xF0);
+      expect(result.tokens).toEqual(expect.arrayContaining([
+        { type: TokenType.Label, value: 'bomb_value', line: 4, file: 'lib/bombs.inc' },
+        { type: TokenType.Instruction, value: 'mov', line: 3, file: 'bot.asm' }
+      ]));
+    });
+
+    it('resolves nested includes relative to the including file', () => {
+      const resolver = new InMemoryResolver({
+        'lib/all.inc': '.include "scan.inc"',
+        'lib/scan.inc': 'oops r0'
+      });
+      parser = new AssemblyParser(resolver);
+
+      const result = parser.parse('.include "lib/all.inc"');
+
+      expect(result.errors).toEqual([
+        { message: 'Invalid instruction: oops', line: 1, file: 'lib/scan.inc' }
+      ]);
+    });
+
+    it('detects include cycles', () => {
+      const resolver = new InMemoryResolver({
+        'a.inc': '.include "b.inc"',
+        'b.inc': '.include "a.inc"'
+      });
+      parser = new AssemblyParser(resolver);
+
+      const result = parser.parse('.include "a.inc"', 'main.asm');
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].message).toBe('Include cycle detected: main.asm -> a.inc -> b.inc -> a.inc');
+      expect(result.errors[0].file).toBe('b.inc');
+    });
+
+    it('reports missing files and a missing resolver', () => {
+      parser = new AssemblyParser(new InMemoryResolver());
+      expect(parser.parse('.include "nope.inc"').errors[0].message).toBe('Include file not found: nope.inc');
+
+      parser = new AssemblyParser();
+      expect(parser.parse('.include "nope.inc"').errors[0].message).toContain('no include resolver configured');
+    });
+  });
+
+  describe('section layout', () => {
+    it('places .data labels after the code', () => {
+      const source = [
+        'start:',
+        '  mov r0, table',
+        '  halt',
+        '.data',
+        'table: dw 1',
+        'other: dw 2',
+        '.code',
+        'tail:',
+        '  nop'
+      ].join('\n');
+
+      const result = parser.parse(source);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.symbols['start']).toBe(0);
+      expect(result.symbols['tail']).toBe(8);
+      expect(result.symbols['table']).toBe(9);
+      expect(result.symbols['other']).toBe(11);
+    });
+
+    it('honours .org, .align and .space', () => {
+      const source = [
+        'SIZE equ 4',
+        '  nop',
+        '.space SIZE',
+        'after_space:',
+        '  nop',
+        '.align 8',
+        'aligned:',
+        '  nop',
+        '.org 0x40',
+        'pinned:',
+        '  nop'
+      ].join('\n');
+
+      const result = parser.parse(source);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.symbols['after_space']).toBe(5);
+      expect(result.symbols['aligned']).toBe(8);
+      expect(result.symbols['pinned']).toBe(0x40);
+    });
+
+    it('re-evaluates constants once data labels are placed', () => {
+      const result = parser.parse([
+        '  nop',
+        '.data',
+        'table: dw 1',
+        '.code',
+        'table_end equ table + 1'
+      ].join('\n'));
+
+      expect(result.symbols['table']).toBe(1);
+      expect(result.symbols['table_end']).toBe(2);
+    });
+
+    it('reports invalid layout values', () => {
+      const result = parser.parse('.align 0\n.space missing');
+
+      expect(result.errors.map(e => e.message)).toEqual([
+        'Invalid .align value: 0',
+        'Undefined symbol: missing'
+      ]);
+    });
+  });
+
+  describe('address accounting', () => {
+    it('assigns label addresses in bytes', () => {
+      const source = [
+        'start:',
+        '  mov r0, 1',
+        '  push r0',
+        '  ret',
+        'target:',
+        '  jmp start',
+        'table: dw 1, 2, 3',
+        'flags: db 1',
+        'after:'
+      ].join('\n');
+
+      const result = parser.parse(source);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.symbols['target']).toBe(12);
+      expect(result.symbols['table']).toBe(16);
+      expect(result.symbols['flags']).toBe(22);
+      expect(result.symbols['after']).toBe(23);
+    });
+
+    it('ignores the word size prefix on memory operands', () => {
+      const result = parser.parse('cmp word [bx], 0');
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.tokens.map(t => t.type)).toEqual([
+        TokenType.Instruction, TokenType.MemoryAccess, TokenType.Immediate
+      ]);
+    });
+
+    it('reports extra operands', () => {
+      const result = parser.parse('inc r0, r1');
+
+      expect(result.errors).toEqual([{ message: 'Too many operands for inc: expected 1, got 2', line: 1 }]);
+    });
+  });
+
   describe('parse()', () => {
     it('returns complete parse result', () => {
       const source = `
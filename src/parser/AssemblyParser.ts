@@ -1,13 +1,32 @@
-import { Token, TokenType, ParseError, ParseResult, SymbolTable } from './types.js';
+import { Token, TokenType, ParseError, ParseResult, SymbolTable, SourceLine, MemoryOperand } from './types.js';
+import { ExpressionEvaluator } from './ExpressionEvaluator.js';
+import { MacroExpander } from './MacroExpander.js';
+import { SourceResolver } from './SourceResolver.js';
+import { SectionLayout, LayoutPosition } from './SectionLayout.js';
+import { CodeGenerator } from './CodeGenerator.js';
+import { AddressingMode, getDataSize } from '../cpu/ISA.js';
+
+// An equ constant, re-evaluated once label addresses are final
+interface PendingConstant {
+  symbol: string;
+  expression: string;
+  position: LayoutPosition;
+  source: SourceLine;
+}
 
 export class AssemblyParser {
+  private static readonly MAX_INCLUDE_DEPTH = 32;
+
+  private resolver: SourceResolver | null;
   private source: string = '';
+  private lines: SourceLine[] = [];
+  private lineAddresses: number[] = [];
+  private evaluator: ExpressionEvaluator = new ExpressionEvaluator();
   private tokens: Token[] = [];
   private errors: ParseError[] = [];
   private symbols: SymbolTable = {};
   private botMetadata: { [key: string]: string } = {};
   private currentAddress: number = 0;
-  private inDataSection: boolean = false;
 
   // Valid instructions for our assembly language
   private static readonly VALID_INSTRUCTIONS = new Set([
@@ -15,9 +34,10 @@ export class AssemblyParser {
     'jmp', 'jz', 'jnz', 'je', 'jne', 'jl', 'jg', 'jge', 'jle',
     'push', 'pop', 'call', 'ret',
     'and', 'or', 'xor', 'not',
+    'shl', 'shr', 'sar', 'rol', 'ror',
     'inc', 'dec', 'nop', 'halt',
-    'cmp', 'spl', 'dat',
-    'test', 'lea', 'xchg'
+    'cmp', 'spl', 'dat', 'ldp', 'stp',
+    'test', 'bt', 'lea', 'xchg'
   ]);
 
   // Valid registers
@@ -28,6 +48,13 @@ export class AssemblyParser {
     'si', 'di', 'word'       // Additional index registers and modifiers
   ]);
   
+  // Redcode-style memory operand prefixes: the mode used with a register and with an address
+  private static readonly MEMORY_PREFIXES: { [prefix: string]: { register: AddressingMode; pointer: AddressingMode } } = {
+    '@': { register: AddressingMode.RegisterIndirect, pointer: AddressingMode.Indirect },
+    '<': { register: AddressingMode.RegisterPreDecrement, pointer: AddressingMode.PreDecrementIndirect },
+    '>': { register: AddressingMode.RegisterPostIncrement, pointer: AddressingMode.PostIncrementIndirect }
+  };
+  
   // Valid directives
   private static readonly VALID_DIRECTIVES = new Set([
     '.name', '.author', '.version', '.strategy',
@@ -46,10 +73,36 @@ export class AssemblyParser {
     '$': 0, // Special $ symbol for current address
   };
 
-  public parse(source: string): ParseResult {
+  /**
+   * @param resolver Resolves `.include` directives; without one, includes are reported as errors
+   */
+  constructor(resolver?: SourceResolver) {
+    this.resolver = resolver ?? null;
+  }
+
+  /**
+   * Parse assembly source
+   * @param source Assembly source text
+   * @param fileName Name of the source file, recorded on tokens and errors and
+   *                 used as the base for relative includes
+   */
+  public parse(source: string, fileName?: string): ParseResult {
     this.reset();
     this.source = source;
     
+    // Inline .include'd files first so they can provide macros and labels
+    const sourceLines = this.inlineIncludes(this.toSourceLines(source, fileName), fileName ? [fileName] : []);
+    
+    // Expand macros before anything else so expanded lines are assembled normally
+    const expander = new MacroExpander(new Set([
+      ...AssemblyParser.VALID_INSTRUCTIONS,
+      ...AssemblyParser.VALID_DATA_DEFS,
+      ...AssemblyParser.VALID_REGISTERS
+    ]));
+    const expansion = expander.expand(sourceLines);
+    this.lines = expansion.lines;
+    this.errors.push(...expansion.errors);
+    
     // First pass to collect labels, directives, and symbols
     this.collectSymbols();
     
@@ -64,43 +117,95 @@ export class AssemblyParser {
     };
   }
 
+  private toSourceLines(source: string, file?: string): SourceLine[] {
+    return source.split('\n').map((text, index) => file ? { text, line: index + 1, file } : { text, line: index + 1 });
+  }
+
+  // Replace .include lines with the lines of the included file, recursively
+  private inlineIncludes(lines: SourceLine[], includeStack: string[]): SourceLine[] {
+    const result: SourceLine[] = [];
+    
+    for (const sourceLine of lines) {
+      const match = /^\s*\.include\s+(?:"([^"]*)"|([^\s;]+))/i.exec(sourceLine.text);
+      if (!match) {
+        result.push(sourceLine);
+        continue;
+      }
+      
+      const includePath = match[1] ?? match[2];
+      const fail = (message: string) => this.errors.push(
+        sourceLine.file ? { message, line: sourceLine.line, file: sourceLine.file } : { message, line: sourceLine.line }
+      );
+      
+      if (!this.resolver) {
+        fail(`Cannot include ${includePath}: no include resolver configured`);
+        continue;
+      }
+      
+      if (includeStack.length >= AssemblyParser.MAX_INCLUDE_DEPTH) {
+        fail(`Include nesting too deep: ${includePath}`);
+        continue;
+      }
+      
+      try {
+        const resolvedPath = this.resolver.resolvePath(includePath, sourceLine.file ?? null);
+        if (includeStack.includes(resolvedPath)) {
+          fail(`Include cycle detected: ${[...includeStack, resolvedPath].join(' -> ')}`);
+          continue;
+        }
+        
+        const included = this.toSourceLines(this.resolver.read(resolvedPath), resolvedPath);
+        result.push(...this.inlineIncludes(included, [...includeStack, resolvedPath]));
+      } catch (error) {
+        fail(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+    
+    return result;
+  }
+
   private reset(): void {
     this.tokens = [];
     this.errors = [];
+    this.lines = [];
+    this.lineAddresses = [];
     this.symbols = { ...AssemblyParser.PREDEFINED_SYMBOLS };
     this.botMetadata = {};
     this.currentAddress = 0;
-    this.inDataSection = false;
   }
 
   private collectSymbols(): void {
-    const lines = this.source.split('\n');
-    let currentAddress = 0;
+    // Mirrors CodeGenerator.layout so labels in .data/.const or after .org line up
+    const layout = new SectionLayout();
+    const linePositions: LayoutPosition[] = [];
+    const labelPositions: { [label: string]: LayoutPosition } = {};
     
-    // Track the start label for code_size calculation
-    let startLabelAddress = 0;
+    // Constants are evaluated eagerly for use by .org/.align/.space, then again
+    // once the layout is final (they may reference labels defined further down)
+    const constants: PendingConstant[] = [];
     
-    for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-      const line = lines[lineNum].trim();
+    const defineLabel = (label: string) => {
+      labelPositions[label] = layout.position();
+      this.symbols[label] = layout.position().offset;
+    };
+    
+    for (let index = 0; index < this.lines.length; index++) {
+      const line = this.lines[index].text.trim();
+      linePositions[index] = layout.position();
       
       // Skip empty lines and comments
       if (!line || line.startsWith(';')) {
         continue;
       }
       
-      // Store the $ symbol's current value
-      this.symbols['$'] = currentAddress;
+      // Store the $ symbol's current value (final once the layout is resolved)
+      this.symbols['$'] = layout.position().offset;
       
       // Handle label declarations (ending with :)
       if (line.endsWith(':')) {
         const label = line.slice(0, -1).trim();
         if (this.validateIdentifier(label)) {
-          this.symbols[label] = currentAddress;
-          
-          // If this is the 'start' label, remember its address
-          if (label === 'start') {
-            startLabelAddress = currentAddress;
-          }
+          defineLabel(label);
         }
       }
       // Handle directives
@@ -108,11 +213,12 @@ export class AssemblyParser {
         const parts = this.splitLine(line);
         const directive = parts[0].toLowerCase();
         
-        // Section directives can affect address
-        if (directive === '.code') {
-          this.inDataSection = false;
-        } else if (directive === '.data' || directive === '.const') {
-          this.inDataSection = true;
+        // Section and placement directives affect addresses
+        const section = directive.slice(1);
+        if (SectionLayout.isSection(section)) {
+          layout.switchTo(section);
+        } else if (directive === '.org' || directive === '.align' || directive === '.space') {
+          this.applyLayoutDirective(layout, directive, parts[1], this.lines[index]);
         }
         // Handle metadata directives
         else if (directive === '.name' || directive === '.author' || 
@@ -131,71 +237,130 @@ export class AssemblyParser {
           if (parts[0].endsWith(':') && parts.length > 2) {
             const label = parts[0].slice(0, -1).trim();
             if (this.validateIdentifier(label)) {
-              this.symbols[label] = currentAddress;
+              defineLabel(label);
               const defType = parts[1].toLowerCase();
               if (AssemblyParser.VALID_DATA_DEFS.has(defType)) {
-                // For actual data allocations, increment address
-                if (defType === 'dw' || defType === 'db' || defType === 'dq') {
-                  currentAddress++;
-                }
+                // Data allocations take their encoded size
+                layout.advance(getDataSize(defType, parts.length - 2));
               }
             }
           }
           // Check for "name equ value" pattern
           else if (parts.length >= 3 && parts[1].toLowerCase() === 'equ') {
             const symbol = parts[0];
+            const expression = parts.slice(2).join(' ');
             if (this.validateIdentifier(symbol)) {
-              // Special handling for "code_size equ $ - start"
-              if (symbol === 'code_size' && parts[2] === '$' && parts.length >= 5 && parts[3] === '-' && parts[4] === 'start') {
-                // Calculate the actual code size
-                this.symbols[symbol] = currentAddress - startLabelAddress;
-              }
-              // Handle "defense_start equ 0x300" pattern
-              else if (parts[2].startsWith('0x')) {
-                this.symbols[symbol] = parseInt(parts[2].slice(2), 16);
-              }
-              // Other equ definitions
-              else if (this.validateNumber(parts[2])) {
-                this.symbols[symbol] = parseInt(parts[2], 0);
+              try {
+                this.symbols[symbol] = this.evaluator.evaluate(expression, this.symbols);
+              } catch {
+                // Forward reference, resolved below
               }
+              constants.push({ symbol, expression, position: layout.position(), source: this.lines[index] });
             }
           }
           // Check for simple "name dw value" pattern
           else if (AssemblyParser.VALID_DATA_DEFS.has(parts[1].toLowerCase())) {
             const symbol = parts[0];
             if (this.validateIdentifier(symbol)) {
-              this.symbols[symbol] = currentAddress;
-              // For actual data allocations, increment address
-              if (parts[1].toLowerCase() === 'dw' || parts[1].toLowerCase() === 'db' || parts[1].toLowerCase() === 'dq') {
-                currentAddress++;
-              }
+              defineLabel(symbol);
+              // Data allocations take their encoded size
+              layout.advance(getDataSize(parts[1], parts.length - 2));
             }
           }
-          // Normal instructions increment address
+          // Instructions take their encoded size (shared with CodeGenerator)
           else if (AssemblyParser.VALID_INSTRUCTIONS.has(parts[0].toLowerCase())) {
-            currentAddress++;
+            layout.advance(CodeGenerator.getInstructionSize(parts[0]) ?? 1);
           }
         }
         // Single token lines might be instructions without operands
         else if (parts.length === 1 && AssemblyParser.VALID_INSTRUCTIONS.has(parts[0].toLowerCase())) {
-          currentAddress++;
+          layout.advance(CodeGenerator.getInstructionSize(parts[0]) ?? 1);
         }
       }
     }
+    
+    // Place the floating sections and convert labels and line addresses to final addresses
+    layout.finalize();
+    for (const [label, position] of Object.entries(labelPositions)) {
+      this.symbols[label] = layout.resolve(position);
+    }
+    this.lineAddresses = linePositions.map(position => layout.resolve(position));
+    
+    for (const constant of constants) {
+      delete this.symbols[constant.symbol];
+    }
+    this.resolvePendingConstants(constants, layout);
   }
 
-  private tokenize(): void {
-    const lines = this.source.split('\n');
+  // Apply .org, .align or .space while collecting symbols
+  private applyLayoutDirective(layout: SectionLayout, directive: string, operand: string | undefined, source: SourceLine): void {
+    try {
+      if (operand === undefined) {
+        throw new Error(`Missing value for ${directive}`);
+      }
+      const value = this.evaluator.evaluate(operand.startsWith('#') ? operand.slice(1) : operand, this.symbols);
+      
+      if (directive === '.org') {
+        layout.org(value);
+      } else if (directive === '.align') {
+        layout.align(value);
+      } else {
+        layout.reserve(value);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.errors.push(source.file ? { message, line: source.line, file: source.file } : { message, line: source.line });
+    }
+  }
+
+  // Resolve forward-referencing constants, repeating while progress is made
+  private resolvePendingConstants(pending: PendingConstant[], layout: SectionLayout): void {
+    let remaining = pending;
     
-    for (let lineNum = 0; lineNum < lines.length; lineNum++) {
-      const line = lines[lineNum].trim();
-      const currentLineNum = lineNum + 1;
+    while (remaining.length > 0) {
+      const unresolved: PendingConstant[] = [];
+      
+      for (const constant of remaining) {
+        try {
+          this.symbols[constant.symbol] = this.evaluator.evaluate(constant.expression, { ...this.symbols, '$': layout.resolve(constant.position) });
+        } catch {
+          unresolved.push(constant);
+        }
+      }
+      
+      if (unresolved.length === remaining.length) {
+        for (const constant of unresolved) {
+          try {
+            this.evaluator.evaluate(constant.expression, { ...this.symbols, '$': layout.resolve(constant.position) });
+          } catch (error) {
+            const message = `Cannot evaluate ${constant.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            const { line, file } = constant.source;
+            this.errors.push(file ? { message, line, file } : { message, line });
+          }
+        }
+        break;
+      }
+      
+      remaining = unresolved;
+    }
+  }
+
+  private tokenize(): void {
+    for (let index = 0; index < this.lines.length; index++) {
+      const line = this.lines[index].text.trim();
+      const currentLineNum = this.lines[index].line;
       
       // Skip empty lines and comments
       if (!line || line.startsWith(';')) {
         continue;
       }
       
+      // $ evaluates to the address of the line being assembled
+      this.symbols['$'] = this.lineAddresses[index];
+      
+      const tokenStart = this.tokens.length;
+      const errorStart = this.errors.length;
+      
       try {
         // Handle labels (ending with :)
         if (line.endsWith(':')) {
@@ -233,23 +398,21 @@ export class AssemblyParser {
               line: currentLineNum
             });
             
-            // Special handling for "code_size equ $ - start" pattern
-            if (parts[2] === '$' && parts.length >= 5 && parts[3] === '-' && parts[4] === 'start') {
+            // Value was computed while collecting symbols (errors are reported there)
+            const value = this.symbols[parts[0]];
+            if (value !== undefined) {
               this.tokens.push({
                 type: TokenType.Immediate,
-                value: this.symbols['code_size'].toString(),
+                value: value.toString(),
                 line: currentLineNum
               });
-            } else {
-              // Normal value
-              this.tokenizeOperand(parts[2], currentLineNum);
             }
           }
           // Check for "name dw value" pattern (data definition)
           else if (parts.length >= 2 && AssemblyParser.VALID_DATA_DEFS.has(parts[1].toLowerCase())) {
             this.tokens.push({
               type: TokenType.Label,
-              value: parts[0],
+              value: parts[0].endsWith(':') ? parts[0].slice(0, -1) : parts[0],
               line: currentLineNum
             });
             
@@ -272,10 +435,21 @@ export class AssemblyParser {
               line: currentLineNum
             });
             
-            // Tokenize operands
+            // Tokenize operands, dropping a `word` size prefix on memory operands
+            const operandStart = this.tokens.length;
             for (let i = 1; i < parts.length; i++) {
+              if (parts[i].toLowerCase() === 'word' && parts[i + 1]?.startsWith('[')) continue;
               this.tokenizeOperand(parts[i], currentLineNum);
             }
+            
+            const operandCount = this.tokens.length - operandStart;
+            const expected = CodeGenerator.getOperandCount(firstToken);
+            if (expected !== undefined && operandCount > expected) {
+              this.errors.push({
+                message: `Too many operands for ${firstToken}: expected ${expected}, got ${operandCount}`,
+                line: currentLineNum
+              });
+            }
           }
           else {
             this.errors.push({
@@ -290,6 +464,13 @@ export class AssemblyParser {
           line: currentLineNum
         });
       }
+      
+      // Attribute everything produced by this line to its source file
+      const file = this.lines[index].file;
+      if (file) {
+        this.tokens.slice(tokenStart).forEach(token => token.file = file);
+        this.errors.slice(errorStart).forEach(error => error.file = file);
+      }
     }
   }
 
@@ -337,13 +518,14 @@ export class AssemblyParser {
   }
 
   private tokenizeOperand(operand: string, lineNum: number): void {
-    // Memory access syntax [register] or [register+offset]
-    if (operand.startsWith('[') && operand.endsWith(']')) {
-      const memContents = operand.slice(1, -1).trim();
+    // Memory access syntax, e.g. [register+offset] or @pointer
+    const memory = this.parseMemoryOperand(operand);
+    if (memory) {
       this.tokens.push({
         type: TokenType.MemoryAccess,
-        value: memContents,
-        line: lineNum
+        value: operand.startsWith('[') ? operand.slice(1, -1).trim() : operand,
+        line: lineNum,
+        memory
       });
       return;
     }
@@ -354,6 +536,32 @@ export class AssemblyParser {
       return;
     }
     
+    // Constant expressions are folded into immediates, keeping the label they offset
+    if (ExpressionEvaluator.isExpression(operand)) {
+      const expression = operand.startsWith('#') ? operand.slice(1) : operand;
+      const token: Token = {
+        type: TokenType.Immediate,
+        value: this.evaluator.evaluate(expression, this.symbols).toString(),
+        line: lineNum
+      };
+      const symbol = this.labelOf(expression);
+      if (symbol !== undefined) {
+        token.symbol = symbol;
+      }
+      this.tokens.push(token);
+      return;
+    }
+    
+    // Special $ symbol (current address)
+    if (operand === '$') {
+      this.tokens.push({
+        type: TokenType.Immediate,
+        value: this.symbols['$'].toString(),
+        line: lineNum
+      });
+      return;
+    }
+    
     // Immediate value with # prefix
     if (operand.startsWith('#')) {
       const value = operand.slice(1);
@@ -400,16 +608,6 @@ export class AssemblyParser {
       return;
     }
     
-    // Special $ symbol (current address)
-    if (operand === '$') {
-      this.tokens.push({
-        type: TokenType.Symbol, // Treat as a symbol for simplicity
-        value: operand,
-        line: lineNum
-      });
-      return;
-    }
-    
     // Register
     if (AssemblyParser.VALID_REGISTERS.has(operand.toLowerCase())) {
       this.tokens.push({
@@ -449,16 +647,26 @@ export class AssemblyParser {
     return null;
   }
   
-  // Split a line into tokens, respecting quotes and brackets
+  // Split a line into tokens, respecting quotes, brackets and parentheses
   private splitLine(line: string): string[] {
     const result: string[] = [];
+    // Whether each part was separated from the previous one by a comma
+    const afterComma: boolean[] = [];
     let current = '';
     let inQuotes = false;
     let inBrackets = false;
+    let parenDepth = 0;
+    let sawComma = false;
     
-    // Remove comments
-    const commentPos = line.indexOf(';');
-    const cleanLine = commentPos >= 0 ? line.substring(0, commentPos) : line;
+    // Remove comments (a ; inside a string literal is not a comment)
+    let cleanLine = line;
+    for (let i = 0, quoted = false; i < line.length; i++) {
+      if (line[i] === '"') quoted = !quoted;
+      if (line[i] === ';' && !quoted) {
+        cleanLine = line.substring(0, i);
+        break;
+      }
+    }
     
     for (let i = 0; i < cleanLine.length; i++) {
       const char = cleanLine[i];
@@ -472,11 +680,20 @@ export class AssemblyParser {
       } else if (char === ']') {
         inBrackets = false;
         current += char;
-      } else if ((char === ' ' || char === '\t' || char === ',') && !inQuotes && !inBrackets) {
+      } else if (char === '(' && !inQuotes) {
+        parenDepth++;
+        current += char;
+      } else if (char === ')' && !inQuotes) {
+        parenDepth = Math.max(0, parenDepth - 1);
+        current += char;
+      } else if ((char === ' ' || char === '\t' || char === ',') && !inQuotes && !inBrackets && parenDepth === 0) {
         if (current) {
           result.push(current);
+          afterComma.push(sawComma);
           current = '';
+          sawComma = false;
         }
+        if (char === ',') sawComma = true;
       } else {
         current += char;
       }
@@ -484,11 +701,128 @@ export class AssemblyParser {
     
     if (current) {
       result.push(current);
+      afterComma.push(sawComma);
+    }
+    
+    return this.joinExpressionParts(result, afterComma);
+  }
+  
+  // Re-join expressions written with spaces (e.g. "$ - start") into a single part.
+  // Commas always separate operands, and a leading - or ~ is treated as unary.
+  private joinExpressionParts(parts: string[], afterComma: boolean[]): string[] {
+    const result: string[] = [];
+    const isOperator = (part: string) => /^(<<|>>|[+\-*/&|])$/.test(part);
+    const endsWithOperator = (part: string) => /(<<|>>|[+\-*/&|])$/.test(part);
+    const startsWithBinaryOperator = (part: string) => /^(<<|>>|[*/&|])/.test(part);
+    
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      const previous = result[result.length - 1];
+      const joinable = result.length > 0 && !afterComma[i] && !this.isKeyword(previous) &&
+        !previous.startsWith('"') && !previous.startsWith('.') &&
+        (isOperator(part) || endsWithOperator(previous) || startsWithBinaryOperator(part));
+      
+      if (joinable) {
+        result[result.length - 1] = previous + part;
+      } else {
+        result.push(part);
+      }
     }
     
     return result;
   }
   
+  // Mnemonics, data definitions and label declarations never take part in an expression
+  private isKeyword(part: string): boolean {
+    const lower = part.toLowerCase();
+    return part.endsWith(':') ||
+      AssemblyParser.VALID_INSTRUCTIONS.has(lower) ||
+      AssemblyParser.VALID_DATA_DEFS.has(lower);
+  }
+  
+  /**
+   * Parse a memory operand:
+   *   [expr]            direct
+   *   [reg] or @reg     register indirect
+   *   [reg+expr]        register indexed (also [reg-expr])
+   *   [reg+reg]         base plus index register
+   *   [--reg] or <reg   decrement the register, then use it as the address
+   *   [reg++] or >reg   use the register as the address, then increment it
+   *   @expr             indirect through the 16-bit pointer at expr
+   *   <expr             decrement the pointer at expr, then indirect
+   *   >expr             indirect through the pointer at expr, then increment it
+   * @returns The operand, or null if it is not memory syntax
+   * @throws Error if the operand is malformed
+   */
+  private parseMemoryOperand(operand: string): MemoryOperand | null {
+    if (operand.startsWith('[') && operand.endsWith(']')) {
+      const contents = operand.slice(1, -1).replace(/\s+/g, '');
+      
+      const preDecrement = /^--(\w+)$/.exec(contents);
+      if (preDecrement && this.isRegister(preDecrement[1])) {
+        return { mode: AddressingMode.RegisterPreDecrement, register: preDecrement[1].toLowerCase(), offset: 0 };
+      }
+      
+      const postIncrement = /^(\w+)\+\+$/.exec(contents);
+      if (postIncrement && this.isRegister(postIncrement[1])) {
+        return { mode: AddressingMode.RegisterPostIncrement, register: postIncrement[1].toLowerCase(), offset: 0 };
+      }
+      
+      if (this.isRegister(contents)) {
+        return { mode: AddressingMode.RegisterIndirect, register: contents.toLowerCase(), offset: 0 };
+      }
+      
+      const indexed = /^(\w+)([+-])(.+)$/.exec(contents);
+      if (indexed && this.isRegister(indexed[1])) {
+        const register = indexed[1].toLowerCase();
+        if (indexed[2] === '+' && this.isRegister(indexed[3])) {
+          return { mode: AddressingMode.BaseIndexed, register, index: indexed[3].toLowerCase(), offset: 0 };
+        }
+        if (indexed[2] === '-') {
+          return { mode: AddressingMode.RegisterIndexed, register, offset: -this.evaluateAddress(indexed[3], operand) };
+        }
+        return { mode: AddressingMode.RegisterIndexed, register, ...this.memoryAddress(indexed[3], operand) };
+      }
+      
+      return { mode: AddressingMode.Direct, ...this.memoryAddress(contents, operand) };
+    }
+    
+    const prefix = AssemblyParser.MEMORY_PREFIXES[operand[0]];
+    if (prefix && operand.length > 1) {
+      const target = operand.slice(1).trim();
+      if (this.isRegister(target)) {
+        return { mode: prefix.register, register: target.toLowerCase(), offset: 0 };
+      }
+      return { mode: prefix.pointer, ...this.memoryAddress(target, operand) };
+    }
+    
+    return null;
+  }
+  
+  // Address of a memory operand, keeping the label it refers to for relocation
+  private memoryAddress(expression: string, operand: string): { offset: number; symbol?: string } {
+    const offset = this.evaluateAddress(expression, operand);
+    const symbol = this.labelOf(expression);
+    return symbol !== undefined ? { offset, symbol } : { offset };
+  }
+  
+  // The name in `name`, `name+n` or `name-n`, the only expressions that stay relative to a label
+  private labelOf(expression: string): string | undefined {
+    const label = /^([A-Za-z_]\w*)(?:[+-](?:0x[0-9a-fA-F]+|\d+))?$/.exec(expression);
+    return label && !this.isRegister(label[1]) ? label[1] : undefined;
+  }
+  
+  private evaluateAddress(expression: string, operand: string): number {
+    if (!expression || this.isRegister(expression)) {
+      throw new Error(`Invalid memory operand: ${operand}`);
+    }
+    return this.evaluator.evaluate(expression, this.symbols);
+  }
+  
+  private isRegister(name: string): boolean {
+    return name.toLowerCase() !== 'word' && AssemblyParser.VALID_REGISTERS.has(name.toLowerCase());
+  }
+  
   private validateIdentifier(id: string): boolean {
     return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(id);
   }
@@ -1,9 +1,14 @@
 import { CodeGenerator } from './CodeGenerator.js';
+import { AssemblyParser } from './AssemblyParser.js';
 import { Token, TokenType } from './types.js';
+import { AddressingMode } from '../cpu/ISA.js';
 
 describe('CodeGenerator', () => {
   let generator: CodeGenerator;
 
+  const reg = (register: number) => ({ mode: AddressingMode.Register, register, value: 0 });
+  const imm = (value: number) => ({ mode: AddressingMode.Immediate, register: 0, value });
+
   beforeEach(() => {
     generator = new CodeGenerator();
   });
@@ -22,8 +27,8 @@ describe('CodeGenerator', () => {
       const instructions = generator.encode(tokens);
 
       expect(instructions).toEqual([
-        { opcode: 0x10, operands: [0x00, 42], size: 3 },
-        { opcode: 0x20, operands: [0x00, 0x01], size: 3 }
+        { opcode: 0x10, operands: [reg(0), imm(42)], size: 7 },
+        { opcode: 0x20, operands: [reg(0), reg(1)], size: 7 }
       ]);
     });
 
@@ -40,8 +45,8 @@ describe('CodeGenerator', () => {
       const instructions = generator.encode(tokens);
 
       expect(instructions).toEqual([
-        { opcode: 0x10, operands: [0x00, 0x01], size: 3 },
-        { opcode: 0x30, operands: [0x1234], size: 3 },
+        { opcode: 0x10, operands: [reg(0), reg(1)], size: 7 },
+        { opcode: 0x30, operands: [{ ...imm(0x1234), relocatable: true }], size: 4 },
         { opcode: 0xFF, operands: [], size: 1 }
       ]);
     });
@@ -85,6 +90,248 @@ describe('CodeGenerator', () => {
     });
   });
 
+  describe('layout directives', () => {
+    it('encodes layout directives as pseudo-instructions', () => {
+      const tokens: Token[] = [
+        { type: TokenType.Directive, value: '.org', line: 1 },
+        { type: TokenType.Immediate, value: '0x10', line: 1 },
+        { type: TokenType.Directive, value: '.data', line: 2 },
+        { type: TokenType.Directive, value: '.name', line: 3 },
+        { type: TokenType.StringLiteral, value: 'bot', line: 3 }
+      ];
+
+      expect(generator.encode(tokens, {})).toEqual([
+        { opcode: 0, operands: [imm(0x10)], size: 0, directive: '.org' },
+        { opcode: 0, operands: [], size: 0, directive: '.data' }
+      ]);
+    });
+
+    it('requires a value for .org, .align and .space', () => {
+      const tokens: Token[] = [{ type: TokenType.Directive, value: '.space', line: 4 }];
+
+      expect(() => generator.encode(tokens, {})).toThrow('Missing value for .space at line 4');
+    });
+
+    it('emits .data after the code in its own segment', () => {
+      const instructions = [
+        { opcode: 0xFF, operands: [], size: 1 },
+        { opcode: 0, operands: [], size: 0, directive: '.data' },
+        { opcode: 0, operands: [imm(0x7F)], size: 1, data: [0x7F] },
+        { opcode: 0, operands: [], size: 0, directive: '.code' },
+        { opcode: 0x00, operands: [], size: 1 }
+      ];
+
+      const result = generator.layout(instructions, {});
+
+      expect(result.segments.map(s => [s.name, s.start, Array.from(s.data)])).toEqual([
+        ['code', 0, [0xFF]],
+        ['code', 1, [0x00]],
+        ['data', 2, [0x7F]]
+      ]);
+    });
+
+    it('zero-fills .space and .align padding', () => {
+      const instructions = [
+        { opcode: 0xFF, operands: [], size: 1 },
+        { opcode: 0, operands: [imm(2)], size: 0, directive: '.space' },
+        { opcode: 0xFF, operands: [], size: 1 },
+        { opcode: 0, operands: [imm(8)], size: 0, directive: '.align' },
+        { opcode: 0xFF, operands: [], size: 1 }
+      ];
+
+      const result = generator.layout(instructions, {});
+
+      expect(result.segments).toHaveLength(1);
+      expect(Array.from(result.segments[0].data)).toEqual([0xFF, 0, 0, 0xFF, 0, 0, 0, 0, 0xFF]);
+    });
+
+    it('starts a new segment at .org', () => {
+      const instructions = [
+        { opcode: 0xFF, operands: [], size: 1 },
+        { opcode: 0, operands: [imm(0x20)], size: 0, directive: '.org' },
+        { opcode: 0xFF, operands: [], size: 1 }
+      ];
+
+      const result = generator.layout(instructions, {});
+
+      expect(result.segments.map(s => [s.start, s.size])).toEqual([[0, 1], [0x20, 1]]);
+    });
+
+    it('relocates every segment but only patches relocatable operands', () => {
+      const instructions = [
+        { opcode: 0x30, operands: [{ ...imm(0x0004), relocatable: true }], size: 4 },
+        { opcode: 0, operands: [], size: 0, directive: '.data' },
+        { opcode: 0, operands: [imm(0x0430)], size: 2, data: [0x30, 0x04] }
+      ];
+
+      const result = generator.layout(instructions, { start: 0 });
+      generator.relocate(0x100);
+
+      expect(result.entryPoint).toBe(0x100);
+      expect(result.segments.map(s => [s.name, s.start, Array.from(s.data)])).toEqual([
+        ['code', 0x100, [0x30, 0x00, 0x04, 0x01]],
+        ['data', 0x104, [0x30, 0x04]]
+      ]);
+    });
+  });
+
+  describe('byte-accurate encoding', () => {
+    it('sizes instructions by opcode and pads missing operands', () => {
+      const tokens: Token[] = [
+        { type: TokenType.Instruction, value: 'push', line: 1 },
+        { type: TokenType.Register, value: 'r2', line: 1 },
+        { type: TokenType.Instruction, value: 'dat', line: 2 },
+        { type: TokenType.Instruction, value: 'ret', line: 3 }
+      ];
+
+      const instructions = generator.encode(tokens, {});
+      const result = generator.layout(instructions, {});
+
+      expect(instructions.map(i => i.size)).toEqual([4, 4, 1]);
+      expect(Array.from(result.segments[0].data)).toEqual([
+        0x40, 0x24, 0x00, 0x00,  // push r2: register mode, register 2 in the high nibble
+        0xF0, 0x00, 0x00, 0x00,  // dat 0
+        0x43
+      ]);
+    });
+
+    it('rejects extra operands', () => {
+      const tokens: Token[] = [
+        { type: TokenType.Instruction, value: 'inc', line: 7 },
+        { type: TokenType.Register, value: 'r0', line: 7 },
+        { type: TokenType.Register, value: 'r1', line: 7 }
+      ];
+
+      expect(() => generator.encode(tokens, {})).toThrow('Too many operands for inc: expected 1, got 2 at line 7');
+    });
+
+    it('encodes every data value little-endian at its width', () => {
+      const tokens: Token[] = [
+        { type: TokenType.Label, value: 'table', line: 1 },
+        { type: TokenType.DataDefinition, value: 'dw', line: 1 },
+        { type: TokenType.Immediate, value: '0x1234', line: 1 },
+        { type: TokenType.Symbol, value: 'other', line: 1 },
+        { type: TokenType.Label, value: 'bytes', line: 2 },
+        { type: TokenType.DataDefinition, value: 'db', line: 2 },
+        { type: TokenType.Immediate, value: '1', line: 2 },
+        { type: TokenType.Immediate, value: '-1', line: 2 },
+        { type: TokenType.Label, value: 'limit', line: 3 },
+        { type: TokenType.DataDefinition, value: 'equ', line: 3 },
+        { type: TokenType.Immediate, value: '9', line: 3 }
+      ];
+
+      const instructions = generator.encode(tokens, { other: 5 });
+      const result = generator.layout(instructions, {});
+
+      expect(instructions.map(i => i.size)).toEqual([4, 2]);
+      expect(Array.from(result.segments[0].data)).toEqual([0x34, 0x12, 0x05, 0x00, 0x01, 0xFF]);
+    });
+
+    it('lists addresses, bytes and source lines after relocation', () => {
+      const tokens: Token[] = [
+        { type: TokenType.Instruction, value: 'nop', line: 2, file: 'bot.asm' },
+        { type: TokenType.Instruction, value: 'jmp', line: 3, file: 'bot.asm' },
+        { type: TokenType.Immediate, value: '0', line: 3, file: 'bot.asm' }
+      ];
+
+      generator.layout(generator.encode(tokens, {}), {});
+      generator.relocate(0x40);
+
+      expect(generator.getListing()).toEqual([
+        { address: 0x40, bytes: [0x00], line: 2, file: 'bot.asm' },
+        { address: 0x41, bytes: [0x30, 0x00, 0x40, 0x00], line: 3, file: 'bot.asm' }
+      ]);
+    });
+  });
+
+  describe('addressing modes', () => {
+    it('encodes memory operands', () => {
+      const tokens: Token[] = [
+        { type: TokenType.Instruction, value: 'mov', line: 1 },
+        { type: TokenType.MemoryAccess, value: 'bx', line: 1, memory: { mode: AddressingMode.RegisterIndirect, register: 'bx', offset: 0 } },
+        { type: TokenType.MemoryAccess, value: 'cx + 4', line: 1, memory: { mode: AddressingMode.RegisterIndexed, register: 'cx', offset: 4 } },
+        { type: TokenType.Instruction, value: 'mov', line: 2 },
+        { type: TokenType.MemoryAccess, value: '0x100', line: 2, memory: { mode: AddressingMode.Direct, offset: 0x100 } },
+        { type: TokenType.Register, value: 'ax', line: 2 },
+        { type: TokenType.Instruction, value: 'mov', line: 3 },
+        { type: TokenType.MemoryAccess, value: 'bx+di', line: 3, memory: { mode: AddressingMode.BaseIndexed, register: 'bx', index: 'di', offset: 0 } },
+        { type: TokenType.MemoryAccess, value: '>ptr', line: 3, memory: { mode: AddressingMode.PostIncrementIndirect, offset: 0x40 } }
+      ];
+
+      expect(generator.encode(tokens, {}).map(i => i.operands)).toEqual([
+        [
+          { mode: AddressingMode.RegisterIndirect, register: 1, value: 0 },
+          { mode: AddressingMode.RegisterIndexed, register: 2, value: 4 }
+        ],
+        [{ mode: AddressingMode.Direct, register: 0, value: 0x100 }, reg(0)],
+        [
+          { mode: AddressingMode.BaseIndexed, register: 1, value: 2 },
+          { mode: AddressingMode.PostIncrementIndirect, register: 0, value: 0x40 }
+        ]
+      ]);
+    });
+
+    it('relocates label references but not equ constants', () => {
+      const tokens: Token[] = [
+        { type: TokenType.Label, value: 'limit', line: 1 },
+        { type: TokenType.DataDefinition, value: 'equ', line: 1 },
+        { type: TokenType.Immediate, value: '9', line: 1 },
+        { type: TokenType.Label, value: 'start', line: 2 },
+        { type: TokenType.Instruction, value: 'mov', line: 2 },
+        { type: TokenType.MemoryAccess, value: 'start', line: 2, memory: { mode: AddressingMode.Direct, offset: 0, symbol: 'start' } },
+        { type: TokenType.Symbol, value: 'limit', line: 2 }
+      ];
+
+      generator.layout(generator.encode(tokens, { limit: 9, start: 0 }), { limit: 9, start: 0 });
+      generator.relocate(0x200);
+
+      expect(generator.getListing()[0].bytes).toEqual([0x10, 0x01, 0x00, 0x02, 0x00, 0x09, 0x00]);
+    });
+
+    it('relocates data labels, label arithmetic and pointers stored in data', () => {
+      const source = `
+        start:
+          mov bx, table
+          mov cx, table + 2
+          mov ax, @ptr
+          halt
+        table: dw 1, 2
+        ptr dw table
+        flag db 0
+      `;
+
+      const parsed = new AssemblyParser().parse(source);
+      generator.layout(generator.encode(parsed.tokens, parsed.symbols), parsed.symbols);
+      generator.relocate(0xA00);
+
+      const table = parsed.symbols['table'];
+      const word = (bytes: number[], at: number) => bytes[at] | (bytes[at + 1] << 8);
+      const listing = generator.getListing();
+
+      expect(parsed.errors).toHaveLength(0);
+      expect(table).toBeGreaterThan(0xA00);
+      expect(word(listing[0].bytes, 5)).toBe(table);
+      expect(word(listing[1].bytes, 5)).toBe(table + 2);
+      expect(word(listing[2].bytes, 5)).toBe(parsed.symbols['ptr']);
+      expect(listing.slice(4).map(entry => entry.bytes)).toEqual([[1, 0, 2, 0], [table & 0xFF, table >> 8], [0]]);
+    });
+
+    it('rejects immediate destinations and invalid memory operands', () => {
+      const immediate: Token[] = [
+        { type: TokenType.Instruction, value: 'inc', line: 3 },
+        { type: TokenType.Immediate, value: '1', line: 3 }
+      ];
+      const invalid: Token[] = [
+        { type: TokenType.Instruction, value: 'mov', line: 4 },
+        { type: TokenType.MemoryAccess, value: 'bx+si', line: 4 },
+        { type: TokenType.Register, value: 'ax', line: 4 }
+      ];
+
+      expect(() => generator.encode(immediate, {})).toThrow('Cannot use an immediate value as destination of inc at line 3');
+      expect(() => generator.encode(invalid, {})).toThrow('Invalid memory operand: [bx+si] at line 4');
+    });
+  });
+
   describe('relocate()', () => {
     it('adjusts addresses properly', () => {
       // First layout the code at address 0
@@ -123,5 +370,37 @@ describe('CodeGenerator', () => {
 
       expect(result.segments[0].data).toEqual(originalData);
     });
+
+    it('moves label symbols but keeps equ constants', () => {
+      const parsed = new AssemblyParser().parse(`
+        limit equ 9
+        start:
+          mov ax, limit
+          halt
+      `);
+      generator.layout(generator.encode(parsed.tokens, parsed.symbols), parsed.symbols);
+      generator.relocate(0x300);
+
+      expect(parsed.errors).toHaveLength(0);
+      expect(parsed.symbols['limit']).toBe(9);
+      expect(parsed.symbols['start']).toBe(0x300);
+      expect(generator.getListing()[0].bytes.slice(5)).toEqual([0x09, 0x00]);
+    });
+
+    it('patches dq label pointers across all eight bytes', () => {
+      const parsed = new AssemblyParser().parse(`
+        start:
+          halt
+        target: db 0
+        ptr dq target
+      `);
+      generator.layout(generator.encode(parsed.tokens, parsed.symbols), parsed.symbols);
+      generator.relocate(0xFFFF);
+
+      // 0xFFFF + 1 carries into the third byte, which a 16-bit patch would drop
+      const target = parsed.symbols['target'];
+      expect(target).toBe(0x10000);
+      expect(generator.getListing()[2].bytes).toEqual([0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00]);
+    });
   });
 });
\ No newline at end of file
@@ -1,9 +1,29 @@
 import { Token, TokenType, SymbolTable } from './types.js';
+import { SectionLayout } from './SectionLayout.js';
+import {
+  AddressingMode,
+  EncodedOperand,
+  INSTRUCTIONS,
+  OperandAccess,
+  OPERAND_SIZE,
+  encodeOperand,
+  getInstructionSpec,
+  getInstructionSize,
+  getDataSize,
+  isModeAllowed
+} from '../cpu/ISA.js';
+import { ListingEntry } from './Listing.js';
+
+export interface Operand extends EncodedOperand {
+  relocatable?: boolean;  // Value is a program address, adjusted by relocate()
+}
 
 export interface Instruction {
   opcode: number;
-  operands: number[];
+  operands: Operand[];
   size: number;
+  directive?: string;  // Set for layout pseudo-instructions (.org, .align, .space, .code, .data, .const)
+  data?: number[];     // Raw bytes for data definitions (db, dw, dq)
 }
 
 export interface MemorySegment {
@@ -18,52 +38,20 @@ export interface GeneratedCode {
   entryPoint: number;
 }
 
+// Where an emitted instruction lives, for relocation and listings
+interface PlacedInstruction {
+  segment: MemorySegment;
+  offset: number;
+  size: number;
+  line?: number;
+  file?: string;
+}
+
 export class CodeGenerator {
-  private static readonly OPCODES: { [key: string]: number } = {
-    // Basic instructions
-    'mov': 0x10,
-    'add': 0x20,
-    'sub': 0x21,
-    'mul': 0x22,
-    'div': 0x23,
-    
-    // Jump/branch instructions
-    'jmp': 0x30,
-    'jz': 0x31,
-    'jnz': 0x32,
-    'je': 0x33,
-    'jne': 0x34,
-    'jl': 0x35,
-    'jg': 0x36,
-    'jge': 0x37,
-    'jle': 0x38,
-    
-    // Stack operations
-    'push': 0x40,
-    'pop': 0x41,
-    'call': 0x42,
-    'ret': 0x43,
-    
-    // Logical operations
-    'and': 0x50,
-    'or': 0x51,
-    'xor': 0x52,
-    'not': 0x53,
-    
-    // Simple operations
-    'inc': 0x60,
-    'dec': 0x61,
-    'nop': 0x00,
-    'halt': 0xFF,
-    
-    // Comparison and special instructions
-    'cmp': 0x70,  // Compare instruction
-    'spl': 0xA0,  // Split process
-    
-    // Register handling aliases
-    'load': 0x90, // Load from memory to register
-    'store': 0x91, // Store from register to memory
-    
+  // Opcodes come from the shared instruction set (src/cpu/ISA.ts)
+  public static readonly OPCODES: { [key: string]: number } = {
+    ...Object.fromEntries(INSTRUCTIONS.map(spec => [spec.mnemonic, spec.opcode])),
+
     // X86-style aliases (map to the same opcodes for compatibility)
     'mov ax': 0x10,
     'mov bx': 0x10,
@@ -74,11 +62,7 @@ export class CodeGenerator {
     'add cx': 0x20,
     'add dx': 0x20,
     'jz loop': 0x31,
-    'jnz loop': 0x32,
-    'dat': 0xF0,  // Data (used as a bomb)
-    'test': 0x71, // Test bits
-    'lea': 0x80,  // Load effective address
-    'xchg': 0x11  // Exchange values
+    'jnz loop': 0x32
   };
 
   private static readonly REGISTERS: { [key: string]: number } = {
@@ -98,23 +82,57 @@ export class CodeGenerator {
     'di': 0x02  // Map to r2
   };
 
-  // Set of valid registers for memory access checking
-  private static readonly VALID_REGISTERS = new Set(Object.keys(CodeGenerator.REGISTERS));
+  // Directives that affect where code and data are placed
+  private static readonly LAYOUT_DIRECTIVES = new Set(['.code', '.data', '.const', '.org', '.align', '.space']);
+
+  // Layout directives that require a value
+  private static readonly VALUED_DIRECTIVES = new Set(['.org', '.align', '.space']);
 
   private symbols: SymbolTable;
+  private labels: Set<string>;
   private baseAddress: number;
   private currentAddress: number;
   private segments: MemorySegment[];
+  private generated: GeneratedCode | null;
+  private sourceLocations: WeakMap<Instruction, { line: number; file?: string }>;
+  private placed: PlacedInstruction[];
+  private relocations: { segment: MemorySegment; offset: number; width: number }[];
 
   constructor() {
     this.symbols = {};
+    this.labels = new Set();
     this.baseAddress = 0;
     this.currentAddress = 0;
     this.segments = [];
+    this.generated = null;
+    this.sourceLocations = new WeakMap();
+    this.placed = [];
+    this.relocations = [];
+  }
+
+  /**
+   * Get the encoded size of an instruction mnemonic in bytes
+   * @returns The size, or undefined for unknown mnemonics
+   */
+  public static getInstructionSize(mnemonic: string): number | undefined {
+    const opcode = CodeGenerator.OPCODES[mnemonic.toLowerCase()];
+    return opcode === undefined ? undefined : getInstructionSize(opcode);
+  }
+
+  /**
+   * Get the maximum number of operands an instruction mnemonic accepts
+   */
+  public static getOperandCount(mnemonic: string): number | undefined {
+    const opcode = CodeGenerator.OPCODES[mnemonic.toLowerCase()];
+    return opcode === undefined ? undefined : getInstructionSpec(opcode)?.operands.length;
   }
 
   encode(tokens: Token[], symbols: SymbolTable): Instruction[] {
     this.symbols = symbols; // Set symbols before encoding
+    // Labels name program addresses (relocated on load); equ constants do not
+    this.labels = new Set(tokens
+      .filter((token, index) => token.type === TokenType.Label && tokens[index + 1]?.value !== 'equ')
+      .map(token => token.value));
     const instructions: Instruction[] = [];
     let i = 0;
 
@@ -123,15 +141,20 @@ export class CodeGenerator {
 
       if (token.type === TokenType.Instruction) {
         const instruction = this.encodeInstruction(tokens, i);
+        this.sourceLocations.set(instruction, { line: token.line, file: token.file });
         instructions.push(instruction);
         i += this.getInstructionLength(tokens, i);
       } else if (token.type === TokenType.DataDefinition) {
         // Handle data definitions (dw, db, etc.)
         const dataInstruction = this.encodeDataDefinition(tokens, i);
         if (dataInstruction) {
+          this.sourceLocations.set(dataInstruction, { line: token.line, file: token.file });
           instructions.push(dataInstruction);
         }
-        i += this.getDataDefinitionLength(tokens, i);
+        i += this.getInstructionLength(tokens, i);
+      } else if (token.type === TokenType.Directive && CodeGenerator.LAYOUT_DIRECTIVES.has(token.value)) {
+        instructions.push(this.encodeLayoutDirective(tokens, i));
+        i += this.getInstructionLength(tokens, i);
       } else {
         i++;
       }
@@ -160,7 +183,8 @@ export class CodeGenerator {
       throw new Error(`Unknown instruction: ${token.value} at line ${token.line}`);
     }
 
-    const operands: number[] = [];
+    const spec = getInstructionSpec(opcode)!;
+    const operands: Operand[] = [];
     let i = startIndex + 1;
 
     while (i < tokens.length && this.isOperandToken(tokens[i])) {
@@ -169,93 +193,105 @@ export class CodeGenerator {
       i++;
     }
 
-    // Calculate size based on instruction type
-    const size = this.calculateInstructionSize(opcode, operands);
-
-    return { opcode, operands, size };
-  }
-
-  private calculateInstructionSize(opcode: number, operands: number[]): number {
-    // Special cases for different instruction types
-    if (opcode === 0xFF) { // HALT
-      return 1;
+    // Size depends only on the opcode (see ISA)
+    if (operands.length > spec.operands.length) {
+      throw new Error(`Too many operands for ${token.value}: expected ${spec.operands.length}, got ${operands.length} at line ${token.line}`);
     }
 
-    // Jump instructions always have size 3
-    if ((opcode >= 0x30 && opcode <= 0x38) || opcode === 0x42) {
-      return 3;
-    }
+    spec.operands.forEach((operandSpec, index) => {
+      const operand = operands[index];
+      if (!operand) {
+        if (!isModeAllowed(operandSpec.access, AddressingMode.Immediate)) {
+          throw new Error(`Missing destination for ${token.value} at line ${token.line}`);
+        }
+        operands.push({ mode: AddressingMode.Immediate, register: 0, value: 0 });
+      } else if (!isModeAllowed(operandSpec.access, operand.mode)) {
+        throw new Error(`Cannot use an immediate value as destination of ${token.value} at line ${token.line}`);
+      } else if (operandSpec.access === OperandAccess.Target && operand.mode === AddressingMode.Immediate) {
+        // Jump, call and spl targets are code addresses
+        operand.relocatable = true;
+      }
+    });
 
-    // For other instructions, size is 1 (opcode) + 1 per operand
-    if (operands.length === 0) {
-      return 1;
-    }
+    return { opcode, operands, size: getInstructionSize(opcode) };
+  }
+
+  private encodeLayoutDirective(tokens: Token[], startIndex: number): Instruction {
+    const token = tokens[startIndex];
+    const operands: Operand[] = [];
 
-    // For MOV and arithmetic instructions with two operands
-    if ((opcode === 0x10 || (opcode >= 0x20 && opcode <= 0x23)) && operands.length === 2) {
-      return 3;
+    if (CodeGenerator.VALUED_DIRECTIVES.has(token.value)) {
+      const valueToken = tokens[startIndex + 1];
+      if (!valueToken || !this.isOperandToken(valueToken)) {
+        throw new Error(`Missing value for ${token.value} at line ${token.line}`);
+      }
+      operands.push(this.encodeOperand(valueToken));
     }
 
-    return 1 + operands.length;
+    return { opcode: 0, operands, size: 0, directive: token.value };
   }
 
-  private encodeOperand(token: Token): number {
+  private encodeOperand(token: Token): Operand {
     switch (token.type) {
       case TokenType.Register:
-        return CodeGenerator.REGISTERS[token.value] || 0;
+        return { mode: AddressingMode.Register, register: CodeGenerator.REGISTERS[token.value] || 0, value: 0 };
       
-      case TokenType.Immediate:
-        if (token.value.startsWith('0x')) {
-          return parseInt(token.value.slice(2), 16);
-        } else if (token.value.startsWith('$')) {
-          return parseInt(token.value.slice(1), 16);
-        } else {
-          return parseInt(token.value, 10);
+      case TokenType.Immediate: {
+        const operand: Operand = { mode: AddressingMode.Immediate, register: 0, value: this.parseNumber(token.value) };
+        if (token.symbol !== undefined && this.labels.has(token.symbol)) {
+          operand.relocatable = true;
         }
+        return operand;
+      }
       
       case TokenType.Address:
-        return parseInt(token.value.slice(1), 16);
+        return { mode: AddressingMode.Immediate, register: 0, value: parseInt(token.value.slice(1), 16) };
       
       case TokenType.Symbol:
-        return this.symbols[token.value] || 0;
+        return { mode: AddressingMode.Immediate, register: 0, ...this.encodeSymbol(token.value) };
       
       case TokenType.MemoryAccess:
-        // Memory access needs special encoding:
-        // We'll mark it with a high bit to indicate memory access
-        const memContents = token.value;
-        if (memContents.includes('+')) {
-          // Indexed addressing [reg+offset]
-          const parts = memContents.split('+').map(p => p.trim());
-          if (parts.length === 2) {
-            const reg = parts[0].toLowerCase();
-            const offset = parts[1];
-            
-            // For simplicity, we'll encode as (reg_code << 8 | offset)
-            const regCode = CodeGenerator.REGISTERS[reg] || 0;
-            const offsetVal = this.validateNumber(offset) 
-              ? parseInt(offset, 0) 
-              : (this.symbols[offset] || 0);
-              
-            return 0x8000 | (regCode << 8) | (offsetVal & 0xFF);
-          }
-        } else if (CodeGenerator.VALID_REGISTERS.has(memContents.toLowerCase())) {
-          // Simple register indirect [reg]
-          const regCode = CodeGenerator.REGISTERS[memContents.toLowerCase()] || 0;
-          return 0x8000 | regCode;
-        } else if (this.validateNumber(memContents)) {
-          // Direct memory access [address]
-          return 0x8000 | (parseInt(memContents, 0) & 0x7FFF);
-        } else {
-          // Symbol reference
-          return 0x8000 | (this.symbols[memContents] || 0);
-        }
-        return 0;
+        return this.encodeMemoryAccess(token);
       
       default:
         throw new Error(`Invalid operand type: ${token.type} at line ${token.line}`);
     }
   }
 
+  // Memory operands are parsed by the assembler; see AssemblyParser.parseMemoryOperand
+  private encodeMemoryAccess(token: Token): Operand {
+    const memory = token.memory;
+    if (!memory) {
+      throw new Error(`Invalid memory operand: [${token.value}] at line ${token.line}`);
+    }
+
+    const register = memory.register !== undefined ? CodeGenerator.REGISTERS[memory.register] : 0;
+    const index = memory.index !== undefined ? CodeGenerator.REGISTERS[memory.index] : undefined;
+    if (register === undefined || (memory.index !== undefined && index === undefined)) {
+      throw new Error(`Invalid memory operand: [${token.value}] at line ${token.line}`);
+    }
+
+    const operand: Operand = { mode: memory.mode, register, value: index ?? memory.offset };
+    if (memory.symbol !== undefined && this.labels.has(memory.symbol)) {
+      operand.relocatable = true;
+    }
+    return operand;
+  }
+
+  private encodeSymbol(name: string): { value: number; relocatable: boolean } {
+    return { value: this.symbols[name] || 0, relocatable: this.labels.has(name) };
+  }
+
+  private parseNumber(value: string): number {
+    if (value.startsWith('0x')) {
+      return parseInt(value.slice(2), 16);
+    } else if (value.startsWith('$')) {
+      return parseInt(value.slice(1), 16);
+    } else {
+      return parseInt(value, 10);
+    }
+  }
+
   private isOperandToken(token: Token): boolean {
     return token.type === TokenType.Register ||
            token.type === TokenType.Immediate ||
@@ -264,123 +300,169 @@ export class CodeGenerator {
            token.type === TokenType.MemoryAccess;
   }
   
-  private validateNumber(str: string): boolean {
-    return /^-?\d+$/.test(str) || /^0x[0-9a-fA-F]+$/.test(str);
-  }
-
-  private getDataDefinitionLength(tokens: Token[], startIndex: number): number {
-    let length = 1; // Start with label token
-    let i = startIndex + 1;
-    
-    // Skip data definition token (dw, db, etc.)
-    if (i < tokens.length && tokens[i].type === TokenType.DataDefinition) {
-      length++;
-      i++;
-    }
-    
-    // Count all immediate values
-    while (i < tokens.length && tokens[i].type === TokenType.Immediate) {
-      length++;
-      i++;
-    }
-    
-    return length;
-  }
-  
   private encodeDataDefinition(tokens: Token[], startIndex: number): Instruction | null {
-    // Skip label if present
-    let i = startIndex;
-    if (tokens[i].type === TokenType.Label) {
+    const defType = tokens[startIndex].value.toLowerCase();
+    const operands: Operand[] = [];
+    let i = startIndex + 1;
+
+    while (i < tokens.length && this.isOperandToken(tokens[i])) {
+      operands.push(this.encodeOperand(tokens[i]));
       i++;
     }
-    
-    if (i >= tokens.length || tokens[i].type !== TokenType.DataDefinition) {
-      return null;
-    }
-    
-    const defType = tokens[i].value.toLowerCase();
-    i++;
-    
-    if (i >= tokens.length || tokens[i].type !== TokenType.Immediate) {
+    const values = operands.map(operand => operand.value);
+
+    // equ only defines a symbol
+    const size = getDataSize(defType, values.length);
+    if (size === 0) {
       return null;
     }
-    
-    // For data definitions, we'll use special opcodes
-    const value = this.encodeOperand(tokens[i]);
-    
-    switch (defType) {
-      case 'dw': // Data word
-        return { opcode: 0xF0, operands: [value & 0xFF, (value >> 8) & 0xFF], size: 2 };
-      case 'db': // Data byte
-        return { opcode: 0xF1, operands: [value & 0xFF], size: 1 };
-      default:
-        return null;
+
+    // Values are stored little-endian at the definition's width
+    const width = size / values.length;
+    const data: number[] = [];
+    for (const value of values) {
+      for (let byte = 0; byte < width; byte++) {
+        data.push(Math.floor(value / 2 ** (8 * byte)) & 0xFF);
+      }
     }
+
+    return { opcode: 0, operands, size, data };
   }
 
+  /**
+   * Lay out encoded instructions into memory segments.
+   * Code starts at address 0; .data and .const sections follow the code unless
+   * placed with .org. Use relocate() to move the result to its load address.
+   */
   layout(instructions: Instruction[], symbols: SymbolTable): GeneratedCode {
     this.symbols = symbols;
     this.segments = [];
+    this.placed = [];
+    this.relocations = [];
+    this.baseAddress = 0;
     this.currentAddress = this.baseAddress;
 
-    // Create code segment
-    const codeSegment: MemorySegment = {
-      name: 'code',
-      start: this.currentAddress,
-      size: 0,
-      data: new Uint8Array()  // Initialize with empty Uint8Array
-    };
+    const layout = new SectionLayout();
+    const writes: { instruction: Instruction; segment: number; offset: number; bytes: number[] }[] = [];
 
-    // Layout instructions with proper encoding
-    const tempData: number[] = [];
     for (const instruction of instructions) {
-      // Add opcode
-      tempData.push(instruction.opcode);
-      
-      // Handle operands based on instruction type
-      if (instruction.opcode >= 0x30 && instruction.opcode <= 0x38) {
-        // Jump instructions - encode address as 16-bit value (will be relocated later)
-        if (instruction.operands.length > 0) {
-          const addr = instruction.operands[0];
-          tempData.push(addr & 0xFF);         // Low byte
-          tempData.push((addr >> 8) & 0xFF);  // High byte
-        }
-      } else if (instruction.opcode === 0x42) {
-        // Call instruction - encode address as 16-bit value (will be relocated later)
-        if (instruction.operands.length > 0) {
-          const addr = instruction.operands[0];
-          tempData.push(addr & 0xFF);         // Low byte
-          tempData.push((addr >> 8) & 0xFF);  // High byte
-        }
-      } else if (instruction.opcode === 0xF0 || instruction.opcode === 0xF1) {
-        // Data definitions - already properly encoded
-        tempData.push(...instruction.operands);
+      if (instruction.directive) {
+        this.applyLayoutDirective(layout, instruction);
+        continue;
+      }
+
+      const bytes = this.encodeBytes(instruction);
+      const { segment, offset } = layout.advance(bytes.length);
+      writes.push({ instruction, segment, offset, bytes });
+    }
+
+    layout.finalize();
+
+    // Reserved and padding space stays zero-filled
+    const segments: MemorySegment[] = layout.getSegments().map(segment => ({
+      name: segment.section,
+      start: this.baseAddress + segment.start,
+      size: segment.size,
+      data: new Uint8Array(segment.size)
+    }));
+
+    for (const write of writes) {
+      const segment = segments[write.segment];
+      segment.data.set(write.bytes, write.offset);
+
+      const location = this.sourceLocations.get(write.instruction);
+      this.placed.push({ segment, offset: write.offset, size: write.bytes.length, line: location?.line, file: location?.file });
+
+      // Label references and jump targets are relative to the program base until relocated
+      if (!write.instruction.data) {
+        write.instruction.operands.forEach((operand, index) => {
+          if (operand.relocatable) {
+            this.relocations.push({ segment, offset: write.offset + 1 + index * OPERAND_SIZE + 1, width: 2 });
+          }
+        });
       } else {
-        // Other instructions - add operands as-is
-        for (const operand of instruction.operands) {
-          if (operand > 255) {
-            // 16-bit value
-            tempData.push(operand & 0xFF);         // Low byte
-            tempData.push((operand >> 8) & 0xFF);  // High byte
-          } else {
-            // 8-bit value
-            tempData.push(operand);
+        // Pointers stored with dw or dq; a db byte cannot hold an address
+        const width = write.bytes.length / write.instruction.operands.length;
+        write.instruction.operands.forEach((operand, index) => {
+          if (operand.relocatable && width >= 2) {
+            this.relocations.push({ segment, offset: write.offset + index * width, width });
           }
-        }
+        });
       }
     }
 
-    // Convert to Uint8Array
-    codeSegment.data = new Uint8Array(tempData);
-    codeSegment.size = codeSegment.data.length;
-    this.segments.push(codeSegment);
+    // Code segments come first so the first segment is always executable
+    const sectionOrder = ['code', 'data', 'const'];
+    this.segments = segments
+      .filter(segment => segment.size > 0)
+      .sort((a, b) => sectionOrder.indexOf(a.name) - sectionOrder.indexOf(b.name));
 
-    return {
+    if (this.segments.length === 0) {
+      this.segments.push({ name: 'code', start: this.baseAddress, size: 0, data: new Uint8Array() });
+    }
+
+    this.generated = {
       segments: this.segments,
       entryPoint: this.symbols['start'] || this.baseAddress
     };
+    return this.generated;
+  }
+
+  /**
+   * Get the listing of the most recent layout: the address, bytes and source
+   * location of every emitted instruction and data definition. Reflects any
+   * relocation applied since.
+   */
+  getListing(): ListingEntry[] {
+    return this.placed.map(placed => ({
+      address: placed.segment.start + placed.offset,
+      bytes: Array.from(placed.segment.data.subarray(placed.offset, placed.offset + placed.size)),
+      line: placed.line,
+      file: placed.file
+    }));
+  }
+
+  private applyLayoutDirective(layout: SectionLayout, instruction: Instruction): void {
+    const value = instruction.operands[0]?.value ?? 0;
+
+    const section = instruction.directive?.slice(1) ?? '';
+    if (SectionLayout.isSection(section)) {
+      layout.switchTo(section);
+      return;
+    }
+
+    switch (instruction.directive) {
+      case '.org':
+        layout.org(value);
+        break;
+      case '.align':
+        layout.align(value);
+        break;
+      case '.space':
+        layout.reserve(value);
+        break;
+    }
+  }
+
+  // Encode to exactly getInstructionSize(opcode) bytes, padding missing operands with 0
+  private encodeBytes(instruction: Instruction): number[] {
+    if (instruction.data) {
+      return [...instruction.data];
+    }
+
+    const bytes: number[] = [instruction.opcode];
+    const operandCount = getInstructionSpec(instruction.opcode)?.operands.length ?? 0;
+    for (let i = 0; i < operandCount; i++) {
+      bytes.push(...encodeOperand(instruction.operands[i] ?? { mode: AddressingMode.Immediate, register: 0, value: 0 }));
+    }
+
+    return bytes;
   }
 
+  /**
+   * Move the most recent layout to a new base address, updating segment
+   * starts, address operands, symbols and the entry point
+   */
   relocate(baseAddress: number): void {
     const offset = baseAddress - this.baseAddress;
 
@@ -391,32 +473,29 @@ export class CodeGenerator {
 
     // Relocate segments
     for (const segment of this.segments) {
-      const oldStart = segment.start;
       segment.start += offset;
+    }
 
-      // Update absolute addresses in code
-      const data = Array.from(segment.data);  // Convert to array for easier manipulation
-      for (let i = 0; i < data.length; i++) {
-        const opcode = data[i];
-        // Check if this is a jump, call, or spl instruction
-        if ((opcode >= 0x30 && opcode <= 0x38) || opcode === 0x42 || opcode === 0xA0) {
-          // Next 2 bytes are a 16-bit address relative to segment start
-          if (i + 2 < data.length) {
-            const relativeAddr = data[i + 1] | (data[i + 2] << 8);
-            // Convert to absolute address: segment start + relative offset
-            const absoluteAddr = segment.start + relativeAddr;
-            data[i + 1] = absoluteAddr & 0xFF;        // Low byte
-            data[i + 2] = (absoluteAddr >> 8) & 0xFF; // High byte
-            i += 2; // Skip the address bytes
-          }
-        }
+    // Patch every relocatable value recorded during layout, little-endian across its full width
+    for (const { segment, offset: at, width } of this.relocations) {
+      let address = offset;
+      for (let byte = 0; byte < width; byte++) {
+        address += segment.data[at + byte] * 2 ** (8 * byte);
+      }
+      for (let byte = 0; byte < width; byte++) {
+        segment.data[at + byte] = Math.floor(address / 2 ** (8 * byte)) & 0xFF;
+      }
+    }
+
+    // Relocate label addresses; equ constants keep their values
+    for (const label of this.labels) {
+      if (label in this.symbols) {
+        this.symbols[label] += offset;
       }
-      segment.data = new Uint8Array(data);  // Convert back to Uint8Array
     }
 
-    // Relocate symbols
-    for (const symbol in this.symbols) {
-      this.symbols[symbol] += offset;
+    if (this.generated) {
+      this.generated.entryPoint += offset;
     }
   }
-}
\ No newline at end of file
+}
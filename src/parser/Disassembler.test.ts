@@ -0,0 +1,139 @@
+import { Disassembler } from './Disassembler.js';
+import { AssemblyParser } from './AssemblyParser.js';
+import { CodeGenerator } from './CodeGenerator.js';
+
+describe('Disassembler', () => {
+  let disassembler: Disassembler;
+
+  beforeEach(() => {
+    disassembler = new Disassembler();
+  });
+
+  describe('decode()', () => {
+    it('decodes registers and immediates', () => {
+      const bytes = [0x10, 0x14, 0x00, 0x00, 0x00, 0x2A, 0x00];
+      const instruction = disassembler.decode(bytes, 0x100);
+
+      expect(instruction).toEqual({
+        address: 0x100,
+        opcode: 0x10,
+        mnemonic: 'mov',
+        operands: ['r1', '0x2A'],
+        operandValues: [0x00, 0x2A],
+        bytes,
+        size: 7,
+        label: undefined,
+        text: 'mov r1, 0x2A'
+      });
+    });
+
+    it('decodes 16-bit addresses', () => {
+      const instruction = disassembler.decode([0x42, 0x00, 0x34, 0x12]);
+
+      expect(instruction.text).toBe('call 0x1234');
+      expect(instruction.operandValues).toEqual([0x1234]);
+    });
+
+    it('decodes memory addressing modes', () => {
+      disassembler = new Disassembler({ table: 0x0100 });
+
+      const operand = (modeByte: number, value: number) => [modeByte, value & 0xFF, value >> 8];
+      const mov = (dest: number[], src: number[]) => disassembler.decode([0x10, ...dest, ...src]).text;
+
+      expect(mov(operand(0x15, 0), operand(0x00, 7))).toBe('mov [r1], 0x07');
+      expect(mov(operand(0x26, 0x10), operand(0x34, 0))).toBe('mov [r2+0x10], r3');
+      expect(mov(operand(0x01, 0x100), operand(0x02, 0x200))).toBe('mov [table], @0x0200');
+      expect(mov(operand(0x03, 0xFFFE), operand(0x00, 0x1234))).toBe('mov [pc+0xFFFE], 0x1234');
+      expect(mov(operand(0x17, 2), operand(0x38, 0))).toBe('mov [r1+r2], [--r3]');
+      expect(mov(operand(0x09, 0), operand(0x0A, 0x100))).toBe('mov [r0++], <table');
+      expect(mov(operand(0x0B, 0x0200), operand(0x02, 0x100))).toBe('mov >0x0200, @table');
+    });
+
+    it('shows invalid addressing modes and registers as data', () => {
+      expect(disassembler.decode([0x40, 0x0F, 0x00, 0x00]).text).toBe('db 0x40');
+      expect(disassembler.decode([0x40, 0x94, 0x00, 0x00]).text).toBe('db 0x40');
+      expect(disassembler.decode([0x40, 0x17, 0x09, 0x00]).text).toBe('db 0x40');
+    });
+
+    it('decodes instructions without operands', () => {
+      expect(disassembler.decode([0xFF]).text).toBe('halt');
+      expect(disassembler.decode([0x43]).text).toBe('ret');
+    });
+
+    it('shows unknown opcodes and truncated instructions as data', () => {
+      expect(disassembler.decode([0xEE]).text).toBe('db 0xEE');
+
+      const truncated = disassembler.decode([0x30, 0x00, 0x01]);
+      expect(truncated.text).toBe('db 0x30');
+      expect(truncated.size).toBe(1);
+    });
+
+    it('uses label hints from the symbol table', () => {
+      disassembler = new Disassembler({ '$': 0x10, start: 0x10, loop: 0x13 });
+
+      const instruction = disassembler.decode([0x32, 0x00, 0x13, 0x00], 0x10);
+
+      expect(instruction.label).toBe('start');
+      expect(instruction.text).toBe('jnz loop');
+    });
+  });
+
+  describe('disassemble()', () => {
+    it('round-trips assembled code', () => {
+      const source = [
+        'start:',
+        '  mov r0, 5',
+        'loop:',
+        '  dec r0',
+        '  jnz loop',
+        '  push r1',
+        '  halt'
+      ].join('\n');
+
+      const parser = new AssemblyParser();
+      const generator = new CodeGenerator();
+      const parsed = parser.parse(source);
+      const code = generator.layout(generator.encode(parsed.tokens, parsed.symbols), parsed.symbols);
+      generator.relocate(0x200);
+
+      const listing = new Disassembler(parsed.symbols).disassemble(code.segments[0].data, code.segments[0].start);
+
+      expect(listing.map(i => i.text)).toEqual(['mov r0, 0x05', 'dec r0', 'jnz loop', 'push r1', 'halt']);
+      expect(listing.map(i => i.address)).toEqual([0x200, 0x207, 0x20B, 0x20F, 0x213]);
+      expect(listing[1].label).toBe('loop');
+    });
+
+    it('round-trips shifts and bit tests', () => {
+      const source = ['shl r1, 3', 'shr [r2], 1', 'sar r0, r3', 'rol r1, 8', 'ror [0x40], 2', 'bt r0, 15'].join('\n');
+
+      const parser = new AssemblyParser();
+      const generator = new CodeGenerator();
+      const parsed = parser.parse(source);
+      const code = generator.layout(generator.encode(parsed.tokens, parsed.symbols), parsed.symbols);
+
+      expect(parsed.errors).toHaveLength(0);
+      expect(disassembler.disassemble(code.segments[0].data).map(i => i.text)).toEqual([
+        'shl r1, 0x03', 'shr [r2], 0x01', 'sar r0, r3', 'rol r1, 0x08', 'ror [0x0040], 0x02', 'bt r0, 0x0F'
+      ]);
+    });
+
+    it('reads from memory', () => {
+      const memory = new Uint8Array([0x00, 0x60, 0x24, 0x00, 0x00, 0xFF]);
+
+      const listing = disassembler.disassembleMemory({ read: address => memory[address] }, 1, 5);
+
+      expect(listing.map(i => i.text)).toEqual(['inc r2', 'halt']);
+    });
+  });
+
+  describe('format()', () => {
+    it('formats address, bytes, label and text', () => {
+      disassembler = new Disassembler({ start: 0 });
+
+      expect(disassembler.format(disassembler.disassemble([0x30, 0x00, 0x00, 0x00, 0x00], 0))).toBe(
+        '0000  30 00 00 00           start:          jmp start\n' +
+        '0004  00                                    nop'
+      );
+    });
+  });
+});
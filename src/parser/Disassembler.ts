@@ -0,0 +1,207 @@
+import { SymbolTable } from './types.js';
+import {
+  AddressingMode,
+  EncodedOperand,
+  OperandAccess,
+  OPERAND_SIZE,
+  REGISTER_NAMES,
+  decodeOperand,
+  getInstructionSpec,
+  getInstructionSize
+} from '../cpu/ISA.js';
+
+/**
+ * Anything bytes can be read from, e.g. MemorySystem or TrackedMemorySystem
+ */
+export interface MemoryReader {
+  read(address: number): number;
+}
+
+export interface DisassembledInstruction {
+  address: number;
+  opcode: number;
+  mnemonic: string;
+  operands: string[];       // Operands as assembly text
+  operandValues: number[];  // Decoded operand values (addresses are 16-bit)
+  bytes: number[];
+  size: number;
+  label?: string;           // Label defined at this address, if known
+  text: string;             // Full instruction text, e.g. "jmp start"
+}
+
+/**
+ * Turns encoded bot instructions back into assembly.
+ *
+ * Mnemonics, operand layouts and addressing modes come from the shared ISA
+ * definition. Jump targets and direct addresses are replaced by label names
+ * when a symbol table is given. Unknown opcodes, invalid addressing modes and
+ * instructions cut off by the end of the input are shown as `db`.
+ */
+export class Disassembler {
+  // Width of the bytes column (enough for a two-operand instruction)
+  private static readonly BYTES_COLUMN = (1 + 2 * OPERAND_SIZE) * 3 - 1;
+
+  private labels: Map<number, string>;
+
+  /**
+   * @param symbols Optional symbol table used for label hints
+   */
+  constructor(symbols?: SymbolTable) {
+    this.labels = new Map();
+    for (const [name, address] of Object.entries(symbols ?? {})) {
+      // First definition wins; $ is the assembler's current address, not a label
+      if (name !== '$' && !this.labels.has(address)) {
+        this.labels.set(address, name);
+      }
+    }
+  }
+
+  /**
+   * Get the mnemonic for an opcode
+   * @returns The mnemonic, or undefined for unknown opcodes
+   */
+  public static getMnemonic(opcode: number): string | undefined {
+    return getInstructionSpec(opcode)?.mnemonic;
+  }
+
+  /**
+   * Decode a single instruction from its bytes
+   * @param bytes Bytes starting at the instruction; extra bytes are ignored
+   * @param address Address of the first byte
+   */
+  public decode(bytes: ArrayLike<number>, address: number = 0): DisassembledInstruction {
+    const opcode = bytes[0] & 0xFF;
+    const spec = getInstructionSpec(opcode);
+    const size = getInstructionSize(opcode);
+
+    if (!spec || bytes.length < size) {
+      return this.dataByte(opcode, address);
+    }
+
+    const raw = Array.from({ length: size }, (_, i) => bytes[i] & 0xFF);
+    const operandValues: number[] = [];
+    const operands: string[] = [];
+
+    for (let i = 0; i < spec.operands.length; i++) {
+      const operand = decodeOperand(raw, 1 + i * OPERAND_SIZE);
+      const text = this.formatOperand(operand, spec.operands[i].access);
+      if (text === undefined) {
+        return this.dataByte(opcode, address);
+      }
+      operandValues.push(operand.value);
+      operands.push(text);
+    }
+
+    return {
+      address,
+      opcode,
+      mnemonic: spec.mnemonic,
+      operands,
+      operandValues,
+      bytes: raw,
+      size,
+      label: this.labels.get(address),
+      text: operands.length > 0 ? `${spec.mnemonic} ${operands.join(', ')}` : spec.mnemonic
+    };
+  }
+
+  /**
+   * Disassemble a block of bytes
+   * @param bytes Encoded instructions
+   * @param startAddress Address of the first byte
+   */
+  public disassemble(bytes: ArrayLike<number>, startAddress: number = 0): DisassembledInstruction[] {
+    const result: DisassembledInstruction[] = [];
+    let offset = 0;
+
+    while (offset < bytes.length) {
+      const size = getInstructionSize(bytes[offset] & 0xFF);
+      const instruction = this.decode(Array.prototype.slice.call(bytes, offset, offset + size), startAddress + offset);
+      result.push(instruction);
+      offset += instruction.size;
+    }
+
+    return result;
+  }
+
+  /**
+   * Disassemble a range of memory
+   * @param memory Memory to read from
+   * @param start First address
+   * @param length Number of bytes
+   */
+  public disassembleMemory(memory: MemoryReader, start: number, length: number): DisassembledInstruction[] {
+    const bytes = Array.from({ length }, (_, i) => memory.read(start + i));
+    return this.disassemble(bytes, start);
+  }
+
+  /**
+   * Format instructions as `address  bytes  label: text` lines
+   */
+  public format(instructions: DisassembledInstruction[]): string {
+    return instructions.map(instruction => {
+      const address = this.hex(instruction.address, 4).slice(2);
+      const bytes = instruction.bytes.map(b => b.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+      const label = instruction.label ? `${instruction.label}:` : '';
+      return `${address}  ${bytes.padEnd(Disassembler.BYTES_COLUMN)}  ${label.padEnd(16)}${instruction.text}`;
+    }).join('\n');
+  }
+
+  private dataByte(value: number, address: number): DisassembledInstruction {
+    const operand = this.hex(value, 2);
+    return {
+      address,
+      opcode: value,
+      mnemonic: 'db',
+      operands: [operand],
+      operandValues: [value],
+      bytes: [value],
+      size: 1,
+      label: this.labels.get(address),
+      text: `db ${operand}`
+    };
+  }
+
+  // Operand as assembly text, or undefined if its mode or register is invalid
+  private formatOperand(operand: EncodedOperand, access: OperandAccess): string | undefined {
+    const register = REGISTER_NAMES[operand.register];
+    const value = operand.value;
+
+    switch (operand.mode) {
+      case AddressingMode.Immediate:
+        return access === OperandAccess.Target ? this.address(value) : this.hex(value, value < 0x100 ? 2 : 4);
+      case AddressingMode.Direct:
+        return `[${this.address(value)}]`;
+      case AddressingMode.Indirect:
+        return `@${this.address(value)}`;
+      case AddressingMode.PreDecrementIndirect:
+        return `<${this.address(value)}`;
+      case AddressingMode.PostIncrementIndirect:
+        return `>${this.address(value)}`;
+      case AddressingMode.Indexed:
+        return `[pc+${this.hex(value, 4)}]`;
+      case AddressingMode.Register:
+        return register;
+      case AddressingMode.RegisterIndirect:
+        return register && `[${register}]`;
+      case AddressingMode.RegisterIndexed:
+        return register && `[${register}+${this.hex(value, value < 0x100 ? 2 : 4)}]`;
+      case AddressingMode.BaseIndexed:
+        return register && REGISTER_NAMES[value] && `[${register}+${REGISTER_NAMES[value]}]`;
+      case AddressingMode.RegisterPreDecrement:
+        return register && `[--${register}]`;
+      case AddressingMode.RegisterPostIncrement:
+        return register && `[${register}++]`;
+      default:
+        return undefined;
+    }
+  }
+
+  private address(value: number): string {
+    return this.labels.get(value) ?? this.hex(value, 4);
+  }
+
+  private hex(value: number, digits: number): string {
+    return `0x${value.toString(16).toUpperCase().padStart(digits, '0')}`;
+  }
+}
@@ -0,0 +1,56 @@
+import { ExpressionEvaluator } from './ExpressionEvaluator.js';
+
+describe('ExpressionEvaluator', () => {
+  let evaluator: ExpressionEvaluator;
+
+  beforeEach(() => {
+    evaluator = new ExpressionEvaluator();
+  });
+
+  describe('evaluate()', () => {
+    it('handles literals in all supported bases', () => {
+      expect(evaluator.evaluate('42', {})).toBe(42);
+      expect(evaluator.evaluate('0x2A', {})).toBe(42);
+      expect(evaluator.evaluate('$2A', {})).toBe(42);
+      expect(evaluator.evaluate('0b101010', {})).toBe(42);
+    });
+
+    it('respects operator precedence and parentheses', () => {
+      expect(evaluator.evaluate('2 + 3 * 4', {})).toBe(14);
+      expect(evaluator.evaluate('(2 + 3) * 4', {})).toBe(20);
+      expect(evaluator.evaluate('1 << 4 | 1', {})).toBe(17);
+      expect(evaluator.evaluate('0xFF & 0x0F + 1', {})).toBe(0x10);
+      expect(evaluator.evaluate('256 >> 2 - 1', {})).toBe(128);
+      expect(evaluator.evaluate('-7 / 2', {})).toBe(-3);
+      expect(evaluator.evaluate('~0 & 0xFF', {})).toBe(0xFF);
+      expect(evaluator.evaluate('17 % 5 * 2', {})).toBe(4);
+    });
+
+    it('resolves labels and the current address', () => {
+      const symbols = { 'start': 0x10, 'end': 0x40, '$': 0x30 };
+
+      expect(evaluator.evaluate('end - start', symbols)).toBe(0x30);
+      expect(evaluator.evaluate('$ - start', symbols)).toBe(0x20);
+      expect(evaluator.evaluate('$+2', symbols)).toBe(0x32);
+    });
+
+    it('reports undefined symbols and malformed expressions', () => {
+      expect(() => evaluator.evaluate('missing + 1', {})).toThrow('Undefined symbol: missing');
+      expect(() => evaluator.evaluate('(1 + 2', {})).toThrow('Missing closing parenthesis');
+      expect(() => evaluator.evaluate('1 +', {})).toThrow('Unexpected end of expression');
+      expect(() => evaluator.evaluate('4 / 0', {})).toThrow('Division by zero');
+      expect(() => evaluator.evaluate('4 % 0', {})).toThrow('Division by zero');
+      expect(() => evaluator.evaluate('1 < 2', {})).toThrow('Invalid operator');
+    });
+  });
+
+  describe('isExpression()', () => {
+    it('distinguishes expressions from plain operands', () => {
+      expect(ExpressionEvaluator.isExpression('start+2')).toBe(true);
+      expect(ExpressionEvaluator.isExpression('(1)')).toBe(true);
+      expect(ExpressionEvaluator.isExpression('-5')).toBe(false);
+      expect(ExpressionEvaluator.isExpression('0x10')).toBe(false);
+      expect(ExpressionEvaluator.isExpression('loop')).toBe(false);
+    });
+  });
+});
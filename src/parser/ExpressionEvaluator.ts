@@ -0,0 +1,221 @@
+import { SymbolTable } from './types.js';
+
+type ExpressionToken =
+  | { kind: 'number'; value: number }
+  | { kind: 'symbol'; name: string }
+  | { kind: 'operator'; op: string }
+  | { kind: 'paren'; value: '(' | ')' };
+
+/**
+ * Evaluates constant expressions used in operands and `equ` definitions.
+ *
+ * Supports decimal, `0x` / `$` hexadecimal and `0b` binary literals, labels,
+ * `$` (current address), parentheses, unary `-` and `~`, and the binary
+ * operators `* / %`, `+ -`, `<< >>`, `&` and `|` (in decreasing precedence).
+ */
+export class ExpressionEvaluator {
+  // Binary operator precedence, higher binds tighter
+  private static readonly PRECEDENCE: { [op: string]: number } = {
+    '|': 1,
+    '&': 2,
+    '<<': 3, '>>': 3,
+    '+': 4, '-': 4,
+    '*': 5, '/': 5, '%': 5
+  };
+
+  private tokens: ExpressionToken[] = [];
+  private position: number = 0;
+  private symbols: SymbolTable = {};
+
+  /**
+   * Check whether an operand needs expression evaluation rather than
+   * being a plain number, register or symbol
+   */
+  public static isExpression(operand: string): boolean {
+    return /[+\-*/%&|<>()~]/.test(operand) && !/^-?\d+$/.test(operand) && !operand.startsWith('"');
+  }
+
+  /**
+   * Evaluate an expression against a symbol table
+   * @param expression Expression source text
+   * @param symbols Known symbols; `$` is looked up like any other symbol
+   * @returns Integer result
+   * @throws Error on syntax errors, undefined symbols or division by zero
+   */
+  public evaluate(expression: string, symbols: SymbolTable): number {
+    this.tokens = this.tokenize(expression);
+    this.position = 0;
+    this.symbols = symbols;
+
+    if (this.tokens.length === 0) {
+      throw new Error('Empty expression');
+    }
+
+    const value = this.parseBinary(1);
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected token in expression: ${expression}`);
+    }
+    return value;
+  }
+
+  private tokenize(expression: string): ExpressionToken[] {
+    const tokens: ExpressionToken[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+      const char = expression[i];
+
+      if (char === ' ' || char === '\t') {
+        i++;
+        continue;
+      }
+
+      if (char === '(' || char === ')') {
+        tokens.push({ kind: 'paren', value: char });
+        i++;
+        continue;
+      }
+
+      if (char === '<' || char === '>') {
+        if (expression[i + 1] !== char) {
+          throw new Error(`Invalid operator in expression: ${char}`);
+        }
+        tokens.push({ kind: 'operator', op: char + char });
+        i += 2;
+        continue;
+      }
+
+      if ('+-*/%&|~'.includes(char)) {
+        tokens.push({ kind: 'operator', op: char });
+        i++;
+        continue;
+      }
+
+      // `$` followed by hex digits is a hex literal, a bare `$` is the current address
+      if (char === '$') {
+        const match = /^\$([0-9a-fA-F]+)/.exec(expression.slice(i));
+        if (match) {
+          tokens.push({ kind: 'number', value: parseInt(match[1], 16) });
+          i += match[0].length;
+        } else {
+          tokens.push({ kind: 'symbol', name: '$' });
+          i++;
+        }
+        continue;
+      }
+
+      const rest = expression.slice(i);
+      const number = /^(0x[0-9a-fA-F]+|0b[01]+|\d+)(?![a-zA-Z0-9_])/.exec(rest);
+      if (number) {
+        const text = number[1];
+        const value = text.startsWith('0b') ? parseInt(text.slice(2), 2) : parseInt(text, text.startsWith('0x') ? 16 : 10);
+        tokens.push({ kind: 'number', value });
+        i += text.length;
+        continue;
+      }
+
+      const identifier = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(rest);
+      if (identifier) {
+        tokens.push({ kind: 'symbol', name: identifier[0] });
+        i += identifier[0].length;
+        continue;
+      }
+
+      throw new Error(`Invalid character in expression: ${char}`);
+    }
+
+    return tokens;
+  }
+
+  // Precedence climbing over the binary operators
+  private parseBinary(minPrecedence: number): number {
+    let left = this.parseUnary();
+
+    while (this.position < this.tokens.length) {
+      const token = this.tokens[this.position];
+      if (token.kind !== 'operator') break;
+
+      const precedence = ExpressionEvaluator.PRECEDENCE[token.op];
+      if (precedence === undefined || precedence < minPrecedence) break;
+
+      this.position++;
+      const right = this.parseBinary(precedence + 1);
+      left = this.applyOperator(token.op, left, right);
+    }
+
+    return left;
+  }
+
+  private parseUnary(): number {
+    const token = this.tokens[this.position];
+    if (!token) {
+      throw new Error('Unexpected end of expression');
+    }
+
+    if (token.kind === 'operator' && (token.op === '-' || token.op === '~' || token.op === '+')) {
+      this.position++;
+      const operand = this.parseUnary();
+      if (token.op === '-') return -operand;
+      if (token.op === '~') return ~operand;
+      return operand;
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): number {
+    const token = this.tokens[this.position++];
+
+    switch (token.kind) {
+      case 'number':
+        return token.value;
+
+      case 'symbol': {
+        const value = this.symbols[token.name];
+        if (value === undefined) {
+          throw new Error(`Undefined symbol: ${token.name}`);
+        }
+        return value;
+      }
+
+      case 'paren': {
+        if (token.value !== '(') {
+          throw new Error('Unexpected closing parenthesis');
+        }
+        const value = this.parseBinary(1);
+        const closing = this.tokens[this.position++];
+        if (!closing || closing.kind !== 'paren' || closing.value !== ')') {
+          throw new Error('Missing closing parenthesis');
+        }
+        return value;
+      }
+
+      default:
+        throw new Error(`Unexpected operator: ${token.op}`);
+    }
+  }
+
+  private applyOperator(op: string, left: number, right: number): number {
+    switch (op) {
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/':
+        if (right === 0) {
+          throw new Error('Division by zero in expression');
+        }
+        return Math.trunc(left / right);
+      case '%':
+        if (right === 0) {
+          throw new Error('Division by zero in expression');
+        }
+        return left % right;
+      case '&': return left & right;
+      case '|': return left | right;
+      case '<<': return left << right;
+      case '>>': return left >> right;
+      default:
+        throw new Error(`Unknown operator: ${op}`);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { formatListing } from './Listing.js';
+
+describe('formatListing', () => {
+  it('formats address, bytes, location and source text', () => {
+    const source = 'start:\n  mov r0, 1 ; load\n  halt';
+
+    const listing = formatListing([
+      { address: 0x10, bytes: [0x10, 0x00, 0x01], line: 2 },
+      { address: 0x13, bytes: [0xFF], line: 3 }
+    ], source);
+
+    expect(listing.split('\n')).toEqual([
+      '0010  10 00 01                2               mov r0, 1 ; load',
+      '0013  FF                      3               halt'
+    ]);
+  });
+
+  it('looks up included files by name', () => {
+    const listing = formatListing(
+      [{ address: 0, bytes: [0x43], line: 1, file: 'lib.inc' }],
+      { 'main.asm': 'nop', 'lib.inc': 'ret' }
+    );
+
+    expect(listing).toBe('0000  43                      lib.inc:1       ret');
+  });
+
+  it('omits the location when it is unknown', () => {
+    expect(formatListing([{ address: 0x200, bytes: [0x00] }], '')).toBe('0200  00');
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * One emitted instruction or data definition
+ */
+export interface ListingEntry {
+  address: number;
+  bytes: number[];
+  line?: number;
+  file?: string;
+}
+
+// Width of the bytes column (enough for a dq)
+const BYTES_COLUMN = 8 * 3;
+
+/**
+ * Format a listing as `address  bytes  location  source` lines
+ * @param entries Entries from CodeGenerator.getListing()
+ * @param sources Source of the main file, or a map of file name to source
+ *                (entries without a file use the '' key)
+ */
+export function formatListing(entries: ListingEntry[], sources: string | { [file: string]: string }): string {
+  const sourceMap = typeof sources === 'string' ? { '': sources } : sources;
+  const linesByFile = new Map<string, string[]>();
+
+  const sourceLine = (entry: ListingEntry): string => {
+    const file = entry.file ?? '';
+    if (!linesByFile.has(file)) {
+      linesByFile.set(file, sourceMap[file]?.split('\n') ?? []);
+    }
+    return entry.line !== undefined ? (linesByFile.get(file)![entry.line - 1] ?? '').trim() : '';
+  };
+
+  return entries.map(entry => {
+    const address = entry.address.toString(16).toUpperCase().padStart(4, '0');
+    const bytes = entry.bytes.map(b => b.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+    const location = entry.line !== undefined ? `${entry.file ? `${entry.file}:` : ''}${entry.line}` : '';
+    return `${address}  ${bytes.padEnd(BYTES_COLUMN)}${location.padEnd(16)}${sourceLine(entry)}`.trimEnd();
+  }).join('\n');
+}
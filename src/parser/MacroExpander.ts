@@ -0,0 +1,229 @@
+import { ParseError, SourceLine } from './types.js';
+
+interface MacroDefinition {
+  name: string;
+  params: string[];
+  body: SourceLine[];
+  source: SourceLine;
+}
+
+export interface MacroExpansionResult {
+  lines: SourceLine[];
+  errors: ParseError[];
+}
+
+/**
+ * Expands `.macro` / `.endm` blocks before symbol collection.
+ *
+ *   .macro bomb target, value
+ *       mov [target], value
+ *   .endm
+ *       bomb 0x200, 0
+ *
+ * Parameters are substituted as whole identifiers, and `\@` in a macro body
+ * expands to a counter unique to each invocation so that labels declared
+ * inside a macro do not collide (e.g. `loop\@:`).
+ * Expanded lines keep the file and line number of the invocation.
+ */
+export class MacroExpander {
+  private static readonly MAX_DEPTH = 16;
+
+  private macros: Map<string, MacroDefinition> = new Map();
+  private errors: ParseError[] = [];
+  private invocationCount: number = 0;
+
+  /**
+   * @param reservedNames Names that cannot be used as macro names (instructions, data definitions)
+   */
+  constructor(private readonly reservedNames: Set<string> = new Set()) {}
+
+  public expand(lines: SourceLine[]): MacroExpansionResult {
+    this.macros = new Map();
+    this.errors = [];
+    this.invocationCount = 0;
+
+    const withoutDefinitions = this.collectDefinitions(lines);
+    const expanded = this.expandLines(withoutDefinitions, 0);
+
+    return { lines: expanded, errors: this.errors };
+  }
+
+  // Strip macro definitions out of the source and record them
+  private collectDefinitions(lines: SourceLine[]): SourceLine[] {
+    const result: SourceLine[] = [];
+    let current: MacroDefinition | null = null;
+
+    for (const sourceLine of lines) {
+      const code = this.stripComment(sourceLine.text).trim();
+      const words = code.split(/\s+/);
+      const keyword = words[0].toLowerCase();
+
+      if (keyword === '.macro') {
+        if (current) {
+          this.addError(`Nested macro definition inside ${current.name}`, sourceLine);
+          continue;
+        }
+        current = this.parseDefinitionHeader(code, sourceLine);
+        continue;
+      }
+
+      if (keyword === '.endm') {
+        if (!current) {
+          this.addError('.endm without matching .macro', sourceLine);
+          continue;
+        }
+        if (current.name) {
+          if (this.macros.has(current.name)) {
+            this.addError(`Macro already defined: ${current.name}`, current.source);
+          } else {
+            this.macros.set(current.name, current);
+          }
+        }
+        current = null;
+        continue;
+      }
+
+      if (current) {
+        current.body.push(sourceLine);
+      } else {
+        result.push(sourceLine);
+      }
+    }
+
+    if (current) {
+      this.addError(`Unterminated macro: ${current.name}`, current.source);
+    }
+
+    return result;
+  }
+
+  private parseDefinitionHeader(code: string, source: SourceLine): MacroDefinition {
+    const header = code.slice('.macro'.length).trim();
+    const nameMatch = /^([a-zA-Z_][a-zA-Z0-9_]*)\s*(.*)$/.exec(header);
+    const definition: MacroDefinition = { name: '', params: [], body: [], source };
+
+    if (!nameMatch) {
+      this.addError('Macro definition requires a name', source);
+      return definition;
+    }
+
+    const name = nameMatch[1].toLowerCase();
+    if (this.reservedNames.has(name)) {
+      this.addError(`Macro name conflicts with reserved word: ${name}`, source);
+      return definition;
+    }
+
+    const params = nameMatch[2] ? this.splitArguments(nameMatch[2]) : [];
+    for (const param of params) {
+      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(param)) {
+        this.addError(`Invalid macro parameter: ${param}`, source);
+        return definition;
+      }
+    }
+
+    definition.name = name;
+    definition.params = params;
+    return definition;
+  }
+
+  private expandLines(lines: SourceLine[], depth: number): SourceLine[] {
+    const result: SourceLine[] = [];
+
+    for (const sourceLine of lines) {
+      const invocation = this.matchInvocation(sourceLine.text);
+      if (!invocation) {
+        result.push(sourceLine);
+        continue;
+      }
+
+      if (depth >= MacroExpander.MAX_DEPTH) {
+        this.addError(`Macro expansion too deep: ${invocation.macro.name}`, sourceLine);
+        continue;
+      }
+
+      const { macro, label, args } = invocation;
+      if (args.length !== macro.params.length) {
+        this.addError(`Macro ${macro.name} expects ${macro.params.length} argument(s), got ${args.length}`, sourceLine);
+        continue;
+      }
+
+      if (label) {
+        result.push({ ...sourceLine, text: `${label}:` });
+      }
+
+      const uniqueId = String(++this.invocationCount);
+      const body = macro.body.map(bodyLine => ({
+        ...sourceLine,
+        text: this.substitute(bodyLine.text, macro.params, args, uniqueId)
+      }));
+
+      result.push(...this.expandLines(body, depth + 1));
+    }
+
+    return result;
+  }
+
+  private matchInvocation(text: string): { macro: MacroDefinition; label: string | null; args: string[] } | null {
+    if (this.macros.size === 0) return null;
+
+    const code = this.stripComment(text).trim();
+    const match = /^(?:([a-zA-Z_][a-zA-Z0-9_]*):\s*)?([a-zA-Z_][a-zA-Z0-9_]*)(?:\s+(.*))?$/.exec(code);
+    if (!match) return null;
+
+    const macro = this.macros.get(match[2].toLowerCase());
+    if (!macro) return null;
+
+    const args = match[3] ? this.splitArguments(match[3]) : [];
+    return { macro, label: match[1] ?? null, args };
+  }
+
+  private substitute(text: string, params: string[], args: string[], uniqueId: string): string {
+    let result = text.replace(/\\@/g, `_${uniqueId}`);
+    params.forEach((param, index) => {
+      result = result.replace(new RegExp(`\\b${param}\\b`, 'g'), () => args[index]);
+    });
+    return result;
+  }
+
+  // Split macro arguments on top-level commas, keeping brackets, parentheses and strings intact
+  private splitArguments(text: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let depth = 0;
+    let inQuotes = false;
+
+    for (const char of text) {
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (!inQuotes && (char === '[' || char === '(')) {
+        depth++;
+      } else if (!inQuotes && (char === ']' || char === ')')) {
+        depth--;
+      } else if (char === ',' && depth === 0 && !inQuotes) {
+        args.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+
+    if (current.trim()) {
+      args.push(current.trim());
+    }
+
+    return args;
+  }
+
+  private addError(message: string, at: SourceLine): void {
+    this.errors.push(at.file ? { message, line: at.line, file: at.file } : { message, line: at.line });
+  }
+
+  private stripComment(text: string): string {
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '"') inQuotes = !inQuotes;
+      if (text[i] === ';' && !inQuotes) return text.substring(0, i);
+    }
+    return text;
+  }
+}
@@ -0,0 +1,163 @@
+import { RedcodeParser } from './RedcodeParser.js';
+import { RedcodeMode, RedcodeModifier, RedcodeOpcode, formatRedcode } from '../cpu/Redcode.js';
+
+describe('RedcodeParser', () => {
+  let parser: RedcodeParser;
+
+  beforeEach(() => {
+    parser = new RedcodeParser();
+  });
+
+  const format = (source: string) => {
+    const result = parser.parse(source);
+    expect(result.errors).toEqual([]);
+    return result.warrior.instructions.map(formatRedcode);
+  };
+
+  describe('instructions', () => {
+    it('parses the Dwarf with relative labels', () => {
+      const result = parser.parse(`
+;redcode-94
+;name Dwarf
+;author A. K. Dewdney
+        ORG     start
+start   ADD.AB  #4, bomb
+        MOV.I   bomb, @bomb
+        JMP     start
+bomb    DAT     #0, #0
+        END
+`);
+
+      expect(result.errors).toEqual([]);
+      expect(result.warrior.name).toBe('Dwarf');
+      expect(result.warrior.author).toBe('A. K. Dewdney');
+      expect(result.warrior.start).toBe(0);
+      expect(result.warrior.instructions.map(formatRedcode)).toEqual([
+        'ADD.AB #4, $3',
+        'MOV.I $2, @2',
+        'JMP.B $-2, $0',
+        'DAT.F #0, #0'
+      ]);
+    });
+
+    it('defaults modifiers by the ICWS \'94 rules', () => {
+      expect(format(`
+        mov 0, 1
+        mov #1, 1
+        mov 1, #1
+        add 1, 1
+        slt #1, 1
+        slt 1, 1
+        jmp 0
+        dat 1
+        nop
+      `)).toEqual([
+        'MOV.I $0, $1',
+        'MOV.AB #1, $1',
+        'MOV.B $1, #1',
+        'ADD.F $1, $1',
+        'SLT.AB #1, $1',
+        'SLT.B $1, $1',
+        'JMP.B $0, $0',
+        'DAT.F #0, $1',
+        'NOP.F $0, $0'
+      ]);
+    });
+
+    it('accepts every addressing mode', () => {
+      const result = parser.parse('mov.i #1, $2\nmov.i *3, @4\nmov.i {5, <6\nmov.i }7, >8');
+
+      expect(result.errors).toEqual([]);
+      expect(result.warrior.instructions.flatMap(i => [i.a.mode, i.b.mode])).toEqual([
+        RedcodeMode.Immediate, RedcodeMode.Direct,
+        RedcodeMode.AIndirect, RedcodeMode.BIndirect,
+        RedcodeMode.APreDecrement, RedcodeMode.BPreDecrement,
+        RedcodeMode.APostIncrement, RedcodeMode.BPostIncrement
+      ]);
+    });
+
+    it('accepts labels ending in a colon and labels on their own line', () => {
+      expect(format('top:\n  jmp top\nnext: jmp top')).toEqual(['JMP.B $0, $0', 'JMP.B $-1, $0']);
+    });
+
+    it('is case-insensitive for opcodes and modifiers', () => {
+      const [instruction] = parser.parse('Mov.Ab #1, 2').warrior.instructions;
+
+      expect(instruction.opcode).toBe(RedcodeOpcode.MOV);
+      expect(instruction.modifier).toBe(RedcodeModifier.AB);
+    });
+  });
+
+  describe('directives', () => {
+    it('substitutes EQU constants as expressions', () => {
+      expect(format(`
+step    equ 2 + 3
+gap     equ step * 2
+        add #gap, 0
+        dat #step % 4, #-step
+      `)).toEqual(['ADD.AB #10, $0', 'DAT.F #1, #-5']);
+    });
+
+    it('takes the start from ORG or END', () => {
+      expect(parser.parse('dat 0\nbegin jmp 0\n org begin').warrior.start).toBe(1);
+      expect(parser.parse('dat 0\nbegin jmp 0\n end begin\n this is ignored').warrior.start).toBe(1);
+    });
+
+    it('repeats FOR blocks with a counter', () => {
+      expect(format(`
+i       for 3
+x&i     dat #i, x&i
+        rof
+      `)).toEqual(['DAT.F #1, $0', 'DAT.F #2, $0', 'DAT.F #3, $0']);
+    });
+
+    it('expands nested FOR blocks and skips FOR 0', () => {
+      expect(format(`
+        for 2
+          for 2
+            nop
+          rof
+        rof
+        for 0
+          dat 0
+        rof
+        jmp 0
+      `)).toHaveLength(5);
+    });
+  });
+
+  describe('errors', () => {
+    it('reports unknown opcodes and modifiers', () => {
+      const result = parser.parse('jmp 0\nfoo bar 1, 2\nmov.z 0, 1');
+
+      expect(result.errors.map(e => e.line)).toEqual([2, 3]);
+      expect(result.errors[1].message).toContain('Invalid modifier');
+    });
+
+    it('rejects P-space instructions', () => {
+      const result = parser.parse('ldp.ab #0, 1\nstp.b 1, #0');
+
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0].message).toContain('P-space is not supported');
+    });
+
+    it('reports duplicate labels, undefined symbols and extra operands', () => {
+      const result = parser.parse('a jmp 0\na jmp 0\n jmp missing\n mov 0, 1, 2');
+
+      expect(result.errors.map(e => e.message)).toEqual([
+        'Duplicate label: a',
+        'Undefined symbol: missing',
+        'Too many operands for MOV: 0, 1, 2'
+      ]);
+    });
+
+    it('reports unbalanced FOR and recursive EQU', () => {
+      expect(parser.parse('for 2\n dat 0').errors[0].message).toBe('FOR without ROF');
+      expect(parser.parse('a equ b\nb equ a\n dat a').errors[0].message).toContain('Recursive EQU');
+    });
+
+    it('reports an empty warrior', () => {
+      expect(parser.parse('; nothing here').errors[0].message).toBe('Warrior has no instructions');
+    });
+  });
+});
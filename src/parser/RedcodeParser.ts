@@ -0,0 +1,374 @@
+import { ParseError, RedcodeParseResult, RedcodeWarrior, SymbolTable } from './types.js';
+import { ExpressionEvaluator } from './ExpressionEvaluator.js';
+import {
+  RedcodeInstruction,
+  RedcodeMode,
+  RedcodeModifier,
+  RedcodeOpcode,
+  RedcodeOperand,
+  getDefaultModifier,
+  isRedcodeMode,
+  isRedcodeModifier,
+  isRedcodeOpcode
+} from '../cpu/Redcode.js';
+
+// A source line with comments removed
+interface RedcodeLine {
+  text: string;
+  line: number;
+}
+
+// A line split into its labels, operation and operand text
+interface Statement {
+  labels: string[];
+  operation: string | null;  // Upper-cased opcode (with modifier) or directive
+  operands: string;
+  line: number;
+}
+
+/**
+ * Parses classic Redcode (ICWS '94) warriors.
+ *
+ * Supports opcodes with `.A .B .AB .BA .F .X .I` modifiers (defaulted by the
+ * ICWS '94 rules when omitted), the `# $ * @ { < } >` addressing modes,
+ * labels as relative addresses, constant expressions, and the `ORG`, `END`,
+ * `EQU` and `FOR`/`ROF` directives. `;name` and `;author` comments are
+ * recorded. P-space instructions are rejected.
+ */
+export class RedcodeParser {
+  // Directives that are not instructions
+  private static readonly DIRECTIVES = new Set(['EQU', 'ORG', 'END', 'FOR', 'ROF']);
+
+  // P-space instructions, which the cell-based core does not provide
+  private static readonly PSPACE = new Set(['LDP', 'STP', 'PIN']);
+
+  // Nesting limit for EQU substitution, which catches self-referencing constants
+  private static readonly MAX_EQU_DEPTH = 32;
+
+  private evaluator: ExpressionEvaluator = new ExpressionEvaluator();
+  private errors: ParseError[] = [];
+  private constants: Map<string, string> = new Map();
+  private labels: Map<string, number> = new Map();
+  private metadata: { name?: string; author?: string } = {};
+  private endStart: string | null = null;
+
+  /**
+   * Parse a Redcode warrior
+   * @param source Redcode source text
+   */
+  public parse(source: string): RedcodeParseResult {
+    this.reset();
+
+    const statements = this.expandLoops(this.readStatements(source));
+    const program = this.assignAddresses(statements);
+    const warrior: RedcodeWarrior = {
+      ...this.metadata,
+      instructions: [],
+      start: 0
+    };
+
+    program.instructions.forEach((statement, address) => {
+      try {
+        warrior.instructions.push(this.parseInstruction(statement, address));
+      } catch (error) {
+        this.error(error, statement.line);
+      }
+    });
+
+    if (program.instructions.length === 0) {
+      this.errors.push({ message: 'Warrior has no instructions', line: 0 });
+    }
+
+    warrior.start = this.resolveStart(program.org);
+    return { warrior, errors: this.errors };
+  }
+
+  private reset(): void {
+    this.errors = [];
+    this.constants = new Map();
+    this.labels = new Map();
+    this.metadata = {};
+    this.endStart = null;
+  }
+
+  // Strip comments, record metadata, and stop at END
+  private readStatements(source: string): Statement[] {
+    const statements: Statement[] = [];
+    const lines = source.split(/\r?\n/);
+
+    for (let index = 0; index < lines.length; index++) {
+      const raw = lines[index];
+      const commentStart = raw.indexOf(';');
+      if (commentStart >= 0) {
+        this.readMetadata(raw.slice(commentStart + 1));
+      }
+
+      const text = (commentStart >= 0 ? raw.slice(0, commentStart) : raw).trim();
+      if (!text) continue;
+
+      const statement = this.splitStatement({ text, line: index + 1 });
+      if (statement.operation === 'END') {
+        this.endStart = statement.operands || null;
+        break;
+      }
+      if (statement.operation === 'EQU') {
+        this.defineConstant(statement);
+        continue;
+      }
+      statements.push(statement);
+    }
+
+    return statements;
+  }
+
+  private readMetadata(comment: string): void {
+    const match = /^\s*(name|author)\s+(.*)$/i.exec(comment);
+    if (match) {
+      const key = match[1].toLowerCase() as 'name' | 'author';
+      this.metadata[key] ??= match[2].trim();
+    }
+  }
+
+  // Labels come first; the first word that is an opcode or directive starts the operation
+  private splitStatement(source: RedcodeLine): Statement {
+    const labels: string[] = [];
+    let rest = source.text;
+
+    while (rest) {
+      const word = /^([^\s,]+)\s*/.exec(rest);
+      if (!word) break;
+
+      const name = word[1];
+      const keyword = name.split('.')[0].toUpperCase();
+      if (isRedcodeOpcode(keyword) || RedcodeParser.DIRECTIVES.has(keyword) || RedcodeParser.PSPACE.has(keyword)) {
+        return { labels, operation: name.toUpperCase(), operands: rest.slice(word[0].length).trim(), line: source.line };
+      }
+
+      const label = name.endsWith(':') ? name.slice(0, -1) : name;
+      if (!/^[A-Za-z_&][A-Za-z0-9_&]*$/.test(label)) {
+        this.errors.push({ message: `Invalid label or opcode: ${name}`, line: source.line });
+        return { labels, operation: null, operands: '', line: source.line };
+      }
+      labels.push(label);
+      rest = rest.slice(word[0].length);
+    }
+
+    return { labels, operation: null, operands: '', line: source.line };
+  }
+
+  private defineConstant(statement: Statement): void {
+    if (statement.labels.length !== 1) {
+      this.errors.push({ message: 'EQU requires exactly one name', line: statement.line });
+    } else if (this.constants.has(statement.labels[0])) {
+      this.errors.push({ message: `Duplicate constant: ${statement.labels[0]}`, line: statement.line });
+    } else {
+      this.constants.set(statement.labels[0], statement.operands);
+    }
+  }
+
+  /**
+   * Repeat `[counter] FOR count` ... `ROF` blocks. Inside a block the counter
+   * name stands for the iteration number (from 1), and `&counter` pastes it
+   * as two digits, e.g. `x&i` becomes `x01`.
+   */
+  private expandLoops(statements: Statement[]): Statement[] {
+    const result: Statement[] = [];
+
+    for (let index = 0; index < statements.length; index++) {
+      const statement = statements[index];
+      if (statement.operation === 'ROF') {
+        this.errors.push({ message: 'ROF without FOR', line: statement.line });
+        continue;
+      }
+      if (statement.operation !== 'FOR') {
+        result.push(statement);
+        continue;
+      }
+
+      const end = this.findLoopEnd(statements, index);
+      if (end < 0) {
+        this.errors.push({ message: 'FOR without ROF', line: statement.line });
+        break;
+      }
+
+      let count = 0;
+      try {
+        count = this.evaluate(statement.operands, {});
+      } catch (error) {
+        this.error(error, statement.line);
+      }
+
+      const counter = statement.labels[statement.labels.length - 1];
+      const body = statements.slice(index + 1, end);
+      for (let iteration = 1; iteration <= count; iteration++) {
+        const copy = counter ? body.map(line => this.substituteCounter(line, counter, iteration)) : body;
+        result.push(...this.expandLoops(copy));
+      }
+      index = end;
+    }
+
+    return result;
+  }
+
+  private findLoopEnd(statements: Statement[], start: number): number {
+    let depth = 0;
+    for (let index = start + 1; index < statements.length; index++) {
+      if (statements[index].operation === 'FOR') depth++;
+      if (statements[index].operation === 'ROF' && depth-- === 0) return index;
+    }
+    return -1;
+  }
+
+  private substituteCounter(statement: Statement, counter: string, iteration: number): Statement {
+    const pasted = new RegExp(`&${counter}\\b`, 'g');
+    const standalone = new RegExp(`\\b${counter}\\b`, 'g');
+    const digits = iteration.toString().padStart(2, '0');
+    const substitute = (text: string) => text.replace(pasted, digits).replace(standalone, iteration.toString());
+    return {
+      ...statement,
+      labels: statement.labels.map(label => label.replace(pasted, digits)),
+      operands: substitute(statement.operands)
+    };
+  }
+
+  // Give labels their instruction offsets and find the ORG directive
+  private assignAddresses(statements: Statement[]): { instructions: Statement[]; org: Statement | null } {
+    const instructions: Statement[] = [];
+    let pending: string[] = [];
+    let org: Statement | null = null;
+
+    for (const statement of statements) {
+      pending.push(...statement.labels);
+      if (statement.operation === null) continue;
+
+      if (statement.operation === 'ORG') {
+        org = statement;
+        continue;
+      }
+
+      for (const label of pending) {
+        if (this.labels.has(label) || this.constants.has(label)) {
+          this.errors.push({ message: `Duplicate label: ${label}`, line: statement.line });
+        } else {
+          this.labels.set(label, instructions.length);
+        }
+      }
+      pending = [];
+      instructions.push(statement);
+    }
+
+    return { instructions, org };
+  }
+
+  private parseInstruction(statement: Statement, address: number): RedcodeInstruction {
+    const [opcodeName, modifierName, ...extra] = statement.operation!.split('.');
+    if (RedcodeParser.PSPACE.has(opcodeName)) {
+      throw new Error(`P-space is not supported: ${opcodeName}`);
+    }
+    if (extra.length > 0 || (modifierName !== undefined && !isRedcodeModifier(modifierName))) {
+      throw new Error(`Invalid modifier: ${statement.operation}`);
+    }
+
+    const opcode = opcodeName as RedcodeOpcode;
+    const texts = this.splitOperands(statement.operands);
+    if (texts.length > 2) {
+      throw new Error(`Too many operands for ${opcode}: ${statement.operands}`);
+    }
+    if (texts.length === 0 && opcode !== RedcodeOpcode.DAT && opcode !== RedcodeOpcode.NOP) {
+      throw new Error(`Missing operand for ${opcode}`);
+    }
+
+    const operands = texts.map(text => this.parseOperand(text, address));
+    const immediateZero: RedcodeOperand = { mode: RedcodeMode.Immediate, value: 0 };
+    const directZero: RedcodeOperand = { mode: RedcodeMode.Direct, value: 0 };
+
+    // A lone DAT operand is the B-field; any other lone operand is the A-field
+    let a: RedcodeOperand;
+    let b: RedcodeOperand;
+    if (opcode === RedcodeOpcode.DAT) {
+      [a, b] = operands.length === 2 ? operands : [immediateZero, operands[0] ?? immediateZero];
+    } else {
+      a = operands[0] ?? directZero;
+      b = operands[1] ?? directZero;
+    }
+
+    const modifier = modifierName !== undefined
+      ? modifierName as RedcodeModifier
+      : getDefaultModifier(opcode, a.mode, b.mode);
+
+    return { opcode, modifier, a, b };
+  }
+
+  private splitOperands(text: string): string[] {
+    if (!text.trim()) return [];
+
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of text) {
+      if (char === '(') depth++;
+      if (char === ')') depth--;
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current.trim());
+    return parts;
+  }
+
+  private parseOperand(text: string, address: number): RedcodeOperand {
+    if (!text) {
+      throw new Error('Empty operand');
+    }
+
+    const hasMode = isRedcodeMode(text[0]);
+    const mode = hasMode ? text[0] as RedcodeMode : RedcodeMode.Direct;
+    const expression = (hasMode ? text.slice(1) : text).trim();
+
+    // Labels are relative to the instruction that uses them
+    const relative: SymbolTable = {};
+    for (const [label, target] of this.labels) {
+      relative[label] = target - address;
+    }
+
+    return { mode, value: this.evaluate(expression, relative) };
+  }
+
+  private resolveStart(org: Statement | null): number {
+    const text = this.endStart ?? org?.operands;
+    if (!text) return 0;
+
+    const absolute: SymbolTable = Object.fromEntries(this.labels);
+    try {
+      return this.evaluate(text, absolute);
+    } catch (error) {
+      this.error(error, org?.line ?? 0);
+      return 0;
+    }
+  }
+
+  // Evaluate an expression after replacing EQU names by their (parenthesized) text
+  private evaluate(expression: string, symbols: SymbolTable): number {
+    let text = expression;
+    for (let depth = 0; ; depth++) {
+      const replaced = text.replace(/[A-Za-z_][A-Za-z0-9_]*/g, name =>
+        this.constants.has(name) && !(name in symbols) ? `(${this.constants.get(name)})` : name);
+      if (replaced === text) break;
+      if (depth >= RedcodeParser.MAX_EQU_DEPTH) {
+        throw new Error(`Recursive EQU in: ${expression}`);
+      }
+      text = replaced;
+    }
+    return this.evaluator.evaluate(text, symbols);
+  }
+
+  private error(error: unknown, line: number): void {
+    this.errors.push({
+      message: error instanceof Error ? error.message : 'Unknown error',
+      line
+    });
+  }
+}
@@ -0,0 +1,101 @@
+import { SectionLayout } from './SectionLayout.js';
+
+describe('SectionLayout', () => {
+  let layout: SectionLayout;
+
+  beforeEach(() => {
+    layout = new SectionLayout();
+  });
+
+  it('places code at 0 and floating data after the code', () => {
+    layout.advance(4);
+    layout.switchTo('data');
+    const table = layout.position();
+    layout.advance(2);
+    layout.finalize();
+
+    expect(layout.resolve(table)).toBe(4);
+    expect(layout.getSegments()).toEqual([
+      { section: 'code', start: 0, size: 4, absolute: true },
+      { section: 'data', start: 4, size: 2, absolute: true }
+    ]);
+  });
+
+  it('places const after data', () => {
+    layout.advance(3);
+    layout.switchTo('const');
+    layout.advance(1);
+    layout.switchTo('data');
+    layout.advance(2);
+    layout.finalize();
+
+    expect(layout.getSegments().map(s => [s.section, s.start])).toEqual([
+      ['code', 0], ['const', 5], ['data', 3]
+    ]);
+  });
+
+  it('continues a section where it left off', () => {
+    layout.advance(2);
+    layout.switchTo('data');
+    layout.advance(1);
+    layout.switchTo('code');
+    const resumed = layout.position();
+    layout.advance(1);
+    layout.finalize();
+
+    expect(layout.resolve(resumed)).toBe(2);
+  });
+
+  it('pins content after .org to an absolute address', () => {
+    layout.advance(2);
+    layout.org(0x40);
+    const pinned = layout.position();
+    layout.advance(1);
+    layout.switchTo('data');
+    const data = layout.position();
+    layout.finalize();
+
+    expect(layout.resolve(pinned)).toBe(0x40);
+    // Floating data follows the code laid out before .org
+    expect(layout.resolve(data)).toBe(2);
+  });
+
+  it('pads to the requested alignment', () => {
+    layout.advance(3);
+    expect(layout.align(4)).toBe(1);
+    expect(layout.align(4)).toBe(0);
+    expect(layout.position().offset).toBe(4);
+  });
+
+  it('aligns the base of a floating section', () => {
+    layout.advance(5);
+    layout.switchTo('data');
+    layout.align(8);
+    const table = layout.position();
+    layout.advance(1);
+    layout.finalize();
+
+    expect(layout.resolve(table)).toBe(8);
+  });
+
+  it('reserves space inside the current segment', () => {
+    layout.advance(1);
+    layout.reserve(6);
+    layout.advance(1);
+    layout.finalize();
+
+    expect(layout.getSegments()).toEqual([
+      { section: 'code', start: 0, size: 8, absolute: true }
+    ]);
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => layout.org(-1)).toThrow('Invalid .org address');
+    expect(() => layout.align(0)).toThrow('Invalid .align value');
+    expect(() => layout.reserve(-4)).toThrow('Invalid .space size');
+  });
+
+  it('requires finalize before resolving', () => {
+    expect(() => layout.resolve(layout.position())).toThrow('not been finalized');
+  });
+});
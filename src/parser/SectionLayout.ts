@@ -0,0 +1,176 @@
+export type SectionName = 'code' | 'data' | 'const';
+
+/**
+ * A position produced by the layout. Offsets in floating sections are
+ * relative to the section base until the layout is finalized.
+ */
+export interface LayoutPosition {
+  section: SectionName;
+  offset: number;
+  absolute: boolean;
+}
+
+/**
+ * A contiguous run of content (emitted or reserved) within one section
+ */
+export interface LayoutSegment {
+  section: SectionName;
+  start: number;
+  size: number;
+  absolute: boolean;
+}
+
+interface SectionState {
+  counter: number;
+  absolute: boolean;     // Set once .org pins the section to a fixed address
+  relativeEnd: number;   // End of content laid out before any .org
+  maxAlignment: number;
+}
+
+/**
+ * Tracks location counters for the .code, .data and .const sections and
+ * the .org, .align and .space directives.
+ *
+ * Sections without an .org float: code starts at 0, data follows the end of
+ * the code and const follows the end of the data, each aligned to the largest
+ * .align used inside it. After .org, a section's addresses are absolute.
+ * The parser and the code generator both drive a layout with the same
+ * directives so label addresses match the emitted segments.
+ */
+export class SectionLayout {
+  private static readonly SECTION_ORDER: SectionName[] = ['code', 'data', 'const'];
+
+  private sections: Record<SectionName, SectionState>;
+  private segments: LayoutSegment[] = [];
+  private current: SectionName = 'code';
+  private openSegment: number | null = null;
+  private bases: Record<SectionName, number> | null = null;
+
+  constructor() {
+    this.sections = {
+      code: this.createSection(),
+      data: this.createSection(),
+      const: this.createSection()
+    };
+  }
+
+  public static isSection(name: string): name is SectionName {
+    return (SectionLayout.SECTION_ORDER as string[]).includes(name);
+  }
+
+  public getCurrentSection(): SectionName {
+    return this.current;
+  }
+
+  public switchTo(section: SectionName): void {
+    if (section !== this.current) {
+      this.current = section;
+      this.openSegment = null;
+    }
+  }
+
+  /**
+   * Move the current section's location counter to an absolute address
+   */
+  public org(address: number): void {
+    if (address < 0) {
+      throw new Error(`Invalid .org address: ${address}`);
+    }
+    const state = this.sections[this.current];
+    state.counter = address;
+    state.absolute = true;
+    this.openSegment = null;
+  }
+
+  /**
+   * Pad the current section with zeros up to a multiple of `alignment`
+   * @returns Number of padding units added
+   */
+  public align(alignment: number): number {
+    if (alignment <= 0 || !Number.isInteger(alignment)) {
+      throw new Error(`Invalid .align value: ${alignment}`);
+    }
+    const state = this.sections[this.current];
+    state.maxAlignment = Math.max(state.maxAlignment, alignment);
+    const padding = (alignment - (state.counter % alignment)) % alignment;
+    this.advance(padding);
+    return padding;
+  }
+
+  /**
+   * Reserve zero-filled space in the current section
+   */
+  public reserve(size: number): void {
+    if (size < 0 || !Number.isInteger(size)) {
+      throw new Error(`Invalid .space size: ${size}`);
+    }
+    this.advance(size);
+  }
+
+  /**
+   * Account for `size` units of content at the current position
+   * @returns Index of the segment that holds the content and the offset within it
+   */
+  public advance(size: number): { segment: number; offset: number } {
+    const state = this.sections[this.current];
+
+    if (this.openSegment === null) {
+      this.segments.push({ section: this.current, start: state.counter, size: 0, absolute: state.absolute });
+      this.openSegment = this.segments.length - 1;
+    }
+
+    const segment = this.segments[this.openSegment];
+    const offset = segment.size;
+    segment.size += size;
+    state.counter += size;
+    if (!state.absolute) {
+      state.relativeEnd = Math.max(state.relativeEnd, state.counter);
+    }
+
+    return { segment: this.openSegment, offset };
+  }
+
+  public position(): LayoutPosition {
+    const state = this.sections[this.current];
+    return { section: this.current, offset: state.counter, absolute: state.absolute };
+  }
+
+  /**
+   * Place the floating sections. Must be called before resolving positions.
+   */
+  public finalize(): void {
+    const bases = { code: 0, data: 0, const: 0 };
+    let end = 0;
+
+    for (const name of SectionLayout.SECTION_ORDER) {
+      const state = this.sections[name];
+      const alignment = state.maxAlignment;
+      bases[name] = name === 'code' ? 0 : Math.ceil(end / alignment) * alignment;
+      end = bases[name] + state.relativeEnd;
+    }
+
+    this.bases = bases;
+  }
+
+  public resolve(position: LayoutPosition): number {
+    if (!this.bases) {
+      throw new Error('Layout has not been finalized');
+    }
+    return position.absolute ? position.offset : this.bases[position.section] + position.offset;
+  }
+
+  /**
+   * Segments with their final start addresses, in the order they were opened
+   */
+  public getSegments(): LayoutSegment[] {
+    return this.segments.map(segment => ({
+      ...segment,
+      start: this.resolve({ section: segment.section, offset: segment.start, absolute: segment.absolute }),
+      absolute: true
+    }));
+  }
+
+  private createSection(): SectionState {
+    return { counter: 0, absolute: false, relativeEnd: 0, maxAlignment: 1 };
+  }
+}
@@ -0,0 +1,60 @@
+import { FileSystemResolver, InMemoryResolver } from './SourceResolver.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('SourceResolver', () => {
+  describe('InMemoryResolver', () => {
+    it('normalises paths relative to the including file', () => {
+      const resolver = new InMemoryResolver();
+
+      expect(resolver.resolvePath('util.inc', null)).toBe('util.inc');
+      expect(resolver.resolvePath('./util.inc', 'lib/main.inc')).toBe('lib/util.inc');
+      expect(resolver.resolvePath('../common.inc', 'lib/main.inc')).toBe('common.inc');
+    });
+
+    it('refuses paths outside the include root', () => {
+      const resolver = new InMemoryResolver();
+
+      expect(() => resolver.resolvePath('../secret.inc', null)).toThrow('escapes the include root');
+      expect(() => resolver.resolvePath('/etc/passwd', null)).toThrow('must be relative');
+    });
+
+    it('serves added files until they are removed', () => {
+      const resolver = new InMemoryResolver({ 'a.asm': 'nop' });
+
+      expect(resolver.read('a.asm')).toBe('nop');
+      resolver.removeFile('a.asm');
+      expect(() => resolver.read('a.asm')).toThrow('Include file not found: a.asm');
+    });
+  });
+
+  describe('FileSystemResolver', () => {
+    let rootDir: string;
+
+    beforeEach(() => {
+      rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asm-bots-include-'));
+      fs.mkdirSync(path.join(rootDir, 'lib'));
+      fs.writeFileSync(path.join(rootDir, 'lib', 'bombs.inc'), 'bomb equ 0xF0');
+    });
+
+    afterEach(() => {
+      fs.rmSync(rootDir, { recursive: true, force: true });
+    });
+
+    it('reads files below the root directory', () => {
+      const resolver = new FileSystemResolver(rootDir);
+      const resolved = resolver.resolvePath('lib/bombs.inc', 'bot.asm');
+
+      expect(resolved).toBe('lib/bombs.inc');
+      expect(resolver.read(resolved)).toBe('bomb equ 0xF0');
+    });
+
+    it('reports missing files and directories', () => {
+      const resolver = new FileSystemResolver(rootDir);
+
+      expect(() => resolver.read('missing.inc')).toThrow('Include file not found: missing.inc');
+      expect(() => resolver.read('lib')).toThrow('Include file not found: lib');
+    });
+  });
+});
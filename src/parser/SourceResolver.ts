@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Resolves and loads files referenced by `.include` directives.
+ * Paths are normalised, `/`-separated and relative to the resolver root;
+ * they are also what appears as `file` on tokens and parse errors.
+ */
+export interface SourceResolver {
+  /**
+   * Resolve an include path as written in the source
+   * @param includePath Path from the `.include` directive
+   * @param fromFile Resolved path of the including file, or null for the top-level source
+   * @throws Error if the path escapes the resolver root
+   */
+  resolvePath(includePath: string, fromFile: string | null): string;
+
+  /**
+   * Read a previously resolved file
+   * @throws Error if the file does not exist
+   */
+  read(resolvedPath: string): string;
+}
+
+/**
+ * Resolve an include path relative to the including file's directory
+ * @param fromFile Resolved path of the including file, or null for the resolver root
+ * @throws Error if the path is absolute or leaves the root
+ */
+export function normalizeIncludePath(includePath: string, fromFile: string | null): string {
+  const cleaned = includePath.replace(/\\/g, '/');
+  if (path.posix.isAbsolute(cleaned)) {
+    throw new Error(`Include path must be relative: ${includePath}`);
+  }
+
+  const baseDir = fromFile ? path.posix.dirname(fromFile.replace(/\\/g, '/')) : '.';
+  const resolved = path.posix.normalize(path.posix.join(baseDir, cleaned));
+  if (resolved === '..' || resolved.startsWith('../')) {
+    throw new Error(`Include path escapes the include root: ${includePath}`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Loads includes from disk, rooted at the bots directory by default
+ */
+export class FileSystemResolver implements SourceResolver {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string = path.join(process.cwd(), 'bots')) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  public resolvePath(includePath: string, fromFile: string | null): string {
+    return normalizeIncludePath(includePath, fromFile);
+  }
+
+  public read(resolvedPath: string): string {
+    const fullPath = path.join(this.rootDir, resolvedPath);
+    if (!fs.existsSync(fullPath) || !fs.statSync(fullPath).isFile()) {
+      throw new Error(`Include file not found: ${resolvedPath}`);
+    }
+    return fs.readFileSync(fullPath, 'utf-8');
+  }
+}
+
+/**
+ * Serves includes from memory, e.g. bots uploaded through the API
+ */
+export class InMemoryResolver implements SourceResolver {
+  private files: Map<string, string>;
+
+  constructor(files: { [path: string]: string } = {}) {
+    this.files = new Map();
+    for (const [filePath, source] of Object.entries(files)) {
+      this.addFile(filePath, source);
+    }
+  }
+
+  public addFile(filePath: string, source: string): void {
+    this.files.set(normalizeIncludePath(filePath, null), source);
+  }
+
+  public removeFile(filePath: string): void {
+    this.files.delete(normalizeIncludePath(filePath, null));
+  }
+
+  public resolvePath(includePath: string, fromFile: string | null): string {
+    return normalizeIncludePath(includePath, fromFile);
+  }
+
+  public read(resolvedPath: string): string {
+    const source = this.files.get(resolvedPath);
+    if (source === undefined) {
+      throw new Error(`Include file not found: ${resolvedPath}`);
+    }
+    return source;
+  }
+}
@@ -1,3 +1,6 @@
+import { AddressingMode } from '../cpu/ISA.js';
+import { RedcodeInstruction } from '../cpu/Redcode.js';
+
 export enum TokenType {
   Label = 'Label',
   Instruction = 'Instruction',
@@ -12,23 +15,59 @@ export enum TokenType {
   DataDefinition = 'DataDefinition'
 }
 
+/**
+ * A parsed memory operand such as `[bx+4]`, `[r1++]` or `<ptr`
+ */
+export interface MemoryOperand {
+  mode: AddressingMode;
+  register?: string;  // Base register, for register modes
+  index?: string;     // Index register, for [base+index]
+  offset: number;     // Address, pointer address or register offset
+  symbol?: string;    // Label the offset refers to, if any (for relocation)
+}
+
 export interface Token {
   type: TokenType;
   value: string;
   line: number;
+  file?: string;  // Set when the token comes from an .include'd or named file
+  memory?: MemoryOperand;  // Set on MemoryAccess tokens
+  symbol?: string;  // Label an Immediate folded from `label+n` is relative to (for relocation)
 }
 
 export interface ParseError {
   message: string;
   line: number;
+  file?: string;
 }
 
 export interface SymbolTable {
   [key: string]: number;
 }
 
+export interface SourceLine {
+  text: string;
+  line: number;
+  file?: string;
+}
+
 export interface ParseResult {
   tokens: Token[];
   errors: ParseError[];
   symbols: SymbolTable;
-}
\ No newline at end of file
+}
+
+/**
+ * A Redcode warrior as loaded into a cell-based core
+ */
+export interface RedcodeWarrior {
+  name?: string;     // From a `;name` comment
+  author?: string;   // From an `;author` comment
+  instructions: RedcodeInstruction[];  // Numbers are relative, as written
+  start: number;     // Offset of the first instruction to run (ORG or END)
+}
+
+export interface RedcodeParseResult {
+  warrior: RedcodeWarrior;
+  errors: ParseError[];
+}
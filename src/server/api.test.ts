@@ -0,0 +1,134 @@
+import { app, storage } from './api.js';
+import { BattlePool, PoolWorker } from '../battle/BattlePool.js';
+import { BattleJobRunner, BattleWorkerMessage, BattleWorkerRequest } from '../battle/BattleJob.js';
+import { BattleSystem, BattleSnapshot } from '../battle/BattleSystem.js';
+import { DEFAULT_BATTLE_OPTIONS } from '../battle/BattleController.js';
+import { silentLogger } from '../battle/Logger.js';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Worker threads can't load .ts files under jest, so jobs run on this thread
+class InThreadWorker implements PoolWorker {
+  private listeners: Array<(message: BattleWorkerMessage) => void> = [];
+
+  postMessage(message: BattleWorkerRequest): void {
+    if (message.type === 'run') {
+      setImmediate(() => new BattleJobRunner(message.jobId, message.request, reply => {
+        this.listeners.forEach(listener => listener(reply));
+      }).run());
+    }
+  }
+
+  on(event: 'message' | 'error', listener: (value: any) => void): this {
+    if (event === 'message') this.listeners.push(listener);
+    return this;
+  }
+
+  async terminate(): Promise<number> {
+    return 0;
+  }
+}
+
+describe('API', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(done => {
+    server = app.listen(0, () => {
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  const post = (url: string, body: unknown) => fetch(`${baseUrl}${url}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  describe('POST /api/bots', () => {
+    it('rejects names that cannot be included, storing nothing', async () => {
+      for (const name of ['../x', '/x']) {
+        const response = await post('/api/bots', { name, code: 'halt' });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toMatch(/^Invalid bot name: Include path/);
+      }
+
+      const bots = await (await fetch(`${baseUrl}/api/bots`)).json();
+      expect(bots.data).toEqual([]);
+    });
+
+    it('stores a bot that others can include', async () => {
+      const response = await post('/api/bots', { name: 'quitter', code: 'halt' });
+
+      expect(response.status).toBe(201);
+      expect((await response.json()).data.name).toBe('quitter');
+    });
+  });
+
+  describe('DELETE /api/bots/:id', () => {
+    const create = async (name: string, code: string) => (await (await post('/api/bots', { name, code })).json()).data.id;
+    const remove = (id: string) => fetch(`${baseUrl}/api/bots/${id}`, { method: 'DELETE' });
+    const assembleIncluder = () => storage.createProcess('.include "shared.asm"', 'includer');
+
+    it('keeps an include while another bot with the same include path is left', async () => {
+      const plain = await create('shared', 'halt');
+      const dotted = await create('./shared', 'halt');
+
+      expect((await remove(dotted)).status).toBe(204);
+      await expect(assembleIncluder()).resolves.toBeDefined();
+
+      expect((await remove(plain)).status).toBe(204);
+      await expect(assembleIncluder()).rejects.toThrow('Assembly parsing error');
+      expect((await remove(plain)).status).toBe(404);
+    });
+  });
+
+  describe('battles', () => {
+    // Both bots placed, ready to play
+    const start = (): BattleSnapshot => {
+      const system = new BattleSystem({ ...DEFAULT_BATTLE_OPTIONS, seed: 5, logger: silentLogger });
+      for (const name of ['vampire', 'simple_hunter']) {
+        system.loadBotSource(fs.readFileSync(path.join(process.cwd(), 'bots', `${name}.asm`), 'utf-8'), name, name);
+      }
+      return system.getSnapshot();
+    };
+
+    // Play a battle to its end as the WebSocket server does
+    const play = async (battleId: string) => {
+      const battle = storage.createBattle(battleId);
+      battle.battleSystem.restoreSnapshot(start());
+      battle.start();
+      while (battle.status !== 'completed' && battle.getState().status === 'running') {
+        if (storage.battlePool) {
+          await new Promise(resolve => setTimeout(resolve, 5));
+        } else {
+          battle.executeStep();
+        }
+      }
+      const { turn, winner, scores } = battle.getState();
+      return { turn, winner, scores, memory: battle.getMemory() };
+    };
+
+    afterEach(async () => {
+      await storage.battlePool?.close();
+      storage.battlePool = null;
+    });
+
+    it('plays the same battle on the battle pool as on this thread', async () => {
+      const local = await play('local');
+      storage.battlePool = new BattlePool({ size: 1, updateInterval: 5, createWorker: () => new InThreadWorker() });
+      const pooled = await play('pooled');
+
+      expect(pooled).toEqual(local);
+      expect(local.turn).toBeGreaterThan(0);
+    });
+  });
+});
@@ -1,6 +1,9 @@
 import express, { Request, Response, NextFunction } from 'express';
 import { WebSocket, WebSocketServer as WSServer } from 'ws';
 import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Server } from 'node:http';
 import { WebSocketServer } from "./websocket.js";
 import type {
   Storage,
@@ -8,14 +11,30 @@ import type {
   Battle,
   BotCreateRequest,
   BattleCreateRequest,
+  MatchData,
+  MatchCreateRequest,
+  TournamentData,
+  TournamentCreateRequest,
+  HillData,
+  HillChallengeData,
+  HillChallengeRequest,
   ApiResponse,
 } from "./types.js";
-import { BattleController, type BattleOptions } from "../battle/BattleController.js";
+import { BattleController, DEFAULT_BATTLE_OPTIONS, type BattleOptions } from "../battle/BattleController.js";
 import { BattleSystem } from "../battle/BattleSystem.js";
 import { ProcessManager } from "../battle/ProcessManager.js";
+import { BattlePool, type BattleJob } from "../battle/BattlePool.js";
+import { applyBattleDiff } from "../battle/BattleJob.js";
+import { Match, DEFAULT_MATCH_ROUNDS } from "../battle/Match.js";
+import { Tournament, TOURNAMENT_FORMATS } from "../battle/Tournament.js";
+import { Hill, HillHistoryEntry, DEFAULT_HILL_SIZE, DEFAULT_HILL_ROUNDS } from "../battle/Hill.js";
+import { VICTORY_RULES } from "../battle/Victory.js";
+import { SQLiteTournamentStore } from "./db/tournament_store.js";
+import { SQLiteHillStore } from "./db/hill_store.js";
 import type { SchedulerOptions, ProcessId } from "../battle/types.js";
 import { AssemblyParser } from "../parser/AssemblyParser.js";
 import { CodeGenerator } from "../parser/CodeGenerator.js";
+import { InMemoryResolver, normalizeIncludePath } from "../parser/SourceResolver.js";
 import { VERSION_INFO } from '../version.js';
 
 // Constants
@@ -28,29 +47,54 @@ const schedulerOptions: SchedulerOptions = {
   defaultQuantum: 10
 };
 
-// Default battle options
+// Most rounds a match may ask for
+const MAX_MATCH_ROUNDS = 1000;
+
+// Where tournaments are saved, so running ones resume after a restart
+const TOURNAMENT_DB = process.env.TOURNAMENT_DB ?? 'data/tournaments.sqlite';
+
+// Where the hill is saved; HILL_SIZE and HILL_ROUNDS only apply to a new hill
+const HILL_DB = process.env.HILL_DB ?? 'data/hill.sqlite';
+
+// Options for every battle the server plays. Fast mode is set too, so that a battle
+// on the battle pool (where jobs default to fast mode) plays as it would on this thread
 const defaultBattleOptions: BattleOptions = {
-  maxTurns: 1000,
-  maxCyclesPerTurn: 100,
+  ...DEFAULT_BATTLE_OPTIONS,
   maxMemoryPerProcess: 256,
-  maxLogEntries: 1000
+  maxLogEntries: 1000,
+  fastMode: false
 };
 
-const parser = new AssemblyParser();
+// Uploaded bots can be included by other bots as "<name>.asm"
+const includeResolver = new InMemoryResolver();
+const parser = new AssemblyParser(includeResolver);
 const codeGenerator = new CodeGenerator();
 const battleSystem = new BattleSystem(defaultBattleOptions);
 const processManager = battleSystem.getProcessManager();
 
+// BATTLE_WORKERS=<threads> runs battles on worker threads instead of the event loop
+if (process.env.BATTLE_WORKERS && !/^[1-9][0-9]*$/.test(process.env.BATTLE_WORKERS)) {
+  throw new Error(`BATTLE_WORKERS must be a positive integer, not ${process.env.BATTLE_WORKERS}`);
+}
+const battlePool = process.env.BATTLE_WORKERS
+  ? new BattlePool({ size: Number(process.env.BATTLE_WORKERS) })
+  : null;
+
 // Initialize storage
-const storage: Storage = {
+export const storage: Storage = {
   bots: new Map<string, Bot>(),
   battles: new Map<string, Battle>(),
+  matches: new Map<string, MatchData>(),
+  tournaments: new Map<string, Tournament>(),
+  hillChallenges: new Map<string, HillChallengeData>(),
   clients: new Map(),
+  battlePool,
   async createProcess(code: string, name: string) {
     // Parse assembly code
-    const parseResult = parser.parse(code);
+    const parseResult = parser.parse(code, `${name}.asm`);
     if (parseResult.errors.length > 0) {
-      throw new Error(`Assembly parsing error for bot "${name}": ${parseResult.errors[0].message} at line ${parseResult.errors[0].line}`);
+      const error = parseResult.errors[0];
+      throw new Error(`Assembly parsing error for bot "${name}": ${error.message} at ${error.file ? `${error.file} ` : ''}line ${error.line}`);
     }
 
     // Generate code
@@ -71,6 +115,10 @@ const storage: Storage = {
     const battleController = newBattleSystem.getBattleController();
     const memorySystem = newBattleSystem.getMemorySystem();
     const battleProcessManager = newBattleSystem.getProcessManager();
+    // With a pool the battle runs in a worker; this battle system mirrors it
+    // from the worker's diffs, so readers see the same state either way
+    const pool = storage.battlePool;
+    let job: BattleJob | null = null;
     
     const battle: Battle = {
       id: battleId,
@@ -82,15 +130,47 @@ const storage: Storage = {
       battleSystem: newBattleSystem,
       start() {
         this.status = 'running';
-        battleController.start();
+        if (pool && !job) {
+          // Paused battles continue from where the mirror left off
+          const current = pool.run(
+            { snapshot: newBattleSystem.getSnapshot(), options: defaultBattleOptions },
+            diff => {
+              if (job === current) applyBattleDiff(newBattleSystem, diff);
+            }
+          );
+          job = current;
+          current.result.then(result => {
+            if (job !== current) return;
+            job = null;
+            this.results = result;
+            if (result.outcome === 'cancelled') {
+              battleController.pause();
+            } else {
+              this.status = 'completed';
+              this.endTime = new Date();
+            }
+          }, error => {
+            if (job === current) job = null;
+            console.error(`Battle ${battleId} failed in the battle pool:`, error);
+          });
+        }
+        // The mirror of a pooled battle only starts; without a pool this battle system executes it
+        if (pool) {
+          battleController.start();
+        } else {
+          newBattleSystem.start();
+        }
         return battleController.getState();
       },
       pause() {
         this.status = 'paused';
+        job?.cancel();
         battleController.pause();
       },
       reset() {
         this.status = 'pending';
+        job?.cancel();
+        job = null;
         battleController.reset();
       },
       getState() {
@@ -104,7 +184,8 @@ const storage: Storage = {
         return memorySystem.getMemory();
       },
       executeStep() {
-        battleController.nextTurn();
+        // A pooled battle advances in its worker
+        if (!job) battleController.nextTurn();
       },
       getProcessManager() {
         return battleProcessManager;
@@ -116,6 +197,62 @@ const storage: Storage = {
   }
 };
 
+// A bot's include path: its name with .asm, which must stay inside the include root
+function botIncludePath(name: string): string {
+  return normalizeIncludePath(`${name}.asm`, null);
+}
+
+// Bots can include any uploaded bot as "<name>.asm"
+function uploadedIncludes(): Record<string, string> {
+  return Object.fromEntries(Array.from(storage.bots.values(), bot => [botIncludePath(bot.name), bot.code]));
+}
+
+// The tournament store and the hill are opened on first use, so importing the API touches no files
+let tournamentStore: SQLiteTournamentStore | null = null;
+let hill: Hill | null = null;
+
+function getTournamentStore(): SQLiteTournamentStore {
+  if (!tournamentStore) {
+    fs.mkdirSync(path.dirname(TOURNAMENT_DB), { recursive: true });
+    tournamentStore = new SQLiteTournamentStore(TOURNAMENT_DB);
+  }
+  return tournamentStore;
+}
+
+function getHill(): Hill {
+  if (!hill) {
+    fs.mkdirSync(path.dirname(HILL_DB), { recursive: true });
+    hill = new Hill(new SQLiteHillStore(HILL_DB), {
+      size: process.env.HILL_SIZE ? Number(process.env.HILL_SIZE) : DEFAULT_HILL_SIZE,
+      rounds: process.env.HILL_ROUNDS ? Number(process.env.HILL_ROUNDS) : DEFAULT_HILL_ROUNDS,
+      options: defaultBattleOptions
+    }, { pool: battlePool ?? undefined });
+  }
+  return hill;
+}
+
+function runTournament(tournament: Tournament): void {
+  tournament.run().catch(error => {
+    console.error(`Tournament ${tournament.getState().id} stopped:`, error);
+  });
+}
+
+function tournamentData(tournament: Tournament): TournamentData {
+  return { ...tournament.getState(), standings: tournament.getStandings() };
+}
+
+// Saved tournaments come back on startup, and running ones carry on from their last finished match
+function resumeTournaments(): void {
+  const store = getTournamentStore();
+  for (const state of store.list()) {
+    const tournament = new Tournament(state, store, { pool: battlePool ?? undefined });
+    storage.tournaments.set(state.id, tournament);
+    if (state.status === 'running') {
+      runTournament(tournament);
+    }
+  }
+}
+
 export const app = express();
 export const wsServer = new WebSocketServer(storage);
 
@@ -174,6 +311,17 @@ app.post("/api/bots", (req: Request, res: Response) => {
     return;
   }
 
+  let includePath: string;
+  try {
+    includePath = botIncludePath(body.name);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid bot name: ${error instanceof Error ? error.message : String(error)}`,
+    });
+    return;
+  }
+
   // Predefined distinct colors for better visualization
   const botColors = [
     "#FF5733", // Red-Orange
@@ -202,6 +350,7 @@ app.post("/api/bots", (req: Request, res: Response) => {
   };
 
   storage.bots.set(bot.id, bot);
+  includeResolver.addFile(includePath, bot.code);
 
   const response: ApiResponse<Bot> = {
     success: true,
@@ -211,13 +360,34 @@ app.post("/api/bots", (req: Request, res: Response) => {
 });
 
 app.delete("/api/bots/:id", (req: Request, res: Response) => {
-  if (!storage.bots.delete(req.params.id)) {
+  const bot = storage.bots.get(req.params.id);
+  if (!bot) {
     res.status(404).json({
       success: false,
       error: "Bot not found",
     });
     return;
   }
+
+  let includePath: string;
+  try {
+    includePath = botIncludePath(bot.name);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid bot name: ${error instanceof Error ? error.message : String(error)}`,
+    });
+    return;
+  }
+
+  storage.bots.delete(bot.id);
+  // Names such as "x" and "./x" share an include, which stays while one of them is left
+  const sharing = Array.from(storage.bots.values()).find(other => botIncludePath(other.name) === includePath);
+  if (sharing) {
+    includeResolver.addFile(includePath, sharing.code);
+  } else {
+    includeResolver.removeFile(includePath);
+  }
   res.status(204).send();
 });
 
@@ -459,19 +629,353 @@ app.post("/api/battles/:id/turn", async (req: Request, res: Response) => {
   }
 });
 
+// Match Endpoints
+app.post("/api/matches", (req: Request, res: Response) => {
+  const body = req.body as MatchCreateRequest;
+
+  if (!body || !Array.isArray(body.bots) || body.bots.length < 2) {
+    res.status(400).json({
+      success: false,
+      error: "At least two bots are required",
+    });
+    return;
+  }
+
+  const missing = body.bots.find(botId => !storage.bots.has(botId));
+  if (missing !== undefined) {
+    res.status(400).json({
+      success: false,
+      error: `Bot ${missing} not found`,
+    });
+    return;
+  }
+
+  const rounds = body.rounds ?? DEFAULT_MATCH_ROUNDS;
+  if (!Number.isInteger(rounds) || rounds < 1 || rounds > MAX_MATCH_ROUNDS) {
+    res.status(400).json({
+      success: false,
+      error: `Rounds must be between 1 and ${MAX_MATCH_ROUNDS}`,
+    });
+    return;
+  }
+
+  if (body.victory !== undefined && !VICTORY_RULES.includes(body.victory)) {
+    res.status(400).json({
+      success: false,
+      error: `Unknown victory rule: ${body.victory}`,
+    });
+    return;
+  }
+
+  // Rounds run on the battle pool when there is one, otherwise in slices on the event loop
+  const bots = body.bots.map(botId => storage.bots.get(botId)!);
+  const match = new Match(
+    bots.map(bot => ({ name: bot.name, code: bot.code, owner: bot.owner })),
+    {
+      rounds,
+      seed: body.seed,
+      options: defaultBattleOptions,
+      victory: body.victory,
+      includes: uploadedIncludes(),
+      pool: storage.battlePool ?? undefined
+    }
+  );
+
+  const record: MatchData = {
+    id: randomUUID(),
+    bots: body.bots,
+    rounds,
+    status: 'running',
+    completedRounds: 0,
+    startTime: new Date(),
+  };
+  storage.matches.set(record.id, record);
+
+  match.run(() => record.completedRounds++)
+    .then(result => {
+      record.result = result;
+      record.status = 'completed';
+    })
+    .catch(error => {
+      record.error = error instanceof Error ? error.message : String(error);
+      record.status = 'failed';
+    })
+    .finally(() => {
+      record.endTime = new Date();
+    });
+
+  const response: ApiResponse<MatchData> = {
+    success: true,
+    data: record,
+  };
+  res.status(202).json(response);
+});
+
+app.get("/api/matches/:id", (req: Request, res: Response) => {
+  const record = storage.matches.get(req.params.id);
+  if (!record) {
+    res.status(404).json({
+      success: false,
+      error: "Match not found",
+    });
+    return;
+  }
+
+  const response: ApiResponse<MatchData> = {
+    success: true,
+    data: record,
+  };
+  res.json(response);
+});
+
+// Tournament Endpoints
+app.post("/api/tournaments", (req: Request, res: Response) => {
+  const body = req.body as TournamentCreateRequest;
+
+  if (!body || !Array.isArray(body.bots) || body.bots.length < 2) {
+    res.status(400).json({
+      success: false,
+      error: "At least two bots are required",
+    });
+    return;
+  }
+
+  const missing = body.bots.find(botId => !storage.bots.has(botId));
+  if (missing !== undefined) {
+    res.status(400).json({
+      success: false,
+      error: `Bot ${missing} not found`,
+    });
+    return;
+  }
+
+  if (!TOURNAMENT_FORMATS.includes(body.format)) {
+    res.status(400).json({
+      success: false,
+      error: `Format must be one of ${TOURNAMENT_FORMATS.join(', ')}`,
+    });
+    return;
+  }
+
+  const roundsPerMatch = body.roundsPerMatch ?? DEFAULT_MATCH_ROUNDS;
+  if (!Number.isInteger(roundsPerMatch) || roundsPerMatch < 1 || roundsPerMatch > MAX_MATCH_ROUNDS) {
+    res.status(400).json({
+      success: false,
+      error: `Rounds per match must be between 1 and ${MAX_MATCH_ROUNDS}`,
+    });
+    return;
+  }
+
+  if (body.swissRounds !== undefined && (!Number.isInteger(body.swissRounds) || body.swissRounds < 1)) {
+    res.status(400).json({
+      success: false,
+      error: "Swiss rounds must be a positive integer",
+    });
+    return;
+  }
+
+  if (body.victory !== undefined && !VICTORY_RULES.includes(body.victory)) {
+    res.status(400).json({
+      success: false,
+      error: `Unknown victory rule: ${body.victory}`,
+    });
+    return;
+  }
+
+  let tournament: Tournament;
+  try {
+    tournament = Tournament.create(
+      randomUUID(),
+      body.bots.map(botId => {
+        const bot = storage.bots.get(botId)!;
+        return { id: bot.id, name: bot.name, code: bot.code, owner: bot.owner };
+      }),
+      {
+        format: body.format,
+        roundsPerMatch,
+        swissRounds: body.swissRounds,
+        seed: body.seed,
+        options: defaultBattleOptions,
+        victory: body.victory
+      },
+      getTournamentStore(),
+      { pool: storage.battlePool ?? undefined, includes: uploadedIncludes() }
+    );
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+  storage.tournaments.set(tournament.getState().id, tournament);
+  runTournament(tournament);
+
+  const response: ApiResponse<TournamentData> = {
+    success: true,
+    data: tournamentData(tournament),
+  };
+  res.status(202).json(response);
+});
+
+app.get("/api/tournaments", (req: Request, res: Response) => {
+  const response: ApiResponse<TournamentData[]> = {
+    success: true,
+    data: Array.from(storage.tournaments.values(), tournamentData),
+  };
+  res.json(response);
+});
+
+app.get("/api/tournaments/:id", (req: Request, res: Response) => {
+  const tournament = storage.tournaments.get(req.params.id);
+  if (!tournament) {
+    res.status(404).json({
+      success: false,
+      error: "Tournament not found",
+    });
+    return;
+  }
+
+  const response: ApiResponse<TournamentData> = {
+    success: true,
+    data: tournamentData(tournament),
+  };
+  res.json(response);
+});
+
+app.post("/api/tournaments/:id/cancel", (req: Request, res: Response) => {
+  const tournament = storage.tournaments.get(req.params.id);
+  if (!tournament) {
+    res.status(404).json({
+      success: false,
+      error: "Tournament not found",
+    });
+    return;
+  }
+
+  if (!tournament.cancel()) {
+    res.status(409).json({
+      success: false,
+      error: `Tournament is already ${tournament.getState().status}`,
+    });
+    return;
+  }
+
+  const response: ApiResponse<TournamentData> = {
+    success: true,
+    data: tournamentData(tournament),
+  };
+  res.json(response);
+});
+
+// Hill Endpoints
+app.get("/api/hill", (req: Request, res: Response) => {
+  const response: ApiResponse<HillData> = {
+    success: true,
+    data: {
+      settings: getHill().getSettings(),
+      challenges: getHill().getChallenges(),
+      standings: getHill().getStandings(),
+    },
+  };
+  res.json(response);
+});
+
+app.get("/api/hill/history", (req: Request, res: Response) => {
+  const botId = typeof req.query.botId === 'string' ? req.query.botId : undefined;
+  const response: ApiResponse<HillHistoryEntry[]> = {
+    success: true,
+    data: getHill().getHistory(botId),
+  };
+  res.json(response);
+});
+
+app.post("/api/hill/challenges", (req: Request, res: Response) => {
+  const body = req.body as HillChallengeRequest;
+  const bot = body?.botId !== undefined ? storage.bots.get(body.botId) : undefined;
+  if (!bot) {
+    res.status(400).json({
+      success: false,
+      error: body?.botId === undefined ? "A bot is required" : `Bot ${body.botId} not found`,
+    });
+    return;
+  }
+
+  if (getHill().getStandings().some(standing => standing.id === bot.id)) {
+    res.status(409).json({
+      success: false,
+      error: `${bot.name} is already on the hill`,
+    });
+    return;
+  }
+
+  const record: HillChallengeData = {
+    id: randomUUID(),
+    botId: bot.id,
+    status: 'running',
+    startTime: new Date(),
+  };
+  storage.hillChallenges.set(record.id, record);
+
+  // Challenges queue up behind each other; rounds run on the battle pool when there is one, otherwise in slices on the event loop
+  getHill().challenge({ id: bot.id, name: bot.name, code: bot.code, owner: bot.owner }, uploadedIncludes())
+    .then(result => {
+      record.result = result;
+      record.status = 'completed';
+    })
+    .catch(error => {
+      record.error = error instanceof Error ? error.message : String(error);
+      record.status = 'failed';
+    })
+    .finally(() => {
+      record.endTime = new Date();
+    });
+
+  const response: ApiResponse<HillChallengeData> = {
+    success: true,
+    data: record,
+  };
+  res.status(202).json(response);
+});
+
+app.get("/api/hill/challenges/:id", (req: Request, res: Response) => {
+  const record = storage.hillChallenges.get(req.params.id);
+  if (!record) {
+    res.status(404).json({
+      success: false,
+      error: "Challenge not found",
+    });
+    return;
+  }
+
+  const response: ApiResponse<HillChallengeData> = {
+    success: true,
+    data: record,
+  };
+  res.json(response);
+});
+
 // Create WebSocket server
 const wss = new WSServer({ noServer: true });
 
-// Handle WebSocket upgrade
-export const server = app.listen(8080, () => {
-  console.log('API server running on http://localhost:8080');
-});
+/**
+ * Resume saved tournaments, then serve the API and its WebSocket
+ */
+export function startServer(port = 8080): Server {
+  resumeTournaments();
 
-server.on('upgrade', (request, socket, head) => {
-  wss.handleUpgrade(request, socket, head, (ws) => {
-    wsServer.handleConnection(ws);
+  const server = app.listen(port, () => {
+    console.log(`API server running on http://localhost:${port}`);
   });
-});
+
+  // Handle WebSocket upgrade
+  server.on('upgrade', (request, socket, head) => {
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      wsServer.handleConnection(ws);
+    });
+  });
+  return server;
+}
 
 // Error handling
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
@@ -0,0 +1,43 @@
+import { SQLiteHillStore } from './hill_store.js';
+import { Hill } from '../../battle/Hill.js';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+describe('SQLiteHillStore', () => {
+  const looper = fs.readFileSync(path.join(process.cwd(), 'bots', 'infinite_loop.asm'), 'utf-8');
+  const settings = { size: 2, rounds: 2, seed: 3, options: { maxTurns: 20 } };
+
+  it('keeps the hill, its members in the bots table and their history', async () => {
+    const db = new Database(':memory:');
+    const hill = new Hill(new SQLiteHillStore(db), settings);
+    await hill.challenge({ id: 'l1', name: 'looper', code: looper, owner: 'a' });
+    await hill.challenge({ id: 'q1', name: 'quitter', code: 'halt', owner: 'b' });
+    await hill.challenge({ id: 'l2', name: 'looper2', code: looper, owner: 'c' });
+
+    const resumed = new Hill(new SQLiteHillStore(db), { size: 9 });
+
+    expect(resumed.getSettings()).toEqual(settings);
+    expect(resumed.getChallenges()).toBe(3);
+    expect(resumed.getStandings()).toEqual(hill.getStandings());
+    expect(resumed.getHistory('q1').map(entry => entry.rank)).toEqual([2, null]);
+    expect(resumed.getHistory()).toEqual(hill.getHistory());
+
+    const bots = db.prepare('SELECT id, name, owner FROM bots ORDER BY id').all();
+    expect(bots).toEqual([
+      { id: 'l1', name: 'looper', owner: 'a' },
+      { id: 'l2', name: 'looper2', owner: 'c' },
+      { id: 'q1', name: 'quitter', owner: 'b' }
+    ]);
+    expect(db.prepare('SELECT bot_id FROM hill_members ORDER BY rank').all()).toHaveLength(2);
+    db.close();
+  });
+
+  it('starts empty', () => {
+    const store = new SQLiteHillStore(':memory:');
+
+    expect(store.load()).toBeNull();
+    expect(store.getHistory()).toEqual([]);
+    store.close();
+  });
+});
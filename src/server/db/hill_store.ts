@@ -0,0 +1,228 @@
+import Database from 'better-sqlite3';
+import type { Database as SQLiteDB } from 'better-sqlite3';
+import { HillHistoryEntry, HillState, HillStore } from '../../battle/Hill.js';
+
+type HillRow = {
+  settings: string;  // JSON
+  challenges: number;
+  pairings: number;
+};
+
+type HillMemberRow = {
+  bot_id: string;
+  name: string;
+  code: string;
+  owner: string;
+  rank: number;
+  age: number;
+  joined: number;
+};
+
+type HillResultRow = {
+  bot_a: string;
+  bot_b: string;
+  seed: number;
+  wins: number;
+  losses: number;
+  ties: number;
+};
+
+type HillHistoryRow = {
+  challenge: number;
+  bot_id: string;
+  rank: number | null;
+  age: number;
+  score: number;
+  time: number;
+};
+
+// The bots table is the one the database service keeps uploaded bots in
+const HILL_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS bots (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    code TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    created DATETIME NOT NULL,
+    updated DATETIME NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS hill (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    settings TEXT NOT NULL,
+    challenges INTEGER NOT NULL,
+    pairings INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS hill_members (
+    bot_id TEXT PRIMARY KEY,
+    rank INTEGER NOT NULL,
+    age INTEGER NOT NULL,
+    joined INTEGER NOT NULL,
+    FOREIGN KEY (bot_id) REFERENCES bots(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS hill_results (
+    bot_a TEXT NOT NULL,
+    bot_b TEXT NOT NULL,
+    seed INTEGER NOT NULL,
+    wins INTEGER NOT NULL,
+    losses INTEGER NOT NULL,
+    ties INTEGER NOT NULL,
+    PRIMARY KEY (bot_a, bot_b),
+    FOREIGN KEY (bot_a) REFERENCES bots(id),
+    FOREIGN KEY (bot_b) REFERENCES bots(id)
+  );
+
+  CREATE TABLE IF NOT EXISTS hill_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    challenge INTEGER NOT NULL,
+    bot_id TEXT NOT NULL,
+    rank INTEGER,
+    age INTEGER NOT NULL,
+    score INTEGER NOT NULL,
+    time INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_bots_owner ON bots(owner);
+  CREATE INDEX IF NOT EXISTS idx_hill_history_bot ON hill_history(bot_id);
+`;
+
+/**
+ * Keeps the hill in SQLite, so it survives a restart. Members' code lives in
+ * the bots table; the hill's members, their results against each other and
+ * every rank change get tables of their own. History also covers challengers
+ * that never made the hill, so it doesn't reference bots.
+ */
+export class SQLiteHillStore implements HillStore {
+  private db: SQLiteDB;
+
+  /**
+   * @param db A database file (or ':memory:'), or an open database
+   */
+  constructor(db: string | SQLiteDB) {
+    this.db = typeof db === 'string' ? new Database(db) : db;
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(HILL_SCHEMA);
+  }
+
+  load(): HillState | null {
+    const row = this.db.prepare('SELECT * FROM hill WHERE id = 1').get() as HillRow | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const members = this.db.prepare(
+      `SELECT m.*, b.name, b.code, b.owner
+       FROM hill_members m
+       JOIN bots b ON m.bot_id = b.id
+       ORDER BY m.rank`
+    ).all() as HillMemberRow[];
+    const results = this.db.prepare('SELECT * FROM hill_results ORDER BY rowid').all() as HillResultRow[];
+
+    return {
+      settings: JSON.parse(row.settings),
+      challenges: row.challenges,
+      pairings: row.pairings,
+      members: members.map(member => ({
+        id: member.bot_id,
+        name: member.name,
+        code: member.code,
+        owner: member.owner,
+        age: member.age,
+        joined: member.joined
+      })),
+      results: results.map(result => ({
+        a: result.bot_a,
+        b: result.bot_b,
+        seed: result.seed,
+        wins: result.wins,
+        losses: result.losses,
+        ties: result.ties
+      }))
+    };
+  }
+
+  save(state: HillState, history: HillHistoryEntry[]): void {
+    const saveHill = this.db.prepare(
+      `INSERT INTO hill (id, settings, challenges, pairings)
+       VALUES (1, @settings, @challenges, @pairings)
+       ON CONFLICT(id) DO UPDATE SET
+         settings = excluded.settings, challenges = excluded.challenges, pairings = excluded.pairings`
+    );
+    const saveBot = this.db.prepare(
+      `INSERT INTO bots (id, name, code, owner, created, updated)
+       VALUES (@id, @name, @code, @owner, @now, @now)
+       ON CONFLICT(id) DO UPDATE SET
+         name = excluded.name, code = excluded.code, owner = excluded.owner, updated = excluded.updated`
+    );
+    const saveMember = this.db.prepare(
+      'INSERT INTO hill_members (bot_id, rank, age, joined) VALUES (@bot_id, @rank, @age, @joined)'
+    );
+    const saveResult = this.db.prepare(
+      `INSERT INTO hill_results (bot_a, bot_b, seed, wins, losses, ties)
+       VALUES (@bot_a, @bot_b, @seed, @wins, @losses, @ties)`
+    );
+    const saveHistory = this.db.prepare(
+      `INSERT INTO hill_history (challenge, bot_id, rank, age, score, time)
+       VALUES (@challenge, @bot_id, @rank, @age, @score, @time)`
+    );
+
+    this.db.transaction(() => {
+      const row: HillRow = {
+        settings: JSON.stringify(state.settings),
+        challenges: state.challenges,
+        pairings: state.pairings
+      };
+      saveHill.run(row);
+
+      // A bot pushed off keeps its row in bots, for its history
+      const now = new Date().toISOString();
+      this.db.exec('DELETE FROM hill_results; DELETE FROM hill_members;');
+      state.members.forEach((member, index) => {
+        saveBot.run({ id: member.id, name: member.name, code: member.code, owner: member.owner, now });
+        saveMember.run({ bot_id: member.id, rank: index + 1, age: member.age, joined: member.joined });
+      });
+      for (const result of state.results) {
+        const resultRow: HillResultRow = {
+          bot_a: result.a,
+          bot_b: result.b,
+          seed: result.seed,
+          wins: result.wins,
+          losses: result.losses,
+          ties: result.ties
+        };
+        saveResult.run(resultRow);
+      }
+      for (const entry of history) {
+        const historyRow: HillHistoryRow = {
+          challenge: entry.challenge,
+          bot_id: entry.botId,
+          rank: entry.rank,
+          age: entry.age,
+          score: entry.score,
+          time: entry.time
+        };
+        saveHistory.run(historyRow);
+      }
+    })();
+  }
+
+  getHistory(botId?: string): HillHistoryEntry[] {
+    const rows = (botId === undefined
+      ? this.db.prepare('SELECT * FROM hill_history ORDER BY id').all()
+      : this.db.prepare('SELECT * FROM hill_history WHERE bot_id = ? ORDER BY id').all(botId)) as HillHistoryRow[];
+    return rows.map(row => ({
+      challenge: row.challenge,
+      botId: row.bot_id,
+      rank: row.rank,
+      age: row.age,
+      score: row.score,
+      time: row.time
+    }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
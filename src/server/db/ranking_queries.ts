@@ -9,8 +9,9 @@ export class SQLiteRankingQueries implements RankingQueries {
   private initializeSchema() {
     this.db.execute(SCHEMA.RANKINGS);
     this.db.execute(SCHEMA.RANKING_HISTORY);
+    this.db.execute(SCHEMA.RATINGS);
     SCHEMA.INDEXES.forEach(index => {
-      if (index.includes('rankings') || index.includes('ranking_history')) {
+      if (index.includes('rankings') || index.includes('ranking_history') || index.includes('ratings')) {
         this.db.execute(index);
       }
     });
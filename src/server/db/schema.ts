@@ -46,6 +46,18 @@ export const SCHEMA = {
     )
   `,
 
+  RATINGS: `
+    CREATE TABLE IF NOT EXISTS ratings (
+      subject TEXT NOT NULL,
+      subject_id TEXT NOT NULL,
+      rating REAL NOT NULL,
+      deviation REAL NOT NULL,
+      volatility REAL NOT NULL,
+      games INTEGER NOT NULL,
+      PRIMARY KEY (subject, subject_id)
+    )
+  `,
+
   INDEXES: [
     "CREATE INDEX IF NOT EXISTS idx_users_username ON users(username)",
     "CREATE INDEX IF NOT EXISTS idx_users_email ON users(email)",
@@ -57,6 +69,7 @@ export const SCHEMA = {
     "CREATE INDEX IF NOT EXISTS idx_rankings_battles ON rankings(total_battles DESC)",
     "CREATE INDEX IF NOT EXISTS idx_ranking_history_user ON ranking_history(user_id)",
     "CREATE INDEX IF NOT EXISTS idx_ranking_history_timestamp ON ranking_history(timestamp DESC)",
+    "CREATE INDEX IF NOT EXISTS idx_ratings_rating ON ratings(subject, rating DESC)",
   ],
 };
 
@@ -87,6 +100,16 @@ export interface RankingRow {
   last_battle_time: string | null;
 }
 
+// A bot's or a user's rating (subject 'bot' or 'user')
+export interface RatingRow {
+  subject: 'bot' | 'user';
+  subject_id: string;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  games: number;
+}
+
 export interface RankingHistoryRow {
   id: number;
   user_id: string;
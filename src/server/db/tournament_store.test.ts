@@ -0,0 +1,62 @@
+import { SQLiteTournamentStore } from './tournament_store.js';
+import { TournamentState } from '../../battle/Tournament.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('SQLiteTournamentStore', () => {
+  const state = (id: string, created: number): TournamentState => ({
+    id,
+    settings: { format: 'swiss', roundsPerMatch: 3, seed: 7, options: { maxTurns: 50 } },
+    entrants: [
+      { id: 'a', name: 'alpha', code: 'halt', owner: 'x' },
+      { id: 'b', name: 'beta', code: 'nop', owner: 'y' },
+      { id: 'c', name: 'gamma', code: 'jmp 0', owner: 'z' }
+    ],
+    status: 'running',
+    stages: 1,
+    pairings: [
+      { stage: 0, a: 'a', b: 'b', seed: 7, status: 'completed', winner: 'b', scoreA: 0, scoreB: 9 },
+      { stage: 0, a: 'c', b: null, seed: 8, status: 'completed', winner: 'c', scoreA: 0, scoreB: 0 }
+    ],
+    error: null,
+    created,
+    updated: created
+  });
+
+  it('saves, updates and lists tournaments', () => {
+    const store = new SQLiteTournamentStore(':memory:');
+    const first = state('t1', 1000);
+    store.save(first);
+    store.save(state('t2', 2000));
+
+    expect(store.load('t1')).toEqual(first);
+    expect(store.load('missing')).toBeNull();
+
+    first.stages = 2;
+    first.pairings.push({ stage: 1, a: 'b', b: 'c', seed: 9, status: 'pending', winner: null, scoreA: 0, scoreB: 0 });
+    first.status = 'failed';
+    first.error = 'Parse errors in gamma';
+    store.save(first);
+
+    expect(store.load('t1')).toEqual(first);
+    expect(store.list().map(saved => saved.id)).toEqual(['t1', 't2']);
+    store.close();
+  });
+
+  it('keeps tournaments in its file across restarts', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'asm-bots-tournaments-'));
+    try {
+      const file = path.join(dir, 'tournaments.sqlite');
+      const store = new SQLiteTournamentStore(file);
+      store.save(state('t1', 1000));
+      store.close();
+
+      const reopened = new SQLiteTournamentStore(file);
+      expect(reopened.load('t1')).toEqual(state('t1', 1000));
+      reopened.close();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
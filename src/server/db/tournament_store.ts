@@ -0,0 +1,164 @@
+import Database from 'better-sqlite3';
+import type { Database as SQLiteDB } from 'better-sqlite3';
+import {
+  TournamentPairing,
+  TournamentState,
+  TournamentStatus,
+  TournamentStore
+} from '../../battle/Tournament.js';
+
+type TournamentRow = {
+  id: string;
+  status: TournamentStatus;
+  settings: string;  // JSON
+  entrants: string;  // JSON
+  stages: number;
+  error: string | null;
+  created: number;
+  updated: number;
+};
+
+type TournamentPairingRow = {
+  tournament_id: string;
+  position: number;
+  stage: number;
+  bot_a: string;
+  bot_b: string | null;
+  seed: number;
+  status: TournamentPairing['status'];
+  winner: string | null;
+  score_a: number;
+  score_b: number;
+};
+
+const TOURNAMENT_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tournaments (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    settings TEXT NOT NULL,
+    entrants TEXT NOT NULL,
+    stages INTEGER NOT NULL,
+    error TEXT,
+    created INTEGER NOT NULL,
+    updated INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS tournament_pairings (
+    tournament_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    stage INTEGER NOT NULL,
+    bot_a TEXT NOT NULL,
+    bot_b TEXT,
+    seed INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    winner TEXT,
+    score_a INTEGER NOT NULL,
+    score_b INTEGER NOT NULL,
+    PRIMARY KEY (tournament_id, position),
+    FOREIGN KEY (tournament_id) REFERENCES tournaments(id) ON DELETE CASCADE
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_tournaments_status ON tournaments(status);
+`;
+
+/**
+ * Keeps tournaments in SQLite, so they survive a restart. Pairings get a
+ * row each; a tournament's settings and entrants are stored as JSON.
+ */
+export class SQLiteTournamentStore implements TournamentStore {
+  private db: SQLiteDB;
+
+  /**
+   * @param db A database file (or ':memory:'), or an open database
+   */
+  constructor(db: string | SQLiteDB) {
+    this.db = typeof db === 'string' ? new Database(db) : db;
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(TOURNAMENT_SCHEMA);
+  }
+
+  save(state: TournamentState): void {
+    const saveTournament = this.db.prepare(
+      `INSERT INTO tournaments (id, status, settings, entrants, stages, error, created, updated)
+       VALUES (@id, @status, @settings, @entrants, @stages, @error, @created, @updated)
+       ON CONFLICT(id) DO UPDATE SET
+         status = excluded.status, settings = excluded.settings, entrants = excluded.entrants,
+         stages = excluded.stages, error = excluded.error, updated = excluded.updated`
+    );
+    const savePairing = this.db.prepare(
+      `INSERT OR REPLACE INTO tournament_pairings
+         (tournament_id, position, stage, bot_a, bot_b, seed, status, winner, score_a, score_b)
+       VALUES (@tournament_id, @position, @stage, @bot_a, @bot_b, @seed, @status, @winner, @score_a, @score_b)`
+    );
+
+    this.db.transaction(() => {
+      const row: TournamentRow = {
+        id: state.id,
+        status: state.status,
+        settings: JSON.stringify(state.settings),
+        entrants: JSON.stringify(state.entrants),
+        stages: state.stages,
+        error: state.error,
+        created: state.created,
+        updated: state.updated
+      };
+      saveTournament.run(row);
+      state.pairings.forEach((pairing, position) => {
+        const pairingRow: TournamentPairingRow = {
+          tournament_id: state.id,
+          position,
+          stage: pairing.stage,
+          bot_a: pairing.a,
+          bot_b: pairing.b,
+          seed: pairing.seed,
+          status: pairing.status,
+          winner: pairing.winner,
+          score_a: pairing.scoreA,
+          score_b: pairing.scoreB
+        };
+        savePairing.run(pairingRow);
+      });
+    })();
+  }
+
+  load(id: string): TournamentState | null {
+    const row = this.db.prepare('SELECT * FROM tournaments WHERE id = ?').get(id) as TournamentRow | undefined;
+    return row ? this.toState(row) : null;
+  }
+
+  list(): TournamentState[] {
+    const rows = this.db.prepare('SELECT * FROM tournaments ORDER BY created, id').all() as TournamentRow[];
+    return rows.map(row => this.toState(row));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private toState(row: TournamentRow): TournamentState {
+    const pairings = this.db.prepare(
+      'SELECT * FROM tournament_pairings WHERE tournament_id = ? ORDER BY position'
+    ).all(row.id) as TournamentPairingRow[];
+
+    return {
+      id: row.id,
+      settings: JSON.parse(row.settings),
+      entrants: JSON.parse(row.entrants),
+      status: row.status,
+      stages: row.stages,
+      pairings: pairings.map(pairing => ({
+        stage: pairing.stage,
+        a: pairing.bot_a,
+        b: pairing.bot_b,
+        seed: pairing.seed,
+        status: pairing.status,
+        winner: pairing.winner,
+        scoreA: pairing.score_a,
+        scoreB: pairing.score_b
+      })),
+      error: row.error,
+      created: row.created,
+      updated: row.updated
+    };
+  }
+}
@@ -1,5 +1,14 @@
 import type { DatabaseService } from "../db/service.ts";
-import type { Battle } from "../types.ts";
+import type { RatingRow } from "../db/schema.ts";
+import type { BattleData } from "../types.ts";
+import {
+  RatingTable,
+  createRatingSystem,
+  placeBattle,
+  type BattlePlacing,
+  type Rating,
+  type RatingSystem,
+} from "../../battle/Rating.ts";
 
 export interface RankingScore {
   userId: string;
@@ -9,7 +18,8 @@ export interface RankingScore {
   losses: number;
   winRate: number;
   averageTime: number;
-  score: number;
+  score: number;      // The user's rating, rounded
+  deviation: number;  // How unsure the rating is (0 under Elo)
 }
 
 export interface RankingHistory {
@@ -20,103 +30,155 @@ export interface RankingHistory {
   scoreDelta: number;
 }
 
-export class LeaderboardService {
-  // Scoring weights
-  private readonly WIN_POINTS = 100;
-  private readonly LOSS_POINTS = -50;
-  private readonly TIME_BONUS_MULTIPLIER = 0.1; // Bonus points for quick wins
-  private readonly CONSECUTIVE_WIN_MULTIPLIER = 1.5;
+export interface BotRating extends Rating {
+  botId: string;
+}
+
+type RatingSubject = RatingRow['subject'];
 
-  constructor(private db: DatabaseService) {}
+export class LeaderboardService {
+  /**
+   * @param ratingSystem How battles move bots' and users' ratings (default: Glicko-2)
+   */
+  constructor(
+    private db: DatabaseService,
+    private ratingSystem: RatingSystem = createRatingSystem('glicko2'),
+  ) {}
 
-  private async calculateBattleScore(battle: Battle, winnerId: string): Promise<number> {
-    if (!battle.startTime || !battle.endTime) {
-      return 0;
+  async updateRankings(battleId: string): Promise<void> {
+    const battle = await this.db.getBattle(battleId);
+    if (battle.status !== 'completed') {
+      throw new Error('Cannot update rankings for incomplete battle');
     }
 
-    const battleDuration = battle.endTime.getTime() - battle.startTime.getTime();
-    const timeBonus = Math.max(0, 60000 - battleDuration) * this.TIME_BONUS_MULTIPLIER;
+    const oldRankings = await this.getLeaderboard();
+    const changes = await this.rateBattle(battle);
+    const newRankings = await this.getLeaderboard();
 
-    // Check for consecutive wins
-    const previousBattles = await this.db.listBattles('completed');
-    const userPreviousBattles = previousBattles
-      .filter(b => b.winner === winnerId)
-      .sort((a, b) =>
-        (b.endTime?.getTime() || 0) - (a.endTime?.getTime() || 0)
+    // Record ranking history
+    const timestamp = Date.now();
+    for (const [userId, { before, after }] of changes) {
+      await this.db.query(
+        `INSERT INTO ranking_history (user_id, timestamp, old_rank, new_rank, score_delta)
+         VALUES (?, ?, ?, ?, ?)`,
+        [
+          userId,
+          timestamp,
+          oldRankings.findIndex(r => r.userId === userId),
+          newRankings.findIndex(r => r.userId === userId),
+          Math.round(after.rating - before.rating),
+        ]
       );
+    }
+  }
 
-    let consecutiveWins = 0;
-    for (const battle of userPreviousBattles) {
-      if (battle.winner === winnerId) {
-        consecutiveWins++;
-      } else {
-        break;
-      }
+  /**
+   * Rate every completed battle again, oldest first, e.g. after changing the
+   * rating system. Ranking history is left as it was.
+   */
+  async recomputeRatings(): Promise<void> {
+    const battles = (await this.db.listBattles('completed'))
+      .sort((a, b) => (a.endTime?.getTime() || 0) - (b.endTime?.getTime() || 0));
+
+    await this.db.execute('DELETE FROM ratings');
+    await this.db.execute('DELETE FROM rankings');
+    for (const battle of battles) {
+      await this.rateBattle(battle);
     }
+  }
+
+  async getBotRatings(limit = 100, offset = 0): Promise<BotRating[]> {
+    const rows = await this.db.query<RatingRow>(
+      `SELECT * FROM ratings
+       WHERE subject = 'bot'
+       ORDER BY rating DESC
+       LIMIT ? OFFSET ?`,
+      [limit, offset]
+    );
+    return rows.map(row => ({ botId: row.subject_id, ...this.toRating(row) }));
+  }
+
+  /**
+   * Rate a completed battle's bots and their owners, and count the owners'
+   * wins and losses. The winner beat every other bot; a battle without one
+   * is a tie for all.
+   * @returns The owners' ratings before and after
+   */
+  private async rateBattle(battle: BattleData): Promise<Map<string, { before: Rating; after: Rating }>> {
+    const bots = placeBattle(battle.bots, battle.winner ? [battle.winner] : []);
+    const owners = await this.getOwners(battle.bots);
+    const users = bots.map(({ id, place }) => ({ id: owners.get(id)!, place }));
 
-    const consecutiveBonus = Math.pow(this.CONSECUTIVE_WIN_MULTIPLIER, consecutiveWins);
+    const botRatings = await this.loadRatings('bot', bots.map(bot => bot.id));
+    await this.saveRatings('bot', botRatings.record(bots));
 
-    return (this.WIN_POINTS + timeBonus) * consecutiveBonus;
+    const userRatings = await this.loadRatings('user', users.map(user => user.id));
+    const before = new Map(users.map(user => [user.id, userRatings.get(user.id)]));
+    const after = userRatings.record(users);
+    await this.saveRatings('user', after);
+    await this.saveRankings(users, after, battle.winner !== undefined && battle.winner !== null);
+
+    return new Map([...after].map(([userId, rating]) => [userId, { before: before.get(userId)!, after: rating }]));
   }
 
-  async updateRankings(battleId: string): Promise<void> {
-    const battle = await this.db.getBattle(battleId);
-    if (!battle.winner || battle.status !== 'completed') {
-      throw new Error('Cannot update rankings for incomplete battle');
+  // Bots that aren't in the bots table are rated as their own owner
+  private async getOwners(botIds: string[]): Promise<Map<string, string>> {
+    const owners = new Map(botIds.map(id => [id, id]));
+    for (const id of botIds) {
+      const [bot] = await this.db.query<{ owner: string }>("SELECT owner FROM bots WHERE id = ?", [id]);
+      if (bot) {
+        owners.set(id, bot.owner);
+      }
     }
+    return owners;
+  }
 
-    const winnerId = battle.winner;
-    const loserId = battle.bots.find(id => id !== winnerId);
-    if (!loserId) return;
-
-    const battleScore = await this.calculateBattleScore(battle, winnerId);
-
-    // Update winner's score
-    await this.db.query(
-      `INSERT INTO rankings (user_id, score, wins, losses, total_battles)
-       VALUES (?, ?, 1, 0, 1)
-       ON CONFLICT(user_id) DO UPDATE SET
-       score = score + ?,
-       wins = wins + 1,
-       total_battles = total_battles + 1`,
-      [winnerId, battleScore, battleScore]
-    );
-
-    // Update loser's score
-    await this.db.query(
-      `INSERT INTO rankings (user_id, score, wins, losses, total_battles)
-       VALUES (?, ?, 0, 1, 1)
-       ON CONFLICT(user_id) DO UPDATE SET
-       score = GREATEST(0, score + ?),
-       losses = losses + 1,
-       total_battles = total_battles + 1`,
-      [loserId, this.LOSS_POINTS, this.LOSS_POINTS]
+  private async loadRatings(subject: RatingSubject, ids: string[]): Promise<RatingTable> {
+    const rows = await this.db.query<RatingRow>(
+      `SELECT * FROM ratings
+       WHERE subject = ? AND subject_id IN (${ids.map(() => '?').join(', ')})`,
+      [subject, ...ids]
     );
+    return new RatingTable(this.ratingSystem, rows.map(row => [row.subject_id, this.toRating(row)]));
+  }
 
-    // Record ranking history
-    const timestamp = Date.now();
-    const rankings = await this.getLeaderboard();
-    const winnerOldRank = rankings.findIndex(r => r.userId === winnerId);
-    const loserOldRank = rankings.findIndex(r => r.userId === loserId);
+  private async saveRatings(subject: RatingSubject, ratings: Map<string, Rating>): Promise<void> {
+    for (const [id, rating] of ratings) {
+      await this.db.query(
+        `INSERT INTO ratings (subject, subject_id, rating, deviation, volatility, games)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(subject, subject_id) DO UPDATE SET
+         rating = excluded.rating,
+         deviation = excluded.deviation,
+         volatility = excluded.volatility,
+         games = excluded.games`,
+        [subject, id, rating.rating, rating.deviation, rating.volatility, rating.games]
+      );
+    }
+  }
 
-    // Re-fetch rankings after update
-    const newRankings = await this.getLeaderboard();
-    const winnerNewRank = newRankings.findIndex(r => r.userId === winnerId);
-    const loserNewRank = newRankings.findIndex(r => r.userId === loserId);
-
-    // Record history for winner
-    await this.db.query(
-      `INSERT INTO ranking_history (user_id, timestamp, old_rank, new_rank, score_delta)
-       VALUES (?, ?, ?, ?, ?)`,
-      [winnerId, timestamp, winnerOldRank, winnerNewRank, battleScore]
-    );
+  /**
+   * A user's score follows their rating. With a winner, a user with a
+   * winning bot gets a win and any other a loss.
+   */
+  private async saveRankings(users: BattlePlacing[], ratings: Map<string, Rating>, decided: boolean): Promise<void> {
+    for (const [userId, rating] of ratings) {
+      const won = users.some(user => user.id === userId && user.place === 0);
+      await this.db.query(
+        `INSERT INTO rankings (user_id, score, wins, losses, total_battles)
+         VALUES (?, ?, ?, ?, 1)
+         ON CONFLICT(user_id) DO UPDATE SET
+         score = excluded.score,
+         wins = wins + excluded.wins,
+         losses = losses + excluded.losses,
+         total_battles = total_battles + 1`,
+        [userId, Math.round(rating.rating), decided && won ? 1 : 0, decided && !won ? 1 : 0]
+      );
+    }
+  }
 
-    // Record history for loser
-    await this.db.query(
-      `INSERT INTO ranking_history (user_id, timestamp, old_rank, new_rank, score_delta)
-       VALUES (?, ?, ?, ?, ?)`,
-      [loserId, timestamp, loserOldRank, loserNewRank, this.LOSS_POINTS]
-    );
+  private toRating(row: RatingRow): Rating {
+    return { rating: row.rating, deviation: row.deviation, volatility: row.volatility, games: row.games };
   }
 
   async getLeaderboard(limit = 100, offset = 0): Promise<RankingScore[]> {
@@ -129,9 +191,11 @@ export class LeaderboardService {
         r.losses,
         CAST(r.wins AS FLOAT) / NULLIF(r.total_battles, 0) as winRate,
         r.average_time as averageTime,
-        r.score
+        r.score,
+        COALESCE(t.deviation, 0) as deviation
        FROM rankings r
        JOIN users u ON r.user_id = u.id
+       LEFT JOIN ratings t ON t.subject = 'user' AND t.subject_id = r.user_id
        ORDER BY r.score DESC
        LIMIT ? OFFSET ?`,
       [limit, offset]
@@ -153,9 +217,11 @@ export class LeaderboardService {
         r.losses,
         CAST(r.wins AS FLOAT) / NULLIF(r.total_battles, 0) as winRate,
         r.average_time as averageTime,
-        r.score
+        r.score,
+        COALESCE(t.deviation, 0) as deviation
        FROM rankings r
        JOIN users u ON r.user_id = u.id
+       LEFT JOIN ratings t ON t.subject = 'user' AND t.subject_id = r.user_id
        WHERE r.user_id = ?`,
       [userId]
     );
@@ -198,9 +264,11 @@ export class LeaderboardService {
         r.losses,
         CAST(r.wins AS FLOAT) / NULLIF(r.total_battles, 0) as winRate,
         r.average_time as averageTime,
-        r.score
+        r.score,
+        COALESCE(t.deviation, 0) as deviation
        FROM rankings r
        JOIN users u ON r.user_id = u.id
+       LEFT JOIN ratings t ON t.subject = 'user' AND t.subject_id = r.user_id
        WHERE r.total_battles >= 10
        ORDER BY ${orderBy} DESC
        LIMIT ?`,
@@ -61,23 +61,26 @@ Deno.test("LeaderboardService - Battle Scoring", async (t) => {
     assertEquals(loser.losses, 1);
   });
 
-  await t.step("Calculate Time Bonus", async () => {
-    const quickBattle: Battle = {
+  await t.step("Later Wins Move The Rating Less", async () => {
+    const before = await leaderboard.getUserRanking(user1.id);
+    const secondBattle: Battle = {
       ...battle,
       id: crypto.randomUUID(),
-      startTime: new Date(Date.now() - 5000), // 5 seconds ago
+      startTime: new Date(Date.now() - 5000),
       endTime: new Date(),
     };
 
-    await db.createBattle(quickBattle.bots);
-    await db.updateBattle(quickBattle.id, quickBattle);
-    await leaderboard.updateRankings(quickBattle.id);
+    await db.createBattle(secondBattle.bots);
+    await db.updateBattle(secondBattle.id, secondBattle);
+    await leaderboard.updateRankings(secondBattle.id);
 
     const winner = await leaderboard.getUserRanking(user1.id);
+    assertExists(before);
     assertExists(winner);
     assertEquals(winner.wins, 2);
-    // Quick battle should give more points
-    assertEquals(winner.score > 200, true);
+    // The first win, against an equal rating, counts for more than beating the same loser again
+    assertEquals(winner.score - before.score < before.score - 1500, true);
+    assertEquals(winner.deviation < before.deviation, true);
   });
 });
 
@@ -127,15 +130,20 @@ Deno.test("LeaderboardService - Top Performers", async (t) => {
   });
 });
 
-Deno.test("LeaderboardService - Consecutive Wins Bonus", async (t) => {
+Deno.test("LeaderboardService - Rating Recomputation", async (t) => {
   const { db, leaderboard, user1, user2 } = await setupTestEnvironment();
+  const user3 = await new AuthService(db, TEST_JWT_SECRET).registerUser({
+    username: "player3",
+    email: "player3@test.com",
+    password: "password123",
+  });
 
-  const createWinningBattle = async () => {
+  const createBattle = async (bots: string[], winner?: string) => {
     const battle: Battle = {
       id: crypto.randomUUID(),
-      bots: [user1.id, user2.id],
+      bots,
       status: "completed",
-      winner: user1.id,
+      winner,
       startTime: new Date(Date.now() - 30000),
       endTime: new Date(),
       events: [],
@@ -146,20 +154,23 @@ Deno.test("LeaderboardService - Consecutive Wins Bonus", async (t) => {
     await leaderboard.updateRankings(battle.id);
   };
 
-  await t.step("Consecutive Wins Increase Score", async () => {
-    const initialRanking = await leaderboard.getUserRanking(user1.id);
+  await t.step("Rates Every Bot In A Battle", async () => {
+    await createBattle([user1.id, user2.id, user3.id], user1.id);
+    await createBattle([user1.id, user2.id]);
 
-    // Win three battles in a row
-    await createWinningBattle();
-    await createWinningBattle();
-    await createWinningBattle();
+    const bots = await leaderboard.getBotRatings();
+    assertEquals(bots.length, 3);
+    assertEquals(bots[0].botId, user1.id);
+    assertEquals(bots[0].games, 2);
+  });
 
-    const finalRanking = await leaderboard.getUserRanking(user1.id);
-    assertExists(initialRanking);
-    assertExists(finalRanking);
+  await t.step("Recomputes The Same Ratings From History", async () => {
+    const before = await leaderboard.getUserRanking(user1.id);
+    const botsBefore = await leaderboard.getBotRatings();
 
-    // Each consecutive win should give more points
-    const avgPointsPerWin = finalRanking.score / finalRanking.wins;
-    assertEquals(avgPointsPerWin > 100, true);
+    await leaderboard.recomputeRatings();
+
+    assertEquals(await leaderboard.getUserRanking(user1.id), before);
+    assertEquals(await leaderboard.getBotRatings(), botsBefore);
   });
-});
\ No newline at end of file
+});
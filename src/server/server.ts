@@ -1,7 +1,7 @@
 import express from 'express';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { app } from './api.js';
+import { app, startServer } from './api.js';
 import type { Request, Response, NextFunction } from 'express';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -24,4 +24,6 @@ app.get('/health', (req: Request, res: Response) => {
 // Serve index.html for all other routes
 app.get('*', (req: Request, res: Response) => {
   res.sendFile(path.join(__dirname, '../web/index.html'));
-});
\ No newline at end of file
+});
+
+startServer();
@@ -1,6 +1,12 @@
 import { BattleState } from "../battle/BattleController.js";
 import { ProcessId } from "../battle/types.js";
 import { BattleSystem } from "../battle/BattleSystem.js";
+import { BattlePool } from "../battle/BattlePool.js";
+import { MatchResult } from "../battle/Match.js";
+import { Tournament, TournamentFormatName, TournamentStanding, TournamentState } from "../battle/Tournament.js";
+import { HillChallengeResult, HillSettings, HillStanding } from "../battle/Hill.js";
+import { VictoryRuleName } from "../battle/Victory.js";
+import { MemoryCells } from "../memory/MemorySystem.js";
 import { WebSocket } from 'ws';
 
 // Database Bot type without runtime properties
@@ -46,11 +52,47 @@ export interface Battle extends BattleData {
   reset(): void;
   getState(): BattleState;
   addProcess(processId: ProcessId): void;
-  getMemory(): Uint8Array;
+  getMemory(): MemoryCells;
   executeStep(): void;
   getProcessManager(): any; // Returns the battle's ProcessManager
 }
 
+// A match between uploaded bots, played in the background
+export interface MatchData {
+  id: string;
+  bots: string[];  // Array of bot IDs
+  rounds: number;
+  status: 'running' | 'completed' | 'failed';
+  completedRounds: number;
+  result?: MatchResult;
+  error?: string;
+  startTime: Date;
+  endTime?: Date;
+}
+
+// A tournament's saved state with its standings so far
+export interface TournamentData extends TournamentState {
+  standings: TournamentStanding[];
+}
+
+// The king-of-the-hill ladder
+export interface HillData {
+  settings: HillSettings;
+  challenges: number;
+  standings: HillStanding[];
+}
+
+// A bot's challenge for the hill, played in the background
+export interface HillChallengeData {
+  id: string;
+  botId: string;
+  status: 'running' | 'completed' | 'failed';
+  result?: HillChallengeResult;
+  error?: string;
+  startTime: Date;
+  endTime?: Date;
+}
+
 export interface BattleEvent {
   timestamp: number;
   type: 'instruction' | 'memory' | 'status' | 'victory';
@@ -79,6 +121,26 @@ export interface BattleCreateRequest {
   bots: string[];
 }
 
+export interface MatchCreateRequest {
+  bots: string[];
+  rounds?: number;  // Default DEFAULT_MATCH_ROUNDS
+  seed?: number;
+  victory?: VictoryRuleName;
+}
+
+export interface TournamentCreateRequest {
+  bots: string[];           // In seeding order
+  format: TournamentFormatName;
+  roundsPerMatch?: number;  // Default DEFAULT_MATCH_ROUNDS
+  swissRounds?: number;
+  seed?: number;
+  victory?: VictoryRuleName;
+}
+
+export interface HillChallengeRequest {
+  botId: string;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -96,7 +158,11 @@ export interface WebSocketClient {
 export interface Storage {
   bots: Map<string, Bot>;
   battles: Map<string, Battle>;
+  matches: Map<string, MatchData>;
+  tournaments: Map<string, Tournament>; // Every stored tournament, running or not
+  hillChallenges: Map<string, HillChallengeData>;
   clients: Map<string, WebSocketClient>;
+  battlePool?: BattlePool | null; // When set, createBattle() battles run on its worker threads
   createProcess(code: string, name: string): Promise<ProcessId>;
   createBattle(battleId: string): Battle;
 }
@@ -117,31 +117,20 @@ export class WebSocketServer {
 
     // Generate code
     const instructions = this.codeGenerator.encode(parseResult.tokens, parseResult.symbols);
-    let generatedCode = this.codeGenerator.layout(instructions, parseResult.symbols);
+    const generatedCode = this.codeGenerator.layout(instructions, parseResult.symbols);
     
     // Get memory size from battle
     const memorySize = battle.memorySize || 65536;
     
     // Randomly place the bot in memory
     const maxStartAddress = memorySize - 1024; // Leave some room at the end
-    const memoryBase = Math.floor(Math.random() * maxStartAddress);
+    const random = battle.battleSystem.getRandom();
+    const memoryBase = random.nextInt(maxStartAddress);
     
-    // Relocate to the random address
+    // Relocate to the random address (updates the segments and entry point in place)
     this.codeGenerator.relocate(memoryBase);
     
-    // Get the layout again after relocation to get updated segment addresses
-    generatedCode = this.codeGenerator.layout(instructions, parseResult.symbols);
-    
-    // Update entry point after relocation - randomize within the code segment
-    if (generatedCode.segments.length > 0) {
-      const codeSegment = generatedCode.segments[0];
-      // Random offset within the code segment (but aligned to instruction boundary)
-      const maxOffset = Math.max(0, codeSegment.size - 3); // Leave room for at least one instruction
-      const randomOffset = Math.floor(Math.random() * (maxOffset / 3)) * 3; // Align to 3-byte boundary
-      generatedCode.entryPoint = codeSegment.start + randomOffset;
-    }
-    
-    console.log(`Bot ${name} placed at 0x${memoryBase.toString(16)}, random PC: 0x${generatedCode.entryPoint.toString(16)}`);
+    console.log(`Bot ${name} placed at 0x${memoryBase.toString(16)}, entry point: 0x${generatedCode.entryPoint.toString(16)}`);
 
     // Create process in the battle's process manager
     const processManager = battle.getProcessManager();